@@ -3,6 +3,18 @@
 // Following Architecture.md Section 6 specifications
 // DEBUG: Added logging to getTableRecords method
 // INSTALL UPDATES: Added installUpdates method for batch operations
+// SNAPSHOT: Added snapshot status and rescan methods for the persisted update scan
+// PLUGINS: Added installPlugins - platform plugin batches share the install_updates endpoint
+// RELEASE NOTES: Added getReleaseNotes for the aggregated release notes endpoint
+// INSTALL REQUEST: installUpdates sends the versioned item schema built by buildInstallRequest
+// INSTALL PLAN: Added getInstallPlan - dry run of the same payload
+// OUTCOMES: Added getInstallBatchOutcomes - per-app state of a running or finished batch
+// CANCEL: Added cancelInstallBatch - 403/404/409 answers surface the server message
+// RETRY: Added getInstallBatchRetry - requests carry retry_of to link the retry to its original batch
+// LOCK: Added getInstallLock / releaseInstallLock - a 409 from install_updates names the running batch
+// ASYNC: install_updates answers 202 with a queued batch - getInstallBatchStatus reports its progress_id once started
+// RETRY POLICY: Retries are set per method and endpoint - POSTs are not retried; install POSTs carry an X-Idempotency-Key
+// LOGS: Added getInstallBatchLogs - syslog / upgrade log / tracker entries of a batch window (admins only)
 
 import { logger, createLogContext } from '../monitoring/logger';
 import type {
@@ -17,13 +29,256 @@ import type {
 import { createApiRequestConfig, createPerformanceMetrics, createRequestInterceptor } from '../types/api';
 
 // Install Updates API types
-interface InstallUpdatesRequest {
-  apps: string; // Comma-separated sys_ids
+export const INSTALL_REQUEST_SCHEMA_VERSION = 1;
+
+// Only the values the install subflow applies are accepted: load_demo_data false, notes empty
+export interface InstallItemOptions {
+  load_demo_data?: boolean;
+  notes?: string;
+}
+
+export interface InstallRequestItem {
+  application?: string;    // Application sys_id - derived from target_version by the server when omitted
+  target_version: string;  // sys_app_version sys_id to install
+  order: number;           // Install order within the batch
+  options?: InstallItemOptions;
+}
+
+export interface InstallBatchRequest {
+  schema_version: typeof INSTALL_REQUEST_SCHEMA_VERSION;
+  client_request_id: string;
+  label?: string;
+  continue_on_error: boolean;
+  retry_of?: string;       // Batch whose failed / skipped items this request retries
+  items: InstallRequestItem[];
+}
+
+export interface InstallBatchSettings {
+  label?: string;
+  continueOnError?: boolean;
+  clientRequestId?: string;
+  retryOf?: string;
+}
+
+export type InstallTarget = Omit<InstallRequestItem, 'order'>;
+
+// One field-level validation error from the install_updates endpoint (HTTP 400)
+export interface InstallRequestFieldError {
+  field: string;
+  message: string;
+}
+
+export const createClientRequestId = (): string => crypto.randomUUID?.() ?? `install_${Date.now()}`;
+
+/**
+ * Build a versioned install request - items are installed in the order given
+ */
+export const buildInstallRequest = (
+  targets: InstallTarget[],
+  settings: InstallBatchSettings = {}
+): InstallBatchRequest => ({
+  schema_version: INSTALL_REQUEST_SCHEMA_VERSION,
+  client_request_id: settings.clientRequestId ?? createClientRequestId(),
+  ...(settings.label && { label: settings.label }),
+  continue_on_error: settings.continueOnError ?? false,
+  ...(settings.retryOf && { retry_of: settings.retryOf }),
+  items: targets.map((target, index) => ({ ...target, order: index }))
+});
+
+// Install plan (dry run) types
+export type InstallPlanJump = 'fresh' | 'major' | 'minor' | 'patch' | 'no' | 'downgrade';
+
+export interface InstallPlanDependency {
+  scope: string;
+  name: string;
+  required_version: string;
+  installed_version: string;
+  is_plugin: boolean;
+  status: 'satisfied' | 'update' | 'missing' | 'unavailable';
+  application: string;
+  available_version: string;
+  version: string;
+}
+
+// Install duration estimate (InstallDurationEstimator) - low/high bound the likely duration
+export interface InstallDurationEstimate {
+  seconds: number;
+  low_seconds: number;
+  high_seconds: number;
+  basis: 'version' | 'application' | 'default'; // History of the same version, the same app, or a default by jump
+  samples: number;                               // Install durations behind the estimate - 0 for defaults
+}
+
+export interface InstallEstimateSummary {
+  seconds: number;
+  low_seconds: number;
+  high_seconds: number;
+  confidence: 'high' | 'medium' | 'low'; // Medium / low when history is thin or missing - the band is wider
+}
+
+export interface InstallBatchRemaining extends InstallEstimateSummary {
+  remaining_items: number; // Queued and installing items
+}
+
+export interface InstallPlanItem {
+  order: number;
+  application: string;
+  name: string;
+  scope: string;
+  installed_version: string; // Empty for fresh installs
+  target_version: string;    // sys_app_version sys_id
+  version: string;
+  jump: InstallPlanJump;
+  compatibility: 'compatible' | 'incompatible' | 'unknown';
+  compatibility_reason: string;
+  dependencies: InstallPlanDependency[];
+  added_as_dependency: boolean;
+  required_by: string[];     // Names of the plan items that need this dependency update
+  status: 'ready' | 'blocked' | 'incompatible';
+  blocked_reasons: string[];
+  estimated_seconds: number;
+  estimate: InstallDurationEstimate | null; // Null for blocked and incompatible items
+  options: Required<InstallItemOptions>;
+}
+
+export interface InstallPlanResponse {
+  success: boolean;
+  request: Omit<InstallBatchRequest, 'items' | 'schema_version'> & { schema_version: number };
+  items: InstallPlanItem[]; // Install order - dependencies before the items that need them
+  summary: {
+    item_count: number;
+    requested_count: number;
+    dependency_count: number;
+    blocked_count: number;
+    incompatible_count: number;
+    jumps: Record<'fresh' | 'major' | 'minor' | 'patch', number>;
+    estimated_seconds: number;
+    estimate: InstallEstimateSummary;
+    installable: boolean;
+  };
+  timestamp: string;
+}
+
+export type InstallBatchItemState = 'queued' | 'installing' | 'succeeded' | 'failed' | 'skipped';
+
+export interface InstallBatchItemOutcome {
+  sys_id: string;
+  order: number;
+  application: string;      // Empty for plugin batches
+  plugin_id: string;
+  name: string;
+  installed_version: string;
+  target_version: string;
+  version: string;
+  state: InstallBatchItemState;
+  error: string;
+  progress_id: string;      // sys_execution_tracker of the installer run of this item
+  started_on: string;       // UTC, yyyy-MM-dd HH:mm:ss
+  completed_on: string;
+  duration_ms: number | null; // Succeeded items only
+}
+
+// Batch record as reported by the batch endpoints (InstallBatchService._describeBatch)
+export interface InstallBatchState {
+  sys_id: string;
+  kind: 'app' | 'plugin';
+  label: string;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  status_message: string;
+  progress_id: string;        // Progress record of the latest item run - empty while the batch is queued
+  error: string;
+  app_count: number;
+  requested_on: string;       // UTC 'yyyy-MM-dd HH:mm:ss'
+  completed_on: string;
+  cancel_requested: boolean;
+  continue_on_error: boolean;  // Later items still run after one fails
+  parent_batch: string;
+}
+
+export interface InstallBatchStatusResponse {
+  success: boolean;
+  batch: InstallBatchState;
+  timestamp: string;
+}
+
+export interface InstallBatchOutcomesResponse {
+  success: boolean;
+  batch: InstallBatchState;
+  items: InstallBatchItemOutcome[];
+  summary: Record<InstallBatchItemState, number>;
+  failed_item: InstallBatchItemOutcome | null; // The item that broke a failed batch
+  remaining: InstallBatchRemaining | null;      // Time left while the batch runs
+  timestamp: string;
 }
 
-interface InstallUpdatesResponse {
+export interface InstallBatchCancelResponse extends InstallBatchOutcomesResponse {
+  cancelled: boolean; // False while the installing item finishes - the batch ends as cancelled afterwards
+}
+
+export interface InstallBatchRetryResponse {
   success: boolean;
+  batch_id: string;
+  kind: 'app' | 'plugin';
+  request: { label?: string; continue_on_error?: boolean; retry_of: string }; // Server-built body - the client rebuilds it with its own request id
+  retry_items: InstallBatchItemOutcome[];        // Failed / skipped items that still apply
+  not_applicable: { name: string; version: string; reason: string }[];
+  timestamp: string;
+}
+
+export type InstallLogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// One log entry of a batch (InstallBatchLogService)
+export interface InstallLogEntry {
+  id: string;
+  time: string;             // UTC, yyyy-MM-dd HH:mm:ss
+  level: InstallLogLevel;
+  origin: 'syslog' | 'upgrade' | 'tracker';
+  source: string;
+  message: string;
+  created_by: string;
+}
+
+export interface InstallBatchLogsResponse {
+  success: boolean;
+  batch_id: string;
+  window: { start: string; end: string }; // Batch time window with a margin, UTC
+  entries: InstallLogEntry[];             // Oldest first
+  truncated: boolean;                     // A log table had more entries than were returned, or the window was capped
+  timestamp: string;
+}
+
+// Running batch that blocks new installs (InstallBatchService.getLock)
+export interface InstallBatchLock {
+  batch_id: string;
+  label: string;
+  kind: 'app' | 'plugin';
+  requester: string;
+  requester_name: string;
+  owned: boolean;         // Started by the current user - the dashboard re-attaches to it after a reload
+  requested_on: string;   // UTC 'yyyy-MM-dd HH:mm:ss'
   progress_id: string;
+  last_activity: string;  // UTC - last update of the progress record (requested_on before it exists)
+  stale: boolean;         // Idle long enough for an admin to release the lock
+}
+
+export interface InstallLockResponse {
+  success: boolean;
+  locked: boolean;
+  lock: InstallBatchLock | null;
+  timestamp: string;
+}
+
+type InstallUpdatesRequest =
+  | InstallBatchRequest
+  | { plugins: string; retry_of?: string }; // Comma-separated plugin ids (sys_plugins.source)
+
+// 202 - the batch is recorded and queued; poll getInstallBatchStatus for its progress_id
+// 200 with duplicate - the idempotency key was already used; batch_id is the batch that call started
+export interface InstallUpdatesResponse {
+  success: boolean;
+  batch_id: string;           // x_snc_store_upda_1_install_batch record of this batch
+  status: 'queued' | InstallBatchState['status'];
+  duplicate?: boolean;
   status_message: string;
   app_count: number;
   apps_requested: string;
@@ -34,6 +289,55 @@ interface InstallUpdatesErrorResponse {
   success: false;
   error: string;
   message: string;
+  errors?: InstallRequestFieldError[]; // Set for invalid install requests
+  timestamp: string;
+}
+
+// Store update snapshot API types
+export interface SnapshotStatusResponse {
+  success: boolean;
+  scan_id: string | null;
+  scanned_on: string | null; // UTC, yyyy-MM-dd HH:mm:ss
+  row_count: number;
+  app_count: number;
+  timestamp: string;
+}
+
+export interface SnapshotRescanResponse {
+  success: boolean;
+  scan_id: string;
+  scanned_on: string;
+  trigger: 'manual' | 'sync';
+  app_count: number;
+  row_count: number;
+  superseded: boolean; // A newer-started scan completed first - its rows are the snapshot
+  version_queries: number;
+  // Per-phase durations in ms (load_apps, load_versions, classify, finalize, build_rows,
+  // resolve_dependencies, check_compatibility, write_snapshot, total)
+  timings: Record<string, number>;
+  duration_ms: number;
+  timestamp: string;
+}
+
+// Release notes between the installed and a target version
+export interface ReleaseNotesVersion {
+  sys_id: string;
+  version: string;
+  publish_date: string;
+  short_description: string;
+  release_notes: string; // HTML as stored on sys_app_version
+}
+
+export interface ReleaseNotesResponse {
+  success: boolean;
+  application: {
+    sys_id: string;
+    name: string;
+    scope: string;
+    installed_version: string;
+  };
+  target_version: string;
+  versions: ReleaseNotesVersion[]; // Ascending version order, installed version excluded
   timestamp: string;
 }
 
@@ -41,6 +345,26 @@ interface InternalRequestConfig extends ApiRequestConfig {
   url: string;
 }
 
+type HttpMethod = ApiRequestConfig['method'];
+
+// RETRY POLICY: Default retries per method - a timed-out POST / PATCH may still have done its work on the server
+const METHOD_RETRIES: Record<HttpMethod, number> = {
+  GET: 3,
+  PUT: 3,
+  DELETE: 3,
+  POST: 0,
+  PATCH: 0
+};
+
+// Endpoint overrides of METHOD_RETRIES - first match wins, an explicit config.retries wins over both
+const ENDPOINT_RETRIES: { method: HttpMethod; pattern: RegExp; retries: number }[] = [
+  // Polled every few seconds - the next poll is the retry
+  { method: 'GET', pattern: /\/api\/sn_cicd\/progress\//, retries: 0 },
+  { method: 'GET', pattern: /\/api\/x_snc_store_upda_1\/install_updates\/batches\/[^/?]+(\?|$)/, retries: 0 }
+];
+
+export const IDEMPOTENCY_KEY_HEADER = 'X-Idempotency-Key';
+
 class ServiceNowApiService {
   private baseUrl: string;
   private interceptors: RequestInterceptor[] = [];
@@ -170,8 +494,11 @@ class ServiceNowApiService {
     let fullUrl = url.startsWith('http') ? url : `${this.baseUrl}${url}`;
     fullUrl = this.buildUrlWithParams(fullUrl, config.params);
     
-    // Create complete config with defaults
-    const baseConfig = createApiRequestConfig(config);
+    // Create complete config with defaults - retries follow the method / endpoint policy unless set
+    const baseConfig = createApiRequestConfig({
+      ...config,
+      retries: config.retries ?? this.getRetryPolicy(config.method ?? 'GET', fullUrl)
+    });
     const requestConfig: InternalRequestConfig = {
       ...baseConfig,
       url: fullUrl
@@ -281,6 +608,11 @@ class ServiceNowApiService {
     throw lastError;
   }
 
+  private getRetryPolicy(method: HttpMethod, url: string): number {
+    const override = ENDPOINT_RETRIES.find(policy => policy.method === method && policy.pattern.test(url));
+    return override ? override.retries : METHOD_RETRIES[method];
+  }
+
   private async executeRequest<T>(config: InternalRequestConfig): Promise<ApiResponse<T>> {
     const { url, method, data, headers, timeout } = config;
 
@@ -306,7 +638,16 @@ class ServiceNowApiService {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        // Keep status and body so callers can read ServiceNow error details (e.g. field-level 400s)
+        const httpError = new Error(`HTTP ${response.status}: ${response.statusText}`) as Error & { status: number; response: unknown };
+        httpError.status = response.status;
+        httpError.response = {
+          data: await response.json().catch(() => undefined),
+          status: response.status,
+          statusText: response.statusText,
+          headers: {}
+        };
+        throw httpError;
       }
 
       const responseData = await response.json();
@@ -479,22 +820,43 @@ class ServiceNowApiService {
   }
 
   // INSTALL UPDATES: ServiceNow Store Updates specific method
-  public async installUpdates(apps: string[]): Promise<InstallUpdatesResponse> {
+  // The client request id doubles as the idempotency key - resending the same request returns its batch
+  public async installUpdates(request: InstallBatchRequest): Promise<InstallUpdatesResponse> {
+    return this.startInstallBatch(request, request.items.map(item => item.target_version), request.client_request_id);
+  }
+
+  // PLUGINS: Activate / upgrade platform plugins through the same install endpoint and progress tracking
+  public async installPlugins(
+    pluginIds: string[],
+    retryOf?: string,
+    idempotencyKey: string = createClientRequestId()
+  ): Promise<InstallUpdatesResponse> {
+    return this.startInstallBatch(
+      { plugins: pluginIds.join(','), ...(retryOf && { retry_of: retryOf }) },
+      pluginIds,
+      idempotencyKey
+    );
+  }
+
+  private async startInstallBatch(
+    requestData: InstallUpdatesRequest,
+    ids: string[],
+    idempotencyKey: string
+  ): Promise<InstallUpdatesResponse> {
     const startTime = performance.now();
+    const kind = 'plugins' in requestData ? 'plugins' : 'apps';
     
     logger.info('Installing updates via service layer', createLogContext({
-      appCount: apps.length,
-      apps: apps.join(',')
+      kind,
+      appCount: ids.length,
+      ids: ids.join(',')
     }));
 
     try {
-      const requestData: InstallUpdatesRequest = {
-        apps: apps.join(',')
-      };
-
       const response = await this.post<InstallUpdatesResponse | InstallUpdatesErrorResponse>(
         `/api/x_snc_store_upda_1/install_updates`,
-        requestData
+        requestData,
+        { headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } }
       );
 
       const result = response.result;
@@ -507,8 +869,9 @@ class ServiceNowApiService {
       const successResult = result as InstallUpdatesResponse;
       const duration = performance.now() - startTime;
 
-      logger.info('Install updates completed successfully', createLogContext({
-        progressId: successResult.progress_id,
+      logger.info(successResult.duplicate ? 'Install request already accepted - using its batch' : 'Install batch queued', createLogContext({
+        batchId: successResult.batch_id,
+        idempotencyKey,
         appCount: successResult.app_count,
         statusMessage: successResult.status_message,
         duration: Math.round(duration)
@@ -518,12 +881,17 @@ class ServiceNowApiService {
 
     } catch (error) {
       const duration = performance.now() - startTime;
+      // 403: not an admin; 409: another batch holds the install lock - the message names it
+      error = (error as ApiError).status === 403 || (error as ApiError).status === 409
+        ? this.toServerMessageError(error)
+        : this.toInstallRequestError(error);
       
       logger.error('Install updates failed', 
         error instanceof Error ? error : new Error(String(error)),
         createLogContext({
-          appCount: apps.length,
-          apps: apps.join(','),
+          kind,
+          appCount: ids.length,
+          ids: ids.join(','),
           duration: Math.round(duration)
         })
       );
@@ -532,6 +900,194 @@ class ServiceNowApiService {
     }
   }
 
+  // INSTALL REQUEST: Surface field-level validation errors instead of the bare HTTP status
+  private toInstallRequestError(error: unknown): unknown {
+    const body = (error as ApiError).response?.data as { result?: InstallUpdatesErrorResponse } | undefined;
+
+    if ((error as ApiError).status !== 400 || !body?.result?.errors?.length) {
+      return error;
+    }
+
+    return new Error(`Install request rejected: ${body.result.errors
+      .map(entry => entry.field ? `${entry.field} - ${entry.message}` : entry.message)
+      .join('; ')}`);
+  }
+
+  // Batch endpoints answer 403/404/409 with a readable message in the body
+  private toServerMessageError(error: unknown): unknown {
+    const body = (error as ApiError).response?.data as { result?: { message?: string } } | undefined;
+    return body?.result?.message ? new Error(body.result.message) : error;
+  }
+
+  // INSTALL PLAN: What an install request would do, without installing anything
+  public async getInstallPlan(request: InstallBatchRequest): Promise<InstallPlanResponse> {
+    let response: ApiResponse<InstallPlanResponse>;
+    try {
+      response = await this.post<InstallPlanResponse>(
+        `/api/x_snc_store_upda_1/install_updates/plan`,
+        request,
+        { retries: 0 }
+      );
+    } catch (error) {
+      throw this.toInstallRequestError(error);
+    }
+
+    logger.info('Install plan loaded', createLogContext({
+      clientRequestId: request.client_request_id,
+      itemCount: response.result.summary.item_count,
+      dependencyCount: response.result.summary.dependency_count,
+      installable: response.result.summary.installable
+    }));
+
+    return response.result;
+  }
+
+  // ASYNC: Status of a queued / running batch - progress_id is set once the installer has started
+  public async getInstallBatchStatus(batchId: string): Promise<InstallBatchStatusResponse> {
+    const response = await this.get<InstallBatchStatusResponse>(
+      `/api/x_snc_store_upda_1/install_updates/batches/${batchId}`
+    );
+    return response.result;
+  }
+
+  // OUTCOMES: Per-app state of a batch - the server syncs running batches from the progress record of each item
+  public async getInstallBatchOutcomes(batchId: string): Promise<InstallBatchOutcomesResponse> {
+    const response = await this.get<InstallBatchOutcomesResponse>(
+      `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/items`
+    );
+    return response.result;
+  }
+
+  // CANCEL: Queued items are skipped at once, the installing item is never interrupted
+  public async cancelInstallBatch(batchId: string): Promise<InstallBatchCancelResponse> {
+    try {
+      const response = await this.post<InstallBatchCancelResponse>(
+        `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/cancel`,
+        {},
+        { retries: 0 }
+      );
+
+      logger.info('Install batch cancel requested', createLogContext({
+        batchId,
+        cancelled: response.result.cancelled,
+        skipped: response.result.summary.skipped
+      }));
+
+      return response.result;
+    } catch (error) {
+      throw this.toServerMessageError(error);
+    }
+  }
+
+  // LOCK: The running batch that blocks new installs, if any
+  public async getInstallLock(): Promise<InstallLockResponse> {
+    const response = await this.get<InstallLockResponse>(
+      `/api/x_snc_store_upda_1/install_updates/lock`
+    );
+    return response.result;
+  }
+
+  // LOCK: Ends a stale running batch as failed so new installs can start (admins only)
+  public async releaseInstallLock(batchId: string): Promise<InstallBatchOutcomesResponse> {
+    try {
+      const response = await this.post<InstallBatchOutcomesResponse>(
+        `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/release`,
+        {},
+        { retries: 0 }
+      );
+
+      logger.warn('Install lock released', createLogContext({
+        batchId,
+        status: response.result.batch.status
+      }));
+
+      return response.result;
+    } catch (error) {
+      throw this.toServerMessageError(error);
+    }
+  }
+
+  // RETRY: Failed / skipped items of a finished batch, re-checked by the server
+  public async getInstallBatchRetry(batchId: string): Promise<InstallBatchRetryResponse> {
+    try {
+      const response = await this.get<InstallBatchRetryResponse>(
+        `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/retry`,
+        { retries: 0 }
+      );
+      return response.result;
+    } catch (error) {
+      throw this.toServerMessageError(error);
+    }
+  }
+
+  // LOGS: Log entries of a batch window - 403 for non-admins surfaces the server message
+  public async getInstallBatchLogs(batchId: string): Promise<InstallBatchLogsResponse> {
+    try {
+      const response = await this.get<InstallBatchLogsResponse>(
+        `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/logs`,
+        { timeout: 30000 }
+      );
+
+      logger.info('Install batch logs loaded', createLogContext({
+        batchId,
+        entryCount: response.result.entries.length,
+        truncated: response.result.truncated
+      }));
+
+      return response.result;
+    } catch (error) {
+      throw this.toServerMessageError(error);
+    }
+  }
+
+  // SNAPSHOT: Persisted store updates scan
+
+  public async getSnapshotStatus(): Promise<SnapshotStatusResponse> {
+    const response = await this.get<SnapshotStatusResponse>(
+      `/api/x_snc_store_upda_1/store_updates/snapshot`
+    );
+    return response.result;
+  }
+
+  public async rescanSnapshot(trigger: 'manual' | 'sync' = 'manual'): Promise<SnapshotRescanResponse> {
+    const startTime = performance.now();
+
+    logger.info('Requesting store updates snapshot rescan', createLogContext({ trigger }));
+
+    // A full scan can take a while on large instances - no retries, the scan is not idempotent
+    const response = await this.post<SnapshotRescanResponse>(
+      `/api/x_snc_store_upda_1/store_updates/snapshot/rescan`,
+      { trigger },
+      { timeout: 120000, retries: 0 }
+    );
+
+    logger.info('Store updates snapshot rescan completed', createLogContext({
+      trigger,
+      scanId: response.result.scan_id,
+      rowCount: response.result.row_count,
+      duration: Math.round(performance.now() - startTime)
+    }));
+
+    return response.result;
+  }
+
+  // RELEASE NOTES: Every version between installed and target
+
+  public async getReleaseNotes(applicationId: string, targetVersionId: string): Promise<ReleaseNotesResponse> {
+    const response = await this.get<ReleaseNotesResponse>(
+      `/api/x_snc_store_upda_1/store_updates/release_notes`,
+      { params: { application: applicationId, target: targetVersionId } }
+    );
+
+    logger.info('Release notes loaded', createLogContext({
+      applicationId,
+      targetVersionId,
+      versionCount: response.result.versions.length
+    }));
+
+    return response.result;
+  }
+
   // Parallel processing utilities
 
   public async parallel<T>(requests: Promise<ApiResponse<T>>[]): Promise<ApiResponse<T>[]> {
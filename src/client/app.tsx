@@ -4,11 +4,13 @@
 // RESTORED: Full version with theme switcher and all features
 // UPDATED: Reduced Stack gap from "lg" to "xs" for consistent spacing with cards
 // FIXED: Removed props from FloatingThemeSwitcher as it uses its own hooks
+// ROUTES: HashRouter - dashboard (#/), install history (#/history) and batch details (#/history/:batchId)
 
 import React, { useMemo, Suspense } from 'react';
 import { MantineProvider, Container, Stack, Center, Loader } from '@mantine/core';
 import { Notifications } from '@mantine/notifications';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { HashRouter, Routes, Route, Navigate } from 'react-router-dom';
 
 import { useThemeManagement } from '../hooks/useThemeManagement';
 import { usePerformanceTracking } from '../hooks/usePerformanceTracking';
@@ -19,6 +21,8 @@ import { logger, createLogContext } from '../monitoring/logger';
 // Import lazy components and loading fallback
 import {
   StoreUpdatesDashboard,
+  InstallHistoryPage,
+  InstallBatchDetail,
   DevelopmentDebugPanel,
   NavigationHeader,
   FloatingThemeSwitcher,
@@ -84,52 +88,85 @@ const AppContent: React.FC = () => {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <Notifications />
+      <HashRouter>
+        <Notifications />
       
-      {/* CDN Resource Debugger (debug mode only) */}
-      <Suspense fallback={null}>
-        <CDNResourceDebugger />
-      </Suspense>
+        {/* CDN Resource Debugger (debug mode only) */}
+        <Suspense fallback={null}>
+          <CDNResourceDebugger />
+        </Suspense>
       
-      {/* Floating Theme Switcher */}
-      <Suspense fallback={null}>
-        <FloatingThemeSwitcher />
-      </Suspense>
+        {/* Floating Theme Switcher */}
+        <Suspense fallback={null}>
+          <FloatingThemeSwitcher />
+        </Suspense>
       
-      {/* Main Application Content with Error Boundaries */}
-      <Container 
-        size="xl" 
-        py="md"
-        data-theme-background="true"
-      >
-        <Stack gap="xs">
-          {/* Development Debug Panel (debug mode only) */}
-          {debugMode && (
-            <FeatureErrorBoundary featureName="DebugPanel">
+        {/* Main Application Content with Error Boundaries */}
+        <Container 
+          size="xl" 
+          py="md"
+          data-theme-background="true"
+        >
+          <Stack gap="xs">
+            {/* Development Debug Panel (debug mode only) */}
+            {debugMode && (
+              <FeatureErrorBoundary featureName="DebugPanel">
+                <Suspense fallback={<ComponentLoadingSpinner />}>
+                  <DevelopmentDebugPanel />
+                </Suspense>
+              </FeatureErrorBoundary>
+            )}
+          
+            {/* Navigation Header */}
+            <FeatureErrorBoundary featureName="Navigation">
               <Suspense fallback={<ComponentLoadingSpinner />}>
-                <DevelopmentDebugPanel />
+                <NavigationHeader />
               </Suspense>
             </FeatureErrorBoundary>
-          )}
-          
-          {/* Navigation Header */}
-          <FeatureErrorBoundary featureName="Navigation">
-            <Suspense fallback={<ComponentLoadingSpinner />}>
-              <NavigationHeader />
-            </Suspense>
-          </FeatureErrorBoundary>
           
-          {/* Main Dashboard */}
-          <FeatureErrorBoundary featureName="StoreUpdatesDashboard">
-            <Suspense fallback={<ComponentLoadingSpinner />}>
-              <StoreUpdatesDashboard 
-                showHeader={false}
-                compactMode={false}
+            <Routes>
+              {/* Main Dashboard */}
+              <Route
+                path="/"
+                element={
+                  <FeatureErrorBoundary featureName="StoreUpdatesDashboard">
+                    <Suspense fallback={<ComponentLoadingSpinner />}>
+                      <StoreUpdatesDashboard 
+                        showHeader={false}
+                        compactMode={false}
+                      />
+                    </Suspense>
+                  </FeatureErrorBoundary>
+                }
               />
-            </Suspense>
-          </FeatureErrorBoundary>
-        </Stack>
-      </Container>
+
+              {/* Install Batch History */}
+              <Route
+                path="/history"
+                element={
+                  <FeatureErrorBoundary featureName="InstallHistory">
+                    <Suspense fallback={<ComponentLoadingSpinner />}>
+                      <InstallHistoryPage />
+                    </Suspense>
+                  </FeatureErrorBoundary>
+                }
+              />
+              <Route
+                path="/history/:batchId"
+                element={
+                  <FeatureErrorBoundary featureName="InstallBatchDetail">
+                    <Suspense fallback={<ComponentLoadingSpinner />}>
+                      <InstallBatchDetail />
+                    </Suspense>
+                  </FeatureErrorBoundary>
+                }
+              />
+
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </Stack>
+        </Container>
+      </HashRouter>
     </QueryClientProvider>
   );
 };
@@ -0,0 +1,216 @@
+// src/client/components/mantine/AvailableAppsPanel.tsx
+// Entitled Store applications that are not installed yet
+// ARCHITECTURE COMPLIANT: UI rendering only - data and selection from useAvailableApps,
+// installation through the shared confirmation modal (useStoreUpdatesActions.handleInstallAvailable)
+
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Checkbox,
+  TextInput,
+  Badge,
+  Alert,
+  Tooltip,
+  ActionIcon,
+  Center,
+  Loader,
+  Progress
+} from '@mantine/core';
+import {
+  IconSearch,
+  IconDownload,
+  IconRefresh,
+  IconAlertCircle,
+  IconPackage
+} from '@tabler/icons-react';
+
+import { useAvailableApps } from '../../../hooks/useAvailableApps';
+import { useBatchProgressStore } from '../../../stores/batchProgressStore';
+import { GenericButton } from '../../../components/mantine/Button';
+import { GenericTable } from '../../../components/mantine/Table';
+import { logger } from '../../../monitoring/logger';
+
+interface AvailableAppsPanelProps {
+  canInstall: boolean;
+  isInstalling: boolean;
+  compactMode?: boolean;
+  onInstallSelected: (versionIds: string[]) => void;
+}
+
+export const AvailableAppsPanel: React.FC<AvailableAppsPanelProps> = ({
+  canInstall,
+  isInstalling,
+  compactMode = false,
+  onInstallSelected
+}) => {
+  const availableApps = useAvailableApps();
+  const { filteredApps, selectedApps } = availableApps;
+  const progress = useBatchProgressStore(state => state.progress);
+  const progressMessage = useBatchProgressStore(state => state.message);
+
+  const allVisibleSelected = filteredApps.length > 0 && filteredApps.every(app => availableApps.isSelected(app.sys_id));
+  const someVisibleSelected = filteredApps.some(app => availableApps.isSelected(app.sys_id));
+
+  const handleInstall = () => {
+    onInstallSelected(selectedApps.map(app => app.available_version || app.sys_id));
+    availableApps.clearSelection();
+  };
+
+  if (availableApps.error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Available Applications" color="red">
+        <Text mb="md">Unable to fetch available applications: {availableApps.error}</Text>
+        <GenericButton leftSection={<IconRefresh size={16} />} onClick={() => { void availableApps.refresh(); }} size="sm">
+          Try Again
+        </GenericButton>
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap={compactMode ? 'xs' : 'sm'} w="100%">
+      <Group justify="space-between" w="100%">
+        <Group gap="md">
+          <TextInput
+            placeholder="Search name, scope, publisher..."
+            leftSection={<IconSearch size={16} />}
+            value={availableApps.search}
+            onChange={(e) => availableApps.setSearch(e.currentTarget.value)}
+            size="sm"
+            w={280}
+          />
+          <Text size="sm" c="dimmed">
+            {filteredApps.length} of {availableApps.apps.length} applications
+          </Text>
+          {selectedApps.length > 0 && (
+            <Badge color="blue" variant="light" size="sm">
+              {selectedApps.length} selected
+            </Badge>
+          )}
+        </Group>
+
+        <Group gap="sm">
+          <Tooltip label="Reload available applications">
+            <ActionIcon
+              variant="light"
+              size="lg"
+              onClick={() => { void availableApps.refresh(); }}
+              loading={availableApps.isFetching}
+              aria-label="Reload available applications"
+            >
+              <IconRefresh size={18} />
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip
+            label={!canInstall
+              ? 'The installer role is required for installation operations'
+              : isInstalling
+                ? 'Please wait for current operation to complete'
+                : 'Install the latest version of each selected application'}
+          >
+            <GenericButton
+              size={compactMode ? 'sm' : 'md'}
+              leftSection={<IconDownload size={16} />}
+              onClick={handleInstall}
+              disabled={!canInstall || isInstalling || selectedApps.length === 0}
+              loading={isInstalling}
+            >
+              Install Selected
+            </GenericButton>
+          </Tooltip>
+        </Group>
+      </Group>
+
+      {/* Installs share the batch progress store with the updates tab */}
+      {isInstalling && (
+        <Alert color="blue" variant="light">
+          <Stack gap="xs">
+            <Group justify="space-between">
+              <Text size="sm" fw={500}>Installation in Progress</Text>
+              <Text size="xs" c="dimmed">{Math.round(progress)}%</Text>
+            </Group>
+            <Progress value={progress} size="sm" animated />
+            <Text size="xs" c="dimmed">{progressMessage}</Text>
+          </Stack>
+        </Alert>
+      )}
+
+      {availableApps.isLoading ? (
+        <Center py="xl">
+          <Loader size="md" />
+        </Center>
+      ) : filteredApps.length === 0 ? (
+        <Center py="xl">
+          <Stack align="center" gap="xs">
+            <IconPackage size={32} />
+            <Text c="dimmed">
+              {availableApps.apps.length === 0
+                ? 'All entitled Store applications are installed.'
+                : 'No applications match your search.'}
+            </Text>
+          </Stack>
+        </Center>
+      ) : (
+        <GenericTable
+          data={filteredApps}
+          loading={false}
+          highlightOnHover
+          onError={(error) => logger.error('Available apps table error', error)}
+        >
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th w={40}>
+                <Checkbox
+                  checked={allVisibleSelected}
+                  indeterminate={someVisibleSelected && !allVisibleSelected}
+                  onChange={(e) => availableApps.setVisibleSelected(e.currentTarget.checked)}
+                  aria-label="Select all visible applications"
+                />
+              </Table.Th>
+              <Table.Th>Application</Table.Th>
+              <Table.Th>Publisher</Table.Th>
+              <Table.Th>Latest Version</Table.Th>
+              <Table.Th>Description</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {filteredApps.map(app => (
+              <Table.Tr
+                key={app.sys_id}
+                style={{ cursor: 'pointer' }}
+                onClick={() => availableApps.toggleApp(app.sys_id)}
+              >
+                <Table.Td>
+                  <Checkbox
+                    checked={availableApps.isSelected(app.sys_id)}
+                    onChange={() => availableApps.toggleApp(app.sys_id)}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Select ${app.name}`}
+                  />
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm" fw={500}>{app.name}</Text>
+                  <Text size="xs" c="dimmed">{app.scope}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm">{app.publisher || '—'}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Badge variant="light" color="blue">{app.latest_version}</Badge>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm" lineClamp={2}>{app.description}</Text>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </GenericTable>
+      )}
+    </Stack>
+  );
+};
+
+export default AvailableAppsPanel;
@@ -0,0 +1,352 @@
+// src/client/components/mantine/InstallBatchDetail.tsx
+// One install batch (#/history/:batchId) - who, when, outcome and the apps it touched
+// ARCHITECTURE COMPLIANT: UI rendering only - data from useInstallBatch
+// OUTCOMES: Items show their own state, error and progress record (batches recorded before outcomes only list items)
+// RETRY: Admins retry the failed / skipped items of a finished batch - retries are listed under their original batch
+// LOGS: Admins get the install log of the batch window (level filter, search, download) - open by default on failures
+
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  Paper,
+  Stack,
+  Group,
+  Title,
+  Text,
+  Badge,
+  Alert,
+  Table,
+  Center,
+  Loader,
+  Anchor,
+  SimpleGrid,
+  Modal,
+  Button,
+  List
+} from '@mantine/core';
+import {
+  IconAlertCircle,
+  IconRefresh,
+  IconArrowLeft,
+  IconArrowRight,
+  IconExternalLink,
+  IconRotateClockwise
+} from '@tabler/icons-react';
+
+import {
+  useInstallBatch,
+  useInstallBatchOutcomes,
+  useInstallBatchRetries,
+  useInstallBatchRetry,
+  formatBatchDuration,
+  ITEM_STATE_BADGES
+} from '../../../hooks/useInstallBatches';
+import { useEnhancedUserContext } from '../../../hooks/useUserContext';
+import { GenericButton } from '../../../components/mantine/Button';
+import { BATCH_STATUS_BADGES } from './InstallHistoryPage';
+import { buildAppManagerUrl } from './StoreUpdatesDataGrid';
+import { InstallBatchLogPanel } from './InstallBatchLogPanel';
+
+interface RetryModalProps {
+  batchId: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+// Preview of the retry (what is retried, what no longer applies) before a linked batch is started
+const RetryModal: React.FC<RetryModalProps> = ({ batchId, opened, onClose }) => {
+  const navigate = useNavigate();
+  const { retry, isLoading, error, submit, isSubmitting, submitError } = useInstallBatchRetry(batchId, opened);
+
+  const handleSubmit = async () => {
+    if (!retry) return;
+    const response = await submit(retry);
+    onClose();
+    navigate(`/history/${response.batch_id}`);
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Retry Failed Items" size="lg" centered>
+      <Stack gap="md">
+        {error ? (
+          <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+            <Text size="sm">{error}</Text>
+          </Alert>
+        ) : isLoading || !retry ? (
+          <Center py="md">
+            <Loader size="sm" />
+          </Center>
+        ) : (
+          <>
+            {retry.retry_items.length > 0 ? (
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  {retry.retry_items.length} item{retry.retry_items.length !== 1 ? 's' : ''} will be installed in a new batch:
+                </Text>
+                <List size="sm">
+                  {retry.retry_items.map(item => (
+                    <List.Item key={item.sys_id}>
+                      {item.name || item.plugin_id}{item.version ? ` ${item.version}` : ''}
+                    </List.Item>
+                  ))}
+                </List>
+              </Stack>
+            ) : (
+              <Text size="sm">None of the failed or skipped items still need to be installed.</Text>
+            )}
+            {retry.not_applicable.length > 0 && (
+              <Stack gap={4}>
+                <Text size="sm" fw={500} c="dimmed">Not retried:</Text>
+                <List size="sm" c="dimmed">
+                  {retry.not_applicable.map(item => (
+                    <List.Item key={`${item.name}-${item.version}`}>
+                      {item.name}{item.version ? ` ${item.version}` : ''} - {item.reason}
+                    </List.Item>
+                  ))}
+                </List>
+              </Stack>
+            )}
+          </>
+        )}
+
+        {submitError && (
+          <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+            <Text size="sm">{submitError}</Text>
+          </Alert>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose} disabled={isSubmitting}>
+            Close
+          </Button>
+          <GenericButton
+            leftSection={<IconRotateClockwise size={16} />}
+            onClick={handleSubmit}
+            loading={isSubmitting}
+            disabled={!retry || retry.retry_items.length === 0}
+          >
+            Start Retry
+          </GenericButton>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <Text size="xs" c="dimmed">{label}</Text>
+    <Text size="sm" component="div">{children}</Text>
+  </div>
+);
+
+export const InstallBatchDetail: React.FC = () => {
+  const { batchId = '' } = useParams<{ batchId: string }>();
+  const { batch, isLoading, error, refresh } = useInstallBatch(batchId);
+  const { outcomes } = useInstallBatchOutcomes(batch ? batchId : null, batch?.status === 'running');
+  const retries = useInstallBatchRetries(batchId);
+  const { isAdmin } = useEnhancedUserContext();
+  const [isRetryOpen, setIsRetryOpen] = useState(false);
+
+  const backLink = (
+    <Anchor component={Link} to="/history" size="sm">
+      <Group gap={4}>
+        <IconArrowLeft size={14} />
+        Install history
+      </Group>
+    </Anchor>
+  );
+
+  if (error) {
+    return (
+      <Paper p="md" radius="md">
+        <Stack gap="md">
+          {backLink}
+          <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Install Batch" color="red">
+            <Text size="sm" mb="sm">{error}</Text>
+            <GenericButton leftSection={<IconRefresh size={16} />} onClick={() => { void refresh(); }} size="xs">
+              Try Again
+            </GenericButton>
+          </Alert>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  if (isLoading || !batch) {
+    return (
+      <Center py="xl">
+        <Loader size="md" />
+      </Center>
+    );
+  }
+
+  const status = BATCH_STATUS_BADGES[batch.status];
+  const outcomeByOrder = new Map((outcomes?.items ?? []).map(item => [item.order, item]));
+  const retryableCount = (outcomes?.summary.failed ?? 0) + (outcomes?.summary.skipped ?? 0);
+  const canRetry = isAdmin && batch.status !== 'running' && retryableCount > 0;
+
+  return (
+    <Paper p="md" radius="md">
+      <Stack gap="md">
+        <Group justify="space-between">
+          {backLink}
+          <Anchor href={`/x_snc_store_upda_1_install_batch.do?sys_id=${batch.sys_id}`} target="_blank" rel="noopener noreferrer" size="sm">
+            <Group gap={4}>
+              Open record
+              <IconExternalLink size={14} />
+            </Group>
+          </Anchor>
+        </Group>
+
+        <Group justify="space-between">
+          <Group gap="sm">
+            <Title order={3}>{batch.label || (batch.kind === 'plugin' ? 'Plugin batch' : 'Application batch')}</Title>
+            <Badge variant="light" color={status?.color || 'gray'}>{status?.label || batch.status}</Badge>
+          </Group>
+          {canRetry && (
+            <GenericButton
+              variant="light"
+              size="xs"
+              leftSection={<IconRotateClockwise size={14} />}
+              onClick={() => setIsRetryOpen(true)}
+            >
+              Retry failed ({retryableCount})
+            </GenericButton>
+          )}
+        </Group>
+
+        <SimpleGrid cols={{ base: 2, md: 4 }} spacing="md">
+          <Field label="Requester">{batch.requesterName}</Field>
+          <Field label="Requested">{batch.requestedOn?.toLocaleString() ?? '—'}</Field>
+          <Field label="Completed">{batch.completedOn?.toLocaleString() ?? '—'}</Field>
+          <Field label="Duration">{formatBatchDuration(batch.durationMs)}</Field>
+          <Field label="Kind">{batch.kind === 'plugin' ? 'Platform plugins' : 'Applications'}</Field>
+          <Field label="Progress ID">
+            {batch.progressId ? (
+              <Anchor href={`/sys_execution_tracker.do?sys_id=${batch.progressId}`} target="_blank" rel="noopener noreferrer" size="sm">
+                {batch.progressId}
+              </Anchor>
+            ) : '—'}
+          </Field>
+          <Field label="Client Request ID">{batch.clientRequestId || '—'}</Field>
+          {batch.parentBatch && (
+            <Field label="Retry Of">
+              <Anchor component={Link} to={`/history/${batch.parentBatch}`} size="sm">
+                {batch.parentBatchLabel || batch.parentBatch}
+              </Anchor>
+            </Field>
+          )}
+          <Field label="Status Message">{batch.statusMessage || '—'}</Field>
+          {batch.cancelRequested && (
+            <Field label="Cancelled By">{batch.cancelledByName || '—'}</Field>
+          )}
+        </SimpleGrid>
+
+        {retries.length > 0 && (
+          <Group gap="xs">
+            <Text size="sm" c="dimmed">Retries:</Text>
+            {retries.map(retryBatch => (
+              <Anchor key={retryBatch.sys_id} component={Link} to={`/history/${retryBatch.sys_id}`} size="sm">
+                <Group gap={4}>
+                  {retryBatch.requestedOn?.toLocaleString() ?? retryBatch.sys_id}
+                  <Badge size="xs" variant="light" color={BATCH_STATUS_BADGES[retryBatch.status]?.color || 'gray'}>
+                    {BATCH_STATUS_BADGES[retryBatch.status]?.label || retryBatch.status}
+                  </Badge>
+                </Group>
+              </Anchor>
+            ))}
+          </Group>
+        )}
+
+        {batch.error && (
+          <Alert icon={<IconAlertCircle size={16} />} title="Error" color="red" variant="light">
+            <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{batch.error}</Text>
+          </Alert>
+        )}
+
+        <Table verticalSpacing="xs" fz="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>#</Table.Th>
+              <Table.Th>{batch.kind === 'plugin' ? 'Plugin' : 'Application'}</Table.Th>
+              {batch.kind === 'app' && <Table.Th>Version</Table.Th>}
+              {outcomeByOrder.size > 0 && <Table.Th>State</Table.Th>}
+              <Table.Th>Links</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {batch.items.map(item => {
+              const id = item.application || item.plugin_id || '';
+              const outcome = outcomeByOrder.get(item.order);
+              return (
+                <Table.Tr key={`${item.order}-${id}`}>
+                  <Table.Td>{item.order + 1}</Table.Td>
+                  <Table.Td>
+                    <Text size="sm" fw={500}>{item.name || id}</Text>
+                    {outcome?.error && (
+                      <Text size="xs" c="red" style={{ whiteSpace: 'pre-wrap' }}>{outcome.error}</Text>
+                    )}
+                  </Table.Td>
+                  {batch.kind === 'app' && (
+                    <Table.Td>
+                      <Group gap={4} wrap="nowrap">
+                        <Text size="sm" c="dimmed">{item.installed_version || '—'}</Text>
+                        <IconArrowRight size={12} />
+                        <Text size="sm" fw={500}>{item.version || item.target_version}</Text>
+                      </Group>
+                    </Table.Td>
+                  )}
+                  {outcomeByOrder.size > 0 && (
+                    <Table.Td>
+                      {outcome && (
+                        <Badge size="sm" variant="light" color={ITEM_STATE_BADGES[outcome.state]?.color || 'gray'}>
+                          {ITEM_STATE_BADGES[outcome.state]?.label || outcome.state}
+                        </Badge>
+                      )}
+                    </Table.Td>
+                  )}
+                  <Table.Td>
+                    <Group gap="sm">
+                      {outcome?.progress_id && (
+                        <Anchor href={`/sys_execution_tracker.do?sys_id=${outcome.progress_id}`} target="_blank" rel="noopener noreferrer" size="sm">
+                          Tracker
+                        </Anchor>
+                      )}
+                      {batch.kind === 'app' && item.application && (
+                        <Anchor href={buildAppManagerUrl(item.application, item.version)} target="_blank" rel="noopener noreferrer" size="sm">
+                          <Group gap={4}>
+                            App Manager
+                            <IconExternalLink size={12} />
+                          </Group>
+                        </Anchor>
+                      )}
+                      {id && (
+                        <Anchor component={Link} to={`/history?application=${id}`} size="sm">
+                          Batches for this {batch.kind === 'plugin' ? 'plugin' : 'app'}
+                        </Anchor>
+                      )}
+                    </Group>
+                  </Table.Td>
+                </Table.Tr>
+              );
+            })}
+          </Table.Tbody>
+        </Table>
+
+        {isAdmin && (
+          <InstallBatchLogPanel
+            key={batch.sys_id}
+            batchId={batch.sys_id}
+            running={batch.status === 'running'}
+            defaultOpened={batch.status === 'failed'}
+          />
+        )}
+      </Stack>
+
+      <RetryModal batchId={batchId} opened={isRetryOpen} onClose={() => setIsRetryOpen(false)} />
+    </Paper>
+  );
+};
+
+export default InstallBatchDetail;
@@ -0,0 +1,201 @@
+// src/client/components/mantine/InstallBatchLogPanel.tsx
+// Log entries of one install batch - syslog, upgrade log and tracker messages of the batch window
+// ARCHITECTURE COMPLIANT: UI rendering only - data, level filter, search and download from useInstallBatchLogs
+
+import React, { useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  Select,
+  Badge,
+  Alert,
+  Center,
+  Loader,
+  ScrollArea,
+  Button,
+  ActionIcon,
+  Tooltip
+} from '@mantine/core';
+import {
+  IconSearch,
+  IconDownload,
+  IconAlertCircle,
+  IconRefresh,
+  IconChevronDown,
+  IconChevronRight
+} from '@tabler/icons-react';
+
+import type { InstallLogLevel } from '../../../api/apiService';
+import { useInstallBatchLogs, INSTALL_LOG_LEVELS } from '../../../hooks/useInstallBatchLogs';
+import { parseServiceNowUtc } from '../../../hooks/useStoreUpdatesSnapshot';
+import { GenericButton } from '../../../components/mantine/Button';
+
+interface InstallBatchLogPanelProps {
+  batchId: string;
+  running: boolean;
+  defaultOpened?: boolean; // Failed batches open with the log shown
+  maxHeight?: string;
+}
+
+const LEVEL_BADGES: Record<InstallLogLevel, { color: string; label: string }> = {
+  debug: { color: 'gray', label: 'Debug' },
+  info: { color: 'blue', label: 'Info' },
+  warning: { color: 'yellow', label: 'Warning' },
+  error: { color: 'red', label: 'Error' }
+};
+
+const ORIGIN_LABELS: Record<string, string> = {
+  syslog: 'System log',
+  upgrade: 'Upgrade log',
+  tracker: 'Tracker'
+};
+
+export const InstallBatchLogPanel: React.FC<InstallBatchLogPanelProps> = ({
+  batchId,
+  running,
+  defaultOpened = false,
+  maxHeight = '50vh'
+}) => {
+  const [opened, setOpened] = useState(defaultOpened);
+  const batchLogs = useInstallBatchLogs(batchId, opened, running);
+  const { logs, filteredEntries, levelCounts } = batchLogs;
+
+  const levelOptions = INSTALL_LOG_LEVELS.map(level => ({
+    value: level,
+    label: `${LEVEL_BADGES[level].label}${level === 'error' ? '' : ' and above'} (${
+      INSTALL_LOG_LEVELS.slice(INSTALL_LOG_LEVELS.indexOf(level)).reduce((sum, item) => sum + levelCounts[item], 0)
+    })`
+  }));
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Button
+          variant="subtle"
+          size="compact-sm"
+          leftSection={opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+          onClick={() => setOpened(value => !value)}
+        >
+          Install Log
+        </Button>
+        {opened && logs && (
+          <Group gap="xs">
+            {levelCounts.error > 0 && (
+              <Badge size="sm" variant="light" color="red">
+                {levelCounts.error} error{levelCounts.error !== 1 ? 's' : ''}
+              </Badge>
+            )}
+            {levelCounts.warning > 0 && (
+              <Badge size="sm" variant="light" color="yellow">
+                {levelCounts.warning} warning{levelCounts.warning !== 1 ? 's' : ''}
+              </Badge>
+            )}
+            <Tooltip label="Reload log">
+              <ActionIcon
+                variant="subtle"
+                size="sm"
+                onClick={() => { void batchLogs.refresh(); }}
+                loading={batchLogs.isFetching}
+                aria-label="Reload log"
+              >
+                <IconRefresh size={14} />
+              </ActionIcon>
+            </Tooltip>
+            <GenericButton
+              size="xs"
+              variant="light"
+              leftSection={<IconDownload size={14} />}
+              onClick={batchLogs.download}
+              disabled={filteredEntries.length === 0}
+            >
+              Download
+            </GenericButton>
+          </Group>
+        )}
+      </Group>
+
+      {opened && (batchLogs.error ? (
+        <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Install Log" color="red" variant="light">
+          <Text size="sm" mb="sm">{batchLogs.error}</Text>
+          <GenericButton leftSection={<IconRefresh size={16} />} onClick={() => { void batchLogs.refresh(); }} size="xs">
+            Try Again
+          </GenericButton>
+        </Alert>
+      ) : batchLogs.isLoading || !logs ? (
+        <Center py="md">
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm" c="dimmed">Loading install log...</Text>
+          </Group>
+        </Center>
+      ) : (
+        <>
+          <Group gap="sm" align="flex-end">
+            <TextInput
+              placeholder="Search messages and sources..."
+              leftSection={<IconSearch size={16} />}
+              value={batchLogs.search}
+              onChange={event => batchLogs.setSearch(event.currentTarget.value)}
+              size="sm"
+              style={{ flex: 1 }}
+            />
+            <Select
+              data={levelOptions}
+              value={batchLogs.minLevel}
+              onChange={value => batchLogs.setMinLevel((value || 'info') as InstallLogLevel)}
+              allowDeselect={false}
+              size="sm"
+              w={220}
+            />
+          </Group>
+
+          <Text size="xs" c="dimmed">
+            {parseServiceNowUtc(logs.window.start)?.toLocaleString()} to {parseServiceNowUtc(logs.window.end)?.toLocaleString()}
+            {' · '}{filteredEntries.length} of {logs.entries.length} entries
+          </Text>
+
+          {logs.truncated && (
+            <Alert icon={<IconAlertCircle size={16} />} color="yellow" variant="light" p="xs">
+              <Text size="sm">
+                Not every log entry of the batch is shown - the list is capped per log table and to the first hours of long batches. Open the system log for the full list.
+              </Text>
+            </Alert>
+          )}
+
+          <ScrollArea.Autosize mah={maxHeight} scrollbarSize={8}>
+            <Stack gap={4}>
+              {filteredEntries.map(entry => (
+                <Group key={`${entry.origin}-${entry.id}`} gap="xs" wrap="nowrap" align="flex-start">
+                  <Text size="xs" c="dimmed" ff="monospace" style={{ whiteSpace: 'nowrap' }}>
+                    {parseServiceNowUtc(entry.time)?.toLocaleTimeString() ?? entry.time}
+                  </Text>
+                  <Badge size="xs" variant="light" color={LEVEL_BADGES[entry.level].color} style={{ flexShrink: 0 }}>
+                    {LEVEL_BADGES[entry.level].label}
+                  </Badge>
+                  <Tooltip label={`${ORIGIN_LABELS[entry.origin] || entry.origin}${entry.created_by ? ` · ${entry.created_by}` : ''}`}>
+                    <Text size="xs" fw={500} style={{ whiteSpace: 'nowrap' }}>{entry.source}</Text>
+                  </Tooltip>
+                  <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {entry.message}
+                  </Text>
+                </Group>
+              ))}
+
+              {filteredEntries.length === 0 && (
+                <Text c="dimmed" ta="center" py="md" size="sm">
+                  {logs.entries.length === 0
+                    ? 'No log entries mention this batch or its apps.'
+                    : 'No log entries match the level and search.'}
+                </Text>
+              )}
+            </Stack>
+          </ScrollArea.Autosize>
+        </>
+      ))}
+    </Stack>
+  );
+};
+
+export default InstallBatchLogPanel;
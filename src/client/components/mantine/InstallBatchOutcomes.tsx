@@ -0,0 +1,134 @@
+// src/client/components/mantine/InstallBatchOutcomes.tsx
+// Per-app outcome table of one install batch - live under the progress bar, final on the batch detail view
+// ARCHITECTURE COMPLIANT: UI rendering only - outcomes come from useInstallBatchOutcomes
+
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Alert,
+  Table,
+  Center,
+  Loader,
+  ScrollArea,
+  Anchor
+} from '@mantine/core';
+import { IconAlertCircle, IconArrowRight } from '@tabler/icons-react';
+
+import type { InstallBatchOutcomesResponse, InstallBatchItemState } from '../../../api/apiService';
+import { ITEM_STATE_BADGES } from '../../../hooks/useInstallBatches';
+
+interface InstallBatchOutcomesProps {
+  outcomes: InstallBatchOutcomesResponse | null;
+  isLoading: boolean;
+  error: string | null;
+  maxHeight?: string;
+}
+
+const SUMMARY_ORDER: InstallBatchItemState[] = ['succeeded', 'installing', 'queued', 'failed', 'skipped'];
+
+export const InstallBatchOutcomes: React.FC<InstallBatchOutcomesProps> = ({
+  outcomes,
+  isLoading,
+  error,
+  maxHeight = '40vh'
+}) => {
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light" p="xs">
+        <Text size="sm">Per-app status unavailable: {error}</Text>
+      </Alert>
+    );
+  }
+
+  if (isLoading || !outcomes) {
+    return (
+      <Center py="xs">
+        <Loader size="xs" />
+      </Center>
+    );
+  }
+
+  if (outcomes.items.length === 0) {
+    return null;
+  }
+
+  const isPluginBatch = outcomes.batch.kind === 'plugin';
+
+  return (
+    <Stack gap="xs">
+      <Group gap="xs">
+        {SUMMARY_ORDER.filter(state => outcomes.summary[state] > 0).map(state => (
+          <Badge key={state} size="sm" variant="light" color={ITEM_STATE_BADGES[state].color}>
+            {outcomes.summary[state]} {ITEM_STATE_BADGES[state].label.toLowerCase()}
+          </Badge>
+        ))}
+      </Group>
+
+      {outcomes.failed_item && (
+        <Text size="sm" c="red">
+          Failed at {outcomes.failed_item.name || outcomes.failed_item.plugin_id}
+          {outcomes.failed_item.version ? ` ${outcomes.failed_item.version}` : ''}
+        </Text>
+      )}
+
+      <ScrollArea.Autosize mah={maxHeight} scrollbarSize={8}>
+        <Table verticalSpacing={4} horizontalSpacing="xs" fz="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>#</Table.Th>
+              <Table.Th>{isPluginBatch ? 'Plugin' : 'Application'}</Table.Th>
+              {!isPluginBatch && <Table.Th>Version</Table.Th>}
+              <Table.Th>State</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {outcomes.items.map(item => (
+              <Table.Tr key={item.sys_id}>
+                <Table.Td>{item.order + 1}</Table.Td>
+                <Table.Td>
+                  <Stack gap={2}>
+                    <Text size="sm" fw={500}>{item.name || item.plugin_id || item.application}</Text>
+                    {item.error && (
+                      <Text size="xs" c="red" style={{ whiteSpace: 'pre-wrap' }}>{item.error}</Text>
+                    )}
+                  </Stack>
+                </Table.Td>
+                {!isPluginBatch && (
+                  <Table.Td>
+                    <Group gap={4} wrap="nowrap">
+                      <Text size="sm" c="dimmed">{item.installed_version || '—'}</Text>
+                      <IconArrowRight size={12} />
+                      <Text size="sm" fw={500}>{item.version || item.target_version}</Text>
+                    </Group>
+                  </Table.Td>
+                )}
+                <Table.Td>
+                  <Group gap={6} wrap="nowrap">
+                    <Badge size="sm" variant="light" color={ITEM_STATE_BADGES[item.state]?.color || 'gray'}>
+                      {ITEM_STATE_BADGES[item.state]?.label || item.state}
+                    </Badge>
+                    {item.progress_id && (
+                      <Anchor
+                        href={`/sys_execution_tracker.do?sys_id=${item.progress_id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        size="xs"
+                      >
+                        Tracker
+                      </Anchor>
+                    )}
+                  </Group>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+    </Stack>
+  );
+};
+
+export default InstallBatchOutcomes;
@@ -0,0 +1,48 @@
+// src/client/components/mantine/InstallEstimateLabel.tsx
+// Estimated install duration with its likely range - used by the install plan and the progress panel
+// ARCHITECTURE COMPLIANT: UI rendering only - estimates come from the install plan / batch outcomes endpoints
+
+import React from 'react';
+import { Group, Text, Tooltip, Badge } from '@mantine/core';
+import { IconClock } from '@tabler/icons-react';
+
+import type { InstallEstimateSummary } from '../../../api/apiService';
+import {
+  formatEstimatedDuration,
+  formatEstimateRange,
+  ESTIMATE_CONFIDENCE_LABELS
+} from '../../../hooks/useInstallPlan';
+
+interface InstallEstimateLabelProps {
+  estimate: InstallEstimateSummary;
+  suffix?: string; // e.g. "left"
+}
+
+const CONFIDENCE_COLORS: Record<InstallEstimateSummary['confidence'], string> = {
+  high: 'green',
+  medium: 'yellow',
+  low: 'gray'
+};
+
+export const InstallEstimateLabel: React.FC<InstallEstimateLabelProps> = ({ estimate, suffix }) => (
+  <Tooltip
+    label={`Likely ${formatEstimateRange(estimate)} - ${ESTIMATE_CONFIDENCE_LABELS[estimate.confidence]}`}
+    multiline
+    w={260}
+  >
+    <Group gap={4} wrap="nowrap">
+      <IconClock size={14} />
+      <Text size="sm" c="dimmed">
+        {formatEstimatedDuration(estimate.seconds)}{suffix ? ` ${suffix}` : ''}
+        {estimate.confidence !== 'high' && ` (${formatEstimateRange(estimate)})`}
+      </Text>
+      {estimate.confidence !== 'high' && (
+        <Badge size="xs" variant="light" color={CONFIDENCE_COLORS[estimate.confidence]}>
+          {estimate.confidence} confidence
+        </Badge>
+      )}
+    </Group>
+  </Tooltip>
+);
+
+export default InstallEstimateLabel;
@@ -0,0 +1,251 @@
+// src/client/components/mantine/InstallHistoryPage.tsx
+// Install history route (#/history) - every recorded install batch with filters
+// ARCHITECTURE COMPLIANT: UI rendering only - data and filters from useInstallBatches
+// RETRY: Retry batches render under the batch they retried (when both are in the filtered list)
+
+import React, { useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Paper,
+  Stack,
+  Group,
+  Title,
+  Text,
+  TextInput,
+  Select,
+  Badge,
+  Alert,
+  Table,
+  Center,
+  Loader,
+  Anchor,
+  CloseButton
+} from '@mantine/core';
+import {
+  IconSearch,
+  IconAlertCircle,
+  IconRefresh,
+  IconArrowLeft,
+  IconHistory,
+  IconCornerDownRight
+} from '@tabler/icons-react';
+
+import {
+  useInstallBatches,
+  formatBatchDuration,
+  type InstallBatch,
+  type InstallBatchFilters,
+  type InstallBatchStatus
+} from '../../../hooks/useInstallBatches';
+import { GenericButton } from '../../../components/mantine/Button';
+
+export const BATCH_STATUS_BADGES: Record<InstallBatchStatus, { color: string; label: string }> = {
+  running: { color: 'blue', label: 'Running' },
+  succeeded: { color: 'green', label: 'Succeeded' },
+  failed: { color: 'red', label: 'Failed' },
+  cancelled: { color: 'gray', label: 'Cancelled' }
+};
+
+const STATUS_OPTIONS = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'running', label: 'Running' },
+  { value: 'succeeded', label: 'Succeeded' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+const KIND_OPTIONS = [
+  { value: 'all', label: 'Apps & plugins' },
+  { value: 'app', label: 'Applications' },
+  { value: 'plugin', label: 'Platform plugins' }
+];
+
+const RANGE_OPTIONS = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'all', label: 'All time' }
+];
+
+// Orders the list so each retry follows the batch it retried; orphaned retries stay at the top level
+const nestRetries = (batches: InstallBatch[]): { batch: InstallBatch; depth: number }[] => {
+  const ids = new Set(batches.map(batch => batch.sys_id));
+  const children = new Map<string, InstallBatch[]>();
+  batches.forEach(batch => {
+    if (batch.parentBatch && ids.has(batch.parentBatch)) {
+      const siblings = children.get(batch.parentBatch) ?? [];
+      siblings.push(batch);
+      children.set(batch.parentBatch, siblings);
+    }
+  });
+
+  const rows: { batch: InstallBatch; depth: number }[] = [];
+  const visit = (batch: InstallBatch, depth: number) => {
+    rows.push({ batch, depth });
+    // Retries are listed oldest first under their parent
+    [...(children.get(batch.sys_id) ?? [])].reverse().forEach(child => visit(child, depth + 1));
+  };
+  batches
+    .filter(batch => !batch.parentBatch || !ids.has(batch.parentBatch))
+    .forEach(batch => visit(batch, 0));
+  return rows;
+};
+
+export const InstallHistoryPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const applicationParam = searchParams.get('application') || '';
+  const history = useInstallBatches({ application: applicationParam });
+  const { batches, filters, updateFilter } = history;
+
+  // "Batches for this app" links change the query string while the page stays mounted
+  useEffect(() => {
+    if (filters.application !== applicationParam) {
+      updateFilter('application', applicationParam);
+    }
+  }, [applicationParam, filters.application, updateFilter]);
+
+  const rows = nestRetries(batches);
+
+  const applicationName = applicationParam
+    ? batches.flatMap(batch => batch.items).find(item => item.application === applicationParam)?.name
+    : undefined;
+
+  return (
+    <Paper p="md" radius="md">
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <IconHistory size={22} />
+            <Title order={3}>Install History</Title>
+          </Group>
+          <Group gap="xs">
+            <Anchor component={Link} to="/" size="sm">
+              <Group gap={4}>
+                <IconArrowLeft size={14} />
+                Back to dashboard
+              </Group>
+            </Anchor>
+            <GenericButton
+              variant="light"
+              size="xs"
+              leftSection={<IconRefresh size={14} />}
+              loading={history.isFetching}
+              onClick={() => { void history.refresh(); }}
+            >
+              Refresh
+            </GenericButton>
+          </Group>
+        </Group>
+
+        <Group gap="sm" align="flex-end">
+          <TextInput
+            placeholder="Search label, requester or app..."
+            leftSection={<IconSearch size={16} />}
+            value={filters.search}
+            onChange={event => updateFilter('search', event.currentTarget.value)}
+            style={{ flex: 1 }}
+          />
+          <Select
+            data={STATUS_OPTIONS}
+            value={filters.status}
+            onChange={value => updateFilter('status', (value || 'all') as InstallBatchFilters['status'])}
+            allowDeselect={false}
+            w={160}
+          />
+          <Select
+            data={KIND_OPTIONS}
+            value={filters.kind}
+            onChange={value => updateFilter('kind', (value || 'all') as InstallBatchFilters['kind'])}
+            allowDeselect={false}
+            w={170}
+          />
+          <Select
+            data={RANGE_OPTIONS}
+            value={filters.range}
+            onChange={value => updateFilter('range', (value || '30d') as InstallBatchFilters['range'])}
+            allowDeselect={false}
+            w={150}
+          />
+        </Group>
+
+        {applicationParam && (
+          <Group gap="xs">
+            <Text size="sm" c="dimmed">Batches that touched</Text>
+            <Badge
+              variant="light"
+              rightSection={
+                <CloseButton size="xs" aria-label="Clear application filter" onClick={() => setSearchParams({})} />
+              }
+            >
+              {applicationName || applicationParam}
+            </Badge>
+          </Group>
+        )}
+
+        {history.error ? (
+          <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Install History" color="red">
+            <Text size="sm">{history.error}</Text>
+          </Alert>
+        ) : history.isLoading ? (
+          <Center py="xl">
+            <Loader size="md" />
+          </Center>
+        ) : batches.length === 0 ? (
+          <Center py="xl">
+            <Text c="dimmed">No install batches match the filters.</Text>
+          </Center>
+        ) : (
+          <Table verticalSpacing="xs" fz="sm" highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Requested</Table.Th>
+                <Table.Th>Requester</Table.Th>
+                <Table.Th>Batch</Table.Th>
+                <Table.Th>Items</Table.Th>
+                <Table.Th>Status</Table.Th>
+                <Table.Th>Duration</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map(({ batch, depth }) => (
+                <Table.Tr key={batch.sys_id}>
+                  <Table.Td>{batch.requestedOn?.toLocaleString() ?? '—'}</Table.Td>
+                  <Table.Td>{batch.requesterName}</Table.Td>
+                  <Table.Td style={{ paddingLeft: depth > 0 ? `calc(${depth} * 1.5rem)` : undefined }}>
+                    <Group gap={4} wrap="nowrap">
+                      {depth > 0 && <IconCornerDownRight size={14} />}
+                      <Anchor component={Link} to={`/history/${batch.sys_id}`} size="sm" fw={500}>
+                        {batch.label || (batch.kind === 'plugin' ? 'Plugin batch' : 'Application batch')}
+                      </Anchor>
+                    </Group>
+                    {batch.parentBatch && depth === 0 && (
+                      <Text size="xs" c="dimmed">Retry of {batch.parentBatchLabel || batch.parentBatch}</Text>
+                    )}
+                    {batch.status === 'failed' && batch.error && (
+                      <Text size="xs" c="red" lineClamp={1}>{batch.error}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    {batch.appCount} {batch.kind === 'plugin' ? 'plugin' : 'app'}{batch.appCount !== 1 ? 's' : ''}
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge size="sm" variant="light" color={BATCH_STATUS_BADGES[batch.status]?.color || 'gray'}>
+                      {BATCH_STATUS_BADGES[batch.status]?.label || batch.status}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>{formatBatchDuration(batch.durationMs)}</Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        )}
+
+        {history.limitReached && (
+          <Text size="xs" c="dimmed">Showing the newest {batches.length} batches - narrow the filters to see older ones.</Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default InstallHistoryPage;
@@ -0,0 +1,104 @@
+// src/client/components/mantine/InstallLockBanner.tsx
+// Dashboard banner while another install batch holds the server-side install lock
+// ARCHITECTURE COMPLIANT: UI rendering only - lock state and release from useInstallLock
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, Group, Stack, Text, Anchor, Modal, Button } from '@mantine/core';
+import { IconLock, IconLockOpen, IconAlertCircle } from '@tabler/icons-react';
+
+import { useInstallLock } from '../../../hooks/useInstallBatches';
+import { parseServiceNowUtc } from '../../../hooks/useStoreUpdatesSnapshot';
+import { useBatchProgressStore } from '../../../stores/batchProgressStore';
+import { useNotifications } from '../../../hooks/useNotifications';
+import { GenericButton } from '../../../components/mantine/Button';
+
+interface InstallLockBannerProps {
+  isAdmin: boolean;
+}
+
+export const InstallLockBanner: React.FC<InstallLockBannerProps> = ({ isAdmin }) => {
+  const { lock, release, isReleasing, releaseError } = useInstallLock();
+  const ownBatchId = useBatchProgressStore(state => state.batchId);
+  const { showSuccess } = useNotifications();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  // This tab's own batch is already shown in the progress panel
+  if (!lock || lock.batch_id === ownBatchId) {
+    return null;
+  }
+
+  const startedAt = parseServiceNowUtc(lock.requested_on);
+  const lastActivity = parseServiceNowUtc(lock.last_activity);
+  const batchName = lock.label || (lock.kind === 'plugin' ? 'Plugin batch' : 'Application batch');
+
+  const handleRelease = async () => {
+    try {
+      await release(lock.batch_id);
+      setIsConfirmOpen(false);
+      showSuccess({ title: 'Install Lock Released', message: `${batchName} was ended as failed.` });
+    } catch {
+      // releaseError is shown in the modal
+    }
+  };
+
+  return (
+    <>
+      <Alert
+        icon={<IconLock size={16} />}
+        color={lock.stale ? 'orange' : 'yellow'}
+        variant="light"
+        title={lock.stale ? 'Install Batch Not Responding' : 'Another Install Batch Is Running'}
+      >
+        <Group justify="space-between" align="flex-start">
+          <Stack gap={2}>
+            <Text size="sm">
+              <Anchor component={Link} to={`/history/${lock.batch_id}`} size="sm" fw={500}>{batchName}</Anchor>
+              {' '}started by {lock.requester_name || 'another user'}
+              {startedAt ? ` at ${startedAt.toLocaleString()}` : ''}. New installations are blocked until it finishes.
+            </Text>
+            {lock.stale && lastActivity && (
+              <Text size="xs" c="dimmed">No progress since {lastActivity.toLocaleString()}.</Text>
+            )}
+          </Stack>
+          {isAdmin && lock.stale && (
+            <GenericButton
+              variant="light"
+              color="orange"
+              size="xs"
+              leftSection={<IconLockOpen size={14} />}
+              onClick={() => setIsConfirmOpen(true)}
+            >
+              Release lock
+            </GenericButton>
+          )}
+        </Group>
+      </Alert>
+
+      <Modal opened={isConfirmOpen} onClose={() => setIsConfirmOpen(false)} title="Release Install Lock" centered>
+        <Stack gap="md">
+          <Text size="sm">
+            {batchName} has not made progress since {lastActivity?.toLocaleString() ?? 'it started'}.
+            Releasing the lock ends it as failed and skips its queued items so a new batch can start.
+            An update that is still installing on the instance is not stopped.
+          </Text>
+          {releaseError && (
+            <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+              <Text size="sm">{releaseError}</Text>
+            </Alert>
+          )}
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setIsConfirmOpen(false)} disabled={isReleasing}>
+              Keep Lock
+            </Button>
+            <Button color="orange" onClick={() => { void handleRelease(); }} loading={isReleasing}>
+              Release Lock
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </>
+  );
+};
+
+export default InstallLockBanner;
@@ -0,0 +1,183 @@
+// src/client/components/mantine/InstallPlanPreview.tsx
+// Install plan (dry run) of the pending batch - rendered in the confirmation modal before anything is installed
+// ARCHITECTURE COMPLIANT: UI rendering only - the plan comes from useInstallPlan
+
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Alert,
+  Table,
+  Center,
+  Loader,
+  ScrollArea,
+  List
+} from '@mantine/core';
+import {
+  IconAlertCircle,
+  IconRefresh,
+  IconArrowRight,
+  IconClock,
+  IconLink
+} from '@tabler/icons-react';
+
+import type { InstallPlanItem, InstallPlanJump, InstallPlanResponse } from '../../../api/apiService';
+import { formatEstimatedDuration } from '../../../hooks/useInstallPlan';
+import { GenericButton } from '../../../components/mantine/Button';
+import { InstallEstimateLabel } from './InstallEstimateLabel';
+
+interface InstallPlanPreviewProps {
+  plan: InstallPlanResponse | null;
+  isLoading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  maxHeight?: string;
+}
+
+const JUMP_BADGES: Record<InstallPlanJump, { color: string; label: string }> = {
+  fresh: { color: 'blue', label: 'New install' },
+  major: { color: 'red', label: 'Major' },
+  minor: { color: 'yellow', label: 'Minor' },
+  patch: { color: 'green', label: 'Patch' },
+  no: { color: 'gray', label: 'Installed' },
+  downgrade: { color: 'gray', label: 'Downgrade' }
+};
+
+const STATUS_BADGES: Record<InstallPlanItem['status'], { color: string; label: string }> = {
+  ready: { color: 'green', label: 'Ready' },
+  blocked: { color: 'orange', label: 'Blocked' },
+  incompatible: { color: 'red', label: 'Incompatible' }
+};
+
+export const InstallPlanPreview: React.FC<InstallPlanPreviewProps> = ({
+  plan,
+  isLoading,
+  error,
+  onRetry,
+  maxHeight = '40vh'
+}) => {
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} title="Failed to Build Install Plan" color="red">
+        <Text size="sm" mb="sm">{error}</Text>
+        <GenericButton leftSection={<IconRefresh size={16} />} onClick={onRetry} size="xs">
+          Try Again
+        </GenericButton>
+      </Alert>
+    );
+  }
+
+  if (isLoading || !plan) {
+    return (
+      <Center py="md">
+        <Group gap="xs">
+          <Loader size="sm" />
+          <Text size="sm" c="dimmed">Building install plan...</Text>
+        </Group>
+      </Center>
+    );
+  }
+
+  const { summary } = plan;
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Group gap="xs">
+          <Text size="sm" fw={500}>
+            {summary.item_count} application{summary.item_count !== 1 ? 's' : ''}
+          </Text>
+          {(['fresh', 'major', 'minor', 'patch'] as const).filter(jump => summary.jumps[jump] > 0).map(jump => (
+            <Badge key={jump} size="sm" variant="light" color={JUMP_BADGES[jump].color}>
+              {summary.jumps[jump]} {JUMP_BADGES[jump].label.toLowerCase()}
+            </Badge>
+          ))}
+          {summary.dependency_count > 0 && (
+            <Badge size="sm" variant="light" color="grape" leftSection={<IconLink size={10} />}>
+              +{summary.dependency_count} dependenc{summary.dependency_count !== 1 ? 'ies' : 'y'}
+            </Badge>
+          )}
+        </Group>
+        {summary.estimate ? (
+          <InstallEstimateLabel estimate={summary.estimate} />
+        ) : (
+          <Group gap={4}>
+            <IconClock size={14} />
+            <Text size="sm" c="dimmed">{formatEstimatedDuration(summary.estimated_seconds)}</Text>
+          </Group>
+        )}
+      </Group>
+
+      {!summary.installable && (
+        <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light" p="xs">
+          <Text size="sm">
+            {summary.blocked_count > 0 && `${summary.blocked_count} blocked`}
+            {summary.blocked_count > 0 && summary.incompatible_count > 0 && ', '}
+            {summary.incompatible_count > 0 && `${summary.incompatible_count} incompatible`}
+            {' '}- resolve them before installing.
+          </Text>
+        </Alert>
+      )}
+
+      <ScrollArea.Autosize mah={maxHeight} scrollbarSize={8}>
+        <Table verticalSpacing={6} horizontalSpacing="xs" fz="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>#</Table.Th>
+              <Table.Th>Application</Table.Th>
+              <Table.Th>Version</Table.Th>
+              <Table.Th>Jump</Table.Th>
+              <Table.Th>Status</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {plan.items.map(item => (
+              <Table.Tr key={item.target_version}>
+                <Table.Td>{item.order + 1}</Table.Td>
+                <Table.Td>
+                  <Stack gap={2}>
+                    <Text size="sm" fw={500}>{item.name || item.application}</Text>
+                    {item.added_as_dependency && (
+                      <Text size="xs" c="grape">Added as dependency of {item.required_by.join(', ')}</Text>
+                    )}
+                    {item.status === 'incompatible' && (
+                      <Text size="xs" c="red">{item.compatibility_reason}</Text>
+                    )}
+                    {item.blocked_reasons.length > 0 && (
+                      <List size="xs" c="orange">
+                        {item.blocked_reasons.map(reason => (
+                          <List.Item key={reason}>{reason}</List.Item>
+                        ))}
+                      </List>
+                    )}
+                  </Stack>
+                </Table.Td>
+                <Table.Td>
+                  <Group gap={4} wrap="nowrap">
+                    <Text size="sm" c="dimmed">{item.installed_version || '—'}</Text>
+                    <IconArrowRight size={12} />
+                    <Text size="sm" fw={500}>{item.version}</Text>
+                  </Group>
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="sm" variant="light" color={JUMP_BADGES[item.jump].color}>
+                    {JUMP_BADGES[item.jump].label}
+                  </Badge>
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="sm" variant="light" color={STATUS_BADGES[item.status].color}>
+                    {STATUS_BADGES[item.status].label}
+                  </Badge>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+    </Stack>
+  );
+};
+
+export default InstallPlanPreview;
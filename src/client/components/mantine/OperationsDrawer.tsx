@@ -0,0 +1,160 @@
+// src/client/components/mantine/OperationsDrawer.tsx
+// Drawer listing the active and recent operations of batchProgressStore - installs, syncs, repairs and scans
+// ARCHITECTURE COMPLIANT: UI rendering only - operations and their actions come from the store
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Drawer, Stack, Group, Text, Badge, Progress, Paper, ActionIcon, Anchor, Divider, Button, Tooltip } from '@mantine/core';
+import {
+  IconDownload,
+  IconRefresh,
+  IconTool,
+  IconRadar,
+  IconX
+} from '@tabler/icons-react';
+
+import {
+  useBatchProgressStore,
+  useOperationList,
+  isOperationActive
+} from '../../../stores/batchProgressStore';
+import type { Operation, OperationKind, BatchOperationStatus } from '../../../stores/batchProgressStore';
+import { formatBatchDuration } from '../../../hooks/useInstallBatches';
+
+interface OperationsDrawerProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<OperationKind, React.ReactNode> = {
+  install: <IconDownload size={16} />,
+  sync: <IconRefresh size={16} />,
+  repair: <IconTool size={16} />,
+  scan: <IconRadar size={16} />
+};
+
+const STATUS_COLORS: Record<BatchOperationStatus, string> = {
+  idle: 'gray',
+  preparing: 'blue',
+  'calling-api': 'blue',
+  queued: 'yellow',
+  started: 'blue',
+  running: 'blue',
+  cancelling: 'orange',
+  complete: 'green',
+  cancelled: 'gray',
+  error: 'red',
+  unknown: 'orange'
+};
+
+const OperationCard: React.FC<{ operation: Operation; now: number; onDismiss?: () => void }> = ({ operation, now, onDismiss }) => {
+  const active = isOperationActive(operation);
+
+  return (
+    <Paper withBorder p="sm" radius="md">
+      <Stack gap={6}>
+        <Group justify="space-between" wrap="nowrap">
+          <Group gap="xs" wrap="nowrap">
+            {KIND_ICONS[operation.kind]}
+            <Text size="sm" fw={500}>{operation.label}</Text>
+          </Group>
+          <Group gap={4} wrap="nowrap">
+            <Badge size="sm" variant="light" color={STATUS_COLORS[operation.status]}>
+              {operation.status.replace('-', ' ')}
+            </Badge>
+            {onDismiss && (
+              <Tooltip label="Dismiss">
+                <ActionIcon variant="subtle" color="gray" size="sm" onClick={onDismiss} aria-label="Dismiss operation">
+                  <IconX size={14} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+          </Group>
+        </Group>
+
+        {active && (
+          <Progress
+            value={operation.progress ?? 100}
+            striped={operation.progress === null}
+            animated
+            size="sm"
+          />
+        )}
+
+        <Text size="xs" c={operation.status === 'error' ? 'red' : 'dimmed'}>{operation.message}</Text>
+
+        <Group justify="space-between">
+          <Text size="xs" c="dimmed">
+            {new Date(operation.startTime).toLocaleTimeString()} · {formatBatchDuration((operation.endTime ?? now) - operation.startTime)}
+          </Text>
+          {operation.batchId && (
+            <Anchor component={Link} to={`/history/${operation.batchId}`} size="xs">
+              View batch
+            </Anchor>
+          )}
+        </Group>
+      </Stack>
+    </Paper>
+  );
+};
+
+export const OperationsDrawer: React.FC<OperationsDrawerProps> = ({ opened, onClose }) => {
+  const operations = useOperationList();
+  const dismissOperation = useBatchProgressStore(state => state.dismissOperation);
+  const clearFinishedOperations = useBatchProgressStore(state => state.clearFinishedOperations);
+
+  const activeOperations = operations.filter(isOperationActive);
+  const recentOperations = operations.filter(operation => !isOperationActive(operation));
+
+  // Tick the running durations while the drawer is open
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!opened || activeOperations.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [opened, activeOperations.length]);
+
+  return (
+    <Drawer opened={opened} onClose={onClose} position="right" title="Operations" size="md">
+      <Stack gap="md">
+        <Stack gap="xs">
+          <Text size="sm" fw={600}>Active ({activeOperations.length})</Text>
+          {activeOperations.length === 0 ? (
+            <Text size="sm" c="dimmed">No operations are running.</Text>
+          ) : (
+            activeOperations.map(operation => (
+              <OperationCard key={operation.id} operation={operation} now={now} />
+            ))
+          )}
+        </Stack>
+
+        <Divider />
+
+        <Stack gap="xs">
+          <Group justify="space-between">
+            <Text size="sm" fw={600}>Recent ({recentOperations.length})</Text>
+            {recentOperations.length > 0 && (
+              <Button variant="subtle" size="xs" onClick={clearFinishedOperations}>
+                Clear finished
+              </Button>
+            )}
+          </Group>
+          {recentOperations.length === 0 ? (
+            <Text size="sm" c="dimmed">Finished operations of this session appear here.</Text>
+          ) : (
+            recentOperations.map(operation => (
+              <OperationCard
+                key={operation.id}
+                operation={operation}
+                now={now}
+                onDismiss={() => dismissOperation(operation.id)}
+              />
+            ))
+          )}
+        </Stack>
+      </Stack>
+    </Drawer>
+  );
+};
+
+export default OperationsDrawer;
@@ -0,0 +1,253 @@
+// src/client/components/mantine/PluginUpdatesPanel.tsx
+// Platform plugins (sys_plugins) with a newer version or waiting for activation
+// ARCHITECTURE COMPLIANT: UI rendering only - data and selection from usePluginUpdates,
+// batches through the shared confirmation modal (useStoreUpdatesActions.handleInstallPlugins)
+
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Checkbox,
+  TextInput,
+  Badge,
+  Alert,
+  Tooltip,
+  ActionIcon,
+  Center,
+  Loader,
+  Progress,
+  SegmentedControl
+} from '@mantine/core';
+import {
+  IconSearch,
+  IconPlugConnected,
+  IconRefresh,
+  IconAlertCircle,
+  IconPlug
+} from '@tabler/icons-react';
+
+import { usePluginUpdates } from '../../../hooks/usePluginUpdates';
+import type { PluginUpdate } from '../../../hooks/usePluginUpdates';
+import { useBatchProgressStore } from '../../../stores/batchProgressStore';
+import { GenericButton } from '../../../components/mantine/Button';
+import { GenericTable } from '../../../components/mantine/Table';
+import { logger } from '../../../monitoring/logger';
+
+interface PluginUpdatesPanelProps {
+  canInstall: boolean;
+  isInstalling: boolean;
+  compactMode?: boolean;
+  onInstallSelected: (pluginIds: string[]) => void;
+}
+
+type CategoryFilter = 'all' | PluginUpdate['category'];
+
+export const PluginUpdatesPanel: React.FC<PluginUpdatesPanelProps> = ({
+  canInstall,
+  isInstalling,
+  compactMode = false,
+  onInstallSelected
+}) => {
+  const pluginUpdates = usePluginUpdates();
+  const [category, setCategory] = React.useState<CategoryFilter>('all');
+  const progress = useBatchProgressStore(state => state.progress);
+  const progressMessage = useBatchProgressStore(state => state.message);
+
+  const visiblePlugins = category === 'all'
+    ? pluginUpdates.filteredPlugins
+    : pluginUpdates.filteredPlugins.filter(plugin => plugin.category === category);
+  const { selectedPlugins } = pluginUpdates;
+
+  const allVisibleSelected = visiblePlugins.length > 0 && visiblePlugins.every(plugin => pluginUpdates.isSelected(plugin.sys_id));
+  const someVisibleSelected = visiblePlugins.some(plugin => pluginUpdates.isSelected(plugin.sys_id));
+  const upgradeCount = pluginUpdates.plugins.filter(plugin => plugin.category === 'upgrade').length;
+
+  const handleInstall = () => {
+    onInstallSelected(selectedPlugins.map(plugin => plugin.plugin_id));
+    pluginUpdates.clearSelection();
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    visiblePlugins.forEach(plugin => {
+      if (pluginUpdates.isSelected(plugin.sys_id) !== checked) {
+        pluginUpdates.togglePlugin(plugin.sys_id);
+      }
+    });
+  };
+
+  if (pluginUpdates.error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Plugins" color="red">
+        <Text mb="md">Unable to fetch platform plugins: {pluginUpdates.error}</Text>
+        <GenericButton leftSection={<IconRefresh size={16} />} onClick={() => { void pluginUpdates.refresh(); }} size="sm">
+          Try Again
+        </GenericButton>
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap={compactMode ? 'xs' : 'sm'} w="100%">
+      <Group justify="space-between" w="100%">
+        <Group gap="md">
+          <TextInput
+            placeholder="Search name, plugin id..."
+            leftSection={<IconSearch size={16} />}
+            value={pluginUpdates.search}
+            onChange={(e) => pluginUpdates.setSearch(e.currentTarget.value)}
+            size="sm"
+            w={260}
+          />
+          <SegmentedControl
+            size="xs"
+            value={category}
+            onChange={(value) => setCategory(value as CategoryFilter)}
+            data={[
+              { value: 'all', label: `All (${pluginUpdates.plugins.length})` },
+              { value: 'upgrade', label: `Upgrades (${upgradeCount})` },
+              { value: 'activation', label: `Activations (${pluginUpdates.plugins.length - upgradeCount})` }
+            ]}
+          />
+          {selectedPlugins.length > 0 && (
+            <Badge color="blue" variant="light" size="sm">
+              {selectedPlugins.length} selected
+            </Badge>
+          )}
+        </Group>
+
+        <Group gap="sm">
+          <Tooltip label="Reload plugins">
+            <ActionIcon
+              variant="light"
+              size="lg"
+              onClick={() => { void pluginUpdates.refresh(); }}
+              loading={pluginUpdates.isFetching}
+              aria-label="Reload plugins"
+            >
+              <IconRefresh size={18} />
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip
+            label={!canInstall
+              ? 'The installer role is required for installation operations'
+              : isInstalling
+                ? 'Please wait for current operation to complete'
+                : 'Activate listed plugins and upgrade the others to their available version'}
+          >
+            <GenericButton
+              size={compactMode ? 'sm' : 'md'}
+              leftSection={<IconPlugConnected size={16} />}
+              onClick={handleInstall}
+              disabled={!canInstall || isInstalling || selectedPlugins.length === 0}
+              loading={isInstalling}
+            >
+              Activate / Upgrade Selected
+            </GenericButton>
+          </Tooltip>
+        </Group>
+      </Group>
+
+      {/* Plugin batches share the batch progress store with application installs */}
+      {isInstalling && (
+        <Alert color="blue" variant="light">
+          <Stack gap="xs">
+            <Group justify="space-between">
+              <Text size="sm" fw={500}>Installation in Progress</Text>
+              <Text size="xs" c="dimmed">{Math.round(progress)}%</Text>
+            </Group>
+            <Progress value={progress} size="sm" animated />
+            <Text size="xs" c="dimmed">{progressMessage}</Text>
+          </Stack>
+        </Alert>
+      )}
+
+      {pluginUpdates.isLoading ? (
+        <Center py="xl">
+          <Loader size="md" />
+        </Center>
+      ) : visiblePlugins.length === 0 ? (
+        <Center py="xl">
+          <Stack align="center" gap="xs">
+            <IconPlug size={32} />
+            <Text c="dimmed">
+              {pluginUpdates.plugins.length === 0
+                ? 'All platform plugins are up to date and no listed plugin is waiting for activation.'
+                : 'No plugins match your search.'}
+            </Text>
+          </Stack>
+        </Center>
+      ) : (
+        <GenericTable
+          data={visiblePlugins}
+          loading={false}
+          highlightOnHover
+          onError={(error) => logger.error('Plugin updates table error', error)}
+        >
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th w={40}>
+                <Checkbox
+                  checked={allVisibleSelected}
+                  indeterminate={someVisibleSelected && !allVisibleSelected}
+                  onChange={(e) => handleSelectAll(e.currentTarget.checked)}
+                  aria-label="Select all visible plugins"
+                />
+              </Table.Th>
+              <Table.Th>Plugin</Table.Th>
+              <Table.Th>Plugin ID</Table.Th>
+              <Table.Th>State</Table.Th>
+              <Table.Th>Version</Table.Th>
+              <Table.Th>Dependencies</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {visiblePlugins.map(plugin => (
+              <Table.Tr
+                key={plugin.sys_id}
+                style={{ cursor: 'pointer' }}
+                onClick={() => pluginUpdates.togglePlugin(plugin.sys_id)}
+              >
+                <Table.Td>
+                  <Checkbox
+                    checked={pluginUpdates.isSelected(plugin.sys_id)}
+                    onChange={() => pluginUpdates.togglePlugin(plugin.sys_id)}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Select ${plugin.name}`}
+                  />
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm" fw={500}>{plugin.name}</Text>
+                  <Text size="xs" c="dimmed" lineClamp={1}>{plugin.description}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm" ff="monospace">{plugin.plugin_id}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Badge variant="light" color={plugin.state === 'active' ? 'green' : 'gray'}>
+                    {plugin.state}
+                  </Badge>
+                </Table.Td>
+                <Table.Td>
+                  {plugin.category === 'upgrade' ? (
+                    <Text size="sm">{plugin.installed_version} → <b>{plugin.available_version}</b></Text>
+                  ) : (
+                    <Badge variant="light" color="blue">Activate {plugin.installed_version}</Badge>
+                  )}
+                </Table.Td>
+                <Table.Td>
+                  <Text size="xs" c="dimmed" lineClamp={2}>
+                    {plugin.dependencies ? plugin.dependencies.split(',').join(', ') : '—'}
+                  </Text>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </GenericTable>
+      )}
+    </Stack>
+  );
+};
+
+export default PluginUpdatesPanel;
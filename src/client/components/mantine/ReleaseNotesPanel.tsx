@@ -0,0 +1,122 @@
+// src/client/components/mantine/ReleaseNotesPanel.tsx
+// Release notes of every version between the installed and the target version of one application
+// ARCHITECTURE COMPLIANT: UI rendering only - data, search and Markdown export from useReleaseNotes
+
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  Badge,
+  Alert,
+  Card,
+  Center,
+  Loader,
+  ScrollArea
+} from '@mantine/core';
+import {
+  IconSearch,
+  IconFileExport,
+  IconAlertCircle,
+  IconRefresh,
+  IconArrowRight
+} from '@tabler/icons-react';
+
+import { useReleaseNotes, releaseNotesToText } from '../../../hooks/useReleaseNotes';
+import { GenericButton } from '../../../components/mantine/Button';
+
+interface ReleaseNotesPanelProps {
+  applicationId: string;
+  targetVersionId: string;
+  maxHeight?: string;
+}
+
+export const ReleaseNotesPanel: React.FC<ReleaseNotesPanelProps> = ({
+  applicationId,
+  targetVersionId,
+  maxHeight = '60vh'
+}) => {
+  const releaseNotes = useReleaseNotes(applicationId, targetVersionId);
+  const { notes, filteredVersions } = releaseNotes;
+
+  if (releaseNotes.error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} title="Failed to Load Release Notes" color="red">
+        <Text mb="md">{releaseNotes.error}</Text>
+        <GenericButton leftSection={<IconRefresh size={16} />} onClick={() => { void releaseNotes.refresh(); }} size="sm">
+          Try Again
+        </GenericButton>
+      </Alert>
+    );
+  }
+
+  if (releaseNotes.isLoading || !notes) {
+    return (
+      <Center py="xl">
+        <Loader size="md" />
+      </Center>
+    );
+  }
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Group gap="xs">
+          <Badge variant="light" color="gray">{notes.application.installed_version}</Badge>
+          <IconArrowRight size={14} />
+          <Badge variant="light" color="blue">{notes.target_version}</Badge>
+          <Text size="sm" c="dimmed">
+            {releaseNotes.versions.length} version{releaseNotes.versions.length !== 1 ? 's' : ''}
+          </Text>
+        </Group>
+        <GenericButton
+          size="xs"
+          variant="light"
+          leftSection={<IconFileExport size={14} />}
+          onClick={releaseNotes.exportMarkdown}
+          disabled={filteredVersions.length === 0}
+        >
+          Export Markdown
+        </GenericButton>
+      </Group>
+
+      <TextInput
+        placeholder="Search versions, descriptions, release notes..."
+        leftSection={<IconSearch size={16} />}
+        value={releaseNotes.search}
+        onChange={(e) => releaseNotes.setSearch(e.currentTarget.value)}
+        size="sm"
+      />
+
+      <ScrollArea.Autosize mah={maxHeight} scrollbarSize={8}>
+        <Stack gap="sm">
+          {filteredVersions.map(version => (
+            <Card key={version.sys_id} withBorder padding="sm" radius="md">
+              <Group justify="space-between" mb={4}>
+                <Text fw={600} size="sm">{version.version}</Text>
+                <Text size="xs" c="dimmed">{version.publish_date ? version.publish_date.split(' ')[0] : 'Unpublished'}</Text>
+              </Group>
+              {version.short_description && (
+                <Text size="sm" mb={4}>{version.short_description}</Text>
+              )}
+              <Text size="sm" c="dimmed" style={{ whiteSpace: 'pre-wrap', lineHeight: 1.5 }}>
+                {releaseNotesToText(version.release_notes) || 'No release notes provided.'}
+              </Text>
+            </Card>
+          ))}
+
+          {filteredVersions.length === 0 && (
+            <Text c="dimmed" ta="center" py="md">
+              {releaseNotes.versions.length === 0
+                ? 'No versions between the installed and the target version.'
+                : 'No versions match your search.'}
+            </Text>
+          )}
+        </Stack>
+      </ScrollArea.Autosize>
+    </Stack>
+  );
+};
+
+export default ReleaseNotesPanel;
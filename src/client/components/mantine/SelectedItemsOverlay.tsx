@@ -5,6 +5,7 @@
 // FIXED: Proper Mantine color props that respect dark/light theme, no hardcoded styles
 // FIXED: Scrollbar visibility - increased height and padding for complete description visibility
 // FIXED: TypeScript return types for ReactNode compatibility
+// DEPENDENCIES: Marks items added as dependencies (and why), lists unmet dependencies, auto-include switch
 
 import React from 'react';
 import {
@@ -18,16 +19,22 @@ import {
   ScrollArea,
   Divider,
   Tooltip,
+  Alert,
+  Switch,
+  Button,
+  List,
   useMantineTheme,
   useMantineColorScheme,
   alpha
 } from '@mantine/core';
 import {
   IconX,
-  IconArrowRight
+  IconArrowRight,
+  IconLink,
+  IconAlertTriangle
 } from '@tabler/icons-react';
 
-import type { useStoreUpdatesSelection } from '../../../hooks/useStoreUpdatesSelection';
+import type { useStoreUpdatesSelection, DependencyWarning } from '../../../hooks/useStoreUpdatesSelection';
 
 interface SelectedItemsOverlayProps {
   opened: boolean;
@@ -41,6 +48,26 @@ const getSelectedItemsWithDetails = (selectionHook: ReturnType<typeof useStoreUp
   return selectionHook.selection.selectedRecords.filter(item => selectedIds.includes(item.sys_id));
 };
 
+// Human readable explanation of an unmet dependency
+const describeWarning = (warning: DependencyWarning): string => {
+  const { dependency } = warning;
+  const required = dependency.required_version ? ` ${dependency.required_version}+` : '';
+
+  switch (warning.reason) {
+    case 'not_selected':
+      return `${warning.recordName} needs ${dependency.name}${required} - its update is not selected`;
+    case 'too_old':
+      return `${warning.recordName} needs ${dependency.name}${required} - the selected update is ${warning.selectedVersion || 'older'}`;
+    case 'unavailable':
+      return `${warning.recordName} needs ${dependency.name}${required} - installed ${dependency.installed_version}, no listed update reaches it`;
+    case 'missing':
+    default:
+      return dependency.is_plugin
+        ? `${warning.recordName} needs plugin ${dependency.name}${required} - not active`
+        : `${warning.recordName} needs ${dependency.name}${required} - not installed`;
+  }
+};
+
 export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
   opened,
   onClose,
@@ -51,6 +78,9 @@ export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
   
   const selectedItems = getSelectedItemsWithDetails(selectionHook);
   const totalSelected = selectedItems.length;
+  const { addedAsDependency } = selectionHook.selection;
+  const dependencyCount = Object.keys(addedAsDependency).length;
+  const hasUnselectedDependencies = selectionHook.dependencyWarnings.some(warning => warning.reason === 'not_selected');
 
   // Handle deselection
   const handleDeselect = (itemId: string) => {
@@ -130,6 +160,35 @@ export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
       {/* FIXED: Further increased ScrollArea height and bottom padding for complete description visibility */}
       <ScrollArea style={{ maxHeight: 'calc(85vh - 140px)' }} scrollbarSize={8}>
         <Stack gap="sm" pb="3xl">
+          <Switch
+            size="sm"
+            label="Automatically include required dependency updates"
+            checked={selectionHook.autoIncludeDependencies}
+            onChange={(e) => selectionHook.setAutoIncludeDependencies(e.currentTarget.checked)}
+          />
+
+          {selectionHook.dependencyWarnings.length > 0 && (
+            <Alert
+              icon={<IconAlertTriangle size={16} />}
+              color="yellow"
+              variant="light"
+              title={`${selectionHook.dependencyWarnings.length} unmet dependenc${selectionHook.dependencyWarnings.length !== 1 ? 'ies' : 'y'}`}
+            >
+              <List size="sm" spacing={2}>
+                {selectionHook.dependencyWarnings.map(warning => (
+                  <List.Item key={`${warning.recordId}-${warning.dependency.scope}`}>
+                    {describeWarning(warning)}
+                  </List.Item>
+                ))}
+              </List>
+              {hasUnselectedDependencies && (
+                <Button size="xs" variant="light" mt="sm" onClick={selectionHook.addRequiredDependencies}>
+                  Add required updates
+                </Button>
+              )}
+            </Alert>
+          )}
+
           {selectedItems.map((item) => (
             <Card
               key={item.sys_id}
@@ -148,6 +207,11 @@ export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
                     {String(item['application.name'] || item.application_name || item.display_name || item.name || 'Unknown Application')}
                   </Text>
                   {getUpdateLevelBadge(item)}
+                  {addedAsDependency[item.sys_id] && (
+                    <Badge size="sm" color="grape" variant="light" leftSection={<IconLink size={10} />}>
+                      Added as dependency
+                    </Badge>
+                  )}
                 </Group>
                 
                 <Tooltip label="Remove from selection">
@@ -162,6 +226,19 @@ export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
               </Group>
 
               <Stack gap="sm">
+                {/* Why this item was added on behalf of other selected items */}
+                {addedAsDependency[item.sys_id] && (
+                  <Stack gap={2}>
+                    <Text size="xs" fw={500} c="dimmed">Required By</Text>
+                    {addedAsDependency[item.sys_id]!.map(reason => (
+                      <Text size="sm" key={reason.requiredById}>
+                        {reason.requiredByName}
+                        {reason.requiredVersion ? ` (needs ${reason.requiredVersion} or later)` : ''}
+                      </Text>
+                    ))}
+                  </Stack>
+                )}
+
                 {/* Version Information */}
                 <Stack gap={2}>
                   <Text size="xs" fw={500} c="dimmed">Version Information</Text>
@@ -215,6 +292,7 @@ export const SelectedItemsOverlay: React.FC<SelectedItemsOverlayProps> = ({
           <Group justify="space-between" align="center">
             <Text size="sm" c="dimmed">
               {totalSelected} application{totalSelected !== 1 ? 's' : ''} selected
+              {dependencyCount > 0 ? ` (${dependencyCount} as dependenc${dependencyCount !== 1 ? 'ies' : 'y'})` : ''}
             </Text>
             
             <Group gap="xs">
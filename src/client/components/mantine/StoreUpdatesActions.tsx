@@ -9,8 +9,21 @@
 // SMART REFRESH: Differentiate between client-side clearing and data-changing operations
 // LAYOUT FIX: Moved action icons to top-right, always visible, no layout shifts
 // SYNC FIX: Fixed sync operation to follow same refresh pattern as install operations
+// SNAPSHOT: Sync Applications rescans the persisted snapshot before refreshing
+// FRESH INSTALLS: Confirmation modal is a separate component so the available apps tab can use it
+// PLUGINS: Platform plugin activations/upgrades share the confirmation modal and batch progress
+// DEPENDENCIES: Confirmation modal lists dependency-added items and unmet dependencies of the selection
+// COMPATIBILITY: Selections containing platform-incompatible versions cannot be confirmed
+// INSTALL PLAN: Application batches show the dry-run plan - the admin approves the plan, not a bare count
+// OUTCOMES: Live per-app table under the progress bar; a failed batch keeps its table until dismissed
+// CANCEL: Admins can cancel a running batch after confirming - no further app starts, the installing app finishes
+// POLLER: Sync status is polled with pollerService; an install whose polling gave up offers "Check again"
+// LIVE: The progress panel shows whether progress is pushed by the record watcher or polled
+// ESTIMATES: The progress panel shows the estimated time left with its range while a batch runs
+// LEVELS: Install Major / Minor / Patch pick apps by their highest available update, not the level of the chosen target
 
 import React, { useCallback, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Group,
   Button,
@@ -25,7 +38,8 @@ import {
   Divider,
   Progress,
   useMantineColorScheme,
-  Box
+  Box,
+  Anchor
 } from '@mantine/core';
 import {
   IconDownload,
@@ -40,20 +54,36 @@ import {
   IconBandage,
   IconInfoCircle,
   IconSelectAll,
-  IconRefresh
+  IconRefresh,
+  IconBan,
+  IconPlugConnectedX
 } from '@tabler/icons-react';
 
 import { useQueryClient } from '@tanstack/react-query'; // NEW: For sync cache invalidation
 import type { useStoreUpdatesSelection } from '../../../hooks/useStoreUpdatesSelection';
 import type { useStoreUpdatesFiltering, StoreUpdate } from '../../../hooks/useStoreUpdatesHybrid';
 import { useInstallUpdates } from '../../../hooks/useInstallUpdates';
-import { useBatchProgressStore } from '../../../stores/batchProgressStore';
+import { useInstallPlan } from '../../../hooks/useInstallPlan';
+import { useStoreUpdatesSnapshot } from '../../../hooks/useStoreUpdatesSnapshot';
+import { useBatchProgressStore, useIsOperationKindActive } from '../../../stores/batchProgressStore';
+import type { ProgressFeed } from '../../../stores/batchProgressStore';
+import { createPoller } from '../../../services/pollerService';
 import { useEnhancedUserContext } from '../../../hooks/useUserContext'; // FIXED: Use proper admin role detection
 import { logger } from '../../../monitoring/logger';
 import { GenericButton } from '../../../components/mantine/Button';
 import { SelectedItemsOverlay } from './SelectedItemsOverlay';
+import { InstallPlanPreview } from './InstallPlanPreview';
+import { InstallBatchOutcomes } from './InstallBatchOutcomes';
+import { InstallEstimateLabel } from './InstallEstimateLabel';
+import { useInstallBatchOutcomes } from '../../../hooks/useInstallBatches';
 import { apiService } from '../../../api/apiService';
-import { storeUpdatesQueryKeys } from '../../../hooks/useStoreUpdatesHybrid'; // NEW: For cache invalidation
+import { storeUpdatesQueryKeys, highestUpdateLevel } from '../../../hooks/useStoreUpdatesHybrid'; // NEW: For cache invalidation
+
+const PROGRESS_FEED_BADGES: Record<ProgressFeed, { label: string; color: string; tooltip: string }> = {
+  live: { label: 'Live', color: 'green', tooltip: 'Progress is pushed by the instance as it changes' },
+  connecting: { label: 'Connecting', color: 'yellow', tooltip: 'Opening the live channel - polling meanwhile' },
+  polling: { label: 'Polling', color: 'gray', tooltip: 'Live updates are unavailable - progress is checked every few seconds' }
+};
 
 interface StoreUpdatesActionsProps {
   selectionHook: ReturnType<typeof useStoreUpdatesSelection>;
@@ -97,10 +127,14 @@ export const useStoreUpdatesActions = ({
   // FIXED: Use proper admin role detection from local store
   const userContext = useEnhancedUserContext();
   const isAdmin = userContext.isAdmin;
+  // Installs need the installer role (admins have it too) - cancel stays admin only
+  const canInstall = userContext.capabilities.canInstall;
 
-  // Local state for overlay and sync
+  // Local state for overlay - sync runs as a tracked 'sync' operation in batchProgressStore
   const [isOverlayOpen, setIsOverlayOpen] = useState(false);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const isSyncing = useIsOperationKindActive('sync');
+  const [isCancelConfirmOpen, setIsCancelConfirmOpen] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // ARCHITECTURE: Custom hook handles all business logic with smart refresh
   const { 
@@ -108,18 +142,50 @@ export const useStoreUpdatesActions = ({
     confirmationModal,
     showConfirmationModal,
     hideConfirmationModal,
-    handleConfirmInstallation
+    handleConfirmInstallation,
+    pendingInstallRequest,
+    cancelInstallation,
+    resumeTracking
   } = useInstallUpdates(selectionHook, {
     // FIXED: Only pass onInstallationComplete if onDataRefresh is defined
     ...(onDataRefresh && { onInstallationComplete: onDataRefresh })
   });
 
+  // INSTALL PLAN: Dry run of the application batch behind the open confirmation modal
+  const installPlan = useInstallPlan(pendingInstallRequest);
+
+  // SNAPSHOT: New store data only reaches the dashboard after a rescan
+  const { rescan } = useStoreUpdatesSnapshot();
+
   // ARCHITECTURE: Zustand store handles global state
   const batchProgressStore = useBatchProgressStore();
   const isInstalling = batchProgressStore.isActive();
   const progress = batchProgressStore.progress;
   const message = batchProgressStore.message;
 
+  // OUTCOMES: Per-app state of the current batch - polled while it runs
+  const batchId = batchProgressStore.batchId;
+  const batchFailed = batchProgressStore.status === 'error' && !!batchId;
+  const batchOutcomes = useInstallBatchOutcomes(isInstalling || batchFailed ? batchId : null, isInstalling);
+  const cancelPending = batchProgressStore.status === 'cancelling';
+  const progressFeed = batchProgressStore.progressFeed;
+  // POLLER: Progress polling gave up after repeated failures - the batch may still be running on the instance
+  const batchUnknown = batchProgressStore.status === 'unknown' && !!batchId;
+  const [isRechecking, setIsRechecking] = useState(false);
+  const queuedCount = batchOutcomes.outcomes?.summary.queued ?? 0;
+  // ESTIMATES: Time left from the install history of the queued and installing items
+  const remainingEstimate = isInstalling && !cancelPending ? batchOutcomes.outcomes?.remaining ?? null : null;
+
+  const handleConfirmCancel = useCallback(async () => {
+    setIsCancelling(true);
+    try {
+      await cancelInstallation();
+    } finally {
+      setIsCancelling(false);
+      setIsCancelConfirmOpen(false);
+    }
+  }, [cancelInstallation]);
+
   // Handle overlay open/close
   const handleOpenOverlay = useCallback(() => {
     setIsOverlayOpen(true);
@@ -138,12 +204,12 @@ export const useStoreUpdatesActions = ({
 
   // FIXED: Install Major - Use same working pattern as Install All but with filtering
   const handleInstallMajor = useCallback(async () => {
-    if (!isAdmin) {
-      logger.warn('Install Major attempted without admin privileges');
+    if (!canInstall) {
+      logger.warn('Install Major attempted without the installer role');
       return;
     }
 
-    const majorRecords = allRecords.filter(record => record.level === 'major');
+    const majorRecords = allRecords.filter(record => highestUpdateLevel(record) === 'major');
     
     if (majorRecords.length === 0) {
       logger.info('No major updates available');
@@ -163,16 +229,16 @@ export const useStoreUpdatesActions = ({
       autoSelected: true,
       pattern: 'install-all-with-filter'
     });
-  }, [isAdmin, allRecords, selectionHook, showConfirmationModal]);
+  }, [canInstall, allRecords, selectionHook, showConfirmationModal]);
 
   // FIXED: Install Minor - Use same working pattern as Install All but with filtering
   const handleInstallMinor = useCallback(async () => {
-    if (!isAdmin) {
-      logger.warn('Install Minor attempted without admin privileges');
+    if (!canInstall) {
+      logger.warn('Install Minor attempted without the installer role');
       return;
     }
 
-    const minorRecords = allRecords.filter(record => record.level === 'minor');
+    const minorRecords = allRecords.filter(record => highestUpdateLevel(record) === 'minor');
     
     if (minorRecords.length === 0) {
       logger.info('No minor updates available');
@@ -192,16 +258,16 @@ export const useStoreUpdatesActions = ({
       autoSelected: true,
       pattern: 'install-all-with-filter'
     });
-  }, [isAdmin, allRecords, selectionHook, showConfirmationModal]);
+  }, [canInstall, allRecords, selectionHook, showConfirmationModal]);
 
   // FIXED: Install Patches - Use same working pattern as Install All but with filtering
   const handleInstallPatches = useCallback(async () => {
-    if (!isAdmin) {
-      logger.warn('Install Patches attempted without admin privileges');
+    if (!canInstall) {
+      logger.warn('Install Patches attempted without the installer role');
       return;
     }
 
-    const patchRecords = allRecords.filter(record => record.level === 'patch');
+    const patchRecords = allRecords.filter(record => highestUpdateLevel(record) === 'patch');
     
     if (patchRecords.length === 0) {
       logger.info('No patch updates available');
@@ -221,12 +287,12 @@ export const useStoreUpdatesActions = ({
       autoSelected: true,
       pattern: 'install-all-with-filter'
     });
-  }, [isAdmin, allRecords, selectionHook, showConfirmationModal]);
+  }, [canInstall, allRecords, selectionHook, showConfirmationModal]);
 
   // NEW: Install All - Auto-select all records and install (admin only)
   const handleInstallAll = useCallback(async () => {
-    if (!isAdmin) {
-      logger.warn('Install All attempted without admin privileges');
+    if (!canInstall) {
+      logger.warn('Install All attempted without the installer role');
       return;
     }
 
@@ -245,11 +311,56 @@ export const useStoreUpdatesActions = ({
       totalRecords: allRecords.length,
       autoSelected: true
     });
-  }, [isAdmin, allRecords, selectionHook, showConfirmationModal]);
+  }, [canInstall, allRecords, selectionHook, showConfirmationModal]);
+
+  // FRESH INSTALLS: Install entitled-but-not-installed apps through the same install batch path
+  const handleInstallAvailable = useCallback((versionIds: string[]) => {
+    if (!canInstall) {
+      logger.warn('Install Available attempted without the installer role');
+      return;
+    }
+
+    if (versionIds.length === 0) {
+      logger.info('No available applications selected');
+      return;
+    }
+
+    showConfirmationModal('Install New Applications', versionIds.length, versionIds);
+
+    logger.info('Install Available initiated', {
+      selectedCount: versionIds.length
+    });
+  }, [canInstall, showConfirmationModal]);
+
+  // PLUGINS: Activate or upgrade platform plugins through a CI/CD batch install
+  const handleInstallPlugins = useCallback((pluginIds: string[]) => {
+    if (!canInstall) {
+      logger.warn('Install Plugins attempted without the installer role');
+      return;
+    }
+
+    if (pluginIds.length === 0) {
+      logger.info('No platform plugins selected');
+      return;
+    }
+
+    showConfirmationModal('Activate / Upgrade Plugins', pluginIds.length, pluginIds, 'plugin');
+
+    logger.info('Install Plugins initiated', {
+      selectedCount: pluginIds.length
+    });
+  }, [canInstall, showConfirmationModal]);
 
   // SYNC FIX: Handle sync applications with same refresh pattern as install operations
   const handleSyncApplications = useCallback(async () => {
-    setIsSyncing(true);
+    const { beginOperation, patchOperation, finishOperation, hasActiveOperation } = useBatchProgressStore.getState();
+    if (hasActiveOperation('sync')) return;
+
+    // OPERATIONS: Sync reports no percentage - null keeps its progress indeterminate
+    const operationId = beginOperation('sync', 'Sync applications', {
+      progress: null,
+      message: 'Triggering application sync...'
+    });
     
     try {
       logger.info('Starting sync applications process', {
@@ -271,105 +382,124 @@ export const useStoreUpdatesActions = ({
         trackerId,
         step: '2-polling-status'
       });
+      patchOperation(operationId, { status: 'running', message: 'Syncing applications from store...' });
 
       // Step 2: Poll for completion with indeterminate progress
-      let attempts = 0;
-      const maxAttempts = 150; // 5 minutes max (150 * 2s)
-      
-      while (attempts < maxAttempts) {
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second intervals
-        attempts++;
-        
-        try {
+      // POLLER: Non-overlapping status checks, paused while the tab is hidden, 5 minute limit
+      let appsLastSyncTime: string | undefined;
+      const poller = createPoller({
+        name: 'sync-apps-status',
+        fastIntervalMs: 2000,
+        intervalMs: 4000,
+        maxDurationMs: 5 * 60 * 1000,
+        onError: (pollError, consecutiveFailures) => {
+          logger.warn('Sync status polling error', {
+            trackerId,
+            consecutiveFailures,
+            error: pollError.message
+          });
+        },
+        task: async () => {
           const statusResponse = await apiService.get('/api/sn_appclient/appmanager/sync_apps', {
             params: { 
               request_type: 'get_apps_sync_status',
               tracker_id: trackerId 
             }
           });
-          
-          const isComplete = statusResponse.result?.isComplete;
-          
-          if (isComplete) {
-            logger.info('Sync completed successfully', {
-              trackerId,
-              attempts,
-              duration: attempts * 2,
-              appsLastSyncTime: statusResponse.result?.appsLastSyncTime
-            });
-
-            // SYNC FIX: Follow same pattern as install operations
-            try {
-              logger.info('Sync completed - starting data refresh like install operations', {
-                trackerId,
-                refreshPattern: 'install-like-refresh',
-                step: '1-clear-selections'
-              });
-
-              // Step 1: Clear selections (like install operations)
-              if (onClearState) {
-                onClearState(); // Clear selections + filters client-side
-              }
-              
-              // Step 2: Invalidate TanStack Query cache (like install operations)  
-              logger.info('Sync refresh - invalidating TanStack Query cache', {
-                trackerId,
-                refreshPattern: 'install-like-refresh',
-                step: '2-invalidate-cache'
-              });
-              
-              await queryClient.invalidateQueries({ 
-                queryKey: storeUpdatesQueryKeys.lists(),
-                exact: true 
-              });
-              
-              // Step 3: Trigger stale-while-revalidate refresh (like install operations)
-              logger.info('Sync refresh - triggering stale-while-revalidate refresh', {
-                trackerId,
-                refreshPattern: 'install-like-refresh',
-                step: '3-stale-while-revalidate'
-              });
-              
-              if (onDataRefresh) {
-                await onDataRefresh(); // Uses stale-while-revalidate pattern
-              }
-              
-              logger.info('Sync refresh completed successfully', {
-                trackerId,
-                refreshPattern: 'install-like-refresh',
-                step: '4-completed'
-              });
-              
-            } catch (refreshError) {
-              logger.error('Sync data refresh failed', 
-                refreshError instanceof Error ? refreshError : new Error(String(refreshError)),
-                { trackerId, refreshPattern: 'install-like-refresh' }
-              );
-            }
-            
-            break;
+
+          if (statusResponse.result?.isComplete) {
+            appsLastSyncTime = statusResponse.result?.appsLastSyncTime;
+            return { done: true };
           }
-          
+
           // Still in progress - continue polling
-          logger.info('Sync in progress', {
-            trackerId,
-            attempts,
-            estimatedProgress: Math.min(95, 25 + (attempts * 2)) // Indeterminate progress
-          });
-          
-        } catch (pollError) {
-          logger.warn('Sync status polling error (continuing)', {
+          logger.info('Sync in progress', { trackerId });
+          return {};
+        }
+      });
+
+      const outcome = await poller.finished;
+      if (outcome === 'timeout') {
+        throw new Error('Sync operation timed out after 5 minutes');
+      }
+      if (outcome !== 'done') {
+        // The sync keeps running on the instance - only its status is unknown
+        finishOperation(operationId, 'unknown', 'Lost contact with the sync status - check the application sync on the server.');
+        return;
+      }
+
+      logger.info('Sync completed successfully', {
+        trackerId,
+        appsLastSyncTime
+      });
+
+      patchOperation(operationId, { message: 'Sync finished - refreshing dashboard data...' });
+
+      // SYNC FIX: Follow same pattern as install operations
+      try {
+        logger.info('Sync completed - starting data refresh like install operations', {
+          trackerId,
+          refreshPattern: 'install-like-refresh',
+          step: '1-clear-selections'
+        });
+
+        // Step 1: Clear selections (like install operations)
+        if (onClearState) {
+          onClearState(); // Clear selections + filters client-side
+        }
+        
+        // Step 2: Rescan the snapshot so newly synced versions are picked up
+        logger.info('Sync refresh - rescanning update snapshot', {
+          trackerId,
+          refreshPattern: 'install-like-refresh',
+          step: '2-rescan-snapshot'
+        });
+
+        // A failed rescan is already reported by the snapshot hook - still refresh what we have
+        await rescan('sync').catch((rescanError: unknown) => {
+          logger.warn('Sync refresh - snapshot rescan failed, refreshing previous snapshot', {
             trackerId,
-            attempts,
-            error: pollError instanceof Error ? pollError.message : String(pollError)
+            error: rescanError instanceof Error ? rescanError.message : String(rescanError)
           });
-          // Continue polling on single error
+        });
+
+        // Step 3: Invalidate TanStack Query cache (like install operations)  
+        logger.info('Sync refresh - invalidating TanStack Query cache', {
+          trackerId,
+          refreshPattern: 'install-like-refresh',
+          step: '3-invalidate-cache'
+        });
+        
+        await queryClient.invalidateQueries({ 
+          queryKey: storeUpdatesQueryKeys.lists(),
+          exact: true 
+        });
+        
+        // Step 4: Trigger stale-while-revalidate refresh (like install operations)
+        logger.info('Sync refresh - triggering stale-while-revalidate refresh', {
+          trackerId,
+          refreshPattern: 'install-like-refresh',
+          step: '4-stale-while-revalidate'
+        });
+        
+        if (onDataRefresh) {
+          await onDataRefresh(); // Uses stale-while-revalidate pattern
         }
+        
+        logger.info('Sync refresh completed successfully', {
+          trackerId,
+          refreshPattern: 'install-like-refresh',
+          step: '5-completed'
+        });
+        
+      } catch (refreshError) {
+        logger.error('Sync data refresh failed', 
+          refreshError instanceof Error ? refreshError : new Error(String(refreshError)),
+          { trackerId, refreshPattern: 'install-like-refresh' }
+        );
       }
-      
-      if (attempts >= maxAttempts) {
-        throw new Error('Sync operation timed out after 5 minutes');
-      }
+
+      finishOperation(operationId, 'complete', 'Applications synced from the store.');
       
     } catch (error) {
       logger.error('Sync applications failed', 
@@ -377,11 +507,10 @@ export const useStoreUpdatesActions = ({
         step: 'sync-process',
         errorType: error instanceof Error ? error.name : 'unknown'
       });
+      finishOperation(operationId, 'error', error instanceof Error ? error.message : 'Sync failed', error);
       throw error;
-    } finally {
-      setIsSyncing(false);
     }
-  }, [queryClient, onDataRefresh, onClearState]); // SYNC FIX: Added queryClient dependency
+  }, [queryClient, onDataRefresh, onClearState, rescan]); // SYNC FIX: Added queryClient dependency
 
   // Handle batch action execution - UI coordination only
   const handleBatchAction = useCallback(async (actionId: string) => {
@@ -399,8 +528,8 @@ export const useStoreUpdatesActions = ({
           logger.warn('No items selected for install-selected action');
           return;
         }
-        if (!isAdmin) {
-          logger.warn('Install Selected attempted without admin privileges');
+        if (!canInstall) {
+          logger.warn('Install Selected attempted without the installer role');
           return;
         }
         showConfirmationModal('Install Selected', selectedIds.length);
@@ -423,9 +552,9 @@ export const useStoreUpdatesActions = ({
       default:
         logger.warn('Unknown batch action', { actionId });
     }
-  }, [selectionHook.selection.selectedIds, isAdmin, showConfirmationModal, handleInstallAll, handleInstallMajor, handleInstallMinor, handleInstallPatches, handleSyncApplications]);
+  }, [selectionHook.selection.selectedIds, canInstall, showConfirmationModal, handleInstallAll, handleInstallMajor, handleInstallMinor, handleInstallPatches, handleSyncApplications]);
 
-  // Primary batch actions with admin role requirements
+  // Primary batch actions with installer role requirements
   const primaryActions = useMemo(() => {
     const actions = [
       {
@@ -435,7 +564,7 @@ export const useStoreUpdatesActions = ({
         color: 'blue',
         applicableCount: selectionHook.stats.totalSelected,
         requiresConfirmation: true,
-        requiresAdmin: true,
+        requiresInstallRole: true,
         requiresSelection: true,
         description: 'Install selected updates using ServiceNow subflow'
       },
@@ -446,7 +575,7 @@ export const useStoreUpdatesActions = ({
         color: 'blue',
         applicableCount: allRecords.length,
         requiresConfirmation: true,
-        requiresAdmin: true,
+        requiresInstallRole: true,
         requiresSelection: false,
         description: 'Select all updates and install using ServiceNow subflow'
       },
@@ -455,33 +584,33 @@ export const useStoreUpdatesActions = ({
         label: 'Install Major',
         icon: 'IconUrgent',
         color: 'red',
-        applicableCount: allRecords.filter(r => r.level === 'major').length,
+        applicableCount: allRecords.filter(r => highestUpdateLevel(r) === 'major').length,
         requiresConfirmation: true,
-        requiresAdmin: true,
+        requiresInstallRole: true,
         requiresSelection: false,
-        description: 'Install only major-level updates'
+        description: 'Install apps whose newest version is a major update, each at its selected target'
       },
       {
         id: 'install-minor',
         label: 'Install Minor',
         icon: 'IconInfoCircle',
         color: 'yellow',
-        applicableCount: allRecords.filter(r => r.level === 'minor').length,
+        applicableCount: allRecords.filter(r => highestUpdateLevel(r) === 'minor').length,
         requiresConfirmation: true,
-        requiresAdmin: true,
+        requiresInstallRole: true,
         requiresSelection: false,
-        description: 'Install only minor-level updates'
+        description: 'Install apps whose newest version is a minor update, each at its selected target'
       },
       {
         id: 'install-patches',
         label: 'Install Patch',
         icon: 'IconBandage',
         color: 'green',
-        applicableCount: allRecords.filter(r => r.level === 'patch').length,
+        applicableCount: allRecords.filter(r => highestUpdateLevel(r) === 'patch').length,
         requiresConfirmation: true,
-        requiresAdmin: true,
+        requiresInstallRole: true,
         requiresSelection: false,
-        description: 'Install patch updates only'
+        description: 'Install apps whose newest version is a patch, each at its selected target'
       },
     ];
 
@@ -494,14 +623,14 @@ export const useStoreUpdatesActions = ({
       ...action,
       // Determine if this menu action should be enabled
       isEnabled: () => {
-        const hasRequiredRole = !action.requiresAdmin || isAdmin;
+        const hasRequiredRole = !action.requiresInstallRole || canInstall;
         const hasRequiredSelection = !action.requiresSelection || selectionHook.stats.hasSelection;
         const hasApplicableRecords = action.id === 'sync-applications' || action.applicableCount > 0; // Sync always enabled
         return hasRequiredRole && hasRequiredSelection && hasApplicableRecords && !isInstalling && !isSyncing;
       },
       // Get disabled reason for tooltip
       getDisabledReason: () => {
-        if (!action.requiresAdmin || isAdmin) {
+        if (!action.requiresInstallRole || canInstall) {
           if (action.requiresSelection && !selectionHook.stats.hasSelection) {
             return 'Select items first';
           }
@@ -512,13 +641,13 @@ export const useStoreUpdatesActions = ({
             return 'Please wait for current operation to complete';
           }
         }
-        if (action.requiresAdmin && !isAdmin) {
-          return 'Administrator privileges required for installation operations';
+        if (action.requiresInstallRole && !canInstall) {
+          return 'The installer role is required for installation operations';
         }
         return action.description;
       }
     }));
-  }, [primaryActions, isAdmin, selectionHook.stats.hasSelection, isInstalling, isSyncing]);
+  }, [primaryActions, canInstall, selectionHook.stats.hasSelection, isInstalling, isSyncing]);
 
   // Get action icon - UI utility function
   const getActionIcon = useCallback((iconName: string): React.ReactNode => {
@@ -606,9 +735,9 @@ export const useStoreUpdatesActions = ({
     );
   };
 
-  // Get button styling based on admin role and requirements
+  // Get button styling based on installer role and requirements
   const getButtonState = (action: any) => {
-    const hasRequiredRole = !action.requiresAdmin || isAdmin;
+    const hasRequiredRole = !action.requiresInstallRole || canInstall;
     const hasRequiredSelection = !action.requiresSelection || selectionHook.stats.hasSelection;
     const hasApplicableRecords = action.id === 'sync-applications' || action.applicableCount > 0; // Sync always enabled
     const isEnabled = hasRequiredRole && hasRequiredSelection && hasApplicableRecords && !isInstalling && !isSyncing;
@@ -625,7 +754,7 @@ export const useStoreUpdatesActions = ({
     // Determine why it's disabled
     let disabledReason = 'Unknown reason';
     if (!hasRequiredRole) {
-      disabledReason = 'Administrator privileges required for installation operations';
+      disabledReason = 'The installer role is required for installation operations';
     } else if (!hasRequiredSelection) {
       disabledReason = 'Select items first';
     } else if (!hasApplicableRecords) {
@@ -804,12 +933,32 @@ export const useStoreUpdatesActions = ({
             <Stack gap="xs">
               <Group justify="space-between">
                 <Text size="sm" fw={500}>
-                  {isSyncing ? 'Sync in Progress' : 'Installation in Progress'}
+                  {isSyncing ? 'Sync in Progress' : cancelPending ? 'Cancelling Installation' : 'Installation in Progress'}
                 </Text>
                 {!isSyncing && (
-                  <Text size="xs" c="dimmed">
-                    {Math.round(progress)}%
-                  </Text>
+                  <Group gap="xs">
+                    {progressFeed && (
+                      <Tooltip label={PROGRESS_FEED_BADGES[progressFeed].tooltip}>
+                        <Badge size="xs" variant="dot" color={PROGRESS_FEED_BADGES[progressFeed].color}>
+                          {PROGRESS_FEED_BADGES[progressFeed].label}
+                        </Badge>
+                      </Tooltip>
+                    )}
+                    <Text size="xs" c="dimmed">
+                      {Math.round(progress)}%
+                    </Text>
+                    {isAdmin && batchId && !cancelPending && (
+                      <Button
+                        size="compact-xs"
+                        variant="subtle"
+                        color="red"
+                        leftSection={<IconBan size={12} />}
+                        onClick={() => setIsCancelConfirmOpen(true)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </Group>
                 )}
               </Group>
               <Progress 
@@ -817,81 +966,240 @@ export const useStoreUpdatesActions = ({
                 size="sm" 
                 animated={isSyncing || isInstalling}
               />
-              <Text size="xs" c="dimmed">
-                {isSyncing ? 'Syncing applications from store...' : message}
+              <Group justify="space-between" wrap="nowrap" gap="xs">
+                <Text size="xs" c="dimmed">
+                  {isSyncing ? 'Syncing applications from store...' : message}
+                </Text>
+                {!isSyncing && remainingEstimate && (
+                  <InstallEstimateLabel
+                    estimate={remainingEstimate}
+                    suffix={`left · ${remainingEstimate.remaining_items} app${remainingEstimate.remaining_items !== 1 ? 's' : ''}`}
+                  />
+                )}
+              </Group>
+              {!isSyncing && batchId && (
+                <InstallBatchOutcomes
+                  outcomes={batchOutcomes.outcomes}
+                  isLoading={batchOutcomes.isLoading}
+                  error={batchOutcomes.error}
+                  maxHeight="30vh"
+                />
+              )}
+            </Stack>
+          </Alert>
+        )}
+
+        {/* Failed batch - which app broke it */}
+        {batchFailed && !isInstalling && !isSyncing && (
+          <Alert
+            color="red"
+            variant="light"
+            title="Installation Failed"
+            icon={<IconAlertTriangle size={16} />}
+            withCloseButton
+            onClose={batchProgressStore.resetOperation}
+          >
+            <Stack gap="xs">
+              {batchOutcomes.outcomes?.batch.error && (
+                <Text size="sm">{batchOutcomes.outcomes.batch.error}</Text>
+              )}
+
+        {/* Lost contact with the running batch */}
+        {batchUnknown && !isSyncing && (
+          <Alert
+            color="orange"
+            variant="light"
+            title="Installation Status Unknown"
+            icon={<IconPlugConnectedX size={16} />}
+            withCloseButton
+            onClose={batchProgressStore.resetOperation}
+          >
+            <Stack gap="xs">
+              <Text size="sm">
+                The dashboard stopped receiving progress after repeated errors. The batch may still be installing on the instance.
               </Text>
+              <Group gap="md">
+                <Button
+                  size="compact-sm"
+                  variant="light"
+                  color="orange"
+                  leftSection={<IconRefresh size={14} />}
+                  loading={isRechecking}
+                  onClick={() => {
+                    setIsRechecking(true);
+                    void resumeTracking().finally(() => setIsRechecking(false));
+                  }}
+                >
+                  Check again
+                </Button>
+                <Anchor component={Link} to={`/history/${batchId}`} size="sm">
+                  View batch details
+                </Anchor>
+              </Group>
+            </Stack>
+          </Alert>
+        )}
+              <InstallBatchOutcomes
+                outcomes={batchOutcomes.outcomes}
+                isLoading={batchOutcomes.isLoading}
+                error={batchOutcomes.error}
+                maxHeight="30vh"
+              />
+              <Anchor component={Link} to={`/history/${batchId}`} size="sm">
+                View batch details
+              </Anchor>
             </Stack>
           </Alert>
         )}
       </Stack>
 
+      {/* Cancel confirmation */}
+      <Modal
+        opened={isCancelConfirmOpen}
+        onClose={() => setIsCancelConfirmOpen(false)}
+        title="Cancel Installation?"
+        size="sm"
+        centered
+      >
+        <Stack gap="md">
+          <Text size="sm">
+            {queuedCount > 0
+              ? `${queuedCount} queued update${queuedCount !== 1 ? 's' : ''} will be skipped.`
+              : 'Updates that have not started will be skipped.'}
+            {' '}An update that is already installing is never interrupted - the batch stops after it finishes.
+          </Text>
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setIsCancelConfirmOpen(false)} disabled={isCancelling}>
+              Keep Installing
+            </Button>
+            <GenericButton color="red" leftSection={<IconBan size={16} />} onClick={handleConfirmCancel} loading={isCancelling}>
+              Cancel Installation
+            </GenericButton>
+          </Group>
+        </Stack>
+      </Modal>
+
       {/* Selected Items Overlay */}
       <SelectedItemsOverlay
         opened={isOverlayOpen}
         onClose={handleCloseOverlay}
         selectionHook={selectionHook}
       />
+    </Box>
+  );
 
-      {/* Confirmation Modal - ARCHITECTURE: State from custom hook */}
-      <Modal
-        opened={confirmationModal.open}
-        onClose={hideConfirmationModal}
-        title="Confirm Installation"
-        size="md"
-      >
-        <Stack gap="md">
-          <Alert icon={<IconAlertTriangle size={16} />} color="yellow" variant="light">
-            <Text fw={500} mb="xs">
-              Are you sure you want to {confirmationModal.actionLabel.toLowerCase()}?
-            </Text>
-            <Text size="sm">
-              This will install {confirmationModal.selectedCount} selected update{confirmationModal.selectedCount !== 1 ? 's' : ''} using the ServiceNow subflow.
-            </Text>
-          </Alert>
+  // Confirmation Modal - ARCHITECTURE: State from custom hook
+  // Rendered once by the dashboard so every tab (updates, available apps, plugins) can request installs
+  const hasExplicitTargets = confirmationModal.targetIds !== undefined;
+  const isPluginBatch = confirmationModal.targetKind === 'plugin';
+  // COMPATIBILITY: Incompatible versions block the confirmation until they are deselected
+  const incompatibleRecords = hasExplicitTargets
+    ? []
+    : selectionHook.selection.selectedRecords.filter(record => record.compatibility === 'incompatible');
+
+  const planBlocksInstall = !isPluginBatch && !installPlan.plan?.summary.installable;
 
-          {/* Selection breakdown */}
+  const ConfirmationModalComponent = () => (
+    <Modal
+      opened={confirmationModal.open}
+      onClose={hideConfirmationModal}
+      title="Confirm Installation"
+      size={isPluginBatch ? 'md' : 'xl'}
+    >
+      <Stack gap="md">
+        <Alert icon={<IconAlertTriangle size={16} />} color="yellow" variant="light">
+          <Text fw={500} mb="xs">
+            Are you sure you want to {confirmationModal.actionLabel.toLowerCase()}?
+          </Text>
+          <Text size="sm">
+            {isPluginBatch
+              ? <>This will activate or upgrade {confirmationModal.selectedCount} platform plugin{confirmationModal.selectedCount !== 1 ? 's' : ''} using a CI/CD batch install.</>
+              : hasExplicitTargets
+              ? <>This will install {confirmationModal.selectedCount} new application{confirmationModal.selectedCount !== 1 ? 's' : ''} using the ServiceNow subflow.</>
+              : <>This will install {confirmationModal.selectedCount} selected update{confirmationModal.selectedCount !== 1 ? 's' : ''} using the ServiceNow subflow.</>}
+          </Text>
+        </Alert>
+
+        {/* INSTALL PLAN: Resolved versions, dependency additions, blocked items and estimated duration */}
+        {!isPluginBatch && (
           <div>
-            <Text size="sm" fw={500} mb="xs">Selection Summary:</Text>
-            <Group gap="xs">
-              {Object.entries(selectionHook.stats.levelBreakdown).map(([level, count]) => (
-                <Badge
-                  key={level}
-                  color={level === 'major' ? 'red' : level === 'minor' ? 'yellow' : 'green'}
-                  variant="light"
-                >
-                  {Number(count || 0)} {level}
-                </Badge>
-              ))}
-            </Group>
+            <Text size="sm" fw={500} mb="xs">Install Plan:</Text>
+            <InstallPlanPreview
+              plan={installPlan.plan}
+              isLoading={installPlan.isLoading}
+              error={installPlan.error}
+              onRetry={() => { void installPlan.refresh(); }}
+            />
           </div>
+        )}
+
+        {!hasExplicitTargets && Object.keys(selectionHook.selection.addedAsDependency).length > 0 && (
+          <Text size="sm" c="dimmed">
+            Includes {Object.keys(selectionHook.selection.addedAsDependency).length} update(s) added as required dependencies.
+          </Text>
+        )}
 
-          <Divider />
+        {!hasExplicitTargets && selectionHook.dependencyWarnings.length > 0 && (
+          <Alert color="orange" variant="light" title="Unmet dependencies">
+            <Text size="sm">
+              {selectionHook.dependencyWarnings.length} dependenc{selectionHook.dependencyWarnings.length !== 1 ? 'ies are' : 'y is'} not
+              covered by this batch - affected installs may fail. Review them in the selected items view.
+            </Text>
+          </Alert>
+        )}
 
-          <Group justify="flex-end" gap="sm">
+        {incompatibleRecords.length > 0 && (
+          <Alert icon={<IconBan size={16} />} color="red" variant="light" title="Incompatible versions selected">
+            <Stack gap={4}>
+              {incompatibleRecords.map(record => (
+                <Text size="sm" key={record.sys_id}>
+                  <b>{record.application_name || record.name}</b>: {record.compatibility_reason}
+                </Text>
+              ))}
+            </Stack>
             <Button
+              size="xs"
               variant="light"
-              onClick={hideConfirmationModal}
-              disabled={isInstalling}
-            >
-              Cancel
-            </Button>
-            <Button
-              color="blue"
-              onClick={handleConfirmInstallation}
-              loading={isInstalling}
-              leftSection={<IconDownload size={16} />}
+              color="red"
+              mt="sm"
+              onClick={() => selectionHook.deselectRecords(incompatibleRecords.map(record => record.sys_id))}
             >
-              Start Installation
+              Remove incompatible from selection
             </Button>
-          </Group>
-        </Stack>
-      </Modal>
-    </Box>
+          </Alert>
+        )}
+
+        <Divider />
+
+        <Group justify="flex-end" gap="sm">
+          <Button
+            variant="light"
+            onClick={hideConfirmationModal}
+            disabled={isInstalling}
+          >
+            Cancel
+          </Button>
+          <Button
+            color="blue"
+            onClick={() => handleConfirmInstallation(isPluginBatch ? null : installPlan.plan)}
+            disabled={incompatibleRecords.length > 0 || planBlocksInstall || installPlan.isLoading}
+            loading={isInstalling}
+            leftSection={<IconDownload size={16} />}
+          >
+            {isPluginBatch ? 'Start Installation' : 'Approve Plan & Install'}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
   );
 
   return {
     ActionsComponent,
-    FilterAlignedIcons
+    FilterAlignedIcons,
+    ConfirmationModalComponent,
+    handleInstallAvailable,
+    handleInstallPlugins,
+    isInstalling
   };
 };
 
@@ -899,6 +1207,11 @@ export default useStoreUpdatesActions;
 
 // Legacy component export for backward compatibility
 export const StoreUpdatesActions: React.FC<StoreUpdatesActionsProps> = (props) => {
-  const { ActionsComponent } = useStoreUpdatesActions(props);
-  return <ActionsComponent />;
+  const { ActionsComponent, ConfirmationModalComponent } = useStoreUpdatesActions(props);
+  return (
+    <>
+      <ActionsComponent />
+      <ConfirmationModalComponent />
+    </>
+  );
 };
\ No newline at end of file
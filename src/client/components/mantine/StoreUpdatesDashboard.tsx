@@ -11,6 +11,11 @@
 // ADDED: Automatic data refresh after installation completion
 // STATISTICS ALIGNMENT: FIXED - Text badges now properly aligned below numbers for consistent visual hierarchy
 // SMART REFRESH: Implemented smart data refresh strategy - no backend refetch for filter clearing
+// SNAPSHOT: Header shows the age of the persisted scan with an admin "Rescan now" action
+// FRESH INSTALLS: Updates / Available tabs - entitled apps that are not installed can be installed too
+// PLUGINS: Platform Plugins tab - sys_plugins upgrades and activations through the same batch pipeline
+// TARGETS: One row per application - changing its upgrade target keeps a selected row selected
+// LOCK: Banner while another install batch holds the server-side install lock
 
 import React, { useEffect, useMemo } from 'react';
 import {
@@ -28,6 +33,7 @@ import {
   Alert,
   Loader,
   Center,
+  Tabs,
   useMantineColorScheme
 } from '@mantine/core';
 import {
@@ -41,7 +47,9 @@ import {
   IconUser,
   IconClock,
   IconSun,
-  IconMoon
+  IconMoon,
+  IconPackage,
+  IconPlug
 } from '@tabler/icons-react';
 
 import { 
@@ -50,6 +58,8 @@ import {
   useStoreUpdatesPagination,
   useStoreUpdatesStats
 } from '../../../hooks/useStoreUpdatesHybrid';
+import type { StoreUpdate, StoreUpdateLevel } from '../../../hooks/useStoreUpdatesHybrid';
+import { useStoreUpdatesSnapshot } from '../../../hooks/useStoreUpdatesSnapshot';
 import { useStoreUpdatesStore } from '../../../state/storeUpdatesStore';
 import { useStoreUpdatesSelection } from '../../../hooks/useStoreUpdatesSelection';
 import { useNotifications } from '../../../hooks/useNotifications';
@@ -62,6 +72,9 @@ import { GenericCard } from '../../../components/mantine/Card';
 import { StoreUpdatesDataGrid } from './StoreUpdatesDataGrid';
 import { StoreUpdatesFilters } from './StoreUpdatesFilters';
 import { useStoreUpdatesActions } from './StoreUpdatesActions';
+import { AvailableAppsPanel } from './AvailableAppsPanel';
+import { PluginUpdatesPanel } from './PluginUpdatesPanel';
+import { InstallLockBanner } from './InstallLockBanner';
 import { StatsGridSkeleton, DataGridSkeleton } from '../../../components/skeleton/SkeletonComponents';
 
 interface StoreUpdatesDashboardProps {
@@ -103,7 +116,7 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
   // NEW: Use store-based dual-source statistics (single source of truth)
   const statsHook = useStoreUpdatesStats();
 
-  const selectionHook = useStoreUpdatesSelection(storeUpdatesData.data.rawServerData || []);
+  const selectionHook = useStoreUpdatesSelection(storeUpdatesData.data.rawServerData || [], storeUpdatesData.getTargets);
 
   // NEW: Use local store for user context with admin role
   const userContext = useEnhancedUserContext();
@@ -163,6 +176,30 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
     }));
   }, [selectionHook.clearSelection, filteringHook.clearFilters]);
 
+  // TARGETS: Switch an application's upgrade target, carrying an existing selection over to the new version
+  const handleTargetChange = React.useCallback((record: StoreUpdate, level: StoreUpdateLevel) => {
+    const target = storeUpdatesData.getTargets(record.application).find(candidate => candidate.level === level);
+    if (!target) return;
+
+    storeUpdatesData.setTargetLevel(record.application, level);
+
+    if (selectionHook.isRecordSelected(record.sys_id)) {
+      selectionHook.replaceRecord(record.sys_id, target.record);
+    }
+  }, [storeUpdatesData.getTargets, storeUpdatesData.setTargetLevel, selectionHook.isRecordSelected, selectionHook.replaceRecord]);
+
+  // FRESH INSTALLS: Updates list or entitled-but-not-installed apps
+  // PLUGINS: Platform plugins are a separate category with their own tab
+  const [activeTab, setActiveTab] = React.useState<'updates' | 'available' | 'plugins'>('updates');
+
+  // SNAPSHOT: A rescan replaces the table contents, so statistics must come from the API afterwards
+  const snapshot = useStoreUpdatesSnapshot({
+    onRescanComplete: () => {
+      selectionHook.clearSelection();
+      markDataActionsPerformed();
+    }
+  });
+
   // FIXED: Initialize useStoreUpdatesActions at top level with stable dependencies
   // CORRECTED: Use rawServerData (all records) instead of paginated records for proper selection
   const storeUpdatesActions = useStoreUpdatesActions({
@@ -264,7 +301,8 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
                 <Text size="sm" c="dimmed" mt={4}>
                   Records: {storeUpdatesData.data.allRecordsCount} • 
                   Filtered: {paginationHook.totalRecords} • 
-                  Page: {paginationHook.page}/{paginationHook.totalPages}
+                  Page: {paginationHook.page}/{paginationHook.totalPages} • 
+                  Last scan: {snapshot.isStatusLoading ? '…' : snapshot.scanAge}
                   {logger.isDebugEnabled() && (
                     <> • Debug Mode • Stats Source: {dashboardStats.source}</>
                   )}
@@ -272,6 +310,19 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
               </div>
               <Group gap="xs">
                 <ColorSchemeToggle />
+                {userContext.isAdmin && (
+                  <Tooltip label={snapshot.scannedAt ? `Rescan now (last scan ${snapshot.scannedAt.toLocaleString()})` : 'Rescan now'}>
+                    <ActionIcon
+                      variant="light"
+                      size="lg"
+                      onClick={() => { void snapshot.rescan('manual').catch(() => undefined); }}
+                      loading={snapshot.isRescanning}
+                      aria-label="Rescan now"
+                    >
+                      <IconClock size={20} />
+                    </ActionIcon>
+                  </Tooltip>
+                )}
                 <ActionIcon variant="light" size="lg" onClick={handleDataRefresh} aria-label="Refresh data">
                   <IconRefresh size={20} />
                 </ActionIcon>
@@ -283,6 +334,8 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
           </Card>
         )}
 
+        <InstallLockBanner isAdmin={userContext.isAdmin} />
+
         {/* PATTERN 2A: Show stats immediately, or skeleton during initial load */}
         {dashboardStats ? (
           <Grid gutter="xs" w="100%">
@@ -385,34 +438,79 @@ export const StoreUpdatesDashboard: React.FC<StoreUpdatesDashboardProps> = ({
           <StatsGridSkeleton />
         )}
 
-        <Card padding="lg" radius="md" withBorder w="100%">
-          <Group justify="space-between" mb="xs" w="100%">
-            <Group gap="xs">
-              {/* LAYOUT FIX: Filters with filter-aligned action icons positioned together */}
-              <StoreUpdatesFilters 
-                filteringHook={filteringHook} 
-                data={storeUpdatesData.data.rawServerData || []} // Pass raw server data for unique values
-                compactMode={compactMode} 
-              />
+        <Tabs value={activeTab} onChange={(value) => setActiveTab(value === 'available' || value === 'plugins' ? value : 'updates')} keepMounted={false}>
+          <Tabs.List mb="xs">
+            <Tabs.Tab value="updates" leftSection={<IconDownload size={16} />}>
+              Updates ({storeUpdatesData.data.allRecordsCount})
+            </Tabs.Tab>
+            <Tabs.Tab value="available" leftSection={<IconPackage size={16} />}>
+              Available to Install
+            </Tabs.Tab>
+            <Tabs.Tab value="plugins" leftSection={<IconPlug size={16} />}>
+              Platform Plugins
+            </Tabs.Tab>
+          </Tabs.List>
+
+          <Tabs.Panel value="updates">
+            <Stack gap="xs" w="100%">
+              <Card padding="lg" radius="md" withBorder w="100%">
+                <Group justify="space-between" mb="xs" w="100%">
+                  <Group gap="xs">
+                    {/* LAYOUT FIX: Filters with filter-aligned action icons positioned together */}
+                    <StoreUpdatesFilters 
+                      filteringHook={filteringHook} 
+                      data={storeUpdatesData.data.rawServerData || []} // Pass raw server data for unique values
+                      compactMode={compactMode} 
+                    />
               
-              {/* LAYOUT FIX: Action icons positioned next to filter icon with consistent styling */}
-              {storeUpdatesActions.FilterAlignedIcons()}
-            </Group>
+                    {/* LAYOUT FIX: Action icons positioned next to filter icon with consistent styling */}
+                    {storeUpdatesActions.FilterAlignedIcons()}
+                  </Group>
             
-            {/* LAYOUT FIX: Main actions component on the right */}
-            {storeUpdatesActions.ActionsComponent()}
-          </Group>
-        </Card>
-
-        <StoreUpdatesDataGrid
-          data={storeUpdatesData.data.records || []}
-          filteringHook={filteringHook}
-          paginationHook={paginationHook}
-          selectionHook={selectionHook}
-          compactMode={compactMode}
-          onDataRefresh={handleDataRefresh} // Backend refetch for data-changing operations
-          onClearState={handleSmartClearState} // Smart client-side clearing only
-        />
+                  {/* LAYOUT FIX: Main actions component on the right */}
+                  {storeUpdatesActions.ActionsComponent()}
+                </Group>
+              </Card>
+
+              <StoreUpdatesDataGrid
+                data={storeUpdatesData.data.records || []}
+                filteringHook={filteringHook}
+                paginationHook={paginationHook}
+                selectionHook={selectionHook}
+                compactMode={compactMode}
+                onDataRefresh={handleDataRefresh} // Backend refetch for data-changing operations
+                onClearState={handleSmartClearState} // Smart client-side clearing only
+                getTargets={storeUpdatesData.getTargets}
+                onTargetChange={handleTargetChange}
+              />
+            </Stack>
+          </Tabs.Panel>
+
+          <Tabs.Panel value="available">
+            <Card padding="lg" radius="md" withBorder w="100%">
+              <AvailableAppsPanel
+                canInstall={userContext.capabilities.canInstall}
+                isInstalling={storeUpdatesActions.isInstalling}
+                compactMode={compactMode}
+                onInstallSelected={storeUpdatesActions.handleInstallAvailable}
+              />
+            </Card>
+          </Tabs.Panel>
+
+          <Tabs.Panel value="plugins">
+            <Card padding="lg" radius="md" withBorder w="100%">
+              <PluginUpdatesPanel
+                canInstall={userContext.capabilities.canInstall}
+                isInstalling={storeUpdatesActions.isInstalling}
+                compactMode={compactMode}
+                onInstallSelected={storeUpdatesActions.handleInstallPlugins}
+              />
+            </Card>
+          </Tabs.Panel>
+        </Tabs>
+
+        {/* Shared by all tabs - installs from any list are confirmed here */}
+        {storeUpdatesActions.ConfirmationModalComponent()}
 
         {/* Debug information for development */}
         {logger.isDebugEnabled() && (
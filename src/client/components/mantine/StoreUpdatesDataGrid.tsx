@@ -8,6 +8,9 @@
 // HOVER: Removed hover effect from expanded row details
 // BUTTONS: Standardized all button color/hover properties to match Refresh button variant="light"
 // SMART CLEAR: Header checkbox implements smart clearing strategy (no backend refetch for filter clearing)
+// COMPATIBILITY: Expanded details show the platform compatibility status and reason of the available version
+// RELEASE NOTES: Expanded details open the aggregated release notes from installed to available version
+// TARGETS: Expanded details pick the application's upgrade target (latest patch / minor / major)
 
 import React, { useCallback, useMemo, useState, useEffect } from 'react';
 import {
@@ -30,6 +33,8 @@ import {
   Anchor,
   Divider,
   Collapse,
+  Modal,
+  SegmentedControl,
   useMantineTheme,
   useMantineColorScheme,
   alpha,
@@ -48,15 +53,18 @@ import {
   IconX,
   IconChevronDown,
   IconChevronRight as IconChevronRightCollapsed,
-  IconExternalLink
+  IconExternalLink,
+  IconBan,
+  IconNotes
 } from '@tabler/icons-react';
 
 // Import types and hooks
-import type { StoreUpdate } from '../../../hooks/useStoreUpdatesHybrid';
+import type { StoreUpdate, StoreUpdateLevel, StoreUpdateTarget } from '../../../hooks/useStoreUpdatesHybrid';
 import type { useStoreUpdatesFiltering, useStoreUpdatesPagination } from '../../../hooks/useStoreUpdatesHybrid';
 import type { useStoreUpdatesSelection } from '../../../hooks/useStoreUpdatesSelection';
 import { logger, createLogContext } from '../../../monitoring/logger';
 import { useThemeManagement } from '../../../hooks/useThemeManagement';
+import { ReleaseNotesPanel } from './ReleaseNotesPanel';
 
 // Import generic components
 import { GenericTable } from '../../../components/mantine/Table';
@@ -72,6 +80,8 @@ interface StoreUpdatesDataGridProps {
   onRowDoubleClick?: (record: StoreUpdate) => void;
   onDataRefresh?: () => Promise<void>; // For data-changing operations only
   onClearState?: () => void; // NEW: For smart client-side clearing only
+  getTargets?: (applicationId: string) => StoreUpdateTarget[];
+  onTargetChange?: (record: StoreUpdate, level: StoreUpdateLevel) => void;
 }
 
 // Column configuration
@@ -99,8 +109,14 @@ const formatDate = (dateString?: string): string => {
   }
 };
 
+const COMPATIBILITY_BADGES: Record<NonNullable<StoreUpdate['compatibility']>, { color: string; label: string }> = {
+  compatible: { color: 'green', label: 'Compatible' },
+  incompatible: { color: 'red', label: 'Incompatible' },
+  unknown: { color: 'gray', label: 'Unknown' }
+};
+
 // Helper function to build Application Manager URL
-const buildAppManagerUrl = (sourceAppId?: string, version?: string): string => {
+export const buildAppManagerUrl = (sourceAppId?: string, version?: string): string => {
   if (!sourceAppId) return '#';
   const safeVersion = version || 'latest';
   return `./now/app-manager/home/app/id/${sourceAppId}/v/${safeVersion}/details`;
@@ -114,11 +130,14 @@ const buildAppManagerUrl = (sourceAppId?: string, version?: string): string => {
  */
 interface ExpandableRowDetailsProps {
   record: StoreUpdate;
+  targets?: StoreUpdateTarget[] | undefined;
+  onTargetChange?: ((record: StoreUpdate, level: StoreUpdateLevel) => void) | undefined;
 }
 
-const ExpandableRowDetails: React.FC<ExpandableRowDetailsProps> = ({ record }) => {
+const ExpandableRowDetails: React.FC<ExpandableRowDetailsProps> = ({ record, targets = [], onTargetChange }) => {
   const theme = useMantineTheme();
   const { colorScheme } = useMantineColorScheme();
+  const [releaseNotesOpen, setReleaseNotesOpen] = useState(false);
   
   // Use consistent blue background across all themes (same as selected rows)
   const expandedBackgroundColor = colorScheme === 'dark' 
@@ -150,6 +169,47 @@ const ExpandableRowDetails: React.FC<ExpandableRowDetailsProps> = ({ record }) =
           </Stack>
         </Group>
 
+        {/* Upgrade target - the chosen version is what gets installed */}
+        {targets.length > 0 && (
+          <Stack gap={4}>
+            <Text size="xs" fw={500} c="dimmed">Upgrade Target</Text>
+            {targets.length > 1 && onTargetChange ? (
+              <SegmentedControl
+                size="xs"
+                value={record.batch_level}
+                onChange={(value) => onTargetChange(record, value as StoreUpdateLevel)}
+                data={targets.map(target => ({
+                  value: target.level,
+                  label: `${target.label} (${target.version})`
+                }))}
+                onClick={(e) => e.stopPropagation()}
+                style={{ alignSelf: 'flex-start' }}
+              />
+            ) : (
+              <Text size="sm">
+                {targets[0]!.label} ({targets[0]!.version}) - no other target available
+              </Text>
+            )}
+          </Stack>
+        )}
+
+        {/* Platform compatibility of the available version - incompatible versions cannot be installed */}
+        <Stack gap={2}>
+          <Text size="xs" fw={500} c="dimmed">Platform Compatibility</Text>
+          {record.compatibility === 'incompatible' ? (
+            <Alert color="red" variant="light" p="xs" icon={<IconBan size={16} />} title="Incompatible - installation blocked">
+              <Text size="sm">{record.compatibility_reason}</Text>
+            </Alert>
+          ) : (
+            <Group gap="xs">
+              <Badge size="sm" variant="light" color={COMPATIBILITY_BADGES[record.compatibility ?? 'unknown'].color}>
+                {COMPATIBILITY_BADGES[record.compatibility ?? 'unknown'].label}
+              </Badge>
+              <Text size="sm" c="dimmed">{record.compatibility_reason || 'Not checked yet - rescan to evaluate'}</Text>
+            </Group>
+          )}
+        </Stack>
+
         {/* Description section */}
         <Stack gap={2}>
           <Text size="xs" fw={500} c="dimmed">Description</Text>
@@ -158,6 +218,32 @@ const ExpandableRowDetails: React.FC<ExpandableRowDetailsProps> = ({ record }) =
           </Text>
         </Stack>
 
+        {/* Release notes of every version up to the available one */}
+        <Box>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconNotes size={14} />}
+            onClick={(e) => {
+              e.stopPropagation();
+              setReleaseNotesOpen(true);
+            }}
+          >
+            Release notes {record.application_version || record.installed_version} → {record.available_version_version || 'latest'}
+          </Button>
+        </Box>
+
+        <Modal
+          opened={releaseNotesOpen}
+          onClose={() => setReleaseNotesOpen(false)}
+          title={<Text fw={600}>{record.application_name || record.name} - Release Notes</Text>}
+          size="xl"
+        >
+          {releaseNotesOpen && (
+            <ReleaseNotesPanel applicationId={record.application} targetVersionId={record.available_version} />
+          )}
+        </Modal>
+
         {/* Application Manager link */}
         {record.available_version_source_app_id && (
           <Box>
@@ -466,7 +552,9 @@ export const StoreUpdatesDataGrid: React.FC<StoreUpdatesDataGridProps> = ({
   onRowClick,
   onRowDoubleClick,
   onDataRefresh, // For data-changing operations (install, sync)
-  onClearState   // NEW: For smart client-side clearing only
+  onClearState,  // NEW: For smart client-side clearing only
+  getTargets,
+  onTargetChange
 }) => {
   // EXPANDABLE ROWS STATE: Track which row is expanded (only one at a time)
   const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
@@ -905,7 +993,11 @@ export const StoreUpdatesDataGrid: React.FC<StoreUpdatesDataGridProps> = ({
                       cursor: 'default'
                     }}>
                       <Collapse in={isExpanded}>
-                        <ExpandableRowDetails record={record} />
+                        <ExpandableRowDetails
+                          record={record}
+                          targets={getTargets?.(record.application)}
+                          onTargetChange={onTargetChange}
+                        />
                       </Collapse>
                     </Table.Td>
                   </Table.Tr>
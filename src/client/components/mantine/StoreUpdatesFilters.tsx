@@ -27,6 +27,7 @@ import {
 
 import type { useStoreUpdatesFiltering } from '../../../hooks/useStoreUpdatesHybrid';
 import type { StoreUpdate } from '../../../hooks/useStoreUpdatesHybrid';
+import { highestUpdateLevel } from '../../../hooks/useStoreUpdatesHybrid';
 import { logger } from '../../../monitoring/logger';
 import { 
   getString, 
@@ -51,7 +52,7 @@ interface FilterOption {
 
 /**
  * SIMPLIFIED: Clean filter panel with refined types and nullish coalescing
- * 1. Batch Level: Multi-select with Major, Minor, Patch from actual data
+ * 1. Batch Level: Multi-select with Major, Minor, Patch - the highest update available to each application
  * 2. Published Date: Multi-select with unique published dates from data
  */
 export const StoreUpdatesFilters: React.FC<StoreUpdatesFiltersProps> = ({
@@ -70,7 +71,7 @@ export const StoreUpdatesFilters: React.FC<StoreUpdatesFiltersProps> = ({
     const levelCounts = new Map<string, number>();
     
     dataArray.forEach(record => {
-      const batchLevel = getString(record?.batch_level, '').trim();
+      const batchLevel = getString(record ? highestUpdateLevel(record) : '', '').trim();
       if (batchLevel) {
         levelCounts.set(batchLevel, (levelCounts.get(batchLevel) ?? 0) + 1);
       }
@@ -20,6 +20,14 @@ export const StoreUpdatesDashboard = lazy(() =>
   import('../../client/components/mantine/StoreUpdatesDashboard')
 );
 
+export const InstallHistoryPage = lazy(() => 
+  import('../../client/components/mantine/InstallHistoryPage')
+);
+
+export const InstallBatchDetail = lazy(() => 
+  import('../../client/components/mantine/InstallBatchDetail')
+);
+
 export const DevelopmentDebugPanel = lazy(() => 
   import('../debug/DevelopmentDebugPanel').then(module => ({ 
     default: module.DevelopmentDebugPanel 
@@ -2,8 +2,11 @@
 // Navigation header component - SIMPLIFIED to let Mantine handle ALL theming
 // Following Architecture.md: Let Mantine handle theming automatically
 // UPDATED: Removed shadow to blend seamlessly with dashboard content
+// ROUTES: Install History button toggles between the dashboard and #/history
+// OPERATIONS: Operations button opens the drawer of active and recent operations - badge counts the running ones
 
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
   Paper,
   Group,
@@ -22,12 +25,18 @@ import {
   IconDatabase,
   IconCode,
   IconReportAnalytics,
-  IconExternalLink
+  IconExternalLink,
+  IconHistory,
+  IconLayoutDashboard,
+  IconListDetails
 } from '@tabler/icons-react';
 import { showNotification } from '@mantine/notifications';
 import { ColorSchemeToggle } from '../theme/ColorSchemeToggle';
 import { logger, createLogContext } from '../../monitoring/logger';
 import { useEnhancedUserContext } from '../../hooks/useUserContext';
+import { useOperationNotifications } from '../../hooks/useOperationNotifications';
+import { useActiveOperationCount } from '../../stores/batchProgressStore';
+import { OperationsDrawer } from '../../client/components/mantine/OperationsDrawer';
 
 // Check if debug mode is enabled
 const isDebugMode = () => {
@@ -36,6 +45,13 @@ const isDebugMode = () => {
 
 export const NavigationHeader: React.FC = React.memo(() => {
   const userContext = useEnhancedUserContext();
+  const navigate = useNavigate();
+  const isHistoryRoute = useLocation().pathname.startsWith('/history');
+  const activeOperationCount = useActiveOperationCount();
+  const [isOperationsOpen, setIsOperationsOpen] = useState(false);
+
+  // The header is on every route - operation notifications are owned here
+  useOperationNotifications();
   
   const currentDate = useMemo(() => {
     return new Date().toLocaleDateString('en-US', {
@@ -124,6 +140,25 @@ export const NavigationHeader: React.FC = React.memo(() => {
         {/* Navigation Menu */}
         <Group gap="md">
           <ColorSchemeToggle />
+
+          <Button
+            variant="light"
+            leftSection={isHistoryRoute ? <IconLayoutDashboard size={16} /> : <IconHistory size={16} />}
+            onClick={() => navigate(isHistoryRoute ? '/' : '/history')}
+          >
+            {isHistoryRoute ? 'Dashboard' : 'Install History'}
+          </Button>
+
+          <Button
+            variant="light"
+            leftSection={<IconListDetails size={16} />}
+            rightSection={activeOperationCount > 0 ? (
+              <Badge size="sm" variant="filled" circle>{activeOperationCount}</Badge>
+            ) : undefined}
+            onClick={() => setIsOperationsOpen(true)}
+          >
+            Operations
+          </Button>
           
           <Button
             variant="light"
@@ -161,6 +196,62 @@ export const NavigationHeader: React.FC = React.memo(() => {
                 </div>
               </Menu.Item>
 
+              <Menu.Item
+                leftSection={<IconDatabase size={16} />}
+                rightSection={<IconExternalLink size={14} />}
+                onClick={() => handleNavigation(
+                  '/x_snc_store_upda_1_update_snapshot_list.do?sysparm_clear_stack=true',
+                  'Update Snapshot Table'
+                )}
+              >
+                <div>
+                  <Text fw={500}>Update Snapshot Table</Text>
+                  <Text size="xs" c="dimmed">Persisted scan used by the dashboard and reports</Text>
+                </div>
+              </Menu.Item>
+
+              <Menu.Item
+                leftSection={<IconDatabase size={16} />}
+                rightSection={<IconExternalLink size={14} />}
+                onClick={() => handleNavigation(
+                  '/x_snc_store_upda_1_available_apps_list.do?sysparm_clear_stack=true',
+                  'Available Store Apps Table'
+                )}
+              >
+                <div>
+                  <Text fw={500}>Available Store Apps Table</Text>
+                  <Text size="xs" c="dimmed">Entitled applications that are not installed</Text>
+                </div>
+              </Menu.Item>
+
+              <Menu.Item
+                leftSection={<IconDatabase size={16} />}
+                rightSection={<IconExternalLink size={14} />}
+                onClick={() => handleNavigation(
+                  '/x_snc_store_upda_1_plugin_updates_list.do?sysparm_clear_stack=true',
+                  'Platform Plugin Updates Table'
+                )}
+              >
+                <div>
+                  <Text fw={500}>Platform Plugin Updates Table</Text>
+                  <Text size="xs" c="dimmed">Plugins that can be upgraded or activated</Text>
+                </div>
+              </Menu.Item>
+
+              <Menu.Item
+                leftSection={<IconDatabase size={16} />}
+                rightSection={<IconExternalLink size={14} />}
+                onClick={() => handleNavigation(
+                  '/x_snc_store_upda_1_install_batch_list.do?sysparm_query=ORDERBYDESCrequested_on',
+                  'Install Batches Table'
+                )}
+              >
+                <div>
+                  <Text fw={500}>Install Batches Table</Text>
+                  <Text size="xs" c="dimmed">Audit history of every install batch</Text>
+                </div>
+              </Menu.Item>
+
               <Menu.Item
                 leftSection={<IconCode size={16} />}
                 rightSection={<IconExternalLink size={14} />}
@@ -222,6 +313,8 @@ export const NavigationHeader: React.FC = React.memo(() => {
           </Menu>
         </Group>
       </Group>
+
+      <OperationsDrawer opened={isOperationsOpen} onClose={() => setIsOperationsOpen(false)} />
     </Paper>
   );
 });
\ No newline at end of file
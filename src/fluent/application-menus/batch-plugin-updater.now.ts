@@ -54,4 +54,69 @@ export const storeUpdatesTable = Record({
         active: true,
         order: 300,
     },
+})
+
+// Create a module to view the persisted update snapshot
+export const updateSnapshotTable = Record({
+    $id: Now.ID['batch_plugin_update_snapshot_table'],
+    table: 'sys_app_module',
+    data: {
+        title: 'Update Snapshot',
+        application: batchPluginUpdaterMenu.$id,
+        link_type: 'LIST',
+        name: 'x_snc_store_upda_1_update_snapshot',
+        hint: 'View the last persisted store updates scan',
+        description: 'List view of the store update snapshot used by the dashboard and reports',
+        active: true,
+        order: 400,
+    },
+})
+
+// Create a module to view entitled Store applications that are not installed
+export const availableAppsTable = Record({
+    $id: Now.ID['batch_plugin_available_apps_table'],
+    table: 'sys_app_module',
+    data: {
+        title: 'Available Store Apps',
+        application: batchPluginUpdaterMenu.$id,
+        link_type: 'LIST',
+        name: 'x_snc_store_upda_1_available_apps',
+        hint: 'View entitled Store applications that are not installed',
+        description: 'List view of Store applications available for a fresh install',
+        active: true,
+        order: 500,
+    },
+})
+
+// Create a module to view platform plugins that can be upgraded or activated
+export const pluginUpdatesTable = Record({
+    $id: Now.ID['batch_plugin_plugin_updates_table'],
+    table: 'sys_app_module',
+    data: {
+        title: 'Platform Plugin Updates',
+        application: batchPluginUpdaterMenu.$id,
+        link_type: 'LIST',
+        name: 'x_snc_store_upda_1_plugin_updates',
+        hint: 'View platform plugins with an upgrade or pending activation',
+        description: 'List view of sys_plugins entries that can be upgraded or activated',
+        active: true,
+        order: 600,
+    },
+})
+
+// Create a module to view the audit history of install batches
+export const installBatchTable = Record({
+    $id: Now.ID['batch_plugin_install_batch_table'],
+    table: 'sys_app_module',
+    data: {
+        title: 'Install Batch History',
+        application: batchPluginUpdaterMenu.$id,
+        link_type: 'LIST',
+        name: 'x_snc_store_upda_1_install_batch',
+        filter: 'ORDERBYDESCrequested_on',
+        hint: 'View who installed which updates, when, and how each batch ended',
+        description: 'List view of every install_updates batch with requester, items, status and duration',
+        active: true,
+        order: 700,
+    },
 })
\ No newline at end of file
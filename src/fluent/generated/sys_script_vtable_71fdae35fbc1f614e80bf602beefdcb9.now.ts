@@ -81,26 +81,15 @@ Record({
   				'publish_date': v.getValue('publish_date')
   			});
   		}
+  		// orderBy('version') is lexical - sort numerically so the newest version wins
+  		vers.sort(function(a, b) {
+  			return versionComparator.compare(a.version, b.version);
+  		});
   		return vers;
   	};
   
-  	// Function to compare current and available version and determine the difference level
-  	var compareVersion = function(currentVer, availableVer) {
-  		var currentVerParts = currentVer.split('.');
-  		var availableVerParts = availableVer.split('.');
-  		var diff = 'None';
-  
-  		if (currentVerParts[0] !== availableVerParts[0]) {
-  			diff = 'Major';
-  		} else if (currentVerParts[1] !== availableVerParts[1]) {
-  			diff = 'Minor';
-  		} else if (currentVerParts[2] !== availableVerParts[2]) {
-  			diff = 'Patch';
-  		} else {
-  			diff = 'No';
-  		}
-  		return diff;
-  	};
+  	// Shared comparator - keeps this table in line with StoreUpdatesProcessor
+  	var versionComparator = new x_snc_store_upda_1.VersionComparator();
   
   	// Query active store apps with updates available
   	var storeAppVer = new GlideRecord('sys_store_app');
@@ -114,7 +103,12 @@ Record({
   		var availVersion = getAvailableVersion(cur);
   		for (var v in availVersion) {
   			var ver = availVersion[v];
-  			var diff = compareVersion(storeAppVer.getValue('version'), ver.version).toLowerCase();
+  			var diff = versionComparator.classify(storeAppVer.getValue('version'), ver.version);
+  
+  			// Skip versions that are equal to or older than the installed one
+  			if (diff == 'no' || diff == 'downgrade') {
+  				continue;
+  			}
   
   			// Initialize result object for the current app if not already present
   			if (res.hasOwnProperty(cur) == false) {
@@ -3,11 +3,48 @@
 // Import application menus
 import './application-menus/batch-plugin-updater.now';
 
+// Import roles
+import './roles/installer-role.now';
+
 // Import tables
 import './tables/store-updates.now';
+import './tables/store-update-snapshot.now';
+import './tables/available-apps.now';
+import './tables/plugin-updates.now';
+import './tables/install-batch.now';
+import './tables/install-batch-item.now';
 
 // Import script includes
+import './script-includes/version-comparator.now';
+import './script-includes/remote-table-query.now';
 import './script-includes/store-updates-processor.now';
+import './script-includes/app-dependency-resolver.now';
+import './script-includes/app-compatibility-checker.now';
+import './script-includes/release-notes-service.now';
+import './script-includes/install-request-parser.now';
+import './script-includes/install-duration-estimator.now';
+import './script-includes/install-plan-service.now';
+import './script-includes/install-batch-service.now';
+import './script-includes/install-batch-log-service.now';
+import './script-includes/store-updates-snapshot.now';
+import './script-includes/available-apps-processor.now';
+import './script-includes/plugin-updates-processor.now';
+
+// Import system properties
+import './properties/cicd-properties.now';
+import './properties/dashboard-properties.now';
+import './properties/plugin-properties.now';
+
+// Import scripted REST APIs
+import './scripted-rest-apis/install-updates-api.now';
+import './scripted-rest-apis/store-updates-api.now';
+
+// Import scheduled jobs
+import './scheduled-jobs/store-updates-snapshot-scan.now';
+import './scheduled-jobs/install-batch-sync.now';
+
+// Import script actions
+import './script-actions/install-batch-run.now';
 
 // Import UI pages
 import './ui-pages/store-updates-dashboard.now';
\ No newline at end of file
@@ -0,0 +1,29 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// CI/CD settings used when the app starts batches itself (platform plugins)
+// The action default matches the Batch Install step of the process_plugin_updates subflow
+
+// Connection & Credential alias of the CI/CD account (sys_alias) - required, plugin batches fail to start until it is set
+export const cicdCredentialAliasProperty = Record({
+    $id: Now.ID['cicd_credential_alias_property'],
+    table: 'sys_properties',
+    data: {
+        name: 'x_snc_store_upda_1.cicd.credential_alias',
+        description: 'Required: sys_id of the Connection & Credential alias used for CI/CD batch installs of platform plugins',
+        type: 'string',
+        value: '',
+    },
+})
+
+// Flow Designer action that runs a CI/CD batch install
+export const cicdBatchInstallActionProperty = Record({
+    $id: Now.ID['cicd_batch_install_action_property'],
+    table: 'sys_properties',
+    data: {
+        name: 'x_snc_store_upda_1.cicd.batch_install_action',
+        description: 'Scoped name of the CI/CD spoke Batch Install action used for platform plugin batches',
+        type: 'string',
+        value: 'sn_cicd_spoke.batch_install',
+    },
+})
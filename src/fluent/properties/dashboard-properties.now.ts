@@ -0,0 +1,28 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// Dashboard settings read by the UI page (injected into snImmediateData.appContext) and snapshot bookkeeping
+
+// Live progress through the record watcher (AMB) - polling stays the fallback
+export const liveUpdatesProperty = Record({
+    $id: Now.ID['live_updates_property'],
+    table: 'sys_properties',
+    data: {
+        name: 'x_snc_store_upda_1.live_updates',
+        description: 'Push install progress to the dashboard through the record watcher instead of polling every few seconds. Set to false to always poll',
+        type: 'true_false',
+        value: 'true',
+    },
+})
+
+// Newest completed snapshot scan ("scan_id@scanned_on") - written by StoreUpdatesSnapshot, not a setting
+export const snapshotScanProperty = Record({
+    $id: Now.ID['snapshot_scan_property'],
+    table: 'sys_properties',
+    data: {
+        name: 'x_snc_store_upda_1.snapshot_scan',
+        description: 'Newest completed store updates snapshot scan. Maintained by StoreUpdatesSnapshot - overlapping scans use it to decide which rows stay, and snapshot readers filter on its scan id',
+        type: 'string',
+        value: '',
+    },
+})
@@ -0,0 +1,16 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// Platform Plugins tab settings read by PluginUpdatesProcessor
+
+// Inactive plugins offered for activation - upgrades of active plugins are always listed
+export const pluginActivationListProperty = Record({
+    $id: Now.ID['plugin_activation_list_property'],
+    table: 'sys_properties',
+    data: {
+        name: 'x_snc_store_upda_1.plugins.activation_list',
+        description: 'Comma-separated plugin ids (sys_plugins.source) that may be activated from the Platform Plugins tab. Empty offers no activations',
+        type: 'string',
+        value: '',
+    },
+})
@@ -0,0 +1,10 @@
+import '@servicenow/sdk/global'
+import { Role } from '@servicenow/sdk/core'
+
+// May start install batches (applications and platform plugins) - checked by install_updates and the dashboard
+// Admins pass the role check too; cancel, release and the install log stay admin only
+export const installerRole = Role({
+    $id: Now.ID['installer_role'],
+    name: 'x_snc_store_upda_1.installer',
+    description: 'Starts Store application and platform plugin install batches from the Store Updates dashboard',
+})
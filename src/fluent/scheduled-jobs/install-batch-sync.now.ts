@@ -0,0 +1,19 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// Install batch history sync
+// Advances running x_snc_store_upda_1_install_batch rows - closes items whose progress record has ended and queues the next
+// The batch endpoints only read, so this job is what moves a batch from one item to the next
+export const installBatchSync = Record({
+    $id: Now.ID['install_batch_sync'],
+    table: 'sysauto_script',
+    data: {
+        name: 'Store Updates - Install Batch Sync',
+        active: true,
+        run_type: 'periodically',
+        run_period: '1970-01-01 00:00:30',
+        run_start: '2025-01-01 00:00:00',
+        conditional: false,
+        script: `new x_snc_store_upda_1.InstallBatchService().syncRunning();`,
+    },
+})
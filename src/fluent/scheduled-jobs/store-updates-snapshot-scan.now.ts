@@ -0,0 +1,18 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// Scheduled store updates scan
+// Refreshes x_snc_store_upda_1_update_snapshot every 4 hours so dashboard loads never run the full scan
+export const storeUpdatesSnapshotScan = Record({
+    $id: Now.ID['store_updates_snapshot_scan'],
+    table: 'sysauto_script',
+    data: {
+        name: 'Store Updates - Snapshot Scan',
+        active: true,
+        run_type: 'periodically',
+        run_period: '1970-01-01 04:00:00',
+        run_start: '2025-01-01 02:00:00',
+        conditional: false,
+        script: `new x_snc_store_upda_1.StoreUpdatesSnapshot().rescan('scheduled');`,
+    },
+})
@@ -0,0 +1,28 @@
+import '@servicenow/sdk/global'
+import { Record } from '@servicenow/sdk/core'
+
+// Install batch runner
+// install_updates records the batch and queues this event - the script action starts the installer in the background
+export const installBatchQueuedEvent = Record({
+    $id: Now.ID['install_batch_queued_event'],
+    table: 'sysevent_register',
+    data: {
+        // Scoped events register under their full name - the suffix is the part after the scope
+        event_name: 'x_snc_store_upda_1.install_batch.queued',
+        suffix: 'install_batch.queued',
+        table: 'x_snc_store_upda_1_install_batch',
+        fired_by: 'InstallBatchService.queue',
+        description: 'An install batch was recorded and waits for the installer (parm1: batch sys_id)',
+    },
+})
+
+export const installBatchRunAction = Record({
+    $id: Now.ID['install_batch_run_action'],
+    table: 'sysevent_script_action',
+    data: {
+        name: 'Store Updates - Run Install Batch',
+        event_name: 'x_snc_store_upda_1.install_batch.queued',
+        active: true,
+        script: `new x_snc_store_upda_1.InstallBatchService().run(event.parm1);`,
+    },
+})
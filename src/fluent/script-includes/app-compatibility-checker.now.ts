@@ -0,0 +1,13 @@
+// src/fluent/script-includes/app-compatibility-checker.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const appCompatibilityChecker = ScriptInclude({
+  $id: Now.ID['app-compatibility-checker'],
+  name: 'AppCompatibilityChecker',
+  script: Now.include('../../server/script-includes/app-compatibility-checker.js'),
+  apiName: 'x_snc_store_upda_1.AppCompatibilityChecker',
+  accessibleFrom: 'package_private',
+  description: 'Checks each candidate sys_app_version against the platform family and patch level of this instance',
+  active: true
+});
@@ -0,0 +1,13 @@
+// src/fluent/script-includes/app-dependency-resolver.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const appDependencyResolver = ScriptInclude({
+  $id: Now.ID['app-dependency-resolver'],
+  name: 'AppDependencyResolver',
+  script: Now.include('../../server/script-includes/app-dependency-resolver.js'),
+  apiName: 'x_snc_store_upda_1.AppDependencyResolver',
+  accessibleFrom: 'package_private',
+  description: 'Resolves the dependencies of each candidate sys_app_version against installed applications, plugins and the other updates of the scan',
+  active: true
+});
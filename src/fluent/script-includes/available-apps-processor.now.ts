@@ -0,0 +1,23 @@
+// src/fluent/script-includes/available-apps-processor.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude, CrossScopePrivilege } from '@servicenow/sdk/core';
+
+export const availableAppsProcessor = ScriptInclude({
+  $id: Now.ID['available-apps-processor'],
+  name: 'AvailableAppsProcessor',
+  script: Now.include('../../server/script-includes/available-apps-processor.js'),
+  apiName: 'x_snc_store_upda_1.AvailableAppsProcessor',
+  accessibleFrom: 'package_private',
+  description: 'Lists entitled Store applications that are not installed, with their latest version, for the available apps remote table',
+  active: true
+});
+
+// Entitled-but-not-installed applications live in sys_remote_app
+export const sysRemoteAppReadPrivilege = CrossScopePrivilege({
+  $id: Now.ID['sys_remote_app_read_privilege'],
+  operation: 'read',
+  status: 'allowed',
+  targetName: 'sys_remote_app',
+  targetScope: 'global',
+  targetType: 'sys_db_object',
+});
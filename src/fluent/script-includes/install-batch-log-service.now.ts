@@ -0,0 +1,32 @@
+// src/fluent/script-includes/install-batch-log-service.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude, CrossScopePrivilege } from '@servicenow/sdk/core';
+
+export const installBatchLogService = ScriptInclude({
+  $id: Now.ID['install-batch-log-service'],
+  name: 'InstallBatchLogService',
+  script: Now.include('../../server/script-includes/install-batch-log-service.js'),
+  apiName: 'x_snc_store_upda_1.InstallBatchLogService',
+  accessibleFrom: 'package_private',
+  description: 'Syslog, upgrade log and tracker entries of one install batch, limited to its time window and apps',
+  active: true
+});
+
+// Batch logs read the system log and the upgrade log of the batch window
+export const syslogReadPrivilege = CrossScopePrivilege({
+  $id: Now.ID['syslog_read_privilege'],
+  operation: 'read',
+  status: 'allowed',
+  targetName: 'syslog',
+  targetScope: 'global',
+  targetType: 'sys_db_object',
+});
+
+export const upgradeHistoryLogReadPrivilege = CrossScopePrivilege({
+  $id: Now.ID['sys_upgrade_history_log_read_privilege'],
+  operation: 'read',
+  status: 'allowed',
+  targetName: 'sys_upgrade_history_log',
+  targetScope: 'global',
+  targetType: 'sys_db_object',
+});
@@ -0,0 +1,23 @@
+// src/fluent/script-includes/install-batch-service.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude, CrossScopePrivilege } from '@servicenow/sdk/core';
+
+export const installBatchService = ScriptInclude({
+  $id: Now.ID['install-batch-service'],
+  name: 'InstallBatchService',
+  script: Now.include('../../server/script-includes/install-batch-service.js'),
+  apiName: 'x_snc_store_upda_1.InstallBatchService',
+  accessibleFrom: 'package_private',
+  description: 'Records every install_updates batch (requester, items, progress, final status, duration, error) and the outcome of each app for audit history',
+  active: true
+});
+
+// Per-app outcomes come from the progress record of each item run - the batch only reads trackers
+export const executionTrackerReadPrivilege = CrossScopePrivilege({
+  $id: Now.ID['sys_execution_tracker_read_privilege'],
+  operation: 'read',
+  status: 'allowed',
+  targetName: 'sys_execution_tracker',
+  targetScope: 'global',
+  targetType: 'sys_db_object',
+});
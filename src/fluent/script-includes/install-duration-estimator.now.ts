@@ -0,0 +1,13 @@
+// src/fluent/script-includes/install-duration-estimator.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const installDurationEstimator = ScriptInclude({
+  $id: Now.ID['install-duration-estimator'],
+  name: 'InstallDurationEstimator',
+  script: Now.include('../../server/script-includes/install-duration-estimator.js'),
+  apiName: 'x_snc_store_upda_1.InstallDurationEstimator',
+  accessibleFrom: 'package_private',
+  description: 'Install duration of app versions learned from succeeded batch items - plan estimates and time remaining with confidence bands',
+  active: true
+});
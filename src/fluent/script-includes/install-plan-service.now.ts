@@ -0,0 +1,13 @@
+// src/fluent/script-includes/install-plan-service.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const installPlanService = ScriptInclude({
+  $id: Now.ID['install-plan-service'],
+  name: 'InstallPlanService',
+  script: Now.include('../../server/script-includes/install-plan-service.js'),
+  apiName: 'x_snc_store_upda_1.InstallPlanService',
+  accessibleFrom: 'package_private',
+  description: 'Dry run of an install request - resolved versions, dependency additions, blocked items and estimated duration',
+  active: true
+});
@@ -0,0 +1,13 @@
+// src/fluent/script-includes/install-request-parser.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const installRequestParser = ScriptInclude({
+  $id: Now.ID['install-request-parser'],
+  name: 'InstallRequestParser',
+  script: Now.include('../../server/script-includes/install-request-parser.js'),
+  apiName: 'x_snc_store_upda_1.InstallRequestParser',
+  accessibleFrom: 'package_private',
+  description: 'Validates install_updates request bodies (versioned item schema or legacy apps string) with field-level errors',
+  active: true
+});
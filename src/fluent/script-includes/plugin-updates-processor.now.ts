@@ -0,0 +1,32 @@
+// src/fluent/script-includes/plugin-updates-processor.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude, CrossScopePrivilege } from '@servicenow/sdk/core';
+
+export const pluginUpdatesProcessor = ScriptInclude({
+  $id: Now.ID['plugin-updates-processor'],
+  name: 'PluginUpdatesProcessor',
+  script: Now.include('../../server/script-includes/plugin-updates-processor.js'),
+  apiName: 'x_snc_store_upda_1.PluginUpdatesProcessor',
+  accessibleFrom: 'package_private',
+  description: 'Lists platform plugins that can be upgraded or activated and starts CI/CD batches for them',
+  active: true
+});
+
+export const sysPluginsReadPrivilege = CrossScopePrivilege({
+  $id: Now.ID['sys_plugins_read_privilege'],
+  operation: 'read',
+  status: 'allowed',
+  targetName: 'sys_plugins',
+  targetScope: 'global',
+  targetType: 'sys_db_object',
+});
+
+// Plugin batches run the CI/CD Batch Install action directly (the subflow only accepts app versions)
+export const flowRunnerActionPrivilege = CrossScopePrivilege({
+  $id: Now.ID['flow_runner_action_privilege'],
+  operation: 'execute',
+  status: 'allowed',
+  targetName: 'ScriptableFlowRunner.action',
+  targetScope: 'global',
+  targetType: 'scriptable',
+});
@@ -0,0 +1,13 @@
+// src/fluent/script-includes/release-notes-service.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const releaseNotesService = ScriptInclude({
+  $id: Now.ID['release-notes-service'],
+  name: 'ReleaseNotesService',
+  script: Now.include('../../server/script-includes/release-notes-service.js'),
+  apiName: 'x_snc_store_upda_1.ReleaseNotesService',
+  accessibleFrom: 'package_private',
+  description: 'Collects publish date, description and release notes of every version between the installed and a target version',
+  active: true
+});
@@ -0,0 +1,13 @@
+// src/fluent/script-includes/remote-table-query.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const remoteTableQuery = ScriptInclude({
+  $id: Now.ID['remote-table-query'],
+  name: 'RemoteTableQuery',
+  script: Now.include('../../server/script-includes/remote-table-query.js'),
+  apiName: 'x_snc_store_upda_1.RemoteTableQuery',
+  accessibleFrom: 'package_private',
+  description: 'Encoded query filtering, ordering and row windows for scripted remote tables',
+  active: true
+});
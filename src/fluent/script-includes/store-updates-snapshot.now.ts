@@ -0,0 +1,13 @@
+// src/fluent/script-includes/store-updates-snapshot.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const storeUpdatesSnapshot = ScriptInclude({
+  $id: Now.ID['store-updates-snapshot'],
+  name: 'StoreUpdatesSnapshot',
+  script: Now.include('../../server/script-includes/store-updates-snapshot.js'),
+  apiName: 'x_snc_store_upda_1.StoreUpdatesSnapshot',
+  accessibleFrom: 'package_private',
+  description: 'Runs the StoreUpdatesProcessor scan and persists the result in the store update snapshot table',
+  active: true
+});
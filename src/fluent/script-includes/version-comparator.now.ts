@@ -0,0 +1,13 @@
+// src/fluent/script-includes/version-comparator.now.ts
+import '@servicenow/sdk/global';
+import { ScriptInclude } from '@servicenow/sdk/core';
+
+export const versionComparator = ScriptInclude({
+  $id: Now.ID['version-comparator'],
+  name: 'VersionComparator',
+  script: Now.include('../../server/script-includes/version-comparator.js'),
+  apiName: 'x_snc_store_upda_1.VersionComparator',
+  accessibleFrom: 'package_private',
+  description: 'Semver-aware version comparison shared by the store update processors and remote table scripts',
+  active: true
+});
@@ -1,15 +1,44 @@
 import '@servicenow/sdk/global'
 import { RestApi } from '@servicenow/sdk/core'
 
-// Scripted REST API wrapper for calling the global.plugin_updater subflow
-// Provides clean REST interface between React frontend and ServiceNow subflow
-// Endpoint: POST /api/x_snc_store_upda_1/install_updates
+// Scripted REST API for install batches - each app runs through the process_plugin_updates subflow (InstallBatchService)
+// Provides clean REST interface between React frontend and the ServiceNow installers
+// Endpoint: POST /api/x_snc_store_upda_1/install_updates (x_snc_store_upda_1.installer role - admins have it too)
+//   { schema_version: 1, items: [{ application, target_version, order, options }], label, continue_on_error, client_request_id }
+//                                    - Store application installs/updates via the subflow, one item at a time, validated by
+//                                      InstallRequestParser; continue_on_error runs past failed items, options the
+//                                      subflow cannot apply (demo data, notes) are rejected with 400
+//   { apps: 'sys_app_version ids' }  - Legacy format, still accepted
+//   { plugins: 'plugin ids' }        - Platform plugin activations/upgrades via PluginUpdatesProcessor
+// Every accepted batch is recorded in x_snc_store_upda_1_install_batch (InstallBatchService) - batch_id in the response
+// Versions incompatible with the instance are rejected with 400 and field errors - the check of the install plan
+// Only one batch runs at a time - 409 with the running batch (lock) while another batch holds the install lock
+// Accepted batches are queued and answered with 202 - the installer starts in the background (InstallBatchService.run)
+// X-Idempotency-Key header - a repeated key of a valid request answers 200 with the original batch (duplicate: true)
+// instead of a new batch
+// Endpoint: POST /api/x_snc_store_upda_1/install_updates/plan
+//   Same application payload - returns the install plan (InstallPlanService) without installing anything
+// Endpoint: GET /api/x_snc_store_upda_1/install_updates/batches/{batch_id}
+//   Status of a batch - progress_id appears once the installer has started the first item, then poll the items route
+// Endpoint: GET /api/x_snc_store_upda_1/install_updates/batches/{batch_id}/items
+//   Per-app outcome of a batch (queued, installing, succeeded, failed, skipped) as last synced from each item's progress
+//   record - read only; the install batch sync job starts the next item of a running batch
+// Endpoint: POST /api/x_snc_store_upda_1/install_updates/batches/{batch_id}/cancel
+//   Admins only - no further item starts; the batch ends as cancelled (queued items skipped) once the installing item finishes
+// Endpoint: GET /api/x_snc_store_upda_1/install_updates/batches/{batch_id}/retry
+//   Install request for the failed / skipped items that still apply - POST it back to install_updates (retry_of links the batches)
+// Endpoint: GET /api/x_snc_store_upda_1/install_updates/batches/{batch_id}/logs
+//   Admins only - syslog, upgrade log and tracker entries of the batch window that mention the batch or its apps
+// Endpoint: GET /api/x_snc_store_upda_1/install_updates/lock
+//   The running batch that holds the install lock (locked: false when none is running)
+// Endpoint: POST /api/x_snc_store_upda_1/install_updates/batches/{batch_id}/release
+//   Admins only - ends a running batch whose progress record has been idle for 30 minutes, freeing the lock
 RestApi({
   $id: Now.ID['install_updates_api'],
   name: 'Install Updates API',
   service_id: 'install_updates',
   active: true,
-  short_description: 'API for triggering application update installations via subflow',
+  short_description: 'API for triggering application update installations',
   consumes: 'application/json',
   produces: 'application/json',
   routes: [{
@@ -20,84 +49,587 @@ RestApi({
     script: `
 (function process(request, response) {
     
+    var batches = new x_snc_store_upda_1.InstallBatchService();
+    var batchId = null;
+    
     try {
+        // Installs change the instance - installer role (admins have it too)
+        if (!gs.hasRole('x_snc_store_upda_1.installer')) {
+            response.setStatus(403);
+            response.setBody({
+                success: false,
+                error: 'Forbidden',
+                message: 'The x_snc_store_upda_1.installer role is required to install updates',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
         // Parse request body
         var requestBody = request.body;
         var data = requestBody.data || requestBody;
         
-        // Validate input
-        if (!data.apps) {
+        // Applications and platform plugins run as separate batches
+        if ((data.apps || data.items) && data.plugins) {
             response.setStatus(400);
             response.setBody({
                 success: false,
-                error: 'Missing required parameter: apps',
-                message: 'Please provide comma-separated app sys_ids'
+                error: 'Mixed batch',
+                message: 'Install applications and plugins in separate batches',
+                timestamp: new GlideDateTime().toString()
             });
             return;
         }
         
-        var appVersions = data.apps.toString();
+        // Validate before the idempotency lookup - an invalid request never answers with an earlier batch
+        var pluginIds = null;
+        var installRequest = null;
+        if (data.plugins) {
+            pluginIds = data.plugins.toString().split(',').map(function(id) {
+                return id.trim();
+            }).filter(function(id) {
+                return id !== '';
+            });
+            
+            if (pluginIds.length === 0) {
+                response.setStatus(400);
+                response.setBody({
+                    success: false,
+                    error: 'Empty plugins parameter',
+                    message: 'Plugins parameter cannot be empty',
+                    timestamp: new GlideDateTime().toString()
+                });
+                return;
+            }
+        } else {
+            // Structured or legacy request - field-level 400 errors when it does not validate
+            try {
+                installRequest = new x_snc_store_upda_1.InstallRequestParser().parse(data);
+            } catch (parseError) {
+                if (parseError.status !== 400) {
+                    throw parseError;
+                }
+                
+                response.setStatus(400);
+                response.setBody({
+                    success: false,
+                    error: 'Invalid install request',
+                    message: parseError.message,
+                    errors: parseError.errors,
+                    timestamp: new GlideDateTime().toString()
+                });
+                return;
+            }
+        }
         
-        // Validate apps parameter is not empty
-        if (!appVersions || appVersions.trim() === '') {
-            response.setStatus(400);
+        // Same key as an earlier call of this user (a resent request) - answer with that batch instead of starting another
+        var idempotencyKey = String(request.getHeader('X-Idempotency-Key') || '').trim().substring(0, 64);
+        var original = batches.findByIdempotencyKey(idempotencyKey);
+        if (original) {
+            gs.info('Install Updates API: duplicate request ' + idempotencyKey + ' - returning batch ' + original.batch.sys_id);
+            response.setStatus(200);
             response.setBody({
-                success: false,
-                error: 'Empty apps parameter',
-                message: 'Apps parameter cannot be empty'
+                success: true,
+                duplicate: true,
+                batch_id: original.batch.sys_id,
+                status: original.batch.status,
+                status_message: original.batch.status_message,
+                app_count: original.batch.app_count,
+                apps_requested: original.apps_requested,
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        if (pluginIds) {
+            gs.info('Install Updates API called with plugins: ' + pluginIds.join(',') + ', count: ' + pluginIds.length);
+            
+            batchId = batches.start('plugin', {
+                retry_of: data.retry_of ? String(data.retry_of) : '',
+                items: pluginIds.map(function(id, index) {
+                    return { order: index, plugin_id: id };
+                })
+            }, idempotencyKey);
+            
+            batches.queue(batchId);
+            
+            response.setStatus(202);
+            response.setBody({
+                success: true,
+                batch_id: batchId,
+                status: 'queued',
+                status_message: 'Plugin batch queued',
+                app_count: pluginIds.length,
+                apps_requested: pluginIds.join(','),
+                timestamp: new GlideDateTime().toString()
             });
             return;
         }
         
-        // Count apps for tracking
-        var appCount = appVersions.split(',').length;
+        var appVersions = installRequest.apps;
+        var appCount = installRequest.items.length;
         
         // Log the request for debugging
-        gs.info('Install Updates API called with apps: ' + appVersions + ', count: ' + appCount);
-        
-        // Call the existing subflow using the same pattern as the UI page
-        var inputs = {};
-        inputs['apps'] = appVersions; // String - comma-separated sys_ids
-        
-        // Execute the subflow in foreground with inputs
-        var result = sn_fd.FlowAPI.getRunner()
-        //    .subflow('global.plugin_updater')
-            .subflow('x_snc_store_upda_1.process_plugin_updates')
-            .inForeground()
-            .withInputs(inputs)
-            .run();
-            
-        // Get outputs from subflow execution
-        var outputs = result.getOutputs();
-        var progressId = outputs['progress_id'];
-        var statusMessage = outputs['status_message'];
+        gs.info('Install Updates API called with apps: ' + appVersions + ', count: ' + appCount +
+            (installRequest.label ? ', label: ' + installRequest.label : '') +
+            (installRequest.client_request_id ? ', client request: ' + installRequest.client_request_id : ''));
         
-        // Log success for debugging
-        gs.info('Subflow executed successfully. Progress ID: ' + progressId + ', Status: ' + statusMessage);
+        batchId = batches.start('app', installRequest, idempotencyKey);
         
-        // Return success response with progress tracking info
-        response.setStatus(200);
+        // The installer runs in the background (InstallBatchService.run) - poll GET /batches/{batch_id} for progress_id
+        batches.queue(batchId);
+        
+        response.setStatus(202);
         response.setBody({
             success: true,
-            progress_id: progressId,
-            status_message: statusMessage || 'Installation process started',
+            batch_id: batchId,
+            status: 'queued',
+            status_message: 'Installation queued',
             app_count: appCount,
             apps_requested: appVersions,
+            request: installRequest,
             timestamp: new GlideDateTime().toString()
         });
         
     } catch (ex) {
-        // Handle any errors during subflow execution
+        // Handle any errors while recording or queueing the batch
         var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
         
-        // Log error for debugging
+        // A target version is incompatible with this instance - nothing was recorded or started
+        if (ex.status === 400) {
+            gs.info('Install Updates API rejected: ' + errorMessage);
+            response.setStatus(400);
+            response.setBody({
+                success: false,
+                error: 'Incompatible versions',
+                message: errorMessage,
+                errors: ex.errors,
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        // Another batch holds the install lock - nothing was recorded or started
+        if (ex.status === 409) {
+            gs.info('Install Updates API rejected: ' + errorMessage);
+            response.setStatus(409);
+            response.setBody({
+                success: false,
+                error: 'Batch running',
+                message: errorMessage,
+                lock: ex.lock,
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
         gs.error('Install Updates API error: ' + errorMessage, ex);
         
+        if (batchId) {
+            batches.complete(batchId, 'failed', errorMessage);
+        }
+        
         // Return error response
         response.setStatus(500);
         response.setBody({
             success: false,
-            error: 'Subflow execution failed',
+            error: 'Install batch failed to queue',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Queue application updates or plugin activations - the installer runs in the background'
+  }, {
+    $id: Now.ID['install_updates_plan_route'],
+    name: 'Install Plan',
+    method: 'POST',
+    path: '/plan',
+    script: `
+(function process(request, response) {
+    
+    try {
+        var requestBody = request.body;
+        var data = requestBody.data || requestBody;
+        
+        if (data.plugins) {
+            response.setStatus(400);
+            response.setBody({
+                success: false,
+                error: 'Invalid install request',
+                message: 'Install plans are available for application batches only',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        var plan = new x_snc_store_upda_1.InstallPlanService().plan(data);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            request: plan.request,
+            items: plan.items,
+            summary: plan.summary,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API plan error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 500 ? 'Install plan failed' : 'Invalid install request',
+            message: errorMessage,
+            errors: ex.errors,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Dry run - resolved versions, dependency additions, blocked items and estimated duration'
+  }, {
+    $id: Now.ID['install_updates_batch_route'],
+    name: 'Install Batch Status',
+    method: 'GET',
+    path: '/batches/{batch_id}',
+    script: `
+(function process(request, response) {
+    
+    try {
+        var batchId = String(request.pathParams.batch_id || '');
+        var batch = new x_snc_store_upda_1.InstallBatchService().getBatch(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            batch: batch,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API batch status error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : 'Batch status failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Status of a queued or running install batch, with its progress id once the installer started'
+  }, {
+    $id: Now.ID['install_updates_batch_items_route'],
+    name: 'Install Batch Items',
+    method: 'GET',
+    path: '/batches/{batch_id}/items',
+    script: `
+(function process(request, response) {
+    
+    try {
+        var batchId = String(request.pathParams.batch_id || '');
+        var outcomes = new x_snc_store_upda_1.InstallBatchService().getOutcomes(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            batch: outcomes.batch,
+            items: outcomes.items,
+            summary: outcomes.summary,
+            failed_item: outcomes.failed_item,
+            remaining: outcomes.remaining,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API batch items error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : 'Batch items failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Per-app outcome of an install batch with its error message and progress record id'
+  }, {
+    $id: Now.ID['install_updates_batch_cancel_route'],
+    name: 'Cancel Install Batch',
+    method: 'POST',
+    path: '/batches/{batch_id}/cancel',
+    script: `
+(function process(request, response) {
+    
+    try {
+        // Same admin requirement as starting an install
+        if (!gs.hasRole('admin')) {
+            response.setStatus(403);
+            response.setBody({
+                success: false,
+                error: 'Forbidden',
+                message: 'Administrator privileges are required to cancel an install batch',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        var batchId = String(request.pathParams.batch_id || '');
+        var outcomes = new x_snc_store_upda_1.InstallBatchService().cancel(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            cancelled: outcomes.cancelled,
+            batch: outcomes.batch,
+            items: outcomes.items,
+            summary: outcomes.summary,
+            failed_item: outcomes.failed_item,
+            remaining: outcomes.remaining,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API cancel error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : status === 409 ? 'Conflict' : 'Cancel failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Cancel the queued items of a running install batch at the next safe point'
+  }, {
+    $id: Now.ID['install_updates_batch_retry_route'],
+    name: 'Install Batch Retry',
+    method: 'GET',
+    path: '/batches/{batch_id}/retry',
+    script: `
+(function process(request, response) {
+    
+    try {
+        var batchId = String(request.pathParams.batch_id || '');
+        var retry = new x_snc_store_upda_1.InstallBatchService().buildRetry(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            batch_id: retry.batch_id,
+            kind: retry.kind,
+            request: retry.request,
+            retry_items: retry.retry_items,
+            not_applicable: retry.not_applicable,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API retry error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : status === 409 ? 'Conflict' : 'Retry failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Build an install request from the failed and skipped items of a finished batch'
+  }, {
+    $id: Now.ID['install_updates_batch_logs_route'],
+    name: 'Install Batch Logs',
+    method: 'GET',
+    path: '/batches/{batch_id}/logs',
+    script: `
+(function process(request, response) {
+    
+    try {
+        // System and upgrade logs are not limited to this application - admins only
+        if (!gs.hasRole('admin')) {
+            response.setStatus(403);
+            response.setBody({
+                success: false,
+                error: 'Forbidden',
+                message: 'Administrator privileges are required to read install batch logs',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        var batchId = String(request.pathParams.batch_id || '');
+        var logs = new x_snc_store_upda_1.InstallBatchLogService().getLogs(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            batch_id: logs.batch_id,
+            window: logs.window,
+            entries: logs.entries,
+            truncated: logs.truncated,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API logs error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : 'Log query failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Syslog, upgrade log and tracker entries of an install batch for its time window and apps'
+  }, {
+    $id: Now.ID['install_updates_lock_route'],
+    name: 'Install Lock',
+    method: 'GET',
+    path: '/lock',
+    script: `
+(function process(request, response) {
+    
+    try {
+        var lock = new x_snc_store_upda_1.InstallBatchService().getLock();
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            locked: lock !== null,
+            lock: lock,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        gs.error('Install Updates API lock error: ' + errorMessage, ex);
+        
+        response.setStatus(500);
+        response.setBody({
+            success: false,
+            error: 'Lock check failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+    
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Running install batch that blocks new batches, with its owner, start time and staleness'
+  }, {
+    $id: Now.ID['install_updates_batch_release_route'],
+    name: 'Release Install Lock',
+    method: 'POST',
+    path: '/batches/{batch_id}/release',
+    script: `
+(function process(request, response) {
+    
+    try {
+        if (!gs.hasRole('admin')) {
+            response.setStatus(403);
+            response.setBody({
+                success: false,
+                error: 'Forbidden',
+                message: 'Administrator privileges are required to release an install lock',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+        
+        var batchId = String(request.pathParams.batch_id || '');
+        var outcomes = new x_snc_store_upda_1.InstallBatchService().releaseLock(batchId);
+        
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            batch: outcomes.batch,
+            items: outcomes.items,
+            summary: outcomes.summary,
+            failed_item: outcomes.failed_item,
+            remaining: outcomes.remaining,
+            timestamp: new GlideDateTime().toString()
+        });
+        
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Install Updates API release error: ' + errorMessage, ex);
+        }
+        
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 404 ? 'Not found' : status === 409 ? 'Conflict' : 'Release failed',
             message: errorMessage,
             timestamp: new GlideDateTime().toString()
         });
@@ -108,7 +640,7 @@ RestApi({
     authorization: true,
     authentication: true,
     active: true,
-    short_description: 'Execute application updates via global.plugin_updater subflow'
+    short_description: 'Release the install lock held by a stale running batch'
   }],
   enforce_acl: []
 })
\ No newline at end of file
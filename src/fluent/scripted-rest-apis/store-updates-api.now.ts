@@ -0,0 +1,177 @@
+import '@servicenow/sdk/global'
+import { RestApi } from '@servicenow/sdk/core'
+
+// Scripted REST API for store update data served from the persisted snapshot
+// Endpoints:
+//   GET  /api/x_snc_store_upda_1/store_updates/snapshot         - Snapshot status (scan timestamp, counts)
+//   POST /api/x_snc_store_upda_1/store_updates/snapshot/rescan  - Re-run the scan now (admin only)
+//   GET  /api/x_snc_store_upda_1/store_updates/release_notes?application=<sys_store_app>&target=<sys_app_version>
+//        - Release notes of every version between the installed and the target version
+RestApi({
+  $id: Now.ID['store_updates_api'],
+  name: 'Store Updates API',
+  service_id: 'store_updates',
+  active: true,
+  short_description: 'API for reading the store updates snapshot and triggering rescans',
+  consumes: 'application/json',
+  produces: 'application/json',
+  routes: [{
+    $id: Now.ID['store_updates_snapshot_status_route'],
+    name: 'Snapshot Status',
+    method: 'GET',
+    path: '/snapshot',
+    script: `
+(function process(request, response) {
+
+    try {
+        var status = new x_snc_store_upda_1.StoreUpdatesSnapshot().getStatus();
+
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            scan_id: status.scan_id,
+            scanned_on: status.scanned_on,
+            row_count: status.row_count,
+            app_count: status.app_count,
+            timestamp: new GlideDateTime().toString()
+        });
+
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        gs.error('Store Updates API snapshot status error: ' + errorMessage, ex);
+
+        response.setStatus(500);
+        response.setBody({
+            success: false,
+            error: 'Snapshot status failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Return the timestamp and size of the current store updates snapshot'
+  }, {
+    $id: Now.ID['store_updates_snapshot_rescan_route'],
+    name: 'Rescan Snapshot',
+    method: 'POST',
+    path: '/snapshot/rescan',
+    script: `
+(function process(request, response) {
+
+    try {
+        // Rescans rewrite the shared snapshot - same admin requirement as installs
+        if (!gs.hasRole('admin')) {
+            response.setStatus(403);
+            response.setBody({
+                success: false,
+                error: 'Forbidden',
+                message: 'Administrator privileges are required to rescan store updates',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+
+        var body = request.body && request.body.data ? request.body.data : {};
+        var trigger = body.trigger === 'sync' ? 'sync' : 'manual';
+
+        var result = new x_snc_store_upda_1.StoreUpdatesSnapshot().rescan(trigger);
+
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            scan_id: result.scan_id,
+            scanned_on: result.scanned_on,
+            trigger: result.trigger,
+            app_count: result.app_count,
+            row_count: result.row_count,
+            superseded: result.superseded,
+            version_queries: result.version_queries,
+            timings: result.timings,
+            duration_ms: result.duration_ms,
+            timestamp: new GlideDateTime().toString()
+        });
+
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        gs.error('Store Updates API rescan error: ' + errorMessage, ex);
+
+        response.setStatus(500);
+        response.setBody({
+            success: false,
+            error: 'Snapshot rescan failed',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Re-run the store updates scan and replace the snapshot'
+  }, {
+    $id: Now.ID['store_updates_release_notes_route'],
+    name: 'Release Notes',
+    method: 'GET',
+    path: '/release_notes',
+    script: `
+(function process(request, response) {
+
+    try {
+        var params = request.queryParams;
+        var applicationId = params.application ? String(params.application) : '';
+        var targetVersionId = params.target ? String(params.target) : '';
+
+        if (!applicationId || !targetVersionId) {
+            response.setStatus(400);
+            response.setBody({
+                success: false,
+                error: 'Bad Request',
+                message: 'Query parameters application and target are required',
+                timestamp: new GlideDateTime().toString()
+            });
+            return;
+        }
+
+        var notes = new x_snc_store_upda_1.ReleaseNotesService().getReleaseNotes(applicationId, targetVersionId);
+
+        response.setStatus(200);
+        response.setBody({
+            success: true,
+            application: notes.application,
+            target_version: notes.target_version,
+            versions: notes.versions,
+            timestamp: new GlideDateTime().toString()
+        });
+
+    } catch (ex) {
+        var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+        var status = ex.status || 500;
+        if (status === 500) {
+            gs.error('Store Updates API release notes error: ' + errorMessage, ex);
+        }
+
+        response.setStatus(status);
+        response.setBody({
+            success: false,
+            error: status === 500 ? 'Release notes failed' : 'Invalid release notes request',
+            message: errorMessage,
+            timestamp: new GlideDateTime().toString()
+        });
+    }
+
+})(request, response);
+    `,
+    authorization: true,
+    authentication: true,
+    active: true,
+    short_description: 'Return publish date, description and release notes of every version up to the target'
+  }],
+  enforce_acl: []
+})
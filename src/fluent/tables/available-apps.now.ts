@@ -0,0 +1,94 @@
+import '@servicenow/sdk/global'
+import { Table, StringColumn, ReferenceColumn, DateColumn, Record } from '@servicenow/sdk/core'
+
+// Available Apps Remote Table
+// Purpose: Entitled Store applications that are not installed yet, one row per app at its latest version
+// Rows are produced by AvailableAppsProcessor; available_version is what the install subflow receives
+export const x_snc_store_upda_1_available_apps = Table({
+    name: 'x_snc_store_upda_1_available_apps',
+    label: 'Available Store Apps',
+    schema: {
+        // Entitled application (sys_remote_app sys_id, becomes the sys_store_app sys_id once installed)
+        application: StringColumn({
+            label: 'Application',
+            maxLength: 32,
+            mandatory: true,
+        }),
+
+        // Application name (for display and search)
+        name: StringColumn({
+            label: 'Name',
+            maxLength: 200,
+            mandatory: true,
+        }),
+
+        scope: StringColumn({
+            label: 'Scope',
+            maxLength: 100,
+        }),
+
+        publisher: StringColumn({
+            label: 'Publisher',
+            maxLength: 200,
+        }),
+
+        description: StringColumn({
+            label: 'Description',
+            maxLength: 1000,
+        }),
+
+        // Latest version number (string format)
+        latest_version: StringColumn({
+            label: 'Latest Version',
+            maxLength: 100,
+        }),
+
+        // Latest version reference - the version a fresh install requests
+        available_version: ReferenceColumn({
+            label: 'Available Version',
+            referenceTable: 'sys_app_version',
+        }),
+
+        publish_date: DateColumn({
+            label: 'Publish Date',
+        }),
+    },
+
+    // Table configuration
+    display: 'name',
+    extensible: false,
+    allowWebServiceAccess: true,
+    actions: ['read'],
+    audit: false,
+    textIndex: false,
+
+    // Scriptable/remote table backed by AvailableAppsProcessor
+    scriptableTable: true,
+})
+
+// Remote table definition - delegates to the AvailableAppsProcessor script include
+export const availableAppsRemoteTable = Record({
+    $id: Now.ID['available_apps_vtable'],
+    table: 'sys_script_vtable',
+    data: {
+        active: 'true',
+        advanced: 'false',
+        cache_empty_query_results: 'true',
+        cache_isolation_level: 'USER',
+        cache_strategy: 'CACHE_BY_QUERY',
+        cache_ttl: '0',
+        editable: 'false',
+        enhanced_capacity: 'false',
+        name: 'Available Store Apps',
+        script: `(function executeQuery(v_table, v_query) {
+    try {
+        new x_snc_store_upda_1.AvailableAppsProcessor().executeQuery(v_table, v_query);
+    } catch (error) {
+        gs.error('Available_apps: Virtual table script error: ' + error.message);
+    }
+})(v_table, v_query);`,
+        sys_domain: 'global',
+        sys_domain_path: '/',
+        table: 'x_snc_store_upda_1_available_apps',
+    },
+})
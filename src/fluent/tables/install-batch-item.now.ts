@@ -0,0 +1,116 @@
+import '@servicenow/sdk/global'
+import { Table, StringColumn, IntegerColumn, ReferenceColumn, ChoiceColumn, DateTimeColumn } from '@servicenow/sdk/core'
+
+// Install Batch Item Table
+// Purpose: Outcome of each app (or plugin) inside an install batch - queued, installing, succeeded, failed or skipped.
+// Rows are created with the batch by InstallBatchService and updated from the progress record of each item's installer run.
+export const x_snc_store_upda_1_install_batch_item = Table({
+    name: 'x_snc_store_upda_1_install_batch_item',
+    label: 'Install Batch Item',
+    schema: {
+        batch: ReferenceColumn({
+            label: 'Batch',
+            referenceTable: 'x_snc_store_upda_1_install_batch',
+            mandatory: true,
+        }),
+
+        // Install order within the batch (0-based)
+        order: IntegerColumn({
+            label: 'Order',
+            default: '0',
+        }),
+
+        // sys_store_app / sys_remote_app sys_id - empty for plugin batches
+        application: StringColumn({
+            label: 'Application',
+            maxLength: 32,
+        }),
+
+        plugin_id: StringColumn({
+            label: 'Plugin ID',
+            maxLength: 100,
+        }),
+
+        name: StringColumn({
+            label: 'Name',
+            maxLength: 255,
+        }),
+
+        installed_version: StringColumn({
+            label: 'Installed Version',
+            maxLength: 50,
+        }),
+
+        target_version: StringColumn({
+            label: 'Target Version',
+            maxLength: 32,
+        }),
+
+        version: StringColumn({
+            label: 'Version',
+            maxLength: 50,
+        }),
+
+        state: ChoiceColumn({
+            label: 'State',
+            choices: {
+                queued: { label: 'Queued', sequence: 0 },
+                installing: { label: 'Installing', sequence: 1 },
+                succeeded: { label: 'Succeeded', sequence: 2 },
+                failed: { label: 'Failed', sequence: 3 },
+                skipped: { label: 'Skipped', sequence: 4 },
+            },
+            dropdown: 'dropdown_with_none',
+            default: 'queued',
+        }),
+
+        error: StringColumn({
+            label: 'Error',
+            maxLength: 4000,
+        }),
+
+        // sys_execution_tracker of the installer run that installed this item
+        progress_id: StringColumn({
+            label: 'Progress ID',
+            maxLength: 32,
+        }),
+
+        // Written by the conditional state changes of InstallBatchService - the run or sync that reads its token back won
+        claim_token: StringColumn({
+            label: 'Claim Token',
+            maxLength: 32,
+        }),
+
+        started_on: DateTimeColumn({
+            label: 'Started On',
+        }),
+
+        completed_on: DateTimeColumn({
+            label: 'Completed On',
+        }),
+
+        // started_on -> completed_on of a succeeded item - the install history InstallDurationEstimator learns from
+        duration_ms: IntegerColumn({
+            label: 'Duration (ms)',
+        }),
+    },
+
+    // Table configuration
+    display: 'name',
+    extensible: false,
+    allowWebServiceAccess: true,
+    actions: ['read'],
+    audit: false,
+    index: [
+        {
+            name: 'index_batch',
+            unique: false,
+            element: 'batch',
+        },
+        {
+            name: 'index_target_version',
+            unique: false,
+            element: 'target_version',
+        },
+    ],
+})
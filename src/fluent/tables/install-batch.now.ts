@@ -0,0 +1,152 @@
+import '@servicenow/sdk/global'
+import { Table, StringColumn, IntegerColumn, ReferenceColumn, ChoiceColumn, DateTimeColumn, BooleanColumn } from '@servicenow/sdk/core'
+
+// Install Batch Table
+// Purpose: Audit record of every install_updates batch - who requested what, when, and how it ended.
+// Rows are written by InstallBatchService; running batches are finalized from their CI/CD progress record.
+export const x_snc_store_upda_1_install_batch = Table({
+    name: 'x_snc_store_upda_1_install_batch',
+    label: 'Install Batch',
+    schema: {
+        requester: ReferenceColumn({
+            label: 'Requester',
+            referenceTable: 'sys_user',
+            mandatory: true,
+        }),
+
+        requested_on: DateTimeColumn({
+            label: 'Requested On',
+            mandatory: true,
+        }),
+
+        // Store applications or platform plugins - both run as CI/CD batch installs
+        kind: ChoiceColumn({
+            label: 'Kind',
+            choices: {
+                app: { label: 'Applications', sequence: 0 },
+                plugin: { label: 'Platform Plugins', sequence: 1 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        label: StringColumn({
+            label: 'Label',
+            maxLength: 100,
+        }),
+
+        // Set on retry batches - the batch whose failed or skipped items this batch retries
+        parent_batch: ReferenceColumn({
+            label: 'Retry Of',
+            referenceTable: 'x_snc_store_upda_1_install_batch',
+        }),
+
+        client_request_id: StringColumn({
+            label: 'Client Request ID',
+            maxLength: 100,
+        }),
+
+        // X-Idempotency-Key of the install_updates call - a repeated call answers with this batch
+        idempotency_key: StringColumn({
+            label: 'Idempotency Key',
+            maxLength: 64,
+        }),
+
+        // Keep installing the remaining items after one fails - the batch still ends as failed
+        continue_on_error: BooleanColumn({
+            label: 'Continue On Error',
+            default: 'false',
+        }),
+
+        // Requested apps and target versions (JSON array written by InstallBatchService)
+        items: StringColumn({
+            label: 'Items',
+            maxLength: 65000,
+        }),
+
+        // Comma separated application sys_ids - lets "which batches touched this app" be a LIKE query
+        applications: StringColumn({
+            label: 'Applications',
+            maxLength: 8000,
+        }),
+
+        app_count: IntegerColumn({
+            label: 'App Count',
+            default: '0',
+        }),
+
+        progress_id: StringColumn({
+            label: 'Progress ID',
+            maxLength: 32,
+        }),
+
+        status: ChoiceColumn({
+            label: 'Status',
+            choices: {
+                running: { label: 'Running', sequence: 0 },
+                succeeded: { label: 'Succeeded', sequence: 1 },
+                failed: { label: 'Failed', sequence: 2 },
+                cancelled: { label: 'Cancelled', sequence: 3 },
+            },
+            dropdown: 'dropdown_with_none',
+            default: 'running',
+        }),
+
+        // Cancel requested - remaining queued items are skipped once the installing item finishes
+        cancel_requested: BooleanColumn({
+            label: 'Cancel Requested',
+            default: 'false',
+        }),
+
+        cancelled_by: ReferenceColumn({
+            label: 'Cancelled By',
+            referenceTable: 'sys_user',
+        }),
+
+        cancel_requested_on: DateTimeColumn({
+            label: 'Cancel Requested On',
+        }),
+
+        status_message: StringColumn({
+            label: 'Status Message',
+            maxLength: 1000,
+        }),
+
+        completed_on: DateTimeColumn({
+            label: 'Completed On',
+        }),
+
+        duration_ms: IntegerColumn({
+            label: 'Duration (ms)',
+        }),
+
+        error: StringColumn({
+            label: 'Error',
+            maxLength: 4000,
+        }),
+    },
+
+    // Table configuration
+    display: 'label',
+    extensible: false,
+    allowWebServiceAccess: true,
+    actions: ['read'],
+    audit: true,
+    textIndex: true,
+    index: [
+        {
+            name: 'index_status',
+            unique: false,
+            element: 'status',
+        },
+        {
+            name: 'index_progress_id',
+            unique: false,
+            element: 'progress_id',
+        },
+        {
+            name: 'index_idempotency_key',
+            unique: false,
+            element: 'idempotency_key',
+        },
+    ],
+})
@@ -0,0 +1,103 @@
+import '@servicenow/sdk/global'
+import { Table, StringColumn, ChoiceColumn, Record } from '@servicenow/sdk/core'
+
+// Plugin Updates Remote Table
+// Purpose: Platform plugins (sys_plugins) that have a newer version or are inactive but available
+// Rows are produced by PluginUpdatesProcessor; plugin_id is what the CI/CD batch manifest receives
+export const x_snc_store_upda_1_plugin_updates = Table({
+    name: 'x_snc_store_upda_1_plugin_updates',
+    label: 'Plugin Updates',
+    schema: {
+        // Plugin id, e.g. com.glide.hub.flow_engine (sys_plugins.source)
+        plugin_id: StringColumn({
+            label: 'Plugin ID',
+            maxLength: 200,
+            mandatory: true,
+        }),
+
+        // Plugin name (for display and search)
+        name: StringColumn({
+            label: 'Name',
+            maxLength: 200,
+            mandatory: true,
+        }),
+
+        state: ChoiceColumn({
+            label: 'State',
+            choices: {
+                active: { label: 'Active', sequence: 0 },
+                inactive: { label: 'Inactive', sequence: 1 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        // What the install pipeline will do with the plugin
+        category: ChoiceColumn({
+            label: 'Category',
+            choices: {
+                upgrade: { label: 'Upgrade', sequence: 0 },
+                activation: { label: 'Activation', sequence: 1 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        installed_version: StringColumn({
+            label: 'Installed Version',
+            maxLength: 100,
+        }),
+
+        available_version: StringColumn({
+            label: 'Available Version',
+            maxLength: 100,
+        }),
+
+        // Comma-separated plugin ids this plugin requires
+        dependencies: StringColumn({
+            label: 'Dependencies',
+            maxLength: 4000,
+        }),
+
+        description: StringColumn({
+            label: 'Description',
+            maxLength: 1000,
+        }),
+    },
+
+    // Table configuration
+    display: 'name',
+    extensible: false,
+    allowWebServiceAccess: true,
+    actions: ['read'],
+    audit: false,
+    textIndex: false,
+
+    // Scriptable/remote table backed by PluginUpdatesProcessor
+    scriptableTable: true,
+})
+
+// Remote table definition - delegates to the PluginUpdatesProcessor script include
+export const pluginUpdatesRemoteTable = Record({
+    $id: Now.ID['plugin_updates_vtable'],
+    table: 'sys_script_vtable',
+    data: {
+        active: 'true',
+        advanced: 'false',
+        cache_empty_query_results: 'true',
+        cache_isolation_level: 'USER',
+        cache_strategy: 'CACHE_BY_QUERY',
+        cache_ttl: '0',
+        editable: 'false',
+        enhanced_capacity: 'false',
+        name: 'Plugin Updates',
+        script: `(function executeQuery(v_table, v_query) {
+    try {
+        new x_snc_store_upda_1.PluginUpdatesProcessor().executeQuery(v_table, v_query);
+    } catch (error) {
+        gs.error('Plugin_updates: Virtual table script error: ' + error.message);
+    }
+})(v_table, v_query);`,
+        sys_domain: 'global',
+        sys_domain_path: '/',
+        table: 'x_snc_store_upda_1_plugin_updates',
+    },
+})
@@ -0,0 +1,153 @@
+import '@servicenow/sdk/global'
+import { Table, StringColumn, IntegerColumn, ReferenceColumn, ChoiceColumn, DateTimeColumn } from '@servicenow/sdk/core'
+
+// Store Update Snapshot Table
+// Purpose: Persisted copy of the store updates scan, refreshed by the scheduled scan and after "Sync Applications".
+// The dashboard, REST endpoints and reports read from here instead of re-running the remote table scan.
+export const x_snc_store_upda_1_update_snapshot = Table({
+    name: 'x_snc_store_upda_1_update_snapshot',
+    label: 'Store Update Snapshot',
+    schema: {
+        // Application reference to Store Application
+        application: ReferenceColumn({
+            label: 'Application',
+            referenceTable: 'sys_store_app',
+            mandatory: true,
+        }),
+
+        // Available update counts
+        major_count: IntegerColumn({
+            label: 'Avail. Major',
+            default: '0',
+        }),
+
+        minor_count: IntegerColumn({
+            label: 'Avail. Minor',
+            default: '0',
+        }),
+
+        patch_count: IntegerColumn({
+            label: 'Avail. Patches',
+            default: '0',
+        }),
+
+        // Available version reference (the version to install for this batch level)
+        available_version: ReferenceColumn({
+            label: 'Available Version',
+            referenceTable: 'sys_app_version',
+        }),
+
+        // Batch processing level
+        batch_level: ChoiceColumn({
+            label: 'Batch Level',
+            choices: {
+                major: { label: 'Major', sequence: 0 },
+                minor: { label: 'Minor', sequence: 1 },
+                patch: { label: 'Patch', sequence: 2 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        // Installed version (string format)
+        installed_version: StringColumn({
+            label: 'Installed Version',
+            maxLength: 100,
+        }),
+
+        // Latest version references
+        latest_major_version: ReferenceColumn({
+            label: 'Latest Major Version',
+            referenceTable: 'sys_app_version',
+        }),
+
+        latest_minor_version: ReferenceColumn({
+            label: 'Latest Minor Version',
+            referenceTable: 'sys_app_version',
+        }),
+
+        latest_patch_version: ReferenceColumn({
+            label: 'Latest Patch Version',
+            referenceTable: 'sys_app_version',
+        }),
+
+        // Version level choices
+        latest_version_level: ChoiceColumn({
+            label: 'Latest Version Level',
+            choices: {
+                major: { label: 'Major', sequence: 0 },
+                minor: { label: 'Minor', sequence: 1 },
+                patch: { label: 'Patch', sequence: 2 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        level: ChoiceColumn({
+            label: 'Level',
+            choices: {
+                major: { label: 'Major', sequence: 0 },
+                minor: { label: 'Minor', sequence: 1 },
+                patch: { label: 'Patch', sequence: 2 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        // Application name (for display and search)
+        name: StringColumn({
+            label: 'Name',
+            maxLength: 200,
+            mandatory: true,
+        }),
+
+        // Resolved dependencies of the available version (JSON array written by AppDependencyResolver)
+        dependencies: StringColumn({
+            label: 'Dependencies',
+            maxLength: 4000,
+        }),
+
+        // Platform compatibility of the available version (AppCompatibilityChecker)
+        compatibility: ChoiceColumn({
+            label: 'Compatibility',
+            choices: {
+                compatible: { label: 'Compatible', sequence: 0 },
+                incompatible: { label: 'Incompatible', sequence: 1 },
+                unknown: { label: 'Unknown', sequence: 2 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        compatibility_reason: StringColumn({
+            label: 'Compatibility Reason',
+            maxLength: 1000,
+        }),
+
+        // Scan metadata - every row of one scan shares the same scan id and timestamp
+        scan_id: StringColumn({
+            label: 'Scan ID',
+            maxLength: 32,
+        }),
+
+        scanned_on: DateTimeColumn({
+            label: 'Scanned On',
+        }),
+    },
+
+    // Table configuration
+    display: 'name',
+    extensible: false,
+    allowWebServiceAccess: true,
+    actions: ['read'],
+    audit: false,
+    textIndex: true,
+    index: [
+        {
+            name: 'index_scan_id',
+            unique: false,
+            element: 'scan_id',
+        },
+        {
+            name: 'index_application',
+            unique: false,
+            element: 'application',
+        },
+    ],
+})
@@ -98,6 +98,28 @@ export const x_snc_store_upda_1_store_updates = Table({
             maxLength: 200,
             mandatory: true,
         }),
+
+        // Resolved dependencies of the available version (JSON array written by AppDependencyResolver)
+        dependencies: StringColumn({
+            label: 'Dependencies',
+            maxLength: 4000,
+        }),
+
+        // Platform compatibility of the available version (AppCompatibilityChecker)
+        compatibility: ChoiceColumn({
+            label: 'Compatibility',
+            choices: {
+                compatible: { label: 'Compatible', sequence: 0 },
+                incompatible: { label: 'Incompatible', sequence: 1 },
+                unknown: { label: 'Unknown', sequence: 2 },
+            },
+            dropdown: 'dropdown_with_none',
+        }),
+
+        compatibility_reason: StringColumn({
+            label: 'Compatibility Reason',
+            maxLength: 1000,
+        }),
     },
 
     // Table configuration
@@ -0,0 +1,114 @@
+// src/hooks/useAvailableApps.ts
+// Custom hook for entitled Store applications that are not installed yet
+// Pattern 2C: TanStack Query over the x_snc_store_upda_1_available_apps remote table
+// Selection is local state - fresh installs go through the same install_updates path as updates
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import type { ServiceNowRecord } from '../types/api';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+export interface AvailableApp extends ServiceNowRecord {
+  application: string;        // sys_remote_app sys_id
+  name: string;
+  scope: string;
+  publisher: string;
+  description: string;
+  latest_version: string;
+  available_version: string;  // sys_app_version sys_id - what an install batch item installs
+  publish_date: string;
+}
+
+// Remote table listing entitled-but-not-installed Store applications
+export const AVAILABLE_APPS_TABLE = 'x_snc_store_upda_1_available_apps';
+
+const AVAILABLE_APP_FIELDS = [
+  'sys_id', 'application', 'name', 'scope', 'publisher', 'description',
+  'latest_version', 'available_version', 'publish_date'
+];
+
+export const useAvailableApps = () => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.available(),
+    queryFn: async (): Promise<AvailableApp[]> => {
+      const startTime = performance.now();
+
+      const response = await apiService.get<AvailableApp[]>(`/api/now/table/${AVAILABLE_APPS_TABLE}`, {
+        params: {
+          sysparm_fields: AVAILABLE_APP_FIELDS.join(','),
+          sysparm_query: 'ORDERBYname',
+          sysparm_exclude_reference_link: true
+        },
+        timeout: 15000,
+        retries: 1
+      });
+
+      const records = response.result || [];
+
+      logger.info('Available Store apps loaded', createLogContext({
+        table: AVAILABLE_APPS_TABLE,
+        recordCount: records.length,
+        duration: Math.round(performance.now() - startTime)
+      }));
+
+      return records;
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false
+  });
+
+  const apps = query.data || [];
+
+  const filteredApps = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return apps;
+
+    return apps.filter(app =>
+      [app.name, app.scope, app.publisher, app.description]
+        .some(value => (value || '').toLowerCase().includes(term))
+    );
+  }, [apps, search]);
+
+  // Drop selections for apps that disappeared after a refresh (e.g. installed in the meantime)
+  const selectedApps = useMemo(
+    () => apps.filter(app => selectedIds.includes(app.sys_id)),
+    [apps, selectedIds]
+  );
+
+  const toggleApp = useCallback((sysId: string) => {
+    setSelectedIds(prev => prev.includes(sysId) ? prev.filter(id => id !== sysId) : [...prev, sysId]);
+  }, []);
+
+  const setVisibleSelected = useCallback((selected: boolean) => {
+    const visibleIds = filteredApps.map(app => app.sys_id);
+    setSelectedIds(prev => selected
+      ? Array.from(new Set([...prev, ...visibleIds]))
+      : prev.filter(id => !visibleIds.includes(id))
+    );
+  }, [filteredApps]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+  }, []);
+
+  return {
+    apps,
+    filteredApps,
+    search,
+    setSearch,
+    selectedApps,
+    isSelected: useCallback((sysId: string) => selectedIds.includes(sysId), [selectedIds]),
+    toggleApp,
+    setVisibleSelected,
+    clearSelection,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
@@ -0,0 +1,104 @@
+// src/hooks/useInstallBatchLogs.ts
+// Custom hook for the log entries of one install batch (batch detail view)
+// Pattern 2C: TanStack Query over GET /install_updates/batches/{id}/logs, level filter, search and download are client-side
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../api/apiService';
+import type { InstallLogEntry, InstallLogLevel } from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+export const INSTALL_LOG_LEVELS: InstallLogLevel[] = ['debug', 'info', 'warning', 'error'];
+
+const LOGS_POLL_INTERVAL = 15000;
+
+/**
+ * Entries at or above a level, matching a search term in their message or source
+ */
+export const filterInstallLogEntries = (
+  entries: InstallLogEntry[],
+  minLevel: InstallLogLevel,
+  search: string
+): InstallLogEntry[] => {
+  const minIndex = INSTALL_LOG_LEVELS.indexOf(minLevel);
+  const term = search.trim().toLowerCase();
+
+  return entries.filter(entry =>
+    INSTALL_LOG_LEVELS.indexOf(entry.level) >= minIndex &&
+    (!term || entry.message.toLowerCase().includes(term) || entry.source.toLowerCase().includes(term))
+  );
+};
+
+/**
+ * Plain text log, one line per entry: "2025-01-31 10:15:02 UTC ERROR [syslog] source: message"
+ */
+export const buildInstallLogText = (entries: InstallLogEntry[]): string =>
+  entries
+    .map(entry => `${entry.time} UTC ${entry.level.toUpperCase().padEnd(7)} [${entry.origin}] ${entry.source}: ${entry.message}`)
+    .join('\n');
+
+export const useInstallBatchLogs = (batchId: string, enabled: boolean, live = false) => {
+  const [minLevel, setMinLevel] = useState<InstallLogLevel>('info');
+  const [search, setSearch] = useState('');
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.batchLogs(batchId),
+    queryFn: () => apiService.getInstallBatchLogs(batchId),
+    enabled: enabled && !!batchId,
+    staleTime: live ? 0 : 5 * 60 * 1000, // A finished batch writes no more entries
+    refetchInterval: live ? LOGS_POLL_INTERVAL : false,
+    refetchOnWindowFocus: false,
+    retry: false
+  });
+
+  const entries = query.data?.entries || [];
+
+  const filteredEntries = useMemo(
+    () => filterInstallLogEntries(entries, minLevel, search),
+    [entries, minLevel, search]
+  );
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<InstallLogLevel, number> = { debug: 0, info: 0, warning: 0, error: 0 };
+    entries.forEach(entry => {
+      counts[entry.level]++;
+    });
+    return counts;
+  }, [entries]);
+
+  // Downloads what is on screen - the level filter and search narrow the file to the matching entries
+  const download = useCallback(() => {
+    if (!query.data) return;
+
+    const blob = new Blob([buildInstallLogText(filteredEntries)], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `install-batch-${batchId}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    logger.info('Install batch log downloaded', createLogContext({
+      batchId,
+      entryCount: filteredEntries.length,
+      filtered: filteredEntries.length !== entries.length
+    }));
+  }, [query.data, filteredEntries, entries.length, batchId]);
+
+  return {
+    logs: query.data ?? null,
+    entries,
+    filteredEntries,
+    levelCounts,
+    minLevel,
+    setMinLevel,
+    search,
+    setSearch,
+    download,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
@@ -0,0 +1,390 @@
+// src/hooks/useInstallBatches.ts
+// Custom hooks for the install batch history (audit trail of every install_updates call)
+// Pattern 2C: TanStack Query over the x_snc_store_upda_1_install_batch table - filters become an encoded query
+// OUTCOMES: useInstallBatchOutcomes - per-app state of one batch, polled while the batch runs
+// RETRY: useInstallBatchRetry - re-checked failed / skipped items, submitted as a batch linked by retry_of
+// LOCK: useInstallLock - the running batch that blocks new installs, with the admin release of a stale lock
+
+import { useCallback, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, buildInstallRequest } from '../api/apiService';
+import type {
+  InstallBatchItemState,
+  InstallBatchLock,
+  InstallBatchOutcomesResponse,
+  InstallBatchRetryResponse,
+  InstallUpdatesResponse
+} from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import type { ServiceNowRecord } from '../types/api';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+import { parseServiceNowUtc } from './useStoreUpdatesSnapshot';
+
+export type InstallBatchStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type InstallBatchKind = 'app' | 'plugin';
+
+// One requested app (or plugin) of a batch, as recorded by InstallBatchService
+export interface InstallBatchItem {
+  order: number;
+  application?: string;       // sys_store_app / sys_remote_app sys_id
+  name?: string;
+  installed_version?: string; // Installed when the batch was requested
+  target_version?: string;    // sys_app_version sys_id
+  version?: string;
+  plugin_id?: string;         // Plugin batches only
+}
+
+export interface InstallBatchRecord extends ServiceNowRecord {
+  requester: string;
+  'requester.name': string;
+  requested_on: string;       // UTC, yyyy-MM-dd HH:mm:ss
+  kind: InstallBatchKind;
+  label: string;
+  parent_batch: string;       // Set on retries
+  'parent_batch.label': string;
+  client_request_id: string;
+  items: string;              // JSON array of InstallBatchItem
+  applications: string;
+  app_count: string;
+  progress_id: string;
+  status: InstallBatchStatus;
+  status_message: string;
+  cancel_requested: string;
+  'cancelled_by.name': string;
+  completed_on: string;
+  duration_ms: string;
+  error: string;
+}
+
+export interface InstallBatch {
+  sys_id: string;
+  requester: string;
+  requesterName: string;
+  requestedOn: Date | null;
+  kind: InstallBatchKind;
+  label: string;
+  parentBatch: string;
+  parentBatchLabel: string;
+  clientRequestId: string;
+  items: InstallBatchItem[];
+  appCount: number;
+  progressId: string;
+  status: InstallBatchStatus;
+  statusMessage: string;
+  cancelRequested: boolean;
+  cancelledByName: string;
+  completedOn: Date | null;
+  durationMs: number | null;
+  error: string;
+}
+
+export interface InstallBatchFilters {
+  status: InstallBatchStatus | 'all';
+  kind: InstallBatchKind | 'all';
+  range: '7d' | '30d' | '90d' | 'all';
+  search: string;        // Label, requester or item names / versions
+  application: string;   // Only batches that touched this application
+}
+
+export const INSTALL_BATCH_TABLE = 'x_snc_store_upda_1_install_batch';
+
+const INSTALL_BATCH_FIELDS = [
+  'sys_id', 'requester', 'requester.name', 'requested_on', 'kind', 'label', 'parent_batch', 'parent_batch.label',
+  'client_request_id',
+  'items', 'applications', 'app_count', 'progress_id', 'status', 'status_message',
+  'cancel_requested', 'cancelled_by.name', 'completed_on', 'duration_ms', 'error'
+];
+
+const HISTORY_LIMIT = 200;
+
+const RANGE_DAYS: Record<Exclude<InstallBatchFilters['range'], 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+export const DEFAULT_INSTALL_BATCH_FILTERS: InstallBatchFilters = {
+  status: 'all',
+  kind: 'all',
+  range: '30d',
+  search: '',
+  application: ''
+};
+
+/**
+ * Encoded query for the history filters, newest first
+ */
+export const buildInstallBatchQuery = (filters: InstallBatchFilters): string => {
+  const parts: string[] = [];
+
+  if (filters.status !== 'all') parts.push(`status=${filters.status}`);
+  if (filters.kind !== 'all') parts.push(`kind=${filters.kind}`);
+  if (filters.range !== 'all') parts.push(`requested_on>=javascript:gs.daysAgoStart(${RANGE_DAYS[filters.range]})`);
+  if (filters.application) parts.push(`applicationsLIKE${filters.application}`);
+
+  // ^ would start a new condition - search terms cannot contain it
+  const search = filters.search.trim().replace(/\^/g, '');
+  if (search) parts.push(`labelLIKE${search}^ORitemsLIKE${search}^ORrequester.nameLIKE${search}`);
+
+  parts.push('ORDERBYDESCrequested_on');
+  return parts.join('^');
+};
+
+const parseItems = (value: string): InstallBatchItem[] => {
+  try {
+    const items = JSON.parse(value || '[]');
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+};
+
+export const parseInstallBatch = (record: InstallBatchRecord): InstallBatch => ({
+  sys_id: record.sys_id,
+  requester: record.requester,
+  requesterName: record['requester.name'] || record.requester,
+  requestedOn: parseServiceNowUtc(record.requested_on),
+  kind: record.kind,
+  label: record.label,
+  parentBatch: record.parent_batch || '',
+  parentBatchLabel: record['parent_batch.label'] || '',
+  clientRequestId: record.client_request_id,
+  items: parseItems(record.items),
+  appCount: Number(record.app_count) || 0,
+  progressId: record.progress_id,
+  status: record.status,
+  statusMessage: record.status_message,
+  cancelRequested: record.cancel_requested === 'true',
+  cancelledByName: record['cancelled_by.name'] || '',
+  completedOn: parseServiceNowUtc(record.completed_on),
+  durationMs: record.duration_ms ? Number(record.duration_ms) : null,
+  error: record.error
+});
+
+/**
+ * "1h 05m", "4m 12s", "38s"
+ */
+export const formatBatchDuration = (durationMs: number | null): string => {
+  if (durationMs === null) return '—';
+
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+export const useInstallBatches = (initialFilters: Partial<InstallBatchFilters> = {}) => {
+  const [filters, setFilters] = useState<InstallBatchFilters>({ ...DEFAULT_INSTALL_BATCH_FILTERS, ...initialFilters });
+  const encodedQuery = useMemo(() => buildInstallBatchQuery(filters), [filters]);
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.batches(encodedQuery),
+    queryFn: async (): Promise<InstallBatch[]> => {
+      const startTime = performance.now();
+
+      const response = await apiService.get<InstallBatchRecord[]>(`/api/now/table/${INSTALL_BATCH_TABLE}`, {
+        params: {
+          sysparm_fields: INSTALL_BATCH_FIELDS.join(','),
+          sysparm_query: encodedQuery,
+          sysparm_limit: HISTORY_LIMIT,
+          sysparm_exclude_reference_link: true
+        },
+        timeout: 15000,
+        retries: 1
+      });
+
+      const batches = (response.result || []).map(parseInstallBatch);
+
+      logger.info('Install batch history loaded', createLogContext({
+        table: INSTALL_BATCH_TABLE,
+        recordCount: batches.length,
+        query: encodedQuery,
+        duration: Math.round(performance.now() - startTime)
+      }));
+
+      return batches;
+    },
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false
+  });
+
+  const updateFilter = useCallback(<K extends keyof InstallBatchFilters>(key: K, value: InstallBatchFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  }, []);
+
+  return {
+    batches: query.data || [],
+    filters,
+    updateFilter,
+    resetFilters: () => setFilters(DEFAULT_INSTALL_BATCH_FILTERS),
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch,
+    limitReached: (query.data?.length ?? 0) >= HISTORY_LIMIT
+  };
+};
+
+/**
+ * Retries started from a batch, oldest first
+ */
+export const useInstallBatchRetries = (batchId: string) => {
+  const encodedQuery = `parent_batch=${batchId}^ORDERBYrequested_on`;
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.batches(encodedQuery),
+    queryFn: async (): Promise<InstallBatch[]> => {
+      const response = await apiService.get<InstallBatchRecord[]>(`/api/now/table/${INSTALL_BATCH_TABLE}`, {
+        params: {
+          sysparm_fields: INSTALL_BATCH_FIELDS.join(','),
+          sysparm_query: encodedQuery,
+          sysparm_exclude_reference_link: true
+        }
+      });
+      return (response.result || []).map(parseInstallBatch);
+    },
+    enabled: !!batchId,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false
+  });
+
+  return query.data ?? [];
+};
+
+export const useInstallBatch = (batchId: string) => {
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.batch(batchId),
+    queryFn: async (): Promise<InstallBatch> => {
+      const response = await apiService.getRecord<InstallBatchRecord>(INSTALL_BATCH_TABLE, batchId, INSTALL_BATCH_FIELDS);
+      return parseInstallBatch(response.result);
+    },
+    enabled: !!batchId,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false
+  });
+
+  return {
+    batch: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
+
+// Outcome badges shared by the progress panel and the batch detail view
+export const ITEM_STATE_BADGES: Record<InstallBatchItemState, { color: string; label: string }> = {
+  queued: { color: 'gray', label: 'Queued' },
+  installing: { color: 'blue', label: 'Installing' },
+  succeeded: { color: 'green', label: 'Succeeded' },
+  failed: { color: 'red', label: 'Failed' },
+  skipped: { color: 'yellow', label: 'Skipped' }
+};
+
+const OUTCOMES_POLL_INTERVAL = 5000;
+
+/**
+ * Per-app outcomes of a batch - refetched every 5 s while the batch is running and live is set
+ */
+export const useInstallBatchOutcomes = (batchId: string | null, live = false) => {
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.batchItems(batchId || ''),
+    queryFn: (): Promise<InstallBatchOutcomesResponse> => apiService.getInstallBatchOutcomes(batchId as string),
+    enabled: !!batchId,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+    refetchInterval: (current) => {
+      const status = current.state.data?.batch.status;
+      return live && (!status || status === 'running') ? OUTCOMES_POLL_INTERVAL : false;
+    }
+  });
+
+  return {
+    outcomes: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
+
+/**
+ * Retry of the failed and skipped items of a finished batch.
+ * The preview is loaded when opened; submit starts a new batch linked to the original one.
+ */
+export const useInstallBatchRetry = (batchId: string, opened: boolean) => {
+  const queryClient = useQueryClient();
+
+  const preview = useQuery({
+    queryKey: [...storeUpdatesQueryKeys.batch(batchId), 'retry'],
+    queryFn: (): Promise<InstallBatchRetryResponse> => apiService.getInstallBatchRetry(batchId),
+    enabled: opened && !!batchId,
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+    refetchOnWindowFocus: false
+  });
+
+  const submit = useMutation({
+    mutationFn: (retry: InstallBatchRetryResponse): Promise<InstallUpdatesResponse> => {
+      if (retry.kind === 'plugin') {
+        return apiService.installPlugins(retry.retry_items.map(item => item.plugin_id), retry.batch_id);
+      }
+
+      return apiService.installUpdates(buildInstallRequest(
+        retry.retry_items.map(item => ({ application: item.application, target_version: item.target_version })),
+        {
+          ...(retry.request.label && { label: retry.request.label }),
+          continueOnError: retry.request.continue_on_error ?? false,
+          retryOf: retry.batch_id
+        }
+      ));
+    },
+    onSuccess: (response, retry) => {
+      logger.info('Install batch retry started', createLogContext({
+        originalBatchId: retry.batch_id,
+        retryBatchId: response.batch_id,
+        itemCount: retry.retry_items.length
+      }));
+      void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+    }
+  });
+
+  return {
+    retry: preview.data ?? null,
+    isLoading: preview.isLoading,
+    error: preview.error ? (preview.error as Error).message : null,
+    submit: submit.mutateAsync,
+    isSubmitting: submit.isPending,
+    submitError: submit.error ? (submit.error as Error).message : null
+  };
+};
+
+const LOCK_POLL_INTERVAL = 30000;
+
+/**
+ * The batch holding the server-side install lock - another admin's batch blocks new installs until it ends
+ */
+export const useInstallLock = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.installLock(),
+    queryFn: async (): Promise<InstallBatchLock | null> => (await apiService.getInstallLock()).lock,
+    refetchInterval: LOCK_POLL_INTERVAL,
+    staleTime: 10000
+  });
+
+  const release = useMutation({
+    mutationFn: (batchId: string) => apiService.releaseInstallLock(batchId),
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+    }
+  });
+
+  return {
+    lock: query.data ?? null,
+    isLoading: query.isLoading,
+    release: release.mutateAsync,
+    isReleasing: release.isPending,
+    releaseError: release.error ? (release.error as Error).message : null
+  };
+};
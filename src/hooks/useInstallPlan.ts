@@ -0,0 +1,79 @@
+// src/hooks/useInstallPlan.ts
+// Custom hook for the install plan (dry run) shown in the confirmation modal
+// Pattern 2C: TanStack Query over POST /install_updates/plan - nothing is installed
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService, buildInstallRequest } from '../api/apiService';
+import type { InstallBatchRequest, InstallEstimateSummary, InstallPlanResponse, InstallTarget } from '../api/apiService';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+/**
+ * Format an estimated duration in seconds as "~1h 05m" / "~12 min"
+ */
+export const formatEstimatedDuration = (seconds: number): string => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `~${minutes} min`;
+  return `~${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+/**
+ * Format the band of an estimate as "8-20 min" / "45 min-1h 30m"
+ */
+export const formatEstimateRange = (estimate: Pick<InstallEstimateSummary, 'low_seconds' | 'high_seconds'>): string => {
+  const low = formatEstimatedDuration(estimate.low_seconds).slice(1);
+  const high = formatEstimatedDuration(estimate.high_seconds).slice(1);
+  if (low === high) return low;
+  if (low.endsWith(' min') && high.endsWith(' min')) return `${low.slice(0, -4)}-${high}`;
+  return `${low}-${high}`;
+};
+
+export const ESTIMATE_CONFIDENCE_LABELS: Record<InstallEstimateSummary['confidence'], string> = {
+  high: 'Based on install history',
+  medium: 'Install history is thin for some apps - wider range',
+  low: 'No install history yet - rough guess by version jump'
+};
+
+/**
+ * Install targets of a plan in plan order - dependency additions included
+ */
+export const getPlanTargets = (plan: InstallPlanResponse): InstallTarget[] =>
+  plan.items.map(item => ({
+    application: item.application,
+    target_version: item.target_version,
+    options: item.options
+  }));
+
+/**
+ * The request that installs exactly what the plan shows, under the same client request id
+ */
+export const buildRequestFromPlan = (plan: InstallPlanResponse, request: InstallBatchRequest): InstallBatchRequest =>
+  buildInstallRequest(getPlanTargets(plan), {
+    clientRequestId: request.client_request_id,
+    continueOnError: request.continue_on_error,
+    ...(request.label && { label: request.label })
+  });
+
+export const useInstallPlan = (request: InstallBatchRequest | null) => {
+  // The client request id changes per modal opening - the plan only depends on the targets
+  const targetKey = useMemo(
+    () => request?.items.map(item => `${item.application ?? ''}:${item.target_version}`).join(',') ?? '',
+    [request]
+  );
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.installPlan(targetKey),
+    queryFn: () => apiService.getInstallPlan(request!),
+    enabled: !!request && request.items.length > 0,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: false
+  });
+
+  return {
+    plan: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
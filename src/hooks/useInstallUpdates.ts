@@ -3,20 +3,44 @@
 // Following Architecture.md separation of concerns - Business logic and local state
 // Integrates with service layer, TanStack Query, and Zustand store
 // ADDED: Automatic data refresh after successful installation completion
-
-import { useCallback, useRef, useEffect, useState } from 'react';
+// FRESH INSTALLS: Confirmation can carry explicit sys_app_version ids (available apps tab)
+// PLUGINS: Install requests carry a target kind - platform plugins use apiService.installPlugins
+// COMPATIBILITY: Confirmation refuses selections that contain platform-incompatible versions
+// INSTALL REQUEST: Application installs are sent as versioned items (application + target_version, in order)
+// INSTALL PLAN: The modal exposes the pending request for a dry run - confirming installs what the plan shows
+// HISTORY: Every batch is recorded server side (batch_id) - the history list is refreshed when a batch ends
+// OUTCOMES: The batch id is kept in the progress store for the per-app table; failures name the app that broke the batch
+// CANCEL: cancelInstallation asks the server to stop before the next app - polling runs until the batch reports cancelled
+// LOCK: A start rejected because another batch holds the install lock refreshes the dashboard lock banner
+// ASYNC: install_updates answers 202 with a queued batch - the batch status is polled until its progress record exists
+// RETRY POLICY: The install POST is never retried by apiService - its idempotency key makes a resend return the same batch
+// RESUME: On mount the running batch of this user (or the batch this browser tracked) is re-attached from server state
+// POLLER: Batch status and batch progress use pollerService - no overlapping ticks, adaptive intervals,
+// and after repeated failures the operation turns 'unknown' instead of polling forever
+// LIVE: With the record watcher available, tracker/batch changes poke the poller - polling drops to a heartbeat
+// SEQUENTIAL: Apps run one at a time - progress follows the batch outcomes and the watcher moves to each app's progress record
+
+import { useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiService } from '../api/apiService';
+import { apiService, buildInstallRequest } from '../api/apiService';
+import type { InstallBatchRequest, InstallPlanResponse, InstallTarget } from '../api/apiService';
+import { buildRequestFromPlan } from './useInstallPlan';
 import { useBatchProgressStore } from '../stores/batchProgressStore';
 import { logger, createLogContext } from '../monitoring/logger';
+import { createPoller } from '../services/pollerService';
+import type { Poller } from '../services/pollerService';
+import { watchRecord } from '../services/recordWatchService';
 import { useNotifications } from './useNotifications';
 import type { useStoreUpdatesSelection } from './useStoreUpdatesSelection';
 import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid'; // NEW: For correct cache invalidation
+import { parseServiceNowUtc } from './useStoreUpdatesSnapshot';
 
 // Install updates response interface
 export interface InstallUpdatesResponse {
   success: boolean;
-  progress_id: string;
+  batch_id: string;           // x_snc_store_upda_1_install_batch record of this batch
+  status: string;             // 'queued' - the installer starts in the background, poll the batch for its progress_id
+  duplicate?: boolean;        // The idempotency key was already used - batch_id is the batch that request started
   status_message: string;
   app_count: number;
   apps_requested: string;
@@ -31,20 +55,13 @@ export interface InstallUpdatesError {
   timestamp: string;
 }
 
-// ServiceNow CI/CD Progress API response interface
-export interface CICDProgressResponse {
-  status: string; // "0" = running, "2" = successful, "3" = failed, etc.
-  status_label: string; // "Running", "Successful", "Failed", etc.
-  status_message: string;
-  status_detail: string;
-  error: string;
-  links: {
-    progress: {
-      id: string;
-      url: string;
-    };
-  };
-  percent_complete: number; // 0-100
+// What an install request targets - Store application versions or platform plugins
+export type InstallTargetKind = 'app' | 'plugin';
+
+export interface InstallRequest {
+  ids: string[]; // sys_app_version sys_ids, or plugin ids for kind 'plugin'
+  kind: InstallTargetKind;
+  request?: InstallBatchRequest; // Application install request - built from ids when omitted
 }
 
 // Confirmation modal state interface
@@ -52,9 +69,14 @@ export interface ConfirmationModalState {
   open: boolean;
   actionLabel: string;
   selectedCount: number;
+  targetIds?: string[]; // Explicit ids - set for fresh installs and plugins, otherwise the selection is used
+  targetKind?: InstallTargetKind;
 }
 
 // Hook configuration
+// LIVE: Safety-net poll while the record watcher pushes changes
+const LIVE_HEARTBEAT_MS = 60 * 1000;
+
 interface UseInstallUpdatesConfig {
   onSuccess?: (response: InstallUpdatesResponse) => void;
   onError?: (error: any) => void;
@@ -78,10 +100,11 @@ export const useInstallUpdates = (
   // Dependencies
   const queryClient = useQueryClient();
   const batchProgressStore = useBatchProgressStore();
-  const { showSuccess, showError, showInfo } = useNotifications();
+  const { showError } = useNotifications();
   
-  // Progress polling ref
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // POLLER: One poller at a time - batch status while queued, then batch progress
+  const pollerRef = useRef<Poller | null>(null);
+  const unwatchRef = useRef<(() => void) | null>(null);
 
   // Confirmation modal state
   const [confirmationModal, setConfirmationModal] = useState<ConfirmationModalState>({
@@ -91,83 +114,127 @@ export const useInstallUpdates = (
   });
 
   // Service layer method for install updates API call
-  const callInstallUpdatesApi = useCallback(async (selectedIds: string[]): Promise<InstallUpdatesResponse> => {
+  const callInstallUpdatesApi = useCallback(async ({ ids, kind, request }: InstallRequest): Promise<InstallUpdatesResponse> => {
     logger.info('Calling install updates API', createLogContext({
-      selectedCount: selectedIds.length,
-      selectedIds: selectedIds.slice(0, 5) // Log first 5 IDs only
+      kind,
+      selectedCount: ids.length,
+      selectedIds: ids.slice(0, 5) // Log first 5 IDs only
     }));
 
-    const response = await apiService.installUpdates(selectedIds);
+    const response = kind === 'plugin'
+      ? await apiService.installPlugins(ids)
+      : await apiService.installUpdates(request ?? buildInstallRequest(ids.map(id => ({ target_version: id }))));
     return response;
   }, []);
 
-  // ServiceNow CI/CD Progress API polling method
-  const pollCICDProgress = useCallback(async (progressId: string): Promise<CICDProgressResponse> => {
-    logger.info('Polling CI/CD progress API', createLogContext({
-      progressId,
-      endpoint: `/api/sn_cicd/progress/${progressId}`
-    }));
+  // Poller tasks end their poller with { done: true } - only the record watcher needs releasing then
+  const detachRecordWatcher = useCallback(() => {
+    unwatchRef.current?.();
+    unwatchRef.current = null;
+  }, []);
 
-    const response = await apiService.get<CICDProgressResponse>(
-      `/api/sn_cicd/progress/${progressId}`
-    );
+  // LIVE: Push changes of the watched record into the poller - every update still goes through its tick
+  const attachRecordWatcher = useCallback((table: string, sysId: string, poller: Poller) => {
+    unwatchRef.current?.();
+    unwatchRef.current = watchRecord({
+      table,
+      sysId,
+      onChange: () => poller.poke(),
+      onStatusChange: (status) => {
+        poller.setHeartbeat(status === 'live' ? LIVE_HEARTBEAT_MS : null);
+        useBatchProgressStore.getState().setProgressFeed(status === 'disconnected' ? 'polling' : status);
+        if (status === 'live') {
+          // Catch up on changes missed while the channel was connecting
+          poller.poke();
+        }
+      }
+    });
 
-    return response.result;
+    if (!unwatchRef.current) {
+      useBatchProgressStore.getState().setProgressFeed('polling');
+    }
   }, []);
 
-  // Start progress polling using ServiceNow CI/CD Progress API
-  const startProgressPolling = useCallback((progressId: string) => {
+  // Follow a started batch through its outcomes - items run one at a time, each with its own progress record,
+  // and the server's sync job moves the batch from one item to the next
+  const startProgressPolling = useCallback((batchId: string) => {
     if (!enableProgressPolling) return;
 
     // Clear any existing polling
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-    }
+    pollerRef.current?.stop();
+    let watchedProgressId = '';
+    let lastStatusMessage = '';
 
-    logger.info('Starting CI/CD progress polling', createLogContext({
-      progressId,
+    logger.info('Starting install batch progress polling', createLogContext({
+      batchId,
       pollingInterval,
-      endpoint: `/api/sn_cicd/progress/${progressId}`
+      endpoint: `/api/x_snc_store_upda_1/install_updates/batches/${batchId}/items`
     }));
 
-    pollingIntervalRef.current = setInterval(async () => {
-      try {
-        const progressState = await pollCICDProgress(progressId);
-        
-        logger.info('CI/CD progress update received', createLogContext({
-          progressId,
-          status: progressState.status,
-          statusLabel: progressState.status_label,
-          percentComplete: progressState.percent_complete,
-          statusMessage: progressState.status_message
+    pollerRef.current = createPoller({
+      name: 'install-batch-progress',
+      intervalMs: pollingInterval,
+      onError: (error, consecutiveFailures) => {
+        // ServiceNow might be temporarily unavailable - the poller backs off until its failure budget is spent
+        logger.error('Install batch progress polling failed', error, createLogContext({ batchId, consecutiveFailures }));
+      },
+      onGiveUp: () => {
+        batchProgressStore.markOperationUnknown('Lost contact with the installation progress - check the batch on the server.');
+      },
+      task: async () => {
+        const outcomes = await apiService.getInstallBatchOutcomes(batchId);
+        const { batch, summary } = outcomes;
+        queryClient.setQueryData(storeUpdatesQueryKeys.batchItems(batchId), outcomes);
+
+        logger.info('Install batch progress update received', createLogContext({
+          batchId,
+          status: batch.status,
+          progressId: batch.progress_id,
+          statusMessage: batch.status_message
         }));
 
-        // UX IMPROVEMENT: Override progress and status message for better user experience
-        const rawProgress = progressState.percent_complete || 0;
-        const rawStatusMessage = progressState.status_message || progressState.status_label || 'Processing...';
-        
-        // Override 0% progress to show 5% to indicate activity
-        const displayProgress = rawProgress === 0 ? 5 : rawProgress;
-        
-        // Enhance status message for long-running queued operations and finishing stages
-        const displayStatusMessage = rawStatusMessage === 'Executing queued operation' 
-          ? 'Executing queued operation -- This may take a long time.'
-          : (rawStatusMessage === 'Running' && rawProgress >= 90)
-            ? 'Running -- Finishing up, this may take a longer time.'
-            : rawStatusMessage;
-
-        // Update store with enhanced progress values
-        batchProgressStore.updateProgress(displayProgress, displayStatusMessage);
-
-        // Handle completion states
-        if (progressState.status_label === 'Successful' && progressState.percent_complete === 100) {
-          batchProgressStore.completeOperation('Installation completed successfully');
-          stopProgressPolling();
-          
+        if (batch.status === 'running') {
+          // LIVE: Watch the progress record of the item that is installing
+          if (batch.progress_id && batch.progress_id !== watchedProgressId && pollerRef.current) {
+            watchedProgressId = batch.progress_id;
+            attachRecordWatcher('sys_execution_tracker', batch.progress_id, pollerRef.current);
+          }
+
+          // Closed items count fully, the installing one half - never 0% so the bar shows activity
+          const closedCount = summary.succeeded + summary.failed + summary.skipped;
+          const itemCount = outcomes.items.length || 1;
+          const displayProgress = Math.max(5, Math.round(((closedCount + summary.installing / 2) / itemCount) * 100));
+
+          if (batch.cancel_requested) {
+            batchProgressStore.updateStatus('cancelling', 'Cancelling - waiting for the installing update to finish...');
+            batchProgressStore.updateProgress(displayProgress);
+          } else {
+            batchProgressStore.updateProgress(displayProgress, batch.status_message || 'Processing...');
+          }
+
+          // An item whose installer reports the same step again is in a long phase - poll at the slow interval
+          const longPhase = summary.installing > 0 && batch.status_message === lastStatusMessage;
+          lastStatusMessage = batch.status_message;
+          return { slow: longPhase };
+        }
+
+        detachRecordWatcher();
+        void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+
+        if (batch.status === 'cancelled') {
+          batchProgressStore.cancelOperation(
+            `Installation cancelled - ${summary.skipped} queued update${summary.skipped !== 1 ? 's were' : ' was'} skipped.`
+          );
+
+          // Apps installed before the cancel are real changes - refresh like a completed install
+          await onInstallationComplete?.();
+        } else if (batch.status === 'succeeded') {
+          batchProgressStore.completeOperation(`Installation of ${batchProgressStore.selectedIds.length} updates completed successfully.`);
+
           // INSTALL FIX: Follow exact same pattern as sync operations
           try {
             logger.info('Installation completed - starting data refresh like sync operations', {
-              progressId,
+              batchId,
               refreshPattern: 'sync-like-refresh',
               step: '1-clear-selections'
             });
@@ -177,7 +244,7 @@ export const useInstallUpdates = (
             
             // Step 2: Invalidate TanStack Query cache (like sync operations)
             logger.info('Install refresh - invalidating TanStack Query cache', {
-              progressId,
+              batchId,
               refreshPattern: 'sync-like-refresh',
               step: '2-invalidate-cache'
             });
@@ -186,10 +253,15 @@ export const useInstallUpdates = (
               queryKey: storeUpdatesQueryKeys.lists(),
               exact: true 
             });
+
+            // Freshly installed apps and activated/upgraded plugins drop out of their lists
+            await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.available() });
+            await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.plugins() });
+            await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
             
             // Step 3: Trigger stale-while-revalidate refresh (like sync operations)
             logger.info('Install refresh - triggering stale-while-revalidate refresh', {
-              progressId,
+              batchId,
               refreshPattern: 'sync-like-refresh',
               step: '3-stale-while-revalidate'
             });
@@ -198,14 +270,9 @@ export const useInstallUpdates = (
               await onInstallationComplete(); // Uses stale-while-revalidate pattern
             }
             
-            // Step 4: Single success notification
-            showSuccess({
-              title: 'Installation Complete',
-              message: `Installation of ${batchProgressStore.selectedIds.length} updates completed successfully.`
-            });
-            
+            // Step 4: The operation notification already reports the completion
             logger.info('Install refresh completed successfully', {
-              progressId,
+              batchId,
               refreshPattern: 'sync-like-refresh',
               step: '4-completed'
             });
@@ -213,7 +280,7 @@ export const useInstallUpdates = (
           } catch (refreshError) {
             logger.error('Install data refresh failed', 
               refreshError instanceof Error ? refreshError : new Error(String(refreshError)),
-              createLogContext({ progressId, refreshPattern: 'sync-like-refresh' })
+              createLogContext({ batchId, refreshPattern: 'sync-like-refresh' })
             );
             
             showError({
@@ -222,141 +289,354 @@ export const useInstallUpdates = (
             });
           }
           
-        } else if (progressState.status_label === 'Failed' || progressState.error) {
-          const errorMessage = progressState.error || progressState.status_message || 'Installation failed';
-          batchProgressStore.errorOperation('Installation failed', progressState);
-          stopProgressPolling();
-          
-          showError({
-            title: 'Installation Failed',
-            message: errorMessage
-          });
+        } else {
+          // Name the app that broke the batch
+          const failedItem = outcomes.failed_item;
+          const errorMessage = failedItem
+            ? `${failedItem.name || failedItem.plugin_id}${failedItem.version ? ` ${failedItem.version}` : ''} failed: ${failedItem.error || batch.error || 'Install failed'}`
+            : batch.error || batch.status_message || 'Installation failed';
+
+          batchProgressStore.errorOperation(errorMessage, batch);
 
-          logger.error('Installation failed', 
+          logger.error('Installation failed',
             new Error(errorMessage),
             createLogContext({
-              progressId,
-              status: progressState.status,
-              statusLabel: progressState.status_label,
-              error: progressState.error,
-              statusDetail: progressState.status_detail
+              batchId,
+              status: batch.status,
+              error: batch.error
             })
           );
         }
-        // If status is still running or in progress, continue polling
-
-      } catch (error) {
-        logger.error('CI/CD progress polling failed', 
-          error instanceof Error ? error : new Error(String(error)),
-          createLogContext({ progressId })
-        );
-        
-        // Don't stop polling on single error - ServiceNow might be temporarily unavailable
-        // But if we get multiple consecutive errors, we should consider stopping
+        return { done: true };
       }
-    }, pollingInterval);
+    });
 
-  }, [enableProgressPolling, pollingInterval, pollCICDProgress, batchProgressStore, queryClient, showSuccess, showError, showInfo, onInstallationComplete, selectionHook.clearSelection]);
+  }, [enableProgressPolling, pollingInterval, attachRecordWatcher, detachRecordWatcher, batchProgressStore, queryClient, showError, onInstallationComplete, selectionHook.clearSelection]);
 
   // Stop progress polling
   const stopProgressPolling = useCallback(() => {
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
+    detachRecordWatcher();
+
+    if (pollerRef.current) {
+      pollerRef.current.stop();
+      pollerRef.current = null;
       
-      logger.info('Stopped CI/CD progress polling', createLogContext({}));
+      logger.info('Stopped install progress polling', createLogContext({}));
     }
-  }, []);
+  }, [detachRecordWatcher]);
+
+  // ASYNC: Poll the queued batch until the installer has created its first progress record, then follow the batch
+  const startBatchPolling = useCallback((batchId: string) => {
+    if (!enableProgressPolling) return;
+
+    pollerRef.current?.stop();
+    let lastStatusMessage = '';
+
+    logger.info('Waiting for queued install batch to start', createLogContext({
+      batchId,
+      pollingInterval,
+      endpoint: `/api/x_snc_store_upda_1/install_updates/batches/${batchId}`
+    }));
+
+    pollerRef.current = createPoller({
+      name: 'install-batch-status',
+      intervalMs: pollingInterval,
+      onError: (error, consecutiveFailures) => {
+        // The batch is recorded server side and the sync job finalizes it either way
+        logger.error('Install batch status polling failed', error, createLogContext({ batchId, consecutiveFailures }));
+      },
+      onGiveUp: () => {
+        batchProgressStore.markOperationUnknown('Lost contact with the queued batch - check the batch on the server.');
+      },
+      task: async () => {
+        const { batch } = await apiService.getInstallBatchStatus(batchId);
+
+        if (batch.progress_id) {
+          logger.info('Install batch started', createLogContext({
+            batchId,
+            progressId: batch.progress_id,
+            statusMessage: batch.status_message
+          }));
+
+          batchProgressStore.setProgressWorkerId(batch.progress_id);
+          startProgressPolling(batchId);
+          return { done: true };
+        }
+
+        if (batch.status === 'cancelled') {
+          batchProgressStore.cancelOperation('Installation cancelled before the installer started.');
+          detachRecordWatcher();
+          void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+          return { done: true };
+        }
+
+        if (batch.status !== 'running') {
+          // Nothing was installed - the installer failed to start (or the lock was released)
+          const errorMessage = batch.error || batch.status_message || 'Installation failed to start';
+          batchProgressStore.errorOperation(errorMessage, batch);
+          detachRecordWatcher();
+          void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+          return { done: true };
+        }
+
+        if (useBatchProgressStore.getState().status === 'queued') {
+          batchProgressStore.updateStatus('queued', batch.status_message === 'Queued'
+            ? 'Queued - waiting for the installer to start...'
+            : `${batch.status_message}...`);
+        }
+
+        // Still waiting on the same step (e.g. the event queue) - poll at the slow interval
+        const longPhase = batch.status_message === lastStatusMessage;
+        lastStatusMessage = batch.status_message;
+        return { slow: longPhase };
+      }
+    });
+    attachRecordWatcher('x_snc_store_upda_1_install_batch', batchId, pollerRef.current);
+  }, [enableProgressPolling, pollingInterval, startProgressPolling, attachRecordWatcher, detachRecordWatcher, batchProgressStore, queryClient]);
+
+  // CANCEL: Start no further app of the running batch - the app that is installing always finishes
+  const cancelInstallation = useCallback(async () => {
+    const { batchId } = useBatchProgressStore.getState();
+    if (!batchId) return;
+
+    try {
+      const result = await apiService.cancelInstallBatch(batchId);
+      queryClient.setQueryData(storeUpdatesQueryKeys.batchItems(batchId), result);
+
+      if (result.cancelled) {
+        batchProgressStore.cancelOperation(
+          `Installation cancelled - ${result.summary.skipped} queued update${result.summary.skipped !== 1 ? 's were' : ' was'} skipped.`
+        );
+        stopProgressPolling();
+        void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+      } else {
+        batchProgressStore.updateStatus('cancelling', 'Cancelling - waiting for the installing update to finish...');
+      }
+    } catch (error) {
+      logger.error('Install batch cancel failed',
+        error instanceof Error ? error : new Error(String(error)),
+        createLogContext({ batchId })
+      );
+      showError({
+        title: 'Cancel Failed',
+        message: error instanceof Error ? error.message : 'Failed to cancel the installation'
+      });
+    }
+  }, [batchProgressStore, queryClient, stopProgressPolling, showError]);
 
   // TanStack Query mutation for install updates
   const installUpdatesMutation = useMutation({
     mutationFn: callInstallUpdatesApi,
-    onMutate: (selectedIds: string[]) => {
+    onMutate: ({ ids, kind }: InstallRequest) => {
       // Start operation in store
-      const operationId = batchProgressStore.startOperation('install-all', selectedIds);
+      const operationId = batchProgressStore.startOperation('install-all', ids);
       
       logger.info('Install updates mutation started', createLogContext({
         operationId,
-        selectedCount: selectedIds.length
+        kind,
+        selectedCount: ids.length
       }));
       
       return { operationId };
     },
-    onSuccess: (response: InstallUpdatesResponse, selectedIds: string[]) => {
+    onSuccess: (response: InstallUpdatesResponse) => {
       logger.info('Install updates API call successful', createLogContext({
-        progressId: response.progress_id,
+        batchId: response.batch_id,
         appCount: response.app_count,
         statusMessage: response.status_message
       }));
 
-      // Update store with progress worker ID
-      batchProgressStore.setProgressWorkerId(response.progress_id);
-      
-      // Start progress polling using CI/CD Progress API
-      startProgressPolling(response.progress_id);
-      
-      showInfo({
-        title: 'Installation Started',
-        message: `Started installation of ${response.app_count} updates. Tracking progress...`
-      });
+      // The batch is queued - its progress record appears once the background installer starts
+      batchProgressStore.setBatchId(response.batch_id);
+      batchProgressStore.updateStatus('queued', response.duplicate
+        ? `Already queued - tracking the accepted batch of ${response.app_count} updates...`
+        : 'Queued - waiting for the installer to start...');
+      startBatchPolling(response.batch_id);
 
       // Call custom success handler
       onSuccess?.(response);
     },
-    onError: (error: any, selectedIds: string[]) => {
+    onError: (error: any, { ids, kind }: InstallRequest) => {
       logger.error('Install updates mutation failed',
         error instanceof Error ? error : new Error(String(error)),
         createLogContext({
-          selectedCount: selectedIds.length,
+          kind,
+          selectedCount: ids.length,
           errorMessage: error.message
         })
       );
 
+      // A 409 means another batch holds the install lock - refresh the dashboard banner
+      void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.installLock() });
+
       // Update store with error
       batchProgressStore.errorOperation(
-        error.message || 'Installation failed',
+        error.message || 'Failed to start installation process',
         error
       );
 
-      showError({
-        title: 'Installation Failed',
-        message: error.message || 'Failed to start installation process'
-      });
-
       // Call custom error handler
       onError?.(error);
     }
   });
 
   // Modal management functions
-  const showConfirmationModal = useCallback((actionLabel: string, selectedCount: number) => {
+  const showConfirmationModal = useCallback((
+    actionLabel: string,
+    selectedCount: number,
+    targetIds?: string[],
+    targetKind?: InstallTargetKind
+  ) => {
     setConfirmationModal({
       open: true,
       actionLabel,
-      selectedCount
+      selectedCount,
+      ...(targetIds && { targetIds }),
+      ...(targetKind && { targetKind })
     });
   }, []);
 
   const hideConfirmationModal = useCallback(() => {
     setConfirmationModal(prev => ({
-      ...prev,
-      open: false
+      open: false,
+      actionLabel: prev.actionLabel,
+      selectedCount: prev.selectedCount
     }));
   }, []);
 
-  const handleConfirmInstallation = useCallback(() => {
-    const selectedIds = selectionHook.selection.selectedIds;
+  // Application request behind the open modal - the plan preview dry-runs exactly this
+  // Selected rows know their application - explicit ids (fresh installs) let the server derive it
+  const pendingInstallRequest = useMemo((): InstallBatchRequest | null => {
+    if (!confirmationModal.open || confirmationModal.targetKind === 'plugin') return null;
+
+    const targets: InstallTarget[] = confirmationModal.targetIds
+      ? confirmationModal.targetIds.map(id => ({ target_version: id }))
+      : selectionHook.selection.selectedRecords.map(record => ({
+          application: record.application,
+          target_version: record.available_version || record.sys_id
+        }));
+
+    return targets.length > 0 ? buildInstallRequest(targets) : null;
+  }, [confirmationModal.open, confirmationModal.targetKind, confirmationModal.targetIds, selectionHook.selection.selectedRecords]);
+
+  const handleConfirmInstallation = useCallback((plan?: InstallPlanResponse | null) => {
+    // Snapshot rows have their own sys_id - install the sys_app_version each row points to
+    const versionIds = confirmationModal.targetIds
+      ?? selectionHook.selection.selectedRecords.map(record => record.available_version || record.sys_id);
     
-    if (selectedIds.length === 0) {
+    if (versionIds.length === 0) {
       logger.warn('No items selected for installation');
       hideConfirmationModal();
       return;
     }
 
+    // COMPATIBILITY: Never send a version that does not support this instance's platform family
+    const incompatible = confirmationModal.targetIds
+      ? []
+      : selectionHook.selection.selectedRecords.filter(record => record.compatibility === 'incompatible');
+    if (incompatible.length > 0) {
+      logger.warn('Installation blocked - incompatible versions selected', {
+        incompatibleCount: incompatible.length,
+        recordIds: incompatible.map(record => record.sys_id)
+      });
+      return;
+    }
+
+    // INSTALL PLAN: An approved plan is installed as shown - dependency additions and order included
+    if (plan && !plan.summary.installable) {
+      logger.warn('Installation blocked - install plan has blocked or incompatible items', {
+        blockedCount: plan.summary.blocked_count,
+        incompatibleCount: plan.summary.incompatible_count
+      });
+      return;
+    }
+    const request = plan && pendingInstallRequest
+      ? buildRequestFromPlan(plan, pendingInstallRequest)
+      : pendingInstallRequest;
+
     // Hide modal and start installation
     hideConfirmationModal();
-    installUpdatesMutation.mutate(selectedIds);
-  }, [selectionHook.selection.selectedIds, hideConfirmationModal, installUpdatesMutation.mutate]);
+    installUpdatesMutation.mutate({
+      ids: request ? request.items.map(item => item.target_version) : versionIds,
+      kind: confirmationModal.targetKind ?? 'app',
+      ...(request && { request })
+    });
+  }, [confirmationModal.targetIds, confirmationModal.targetKind, selectionHook.selection.selectedRecords, pendingInstallRequest, hideConfirmationModal, installUpdatesMutation.mutate]);
+
+  // RESUME: Re-attach after a reload or in a new tab - the server's running batch wins over the remembered one,
+  // and a remembered batch that ended while the page was closed reports its final status once
+  const resumeTrackedBatch = useCallback(async () => {
+    const { trackedBatchId, isActive } = useBatchProgressStore.getState();
+    if (isActive()) return;
+
+    let batchId = trackedBatchId;
+    try {
+      const { lock } = await apiService.getInstallLock();
+      if (lock && (lock.owned || lock.batch_id === trackedBatchId)) {
+        batchId = lock.batch_id;
+      }
+      if (!batchId) return;
+
+      const outcomes = await apiService.getInstallBatchOutcomes(batchId);
+      const { batch } = outcomes;
+      queryClient.setQueryData(storeUpdatesQueryKeys.batchItems(batchId), outcomes);
+
+      logger.info('Resuming install batch tracking', createLogContext({
+        batchId,
+        status: batch.status,
+        progressId: batch.progress_id
+      }));
+
+      batchProgressStore.resumeOperation(
+        batchId,
+        outcomes.items.map(item => item.plugin_id || item.target_version),
+        parseServiceNowUtc(batch.requested_on)?.getTime() ?? null
+      );
+
+      if (batch.status === 'running') {
+        if (batch.progress_id) {
+          batchProgressStore.setProgressWorkerId(batch.progress_id);
+          startProgressPolling(batchId);
+        } else {
+          batchProgressStore.updateStatus('queued', 'Queued - waiting for the installer to start...');
+          startBatchPolling(batchId);
+        }
+        return;
+      }
+
+      // Ended while the page was closed - show the outcome the same way a live batch would have
+      void queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.batchLists() });
+      if (batch.status === 'succeeded') {
+        batchProgressStore.completeOperation(`Installation of ${batch.app_count} updates completed while the dashboard was closed.`);
+        await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.lists(), exact: true });
+        await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.available() });
+        await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.plugins() });
+        await onInstallationComplete?.();
+      } else if (batch.status === 'cancelled') {
+        batchProgressStore.cancelOperation(batch.status_message || 'The installation was cancelled while the dashboard was closed.');
+      } else {
+        // Stays tracked until the failed-batch alert is dismissed
+        batchProgressStore.errorOperation(batch.error || 'Installation failed', batch);
+      }
+    } catch (error) {
+      logger.warn('Failed to resume install batch tracking', createLogContext({
+        batchId,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+
+      // The remembered batch no longer exists - stop trying on every load
+      if ((error as { status?: number }).status === 404) {
+        batchProgressStore.resetOperation();
+      }
+    }
+  }, [batchProgressStore, queryClient, startProgressPolling, startBatchPolling, onInstallationComplete]);
+
+  const hasResumedRef = useRef(false);
+  useEffect(() => {
+    if (!enableProgressPolling || hasResumedRef.current) return;
+    hasResumedRef.current = true;
+    void resumeTrackedBatch();
+  }, [enableProgressPolling, resumeTrackedBatch]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -384,6 +664,7 @@ export const useInstallUpdates = (
     showConfirmationModal,
     hideConfirmationModal,
     handleConfirmInstallation,
+    pendingInstallRequest,
     
     // Progress state (from Zustand store)
     batchProgress: batchProgressStore,
@@ -391,6 +672,8 @@ export const useInstallUpdates = (
     // Progress control
     startProgressPolling,
     stopProgressPolling,
+    cancelInstallation,
+    resumeTracking: resumeTrackedBatch,
     
     // Actions
     reset: useCallback(() => {
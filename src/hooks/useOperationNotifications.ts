@@ -0,0 +1,116 @@
+// src/hooks/useOperationNotifications.ts
+// One notification per tracked operation - loading while it runs, updated in place, final colour when it ends
+// Following Architecture.md: Custom hook owns the side effect, batchProgressStore owns the operations
+// Mounted once (NavigationHeader) so every route reports install, sync, repair and scan operations
+
+import { useEffect } from 'react';
+import { showNotification, updateNotification, hideNotification } from '@mantine/notifications';
+import { useBatchProgressStore, isOperationActive } from '../stores/batchProgressStore';
+import type { Operation, BatchOperationStatus } from '../stores/batchProgressStore';
+
+const FINAL_COLORS: Partial<Record<BatchOperationStatus, string>> = {
+  complete: 'green',
+  cancelled: 'gray',
+  error: 'red',
+  unknown: 'orange'
+};
+
+const FINAL_TITLES: Partial<Record<BatchOperationStatus, string>> = {
+  complete: 'completed',
+  cancelled: 'cancelled',
+  error: 'failed',
+  unknown: 'status unknown'
+};
+
+const notificationId = (operation: Pick<Operation, 'id'>) => `operation-${operation.id}`;
+
+const renderSignature = (operation: Operation) =>
+  `${operation.status}|${operation.message}|${operation.progress ?? ''}`;
+
+const operationMessage = (operation: Operation) =>
+  operation.progress !== null && operation.progress > 0 && isOperationActive(operation)
+    ? `${operation.message} (${Math.round(operation.progress)}%)`
+    : operation.message;
+
+export const useOperationNotifications = () => {
+  useEffect(() => {
+    // Last rendered state per operation, and the ones whose running notification the user closed
+    const rendered = new Map<string, string>();
+    const closed = new Set<string>();
+
+    const render = (operations: Record<string, Operation>) => {
+      Object.values(operations).forEach(operation => {
+        const signature = renderSignature(operation);
+        const previous = rendered.get(operation.id);
+        if (previous === signature) return;
+        rendered.set(operation.id, signature);
+
+        const id = notificationId(operation);
+
+        if (isOperationActive(operation)) {
+          if (closed.has(operation.id)) return;
+
+          const notification = {
+            id,
+            title: operation.label,
+            message: operationMessage(operation),
+            loading: true,
+            autoClose: false as const,
+            withCloseButton: true,
+            position: 'top-right' as const,
+            onClose: () => {
+              // Closing hides progress updates only - the outcome is still reported
+              if (isOperationActive(useBatchProgressStore.getState().operations[operation.id] ?? operation)) {
+                closed.add(operation.id);
+              }
+            }
+          };
+
+          if (previous === undefined) {
+            showNotification(notification);
+          } else {
+            updateNotification(notification);
+          }
+          return;
+        }
+
+        const notification = {
+          id,
+          title: `${operation.label} ${FINAL_TITLES[operation.status] ?? ''}`.trim(),
+          message: operation.message,
+          color: FINAL_COLORS[operation.status] ?? 'blue',
+          loading: false,
+          autoClose: operation.status === 'error' || operation.status === 'unknown' ? 6000 : 4000,
+          withCloseButton: true,
+          position: 'top-right' as const
+        };
+
+        if (previous === undefined || closed.has(operation.id)) {
+          closed.delete(operation.id);
+          showNotification(notification);
+        } else {
+          updateNotification(notification);
+        }
+      });
+
+      // Dismissed from the drawer (or cleared) - drop their notifications too
+      Array.from(rendered.keys()).forEach(id => {
+        if (!operations[id]) {
+          rendered.delete(id);
+          closed.delete(id);
+          hideNotification(notificationId({ id }));
+        }
+      });
+    };
+
+    // Operations that ended before this mount were already reported
+    Object.values(useBatchProgressStore.getState().operations).forEach(operation => {
+      if (!isOperationActive(operation)) {
+        rendered.set(operation.id, renderSignature(operation));
+      }
+    });
+
+    render(useBatchProgressStore.getState().operations);
+    return useBatchProgressStore.subscribe(state => state.operations, render);
+  }, []);
+};
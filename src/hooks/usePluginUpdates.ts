@@ -0,0 +1,113 @@
+// src/hooks/usePluginUpdates.ts
+// Custom hook for platform plugins (sys_plugins) that can be upgraded or activated
+// Pattern 2C: TanStack Query over the x_snc_store_upda_1_plugin_updates remote table
+// Selection is local state - batches go through install_updates with { plugins } and the shared progress store
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import type { ServiceNowRecord } from '../types/api';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+export interface PluginUpdate extends ServiceNowRecord {
+  plugin_id: string;          // sys_plugins.source, e.g. com.glide.hub.flow_engine
+  name: string;
+  state: 'active' | 'inactive';
+  category: 'upgrade' | 'activation';
+  installed_version: string;
+  available_version: string;
+  dependencies: string;       // Comma-separated plugin ids
+  description: string;
+}
+
+// Remote table listing plugins with a newer version or waiting for activation
+export const PLUGIN_UPDATES_TABLE = 'x_snc_store_upda_1_plugin_updates';
+
+const PLUGIN_UPDATE_FIELDS = [
+  'sys_id', 'plugin_id', 'name', 'state', 'category', 'installed_version',
+  'available_version', 'dependencies', 'description'
+];
+
+export const usePluginUpdates = () => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.plugins(),
+    queryFn: async (): Promise<PluginUpdate[]> => {
+      const startTime = performance.now();
+
+      const response = await apiService.get<PluginUpdate[]>(`/api/now/table/${PLUGIN_UPDATES_TABLE}`, {
+        params: {
+          sysparm_fields: PLUGIN_UPDATE_FIELDS.join(','),
+          sysparm_query: 'ORDERBYcategory^ORDERBYname'
+        },
+        timeout: 15000,
+        retries: 1
+      });
+
+      const records = response.result || [];
+
+      logger.info('Plugin updates loaded', createLogContext({
+        table: PLUGIN_UPDATES_TABLE,
+        recordCount: records.length,
+        duration: Math.round(performance.now() - startTime)
+      }));
+
+      return records;
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false
+  });
+
+  const plugins = query.data || [];
+
+  const filteredPlugins = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return plugins;
+
+    return plugins.filter(plugin =>
+      [plugin.name, plugin.plugin_id, plugin.description]
+        .some(value => (value || '').toLowerCase().includes(term))
+    );
+  }, [plugins, search]);
+
+  // Drop selections for plugins that disappeared after a refresh (e.g. activated in the meantime)
+  const selectedPlugins = useMemo(
+    () => plugins.filter(plugin => selectedIds.includes(plugin.sys_id)),
+    [plugins, selectedIds]
+  );
+
+  const togglePlugin = useCallback((sysId: string) => {
+    setSelectedIds(prev => prev.includes(sysId) ? prev.filter(id => id !== sysId) : [...prev, sysId]);
+  }, []);
+
+  const setVisibleSelected = useCallback((selected: boolean) => {
+    const visibleIds = filteredPlugins.map(plugin => plugin.sys_id);
+    setSelectedIds(prev => selected
+      ? Array.from(new Set([...prev, ...visibleIds]))
+      : prev.filter(id => !visibleIds.includes(id))
+    );
+  }, [filteredPlugins]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+  }, []);
+
+  return {
+    plugins,
+    filteredPlugins,
+    search,
+    setSearch,
+    selectedPlugins,
+    isSelected: useCallback((sysId: string) => selectedIds.includes(sysId), [selectedIds]),
+    togglePlugin,
+    setVisibleSelected,
+    clearSelection,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
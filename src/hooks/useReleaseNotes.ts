@@ -0,0 +1,119 @@
+// src/hooks/useReleaseNotes.ts
+// Custom hook for the release notes of every version between the installed and a target version
+// Pattern 2C: TanStack Query over GET /store_updates/release_notes, search and Markdown export are client-side
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../api/apiService';
+import type { ReleaseNotesResponse, ReleaseNotesVersion } from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+/**
+ * Convert the HTML stored in sys_app_version.release_notes into plain text with Markdown bullets
+ */
+export const releaseNotesToText = (html: string): string => {
+  if (!html) return '';
+
+  const withBreaks = html
+    .replace(/<\s*br\s*\/?>/gi, '\n')
+    .replace(/<\s*li[^>]*>/gi, '\n- ')
+    .replace(/<\/\s*(p|div|h[1-6]|ul|ol|li)\s*>/gi, '\n');
+
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter((line, index, lines) => line !== '' || (index > 0 && lines[index - 1] !== ''))
+    .join('\n')
+    .trim();
+};
+
+/**
+ * Build the Markdown document for a CAB packet
+ */
+export const buildReleaseNotesMarkdown = (
+  notes: ReleaseNotesResponse,
+  versions: ReleaseNotesVersion[] = notes.versions
+): string => {
+  const { application } = notes;
+  const lines = [
+    `# ${application.name} release notes`,
+    '',
+    `- **Scope:** ${application.scope}`,
+    `- **Installed version:** ${application.installed_version}`,
+    `- **Target version:** ${notes.target_version}`,
+    `- **Versions covered:** ${versions.length}`,
+    ''
+  ];
+
+  versions.forEach(version => {
+    lines.push(`## ${version.version}${version.publish_date ? ` (published ${version.publish_date.split(' ')[0]})` : ''}`, '');
+    if (version.short_description) {
+      lines.push(version.short_description, '');
+    }
+    const releaseNotes = releaseNotesToText(version.release_notes);
+    lines.push(releaseNotes || '_No release notes provided._', '');
+  });
+
+  return lines.join('\n');
+};
+
+export const useReleaseNotes = (applicationId: string, targetVersionId: string, enabled: boolean = true) => {
+  const [search, setSearch] = useState('');
+
+  const query = useQuery({
+    queryKey: storeUpdatesQueryKeys.releaseNotes(applicationId, targetVersionId),
+    queryFn: () => apiService.getReleaseNotes(applicationId, targetVersionId),
+    enabled: enabled && !!applicationId && !!targetVersionId,
+    staleTime: 30 * 60 * 1000, // Published versions do not change
+    refetchOnWindowFocus: false,
+    retry: 1
+  });
+
+  const versions = query.data?.versions || [];
+
+  const filteredVersions = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return versions;
+
+    return versions.filter(version =>
+      [version.version, version.short_description, releaseNotesToText(version.release_notes)]
+        .some(value => value.toLowerCase().includes(term))
+    );
+  }, [versions, search]);
+
+  // Exports what is on screen - a search narrows the packet to the matching versions
+  const exportMarkdown = useCallback(() => {
+    if (!query.data) return;
+
+    const markdown = buildReleaseNotesMarkdown(query.data, filteredVersions);
+    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${query.data.application.scope || 'application'}-${query.data.application.installed_version}-to-${query.data.target_version}-release-notes.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    logger.info('Release notes exported as Markdown', createLogContext({
+      applicationId,
+      targetVersionId,
+      versionCount: filteredVersions.length,
+      filtered: filteredVersions.length !== versions.length
+    }));
+  }, [query.data, filteredVersions, versions.length, applicationId, targetVersionId]);
+
+  return {
+    notes: query.data ?? null,
+    versions,
+    filteredVersions,
+    search,
+    setSearch,
+    exportMarkdown,
+    isLoading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refresh: query.refetch
+  };
+};
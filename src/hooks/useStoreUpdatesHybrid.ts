@@ -11,6 +11,8 @@
 // FIXED: TypeScript null safety for client-side filtering
 // SIMPLIFIED: Updated filtering hooks to support only batch_level and published_date filters
 // STALE-WHILE-REVALIDATE: Fixed refresh strategy to keep existing data visible during refresh operations
+// UPDATED: batch_level=latest_version_level filter pushed down to the remote table via sysparm_query
+// SNAPSHOT: Reads the persisted update snapshot table instead of re-running the remote table scan
 
 import { useCallback } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
@@ -24,6 +26,9 @@ import React from 'react';
 // Types for Store Updates - UPDATED: Added sys_store_app fields for expandable details
 export interface StoreUpdate extends ServiceNowRecord {
   name: string;
+  application: string;                          // sys_store_app sys_id
+  available_version: string;                    // sys_app_version sys_id - the version to install
+  scanned_on?: string;                          // Snapshot scan timestamp (UTC)
   level: 'major' | 'minor' | 'patch';
   batch_level: 'major' | 'minor' | 'patch';
   installed_version: string;
@@ -41,13 +46,137 @@ export interface StoreUpdate extends ServiceNowRecord {
   available_version_short_description?: string; // Existing: short_description
   available_version_version?: string;          // Existing: actual version number
   available_version_source_app_id?: string;    // Existing: source app ID for App Manager link
+  dependencies?: string;                       // JSON array of StoreUpdateDependency (AppDependencyResolver)
+  compatibility?: 'compatible' | 'incompatible' | 'unknown'; // Platform family check (AppCompatibilityChecker)
+  compatibility_reason?: string;
 }
 
+// One resolved dependency of the available version
+export interface StoreUpdateDependency {
+  scope: string;                                // Application scope or plugin id
+  name: string;
+  required_version: string;
+  installed_version: string;
+  is_plugin: boolean;
+  // satisfied: nothing to do, update: another update in the list provides it,
+  // missing: not installed / not active, unavailable: no listed update reaches required_version
+  status: 'satisfied' | 'update' | 'missing' | 'unavailable';
+  application: string;                          // sys_store_app sys_id of the dependency, if installed
+  available_version: string;                    // Lowest sys_app_version that satisfies it (status 'update')
+  version: string;
+}
+
+// Persisted snapshot of the store updates scan (refreshed by the scheduled scan and "Rescan now")
+export const STORE_UPDATES_TABLE = 'x_snc_store_upda_1_update_snapshot';
+
+// All level rows (patch / minor / major per application) of the current scan - grouped client-side into one row per
+// application at its chosen upgrade target (see groupUpdateTargets / selectTargetRecords)
+// The table also holds rows of a scan that is still being written, so the scan id is always part of the query
+export const allLevelsQuery = (scanId: string): string => `scan_id=${scanId}^ORDERBYname`;
+
+export type StoreUpdateLevel = StoreUpdate['batch_level'];
+
+export const TARGET_LEVEL_LABELS: Record<StoreUpdateLevel, string> = {
+  patch: 'Latest patch',
+  minor: 'Latest minor',
+  major: 'Latest major'
+};
+
+// One selectable upgrade target of an application
+export interface StoreUpdateTarget {
+  level: StoreUpdateLevel;
+  label: string;
+  available_version: string;                    // sys_app_version sys_id the install call receives
+  version: string;
+  record: StoreUpdate;
+}
+
+const TARGET_LEVEL_ORDER: StoreUpdateLevel[] = ['patch', 'minor', 'major'];
+
+/**
+ * Highest update level available to the application - the same on every target row, so level filters and
+ * level selections do not move an application when another target is chosen
+ */
+export const highestUpdateLevel = (record: StoreUpdate): StoreUpdateLevel =>
+  record.latest_version_level || record.batch_level;
+
+/**
+ * Group level rows into the distinct upgrade targets of each application.
+ * The processor copies lower levels into missing higher ones, so identical versions are kept once,
+ * under the most conservative level.
+ */
+export const groupUpdateTargets = (rows: StoreUpdate[]): Map<string, StoreUpdateTarget[]> => {
+  const targetsByApplication = new Map<string, StoreUpdateTarget[]>();
+
+  TARGET_LEVEL_ORDER.forEach(level => {
+    rows.filter(row => row.batch_level === level).forEach(row => {
+      const targets = targetsByApplication.get(row.application) ?? [];
+      if (targets.some(target => target.available_version === row.available_version)) {
+        return;
+      }
+
+      targets.push({
+        level,
+        label: TARGET_LEVEL_LABELS[level],
+        available_version: row.available_version,
+        version: row.available_version_version || '',
+        record: row
+      });
+      targetsByApplication.set(row.application, targets);
+    });
+  });
+
+  return targetsByApplication;
+};
+
+/**
+ * One record per application (in server order) at the chosen target level, defaulting to the newest version
+ */
+export const selectTargetRecords = (
+  rows: StoreUpdate[],
+  targetLevels: Record<string, StoreUpdateLevel>
+): StoreUpdate[] => {
+  const targetsByApplication = groupUpdateTargets(rows);
+  const records: StoreUpdate[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach(row => {
+    if (seen.has(row.application)) return;
+    seen.add(row.application);
+
+    const targets = targetsByApplication.get(row.application) ?? [];
+    const chosenLevel = targetLevels[row.application] ?? row.latest_version_level;
+    const target = targets.find(candidate => candidate.level === chosenLevel)
+      ?? targets.find(candidate => candidate.level === row.latest_version_level)
+      ?? targets[targets.length - 1];
+
+    if (target) {
+      records.push(target.record);
+    }
+  });
+
+  return records;
+};
+
 // Query keys for TanStack Query (Section 4) - UPDATED to force new cache for expandable details fields
 export const storeUpdatesQueryKeys = {
-  all: ['storeUpdates', 'v9'] as const, // Updated v9 to force cache refresh for expandable details
+  all: ['storeUpdates', 'v13'] as const, // Updated v13 to force cache refresh for all-level rows
   lists: () => [...storeUpdatesQueryKeys.all, 'list'] as const,
   stats: () => [...storeUpdatesQueryKeys.all, 'stats'] as const,
+  snapshot: () => [...storeUpdatesQueryKeys.all, 'snapshot'] as const,
+  available: () => [...storeUpdatesQueryKeys.all, 'available'] as const,
+  plugins: () => [...storeUpdatesQueryKeys.all, 'plugins'] as const,
+  releaseNotes: (applicationId: string, targetVersionId: string) =>
+    [...storeUpdatesQueryKeys.all, 'releaseNotes', applicationId, targetVersionId] as const,
+  installPlan: (targetVersionIds: string) =>
+    [...storeUpdatesQueryKeys.all, 'installPlan', targetVersionIds] as const,
+  batchLists: () => [...storeUpdatesQueryKeys.all, 'batches'] as const,
+  batches: (encodedQuery: string) => [...storeUpdatesQueryKeys.batchLists(), encodedQuery] as const,
+  batch: (batchId: string) => [...storeUpdatesQueryKeys.all, 'batch', batchId] as const,
+  batchItems: (batchId: string) => [...storeUpdatesQueryKeys.batch(batchId), 'items'] as const,
+  batchLogs: (batchId: string) => [...storeUpdatesQueryKeys.batch(batchId), 'logs'] as const,
+  // Under batchLists so every batch start / completion refresh also re-checks the lock
+  installLock: () => [...storeUpdatesQueryKeys.batchLists(), 'lock'] as const,
 };
 
 /**
@@ -55,8 +184,9 @@ export const storeUpdatesQueryKeys = {
  * Following Architecture.md Section 4: Server State Layer with TanStack Query (Enhanced)
  * UPDATED: Added sys_store_app dot-walked fields for expandable row details
  * FIXED: TypeScript error with apiService.get - providing full config with defaults
- * REVERTED: Removed API-level filtering (not supported for field comparisons)
- * UPDATED: Will implement client-side filtering in Zustand store
+ * UPDATED: API-level filtering - the remote table now honors encoded queries
+ * TARGETS: Downloads every level row - useStoreUpdatesHybrid reduces them to one row per
+ * application at its chosen upgrade target
  * STALE-WHILE-REVALIDATE: Enhanced with proper background refetching
  */
 export const useStoreUpdatesServerState = () => {
@@ -64,12 +194,17 @@ export const useStoreUpdatesServerState = () => {
     queryKey: storeUpdatesQueryKeys.lists(),
     queryFn: async (): Promise<StoreUpdate[]> => {
       const startTime = performance.now();
+
+      // Rows of the current scan only - nothing was scanned yet without one
+      const { scan_id: scanId } = await apiService.getSnapshotStatus();
+      if (!scanId) return [];
+      const filterCondition = allLevelsQuery(scanId);
       
       logger.info('Fetching Store Updates with expandable details fields (Pattern 2C)', createLogContext({
         pattern: '2C-dynamic-data',
         queryKey: storeUpdatesQueryKeys.lists(),
-        filterType: 'client-side',
-        filterCondition: 'batch_level=latest_version_level',
+        filterType: 'server-side',
+        filterCondition,
         newFields: ['application.install_date', 'application.short_description', 'application.version']
       }));
 
@@ -78,6 +213,8 @@ export const useStoreUpdatesServerState = () => {
         const fieldsArray = [
           'sys_id', 'name', 'level', 'batch_level', 'installed_version', 
           'latest_version_level', 'major_count', 'minor_count', 'patch_count',
+          'application', 'available_version', 'scanned_on', 'dependencies',
+          'compatibility', 'compatibility_reason',
           // Dot-walking fields from application reference (sys_store_app)
           'application.name',                    // EXISTING: Clean application name
           'application.install_date',            // NEW: Installation date for details
@@ -93,15 +230,16 @@ export const useStoreUpdatesServerState = () => {
         console.log('🔍 HYBRID: Fields being sent to API (with expandable details):', fieldsArray);
         console.log('🔍 HYBRID: Dot-walked fields:', fieldsArray.filter(f => f.includes('.')));
         console.log('🔍 HYBRID: NEW expandable fields:', ['application.install_date', 'application.short_description', 'application.version']);
-        console.log('🔍 HYBRID: Client-side filtering will be applied for batch_level=latest_version_level');
+        console.log('🔍 HYBRID: Server-side filtering applied via sysparm_query:', filterCondition);
 
         // FIXED: TypeScript error - provide full config with defaults for all required fields
         const response = await apiService.get<{
           result: StoreUpdate[];
-        }>('/api/now/table/x_snc_store_upda_1_store_updates', {
+        }>(`/api/now/table/${STORE_UPDATES_TABLE}`, {
           params: {
-            sysparm_fields: fieldsArray.join(',')
-            // REMOVED: sysparm_query - will filter client-side instead
+            sysparm_fields: fieldsArray.join(','),
+            sysparm_query: filterCondition,
+            sysparm_exclude_reference_link: true // Plain sys_ids for application / available_version
           },
           headers: {}, // Default empty headers
           timeout: 10000, // 10 second timeout
@@ -113,11 +251,11 @@ export const useStoreUpdatesServerState = () => {
         const responseData = response as any; // Handle apiService typing
         const rawRecords: any[] = responseData?.result || [];
         
-        // DEBUG: Log response structure before client-side filtering
+        // DEBUG: Log response structure
         console.log('🔍 HYBRID: API Response (with expandable details):', {
           totalRecords: rawRecords.length,
-          filterType: 'client-side',
-          filterCondition: 'batch_level=latest_version_level',
+          filterType: 'server-side',
+          filterCondition,
           hasExpandableFields: true
         });
         
@@ -128,13 +266,11 @@ export const useStoreUpdatesServerState = () => {
             
             console.log('🔍 HYBRID: First record keys (with expandable details):', recordKeys);
             console.log('🔍 HYBRID: Dot-walked keys found:', recordKeys.filter(k => k.includes('.')));
-            console.log('🔍 HYBRID: Sample record (pre-filter):', {
+            console.log('🔍 HYBRID: Sample record:', {
               name: firstRecord.name || 'N/A',
               'application.name': firstRecord['application.name'] || 'N/A',
               batch_level: firstRecord.batch_level || 'N/A',
-              latest_version_level: firstRecord.latest_version_level || 'N/A',
-              willMatch: (firstRecord.batch_level && firstRecord.latest_version_level) ? 
-                        firstRecord.batch_level === firstRecord.latest_version_level : false
+              latest_version_level: firstRecord.latest_version_level || 'N/A'
             });
             console.log('🔍 HYBRID: Sample expandable details fields:', {
               'application.install_date': firstRecord['application.install_date'] || 'N/A',
@@ -161,71 +297,55 @@ export const useStoreUpdatesServerState = () => {
           available_version_source_app_id: record['available_version.source_app_id'] || record.available_version_source_app_id,
         }));
 
-        // CLIENT-SIDE FILTERING: Apply batch_level=latest_version_level filter with null safety
-        const filteredRecords = allRecords.filter(record => {
-          // FIXED: Added null safety checks
-          const batchLevel = record.batch_level;
-          const latestVersionLevel = record.latest_version_level;
-          
-          // Only include records where both fields exist and match (case insensitive)
-          return batchLevel && latestVersionLevel && 
-                 batchLevel.toLowerCase() === latestVersionLevel.toLowerCase();
-        });
-
         const duration = performance.now() - startTime;
 
-        // DEBUG: Log filtering results with expandable details information
-        const recordsWithReferencedData = filteredRecords.filter(r => 
+        // DEBUG: Log results with expandable details information
+        const recordsWithReferencedData = allRecords.filter(r => 
           r.available_version_publish_date || r.available_version_short_description || 
           r.available_version_version || r.available_version_source_app_id || r.application_name ||
           r.application_install_date || r.application_short_description || r.application_version
         );
-        const recordsWithExpandableData = filteredRecords.filter(r => 
+        const recordsWithExpandableData = allRecords.filter(r => 
           r.application_install_date || r.application_short_description || r.application_version
         );
         
         logger.info('TanStack Query fetch completed with expandable details', createLogContext({
           pattern: '2C-dynamic-data',
           totalRecordsFromAPI: allRecords.length,
-          filteredRecords: filteredRecords.length,
-          filterReduction: allRecords.length > 0 ? Math.round(((allRecords.length - filteredRecords.length) / allRecords.length) * 100) : 0,
           duration: Math.round(duration),
           cacheStatus: 'fresh',
           hasReferencedData: recordsWithReferencedData.length > 0,
           referencedFieldsCount: recordsWithReferencedData.length,
           hasExpandableData: recordsWithExpandableData.length > 0,
           expandableDataCount: recordsWithExpandableData.length,
-          filterType: 'client-side',
-          filterCondition: 'batch_level=latest_version_level'
+          filterType: 'server-side',
+          filterCondition
         }));
 
-        console.log('🔍 HYBRID: Client-side filtering results (with expandable details):', {
+        console.log('🔍 HYBRID: Results (with expandable details):', {
           totalFromAPI: allRecords.length,
-          afterFiltering: filteredRecords.length,
-          filterReduction: allRecords.length > 0 ? `${Math.round(((allRecords.length - filteredRecords.length) / allRecords.length) * 100)}%` : '0%',
           recordsWithReferencedData: recordsWithReferencedData.length,
           recordsWithExpandableData: recordsWithExpandableData.length
         });
         
-        if (filteredRecords.length > 0) {
-          const firstFiltered = filteredRecords[0];
-          if (firstFiltered) {
-            console.log('🔍 HYBRID: Sample filtered record (with expandable details):', {
-              name: firstFiltered.name || 'N/A',
-              application_name: firstFiltered.application_name || 'N/A',
+        if (allRecords.length > 0) {
+          const firstRecord = allRecords[0];
+          if (firstRecord) {
+            console.log('🔍 HYBRID: Sample transformed record (with expandable details):', {
+              name: firstRecord.name || 'N/A',
+              application_name: firstRecord.application_name || 'N/A',
               // NEW expandable details
-              application_install_date: firstFiltered.application_install_date || 'N/A',
-              application_short_description: firstFiltered.application_short_description || 'N/A',
-              application_version: firstFiltered.application_version || 'N/A',
+              application_install_date: firstRecord.application_install_date || 'N/A',
+              application_short_description: firstRecord.application_short_description || 'N/A',
+              application_version: firstRecord.application_version || 'N/A',
               // For App Manager link
-              available_version_source_app_id: firstFiltered.available_version_source_app_id || 'N/A',
-              available_version_version: firstFiltered.available_version_version || 'N/A'
+              available_version_source_app_id: firstRecord.available_version_source_app_id || 'N/A',
+              available_version_version: firstRecord.available_version_version || 'N/A'
             });
           }
         }
 
-        // Return filtered records instead of all records
-        return filteredRecords;
+        return allRecords;
 
       } catch (error) {
         const duration = performance.now() - startTime;
@@ -234,7 +354,7 @@ export const useStoreUpdatesServerState = () => {
           pattern: '2C-dynamic-data',
           duration: Math.round(duration),
           queryKey: storeUpdatesQueryKeys.lists(),
-          filterType: 'client-side',
+          filterType: 'server-side',
           expandableDetailsAttempted: true
         }));
 
@@ -286,6 +406,22 @@ export const useStoreUpdatesHybrid = () => {
   
   // Dual-Source Statistics (NEW) - Single source of truth
   const statistics = useStoreUpdatesStore(state => state.statistics);
+
+  // TARGETS: One row per application at its chosen upgrade target
+  const targetLevels = useStoreUpdatesStore(state => state.targetLevels);
+  const setTargetLevel = useStoreUpdatesStore(state => state.actions.setTargetLevel);
+  const targetsByApplication = React.useMemo(
+    () => groupUpdateTargets(serverQuery.data || []),
+    [serverQuery.data]
+  );
+  const targetRecords = React.useMemo(
+    () => selectTargetRecords(serverQuery.data || [], targetLevels),
+    [serverQuery.data, targetLevels]
+  );
+  const getTargets = useCallback(
+    (applicationId: string): StoreUpdateTarget[] => targetsByApplication.get(applicationId) ?? [],
+    [targetsByApplication]
+  );
   
   // Actions - Get stable references
   const setServerData = useStoreUpdatesStore(state => state.actions.setServerData);
@@ -309,7 +445,7 @@ export const useStoreUpdatesHybrid = () => {
         minorUpdates: quickStats.levelDistribution?.minor,
         patchUpdates: quickStats.levelDistribution?.patch,
         userContext: userFirstName,
-        filterType: 'client-side',
+        filterType: 'server-side',
         hasExpandableDetails: true
       }));
       
@@ -317,7 +453,7 @@ export const useStoreUpdatesHybrid = () => {
     }
   }, [totalRecords, userFirstName, isPattern2A]); // FIXED: Stable dependencies only
 
-  // Sync server data to client store when TanStack Query data changes
+  // Sync server data to client store when TanStack Query data changes (or a target is picked)
   React.useEffect(() => {
     if (serverQuery.data) {
       logger.info('Syncing TanStack Query data with expandable details to Zustand store', createLogContext({
@@ -326,14 +462,14 @@ export const useStoreUpdatesHybrid = () => {
         syncDirection: 'tanstack-to-zustand',
         pattern2ARecords: totalRecords,
         recordsMatch: serverQuery.data.length === totalRecords,
-        filterType: 'client-side',
+        filterType: 'server-side',
         hasExpandableDetails: true
       }));
       
-      setServerData(serverQuery.data);
+      setServerData(targetRecords);
       // setServerData automatically calls updateCalculatedStats
     }
-  }, [serverQuery.data]); // FIXED: Only depend on server data, not totalRecords
+  }, [targetRecords]); // FIXED: Only depend on server data, not totalRecords
 
   // STALE-WHILE-REVALIDATE: Enhanced refresh function that keeps existing data visible
   const refresh = useCallback(async () => {
@@ -410,9 +546,13 @@ export const useStoreUpdatesHybrid = () => {
       page: pagination.page,
       pageSize: pagination.pageSize,
       totalPages,
-      allRecordsCount: serverQuery.data?.length || quickStats.totalRecords || 0,
-      rawServerData: serverQuery.data || [] // Access to filtered TanStack Query data with expandable details
+      allRecordsCount: serverQuery.data ? targetRecords.length : quickStats.totalRecords || 0,
+      rawServerData: targetRecords // One row per application at its chosen target, with expandable details
     },
+
+    // TARGETS: Upgrade target picker
+    getTargets,
+    setTargetLevel,
     
     filters,
     
@@ -645,7 +785,8 @@ export const useStoreUpdatesStats = () => {
     }, {} as Record<string, number>),
     
     batchLevelDistribution: filteredRecords.reduce((acc, record) => {
-      acc[record.batch_level] = (acc[record.batch_level] || 0) + 1;
+      const level = highestUpdateLevel(record);
+      acc[level] = (acc[level] || 0) + 1;
       return acc;
     }, {} as Record<string, number>),
     
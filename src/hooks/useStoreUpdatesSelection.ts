@@ -1,16 +1,37 @@
 // src/hooks/useStoreUpdatesSelection.ts
 // Multi-select state management for Store Updates batch operations
 // Following Architecture.md Section 5 - Zustand selective subscriptions
+// DEPENDENCIES: Required dependency updates are auto-added (or warned about) based on each row's resolved dependencies
 
 import React, { useCallback, useMemo } from 'react';
 import { logger } from '../monitoring/logger';
-import type { StoreUpdate } from './useStoreUpdatesHybrid';
+import type { StoreUpdate, StoreUpdateDependency, StoreUpdateTarget } from './useStoreUpdatesHybrid';
+import { highestUpdateLevel } from './useStoreUpdatesHybrid';
+import { satisfiesVersion } from '../utils/versionComparator';
+
+// Why a record was added to the selection on behalf of another one
+export interface DependencyReason {
+  requiredById: string;
+  requiredByName: string;
+  requiredVersion: string;
+}
+
+// A selected record whose dependency will not be satisfied by this batch
+// too_old: the dependency update is selected at a version below required_version
+export interface DependencyWarning {
+  recordId: string;
+  recordName: string;
+  dependency: StoreUpdateDependency;
+  reason: 'missing' | 'unavailable' | 'not_selected' | 'too_old';
+  selectedVersion?: string;
+}
 
 export interface StoreUpdatesSelection {
   selectedIds: string[];
   selectedRecords: StoreUpdate[];
   selectionMode: 'none' | 'single' | 'multiple';
   lastSelectedId: string | null;
+  addedAsDependency: Record<string, DependencyReason[]>;  // Auto-added record id -> records that need it
 }
 
 export interface BatchOperation {
@@ -88,11 +109,111 @@ export const batchOperations: BatchOperation[] = [
   },
 ];
 
+export const getRecordName = (record: StoreUpdate): string =>
+  record.application_name || record.name || record.sys_id;
+
+/**
+ * Parse the resolved dependency list of a store update row
+ */
+export const getRecordDependencies = (record: StoreUpdate): StoreUpdateDependency[] => {
+  if (!record.dependencies) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(record.dependencies);
+    return Array.isArray(parsed) ? parsed as StoreUpdateDependency[] : [];
+  } catch {
+    logger.warn('Unreadable dependency list on store update', { recordId: record.sys_id });
+    return [];
+  }
+};
+
+/**
+ * The update of an application that reaches required_version - its listed row (the chosen target level) when that
+ * is new enough, else the lowest other target level that is. Undefined when no listed update reaches it.
+ */
+export const findSatisfyingRecord = (
+  application: string,
+  requiredVersion: string,
+  recordsByApplication: Map<string, StoreUpdate>,
+  getTargets: (applicationId: string) => StoreUpdateTarget[] = () => []
+): StoreUpdate | undefined => {
+  const listed = recordsByApplication.get(application);
+  // Targets come in patch / minor / major order, so the first match is the smallest step up
+  const candidates = [...(listed ? [listed] : []), ...getTargets(application).map(target => target.record)];
+  return candidates.find(candidate => satisfiesVersion(candidate.available_version_version, requiredVersion));
+};
+
+/**
+ * Add the dependency updates that the explicitly selected records need (transitively).
+ * allRecords holds one row per application at its chosen target level, which need not reach required_version -
+ * a dependency is added at the first level that does, and left out (reported by dependencyWarnings) when none does.
+ */
+export const resolveDependencySelection = (
+  explicitRecords: StoreUpdate[],
+  allRecords: StoreUpdate[],
+  dismissedIds: Set<string> = new Set(),
+  getTargets?: (applicationId: string) => StoreUpdateTarget[]
+): { selectedRecords: StoreUpdate[]; addedAsDependency: Record<string, DependencyReason[]> } => {
+  const recordsByApplication = new Map(allRecords.map(record => [record.application, record]));
+  const selected = new Map(explicitRecords.map(record => [record.sys_id, record]));
+  const explicitApplications = new Set(explicitRecords.map(record => record.application));
+  // Auto-added record per application - replaced by a higher level when a later requirement needs one
+  const addedByApplication = new Map<string, StoreUpdate>();
+  const addedAsDependency: Record<string, DependencyReason[]> = {};
+  const queue = [...explicitRecords];
+
+  while (queue.length > 0) {
+    const record = queue.shift()!;
+
+    getRecordDependencies(record)
+      .filter(dependency => dependency.status === 'update' && !explicitApplications.has(dependency.application))
+      .forEach(dependency => {
+        const reason: DependencyReason = {
+          requiredById: record.sys_id,
+          requiredByName: getRecordName(record),
+          requiredVersion: dependency.required_version
+        };
+        const added = addedByApplication.get(dependency.application);
+
+        if (added && satisfiesVersion(added.available_version_version, dependency.required_version)) {
+          addedAsDependency[added.sys_id]!.push(reason);
+          return;
+        }
+
+        const dependencyRecord = findSatisfyingRecord(
+          dependency.application, dependency.required_version, recordsByApplication, getTargets
+        );
+        if (!dependencyRecord || dismissedIds.has(dependencyRecord.sys_id)) {
+          return;
+        }
+
+        // The higher level also reaches what the records behind the lower one required
+        const reasons = added ? addedAsDependency[added.sys_id]! : [];
+        if (added) {
+          selected.delete(added.sys_id);
+          delete addedAsDependency[added.sys_id];
+        }
+
+        addedAsDependency[dependencyRecord.sys_id] = [...reasons, reason];
+        addedByApplication.set(dependency.application, dependencyRecord);
+        selected.set(dependencyRecord.sys_id, dependencyRecord);
+        queue.push(dependencyRecord);
+      });
+  }
+
+  return { selectedRecords: Array.from(selected.values()), addedAsDependency };
+};
+
 /**
  * Hook for managing Store Updates selection state and batch operations
  * Implements selective subscriptions and performance optimization
  */
-export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
+export const useStoreUpdatesSelection = (
+  allRecords: StoreUpdate[] = [],
+  getTargets?: (applicationId: string) => StoreUpdateTarget[]
+) => {
   // Get current selection state - simplified for now
   const currentSelection: StoreUpdatesSelection = useMemo(() => {
     // For now, create a simple in-memory selection state
@@ -102,23 +223,66 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
       selectedRecords: [],
       selectionMode: 'multiple' as const,
       lastSelectedId: null,
+      addedAsDependency: {},
     };
   }, []);
 
   // Internal state for managing selections (temporary implementation)
   const [internalSelection, setInternalSelection] = React.useState<StoreUpdatesSelection>(currentSelection);
 
+  // DEPENDENCIES: Auto-add required dependency updates, or only warn about them
+  const [autoIncludeDependencies, setAutoIncludeDependencies] = React.useState(true);
+  // Dependencies the user removed on purpose - not re-added until the selection is cleared
+  const [dismissedDependencyIds, setDismissedDependencyIds] = React.useState<Set<string>>(() => new Set());
+
   // Update selection state
-  const updateSelection = useCallback((updates: Partial<StoreUpdatesSelection>) => {
+  // Every records change re-resolves the dependencies of the explicitly selected records
+  const updateSelection = useCallback((
+    updates: Partial<StoreUpdatesSelection>,
+    dismissedIds: Set<string> = dismissedDependencyIds
+  ) => {
     const newSelection = { ...internalSelection, ...updates };
+
+    if (updates.selectedRecords) {
+      // Replace operations pass an empty addedAsDependency so every record they bring is explicit
+      const previousDependencies = updates.addedAsDependency ?? internalSelection.addedAsDependency;
+      const explicitRecords = updates.selectedRecords.filter(record => !previousDependencies[record.sys_id]);
+      const resolved = autoIncludeDependencies
+        ? resolveDependencySelection(explicitRecords, allRecords, dismissedIds, getTargets)
+        : {
+            selectedRecords: updates.selectedRecords,
+            addedAsDependency: Object.fromEntries(
+              Object.entries(previousDependencies)
+                .filter(([id]) => updates.selectedRecords!.some(record => record.sys_id === id))
+            )
+          };
+
+      newSelection.selectedRecords = resolved.selectedRecords;
+      newSelection.selectedIds = resolved.selectedRecords.map(record => record.sys_id);
+      newSelection.addedAsDependency = resolved.addedAsDependency;
+    }
+
     setInternalSelection(newSelection);
     
     logger.info('Store Updates selection updated', {
       selectedCount: newSelection.selectedIds.length,
       selectionMode: newSelection.selectionMode,
+      addedAsDependency: Object.keys(newSelection.addedAsDependency).length,
       updates
     });
-  }, [internalSelection]);
+  }, [internalSelection, allRecords, getTargets, autoIncludeDependencies, dismissedDependencyIds]);
+
+  // Removing an auto-added dependency keeps it out of the selection (it shows up as a warning instead)
+  const dismissDependencies = useCallback((recordIds: string[]): Set<string> => {
+    const dependencyIds = recordIds.filter(id => internalSelection.addedAsDependency[id]);
+    if (dependencyIds.length === 0) {
+      return dismissedDependencyIds;
+    }
+
+    const next = new Set([...dismissedDependencyIds, ...dependencyIds]);
+    setDismissedDependencyIds(next);
+    return next;
+  }, [internalSelection.addedAsDependency, dismissedDependencyIds]);
 
   // Select single record
   const selectRecord = useCallback((record: StoreUpdate, mode: 'add' | 'replace' | 'toggle' = 'add') => {
@@ -128,14 +292,24 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
 
     switch (mode) {
       case 'replace':
-        newSelectedIds = [recordId];
-        newSelectedRecords = [record];
-        break;
+        updateSelection({
+          selectedIds: [recordId],
+          selectedRecords: [record],
+          lastSelectedId: recordId,
+          addedAsDependency: {},
+        });
+        return;
       
       case 'toggle':
         if (internalSelection.selectedIds.includes(recordId)) {
           newSelectedIds = internalSelection.selectedIds.filter(id => id !== recordId);
           newSelectedRecords = internalSelection.selectedRecords.filter(r => r.sys_id !== recordId);
+          updateSelection({
+            selectedIds: newSelectedIds,
+            selectedRecords: newSelectedRecords,
+            lastSelectedId: recordId,
+          }, dismissDependencies([recordId]));
+          return;
         } else {
           newSelectedIds = [...internalSelection.selectedIds, recordId];
           newSelectedRecords = [...internalSelection.selectedRecords, record];
@@ -159,7 +333,7 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
       selectedRecords: newSelectedRecords,
       lastSelectedId: recordId,
     });
-  }, [internalSelection, updateSelection]);
+  }, [internalSelection, updateSelection, dismissDependencies]);
 
   // Select multiple records
   const selectRecords = useCallback((records: StoreUpdate[], mode: 'add' | 'replace' = 'add') => {
@@ -169,8 +343,13 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
     let newSelectedRecords: StoreUpdate[];
 
     if (mode === 'replace') {
-      newSelectedIds = recordIds;
-      newSelectedRecords = records;
+      updateSelection({
+        selectedIds: recordIds,
+        selectedRecords: records,
+        lastSelectedId: recordIds[recordIds.length - 1] || null,
+        addedAsDependency: {},
+      });
+      return;
     } else {
       // Add mode - merge with existing selection
       const existingIds = new Set(internalSelection.selectedIds);
@@ -205,6 +384,23 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
       selectedIds: newSelectedIds,
       selectedRecords: newSelectedRecords,
       lastSelectedId: newSelectedIds[newSelectedIds.length - 1] || null,
+    }, dismissDependencies(recordIds));
+  }, [internalSelection, updateSelection, dismissDependencies]);
+
+  // TARGETS: Swap a selected record for the same application's row at another target level
+  const replaceRecord = useCallback((previousId: string, record: StoreUpdate) => {
+    if (!internalSelection.selectedIds.includes(previousId)) {
+      return;
+    }
+
+    const newSelectedRecords = internalSelection.selectedRecords.map(r => r.sys_id === previousId ? record : r);
+    const { [previousId]: previousReasons, ...addedAsDependency } = internalSelection.addedAsDependency;
+
+    updateSelection({
+      selectedIds: newSelectedRecords.map(r => r.sys_id),
+      selectedRecords: newSelectedRecords,
+      lastSelectedId: record.sys_id,
+      addedAsDependency: previousReasons ? { ...addedAsDependency, [record.sys_id]: previousReasons } : addedAsDependency,
     });
   }, [internalSelection, updateSelection]);
 
@@ -216,11 +412,13 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
 
   // Clear all selection
   const clearSelection = useCallback(() => {
+    const noDismissed = new Set<string>();
+    setDismissedDependencyIds(noDismissed);
     updateSelection({
       selectedIds: [],
       selectedRecords: [],
       lastSelectedId: null,
-    });
+    }, noDismissed);
     logger.info('Cleared Store Updates selection');
   }, [updateSelection]);
 
@@ -266,6 +464,67 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
     return internalSelection.selectedIds.includes(recordId);
   }, [internalSelection.selectedIds]);
 
+  // DEPENDENCIES: Requirements of the selection that this batch will not satisfy
+  const dependencyWarnings = useMemo((): DependencyWarning[] => {
+    const selectedByApplication = new Map(internalSelection.selectedRecords.map(record => [record.application, record]));
+    const warnings: DependencyWarning[] = [];
+
+    internalSelection.selectedRecords.forEach(record => {
+      getRecordDependencies(record).forEach(dependency => {
+        const selectedDependency = dependency.status === 'update' ? selectedByApplication.get(dependency.application) : undefined;
+        const reason = dependency.status === 'missing' || dependency.status === 'unavailable'
+          ? dependency.status
+          : dependency.status !== 'update'
+            ? null
+            : !selectedDependency
+              ? 'not_selected'
+              : !satisfiesVersion(selectedDependency.available_version_version, dependency.required_version)
+                ? 'too_old'
+                : null;
+
+        if (reason) {
+          warnings.push({
+            recordId: record.sys_id,
+            recordName: getRecordName(record),
+            dependency,
+            reason,
+            ...(reason === 'too_old' ? { selectedVersion: selectedDependency?.available_version_version || '' } : {})
+          });
+        }
+      });
+    });
+
+    return warnings;
+  }, [internalSelection.selectedRecords]);
+
+  // Add the dependency updates behind 'not_selected' warnings (also brings back dismissed ones)
+  const addRequiredDependencies = useCallback(() => {
+    const noDismissed = new Set<string>();
+    const explicitRecords = internalSelection.selectedRecords.filter(record => !internalSelection.addedAsDependency[record.sys_id]);
+    const resolved = resolveDependencySelection(explicitRecords, allRecords, noDismissed, getTargets);
+
+    setDismissedDependencyIds(noDismissed);
+    setInternalSelection({
+      ...internalSelection,
+      selectedIds: resolved.selectedRecords.map(record => record.sys_id),
+      selectedRecords: resolved.selectedRecords,
+      addedAsDependency: resolved.addedAsDependency,
+    });
+
+    logger.info('Added required dependency updates to selection', {
+      addedCount: Object.keys(resolved.addedAsDependency).length
+    });
+  }, [internalSelection, allRecords, getTargets]);
+
+  // Switching auto-include back on immediately adds what the current selection needs
+  const toggleAutoIncludeDependencies = useCallback((enabled: boolean) => {
+    setAutoIncludeDependencies(enabled);
+    if (enabled) {
+      addRequiredDependencies();
+    }
+    logger.info('Dependency auto-include changed', { enabled });
+  }, [addRequiredDependencies]);
+
   // Get available batch operations based on current selection
   const availableBatchOperations = useMemo(() => {
     const selectedCount = internalSelection.selectedIds.length;
@@ -299,7 +558,7 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
       // Check allowed batch levels
       if (operation.allowedBatchLevels) {
         const hasAllowedBatchLevel = selectedRecords.some(record =>
-          operation.allowedBatchLevels!.includes(record.batch_level)
+          operation.allowedBatchLevels!.includes(highestUpdateLevel(record))
         );
         if (!hasAllowedBatchLevel) {
           return false;
@@ -312,7 +571,7 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
       applicableCount: operation.allowedLevels 
         ? selectedRecords.filter(r => operation.allowedLevels!.includes(r.level)).length
         : operation.allowedBatchLevels
-        ? selectedRecords.filter(r => operation.allowedBatchLevels!.includes(r.batch_level)).length
+        ? selectedRecords.filter(r => operation.allowedBatchLevels!.includes(highestUpdateLevel(r))).length
         : selectedCount
     }));
   }, [internalSelection]);
@@ -341,7 +600,8 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
 
     // Batch level breakdown
     const batchLevelBreakdown = selectedRecords.reduce((acc, record) => {
-      acc[record.batch_level] = (acc[record.batch_level] || 0) + 1;
+      const level = highestUpdateLevel(record);
+      acc[level] = (acc[level] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
@@ -374,6 +634,7 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
     selectRecord,
     selectRecords,
     deselectRecords,
+    replaceRecord,
     selectAllVisible,
     clearSelection,
     toggleSelectAll,
@@ -381,6 +642,12 @@ export const useStoreUpdatesSelection = (allRecords: StoreUpdate[] = []) => {
     
     // Utilities
     isRecordSelected,
+
+    // Dependencies
+    autoIncludeDependencies,
+    setAutoIncludeDependencies: toggleAutoIncludeDependencies,
+    dependencyWarnings,
+    addRequiredDependencies,
     
     // Batch operations
     availableBatchOperations,
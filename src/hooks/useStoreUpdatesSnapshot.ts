@@ -0,0 +1,118 @@
+// src/hooks/useStoreUpdatesSnapshot.ts
+// Custom hook for the persisted store updates snapshot
+// Pattern 2C: TanStack Query for the scan status + mutation for "Rescan now"
+// The dashboard reads x_snc_store_upda_1_update_snapshot; this hook exposes when it was last scanned
+// OPERATIONS: Every rescan is tracked as a 'scan' operation - its notification reports the result
+
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../api/apiService';
+import type { SnapshotRescanResponse } from '../api/apiService';
+import { logger, createLogContext } from '../monitoring/logger';
+import { useBatchProgressStore } from '../stores/batchProgressStore';
+import { storeUpdatesQueryKeys } from './useStoreUpdatesHybrid';
+
+/**
+ * Parse a ServiceNow UTC date-time value (yyyy-MM-dd HH:mm:ss) into a Date
+ */
+export const parseServiceNowUtc = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(`${value.replace(' ', 'T')}Z`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Human readable age of a scan, e.g. "5 minutes ago"
+ */
+export const formatScanAge = (scannedAt: Date | null, now: number = Date.now()): string => {
+  if (!scannedAt) return 'never';
+
+  const minutes = Math.floor((now - scannedAt.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} day${days !== 1 ? 's' : ''} ago`;
+};
+
+interface UseStoreUpdatesSnapshotConfig {
+  onRescanComplete?: (result: SnapshotRescanResponse) => Promise<void> | void;
+}
+
+export const useStoreUpdatesSnapshot = (config: UseStoreUpdatesSnapshotConfig = {}) => {
+  const { onRescanComplete } = config;
+  const queryClient = useQueryClient();
+
+  const statusQuery = useQuery({
+    queryKey: storeUpdatesQueryKeys.snapshot(),
+    queryFn: () => apiService.getSnapshotStatus(),
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: 1
+  });
+
+  const rescanMutation = useMutation({
+    mutationFn: (trigger: 'manual' | 'sync') => apiService.rescanSnapshot(trigger),
+    onMutate: (trigger: 'manual' | 'sync') => {
+      const operationId = useBatchProgressStore.getState().beginOperation(
+        'scan',
+        trigger === 'sync' ? 'Rescan after sync' : 'Rescan store updates',
+        { progress: null, message: 'Scanning installed applications for updates...' }
+      );
+      return { operationId };
+    },
+    onSuccess: async (result, _trigger, context) => {
+      logger.info('Snapshot rescan finished - refreshing store updates', createLogContext({
+        scanId: result.scan_id,
+        trigger: result.trigger,
+        rowCount: result.row_count,
+        versionQueries: result.version_queries,
+        durationMs: result.duration_ms,
+        timings: result.timings
+      }));
+
+      await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.snapshot() });
+      await queryClient.invalidateQueries({ queryKey: storeUpdatesQueryKeys.lists(), exact: true });
+      await onRescanComplete?.(result);
+
+      if (context) {
+        useBatchProgressStore.getState().finishOperation(
+          context.operationId,
+          'complete',
+          `Found ${result.app_count} application${result.app_count !== 1 ? 's' : ''} with updates.`
+        );
+      }
+    },
+    onError: (error: any, _trigger, context) => {
+      logger.error('Snapshot rescan failed',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      if (context) {
+        useBatchProgressStore.getState().finishOperation(
+          context.operationId,
+          'error',
+          error?.message || 'Failed to rescan store updates',
+          error
+        );
+      }
+    }
+  });
+
+  const rescan = useCallback((trigger: 'manual' | 'sync' = 'manual') => {
+    return rescanMutation.mutateAsync(trigger);
+  }, [rescanMutation.mutateAsync]);
+
+  const scannedAt = parseServiceNowUtc(statusQuery.data?.scanned_on);
+
+  return {
+    status: statusQuery.data,
+    scannedAt,
+    scanAge: formatScanAge(scannedAt),
+    isStatusLoading: statusQuery.isLoading,
+    isRescanning: rescanMutation.isPending,
+    rescan
+  };
+};
@@ -15,6 +15,7 @@ import {
   getServiceNowDateTime,
   type NonUndefined 
 } from '../utils/typeRefinements';
+import type { AmbClient } from '../services/recordWatchService';
 
 // Pattern 2A: Immediate Data Types with refined type safety
 export interface UserContext {
@@ -57,8 +58,10 @@ export interface AppContext {
   readonly has_admin_role: string;
   readonly can_export: string;
   readonly can_bulk_update: string;
+  readonly can_install: string;       // Installer role (admins included) - what install_updates checks
   readonly max_export_records: string;
   readonly enable_debug_panel: string;
+  readonly live_updates: string; // x_snc_store_upda_1.live_updates - push progress through the record watcher
 }
 
 export interface QuickStats {
@@ -87,6 +90,7 @@ export interface ImmediateData {
 declare global {
   interface Window {
     snImmediateData?: ImmediateData;
+    amb?: { getClient?: () => AmbClient }; // Platform AMB client - record watcher pushes (recordWatchService)
   }
 }
 
@@ -131,12 +135,14 @@ const createAppContext = (data: any | null | undefined): AppContext => {
     app_scope: getString(data?.app_scope, 'x_snc_store_upda_1'),
     app_name: getString(data?.app_name, 'Store Updates Manager'),
     app_version: getString(data?.app_version, '1.0.0'),
-    table_name: getString(data?.table_name, 'x_snc_store_upda_1_store_updates'),
+    table_name: getString(data?.table_name, 'x_snc_store_upda_1_update_snapshot'),
     has_admin_role: getString(data?.has_admin_role, 'false'),
     can_export: getString(data?.can_export, 'false'),
     can_bulk_update: getString(data?.can_bulk_update, 'false'),
+    can_install: getString(data?.can_install, 'false'),
     max_export_records: getString(data?.max_export_records, '1000'),
-    enable_debug_panel: getString(data?.enable_debug_panel, 'false')
+    enable_debug_panel: getString(data?.enable_debug_panel, 'false'),
+    live_updates: getString(data?.live_updates, 'true')
   };
 };
 
@@ -244,6 +250,7 @@ export const useEnhancedUserContext = () => {
       capabilities: {
         canExport: getBoolean(appContext.can_export, false),
         canBulkUpdate: getBoolean(appContext.can_bulk_update, false),
+        canInstall: getBoolean(appContext.can_install, false),
         canAccessDebugPanel: getBoolean(appContext.enable_debug_panel, false),
         maxExportRecords: getInteger(appContext.max_export_records, 1000)
       },
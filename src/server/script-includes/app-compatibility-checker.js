@@ -0,0 +1,178 @@
+// src/server/script-includes/app-compatibility-checker.js
+// App Compatibility Checker - matches each candidate version's platform families against this instance
+// INSTANCE: describeInstance() is the instance version and patch level the dashboard shows - the one source for both
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var AppCompatibilityChecker = Class.create();
+AppCompatibilityChecker.prototype = {
+
+    /**
+     * Initialize the App Compatibility Checker
+     * @param {String} [buildTag] - Instance build tag, defaults to glide.buildtag.last
+     */
+    initialize: function(buildTag) {
+        this.ID_QUERY_CHUNK_SIZE = 500;
+        this.instance = this.parseBuildTag(buildTag || gs.getProperty('glide.buildtag.last', ''));
+    },
+
+    /**
+     * Instance version and patch level the checks run against, as display labels
+     * @returns {Object} {version, patch_level} - e.g. 'Zurich' and 'Patch 2', empty when the build tag has no family
+     */
+    describeInstance: function() {
+        if (!this.instance.family) {
+            return { version: '', patch_level: '' };
+        }
+
+        return {
+            version: this._describe(this.instance.family, 0),
+            patch_level: 'Patch ' + this.instance.patch
+        };
+    },
+
+    /**
+     * Set 'compatibility' (compatible / incompatible / unknown) and 'compatibility_reason' on every row
+     * @param {Array} rows - Rows from StoreUpdatesProcessor (available_version = sys_app_version sys_id)
+     * @returns {Array} The same rows
+     */
+    annotate: function(rows) {
+        var versions = this._loadCompatibilities(rows.map(function(row) {
+            return row.available_version;
+        }));
+
+        for (var i = 0; i < rows.length; i++) {
+            var version = versions[rows[i].available_version];
+            var result = version
+                ? this.check(version.version, version.compatibilities)
+                : { status: 'unknown', reason: 'Available version record not found' };
+
+            rows[i].compatibility = result.status;
+            rows[i].compatibility_reason = result.reason;
+        }
+
+        return rows;
+    },
+
+    /**
+     * Check one version's compatibility metadata against the instance
+     * @param {String} version - Version number (for the reason text)
+     * @param {String} compatibilities - Comma separated families, optionally with a minimum patch ("Zurich Patch 2")
+     * @returns {Object} {status, reason}
+     */
+    check: function(version, compatibilities) {
+        var families = this.parseCompatibilities(compatibilities);
+
+        if (!this.instance.family) {
+            return { status: 'unknown', reason: 'Instance platform family could not be determined from the build tag' };
+        }
+        if (families.length === 0) {
+            return { status: 'unknown', reason: 'Version ' + version + ' has no platform compatibility information' };
+        }
+
+        var instanceLabel = this._describe(this.instance.family, this.instance.patch);
+        for (var i = 0; i < families.length; i++) {
+            if (families[i].family !== this.instance.family) {
+                continue;
+            }
+
+            if (families[i].patch > this.instance.patch) {
+                return {
+                    status: 'incompatible',
+                    reason: 'Version ' + version + ' requires ' + this._describe(families[i].family, families[i].patch) +
+                        ' or later; this instance runs ' + instanceLabel
+                };
+            }
+
+            return { status: 'compatible', reason: 'Version ' + version + ' supports ' + instanceLabel };
+        }
+
+        var supported = families.map(function(entry) {
+            return this._describe(entry.family, entry.patch);
+        }, this);
+
+        return {
+            status: 'incompatible',
+            reason: 'Version ' + version + ' supports ' + supported.join(', ') + '; this instance runs ' + instanceLabel
+        };
+    },
+
+    /**
+     * Parse a build tag like "glide-zurich-07-01-2025__patch2-09-24-2025"
+     * @returns {Object} {family, patch} - family is normalized (lower case letters only), patch 0 when absent
+     */
+    parseBuildTag: function(buildTag) {
+        var familyMatch = /glide-([a-zA-Z]+)/.exec(buildTag || '');
+        var patchMatch = /__patch(\d+)/.exec(buildTag || '');
+
+        return {
+            family: familyMatch ? this._normalizeFamily(familyMatch[1]) : '',
+            patch: patchMatch ? parseInt(patchMatch[1], 10) : 0
+        };
+    },
+
+    /**
+     * Parse a compatibilities value into [{family, patch}]
+     */
+    parseCompatibilities: function(value) {
+        var families = [];
+        var parts = (value || '').split(',');
+
+        for (var i = 0; i < parts.length; i++) {
+            var match = /^\s*([a-zA-Z][a-zA-Z .]*?)\s*(?:patch\s*(\d+))?\s*$/i.exec(parts[i]);
+            if (!match) {
+                continue;
+            }
+
+            families.push({
+                family: this._normalizeFamily(match[1]),
+                patch: match[2] ? parseInt(match[2], 10) : 0
+            });
+        }
+
+        return families;
+    },
+
+    /**
+     * Load version number and compatibilities for the candidate sys_app_version records
+     * @returns {Object} {sys_id: {version, compatibilities}}
+     */
+    _loadCompatibilities: function(versionIds) {
+        var versions = {};
+        var seen = {};
+        var ids = versionIds.filter(function(id) {
+            if (!id || seen[id]) {
+                return false;
+            }
+            seen[id] = true;
+            return true;
+        });
+
+        for (var start = 0; start < ids.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var versionGR = new GlideRecord('sys_app_version');
+            versionGR.addQuery('sys_id', 'IN', ids.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            versionGR.query();
+
+            while (versionGR.next()) {
+                versions[versionGR.getUniqueValue()] = {
+                    version: versionGR.getValue('version'),
+                    compatibilities: versionGR.isValidField('compatibilities') ? versionGR.getValue('compatibilities') : ''
+                };
+            }
+        }
+
+        return versions;
+    },
+
+    /**
+     * "Washington DC" and "washingtondc" (build tag) must compare equal
+     */
+    _normalizeFamily: function(name) {
+        return (name || '').toLowerCase().replace(/[^a-z]/g, '');
+    },
+
+    _describe: function(family, patch) {
+        return family.charAt(0).toUpperCase() + family.slice(1) + (patch > 0 ? ' Patch ' + patch : '');
+    },
+
+    type: 'AppCompatibilityChecker'
+};
@@ -0,0 +1,298 @@
+// src/server/script-includes/app-dependency-resolver.js
+// App Dependency Resolver - resolves the dependencies of each candidate version against the instance
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var AppDependencyResolver = Class.create();
+AppDependencyResolver.prototype = {
+
+    /**
+     * Initialize the App Dependency Resolver
+     */
+    initialize: function() {
+        this.ID_QUERY_CHUNK_SIZE = 500;
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+    },
+
+    /**
+     * Set a 'dependencies' JSON string on every store update row.
+     * Each entry: {scope, name, required_version, installed_version, is_plugin, status,
+     * application, available_version, version} where status is one of
+     * 'satisfied' - already installed at the required version or newer
+     * 'update'    - another row of the same scan upgrades the dependency far enough
+     * 'missing'   - the dependency is not installed (fresh install or plugin activation needed)
+     * 'unavailable' - installed too old and no listed update reaches the required version
+     * @param {Array} rows - Rows from StoreUpdatesProcessor (application, available_version, ...)
+     * @returns {Array} The same rows
+     */
+    annotate: function(rows) {
+        var versionInfo = this._loadVersionInfo(rows.map(function(row) {
+            return row.available_version;
+        }));
+
+        var requirementsByVersion = {};
+        var scopes = {};
+        for (var versionId in versionInfo) {
+            var requirements = this.parseDependencies(versionInfo[versionId].dependencies);
+            requirementsByVersion[versionId] = requirements;
+            for (var r = 0; r < requirements.length; r++) {
+                scopes[requirements[r].scope] = true;
+            }
+        }
+
+        var installedApps = this._loadInstalledApps(Object.keys(scopes));
+        var plugins = this._loadPlugins(Object.keys(scopes).filter(function(scope) {
+            return !installedApps[scope];
+        }));
+        var candidatesByApp = this._groupCandidates(rows, versionInfo);
+
+        for (var i = 0; i < rows.length; i++) {
+            var entries = [];
+            var rowRequirements = requirementsByVersion[rows[i].available_version] || [];
+
+            for (var d = 0; d < rowRequirements.length; d++) {
+                entries.push(this._resolve(rowRequirements[d], installedApps, plugins, candidatesByApp));
+            }
+
+            rows[i].dependencies = entries.length > 0 ? JSON.stringify(entries) : '';
+        }
+
+        return rows;
+    },
+
+    /**
+     * Parse a sys_app_version.dependencies value.
+     * Accepts "scope:version,scope:version" as well as a JSON array of {scope|id, version|min_version}.
+     * @param {String} value - Raw field value
+     * @returns {Array} [{scope, required_version}]
+     */
+    parseDependencies: function(value) {
+        var requirements = [];
+        var text = (value || '').trim();
+
+        if (!text) {
+            return requirements;
+        }
+
+        if (text.charAt(0) === '[') {
+            try {
+                var parsed = JSON.parse(text);
+                for (var j = 0; j < parsed.length; j++) {
+                    var scope = parsed[j].scope || parsed[j].id;
+                    if (scope) {
+                        requirements.push({
+                            scope: scope,
+                            required_version: parsed[j].min_version || parsed[j].version || ''
+                        });
+                    }
+                }
+            } catch (parseError) {
+                gs.warn('AppDependencyResolver: Unreadable dependencies value: ' + text);
+            }
+            return requirements;
+        }
+
+        var parts = text.split(',');
+        for (var i = 0; i < parts.length; i++) {
+            var part = parts[i].trim();
+            if (!part) {
+                continue;
+            }
+
+            var separator = part.indexOf(':');
+            requirements.push({
+                scope: separator === -1 ? part : part.substring(0, separator).trim(),
+                required_version: separator === -1 ? '' : part.substring(separator + 1).trim()
+            });
+        }
+
+        return requirements;
+    },
+
+    /**
+     * Resolve one requirement against installed apps, plugins and the updates of this scan
+     */
+    _resolve: function(requirement, installedApps, plugins, candidatesByApp) {
+        var entry = {
+            scope: requirement.scope,
+            name: requirement.scope,
+            required_version: requirement.required_version,
+            installed_version: '',
+            is_plugin: false,
+            status: 'missing',
+            application: '',
+            available_version: '',
+            version: ''
+        };
+
+        var app = installedApps[requirement.scope];
+        if (app) {
+            entry.name = app.name;
+            entry.installed_version = app.version;
+            entry.application = app.sys_id;
+
+            if (this._satisfies(app.version, requirement.required_version)) {
+                entry.status = 'satisfied';
+                return entry;
+            }
+
+            var candidate = this._lowestSatisfying(candidatesByApp[app.sys_id] || [], requirement.required_version);
+            if (candidate) {
+                entry.status = 'update';
+                entry.available_version = candidate.available_version;
+                entry.version = candidate.version;
+            } else {
+                entry.status = 'unavailable';
+            }
+            return entry;
+        }
+
+        var plugin = plugins[requirement.scope];
+        if (plugin) {
+            entry.name = plugin.name;
+            entry.installed_version = plugin.version;
+            entry.is_plugin = true;
+            entry.status = !plugin.active ? 'missing'
+                : this._satisfies(plugin.version, requirement.required_version) ? 'satisfied' : 'unavailable';
+        }
+
+        return entry;
+    },
+
+    /**
+     * True when the installed version meets the requirement (an empty requirement means any version)
+     */
+    _satisfies: function(installedVersion, requiredVersion) {
+        if (!requiredVersion) {
+            return true;
+        }
+        return !!installedVersion && this.versionComparator.compare(installedVersion, requiredVersion) >= 0;
+    },
+
+    /**
+     * Lowest candidate version that meets the requirement - keeps the added dependency update as small as possible
+     */
+    _lowestSatisfying: function(candidates, requiredVersion) {
+        var best = null;
+
+        for (var i = 0; i < candidates.length; i++) {
+            if (!this._satisfies(candidates[i].version, requiredVersion)) {
+                continue;
+            }
+            if (!best || this.versionComparator.compare(candidates[i].version, best.version) < 0) {
+                best = candidates[i];
+            }
+        }
+
+        return best;
+    },
+
+    /**
+     * Candidate updates of the scan keyed by application sys_id
+     */
+    _groupCandidates: function(rows, versionInfo) {
+        var candidatesByApp = {};
+
+        for (var i = 0; i < rows.length; i++) {
+            var info = versionInfo[rows[i].available_version];
+            if (!info) {
+                continue;
+            }
+
+            if (!candidatesByApp[rows[i].application]) {
+                candidatesByApp[rows[i].application] = [];
+            }
+            candidatesByApp[rows[i].application].push({
+                available_version: rows[i].available_version,
+                version: info.version
+            });
+        }
+
+        return candidatesByApp;
+    },
+
+    /**
+     * Load version number and dependencies for the candidate sys_app_version records
+     * @returns {Object} {sys_id: {version, dependencies}}
+     */
+    _loadVersionInfo: function(versionIds) {
+        var info = {};
+        var ids = this._unique(versionIds);
+
+        for (var start = 0; start < ids.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var versionGR = new GlideRecord('sys_app_version');
+            versionGR.addQuery('sys_id', 'IN', ids.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            versionGR.query();
+
+            while (versionGR.next()) {
+                info[versionGR.getUniqueValue()] = {
+                    version: versionGR.getValue('version'),
+                    dependencies: versionGR.getValue('dependencies')
+                };
+            }
+        }
+
+        return info;
+    },
+
+    /**
+     * Installed store applications keyed by scope
+     */
+    _loadInstalledApps: function(scopes) {
+        var apps = {};
+
+        for (var start = 0; start < scopes.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var storeAppGR = new GlideRecord('sys_store_app');
+            storeAppGR.addQuery('scope', 'IN', scopes.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            storeAppGR.query();
+
+            while (storeAppGR.next()) {
+                apps[storeAppGR.getValue('scope')] = {
+                    sys_id: storeAppGR.getUniqueValue(),
+                    name: storeAppGR.getValue('name'),
+                    version: storeAppGR.getValue('version')
+                };
+            }
+        }
+
+        return apps;
+    },
+
+    /**
+     * Platform plugins keyed by plugin id - dependencies that are not store applications
+     */
+    _loadPlugins: function(pluginIds) {
+        var plugins = {};
+
+        for (var start = 0; start < pluginIds.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var pluginGR = new GlideRecord('sys_plugins');
+            pluginGR.addQuery('source', 'IN', pluginIds.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            pluginGR.query();
+
+            while (pluginGR.next()) {
+                plugins[pluginGR.getValue('source')] = {
+                    name: pluginGR.getValue('name'),
+                    version: pluginGR.getValue('version'),
+                    active: pluginGR.getValue('active') === 'active'
+                };
+            }
+        }
+
+        return plugins;
+    },
+
+    _unique: function(values) {
+        var seen = {};
+        var result = [];
+
+        for (var i = 0; i < values.length; i++) {
+            if (values[i] && !seen[values[i]]) {
+                seen[values[i]] = true;
+                result.push(values[i]);
+            }
+        }
+
+        return result;
+    },
+
+    type: 'AppDependencyResolver'
+};
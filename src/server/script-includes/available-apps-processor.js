@@ -0,0 +1,171 @@
+// src/server/script-includes/available-apps-processor.js
+// Available Apps Processor - entitled Store applications that are not installed yet
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var AvailableAppsProcessor = Class.create();
+AvailableAppsProcessor.prototype = {
+
+    /**
+     * Initialize the Available Apps Processor
+     */
+    initialize: function() {
+        this.ID_QUERY_CHUNK_SIZE = 500;
+        // sys_remote_app flag set for applications the instance is entitled to install
+        this.ENTITLEMENT_FIELD = 'can_install_or_upgrade';
+        this.storeUpdatesProcessor = new x_snc_store_upda_1.StoreUpdatesProcessor();
+    },
+
+    /**
+     * Main entry point for the available apps remote table
+     * Honors the encoded query (conditions, ORDERBY and the sysparm_offset/limit window)
+     * @param {Object} v_table - Virtual table object
+     * @param {Object} v_query - Query parameters
+     * @returns {Object} {success, appCount, errors}
+     */
+    executeQuery: function(v_table, v_query) {
+        var startTime = new Date().getTime();
+        var errors = [];
+        var appCount = 0;
+
+        try {
+            var query = new x_snc_store_upda_1.RemoteTableQuery(v_query);
+            gs.info('AvailableAppsProcessor: Starting available apps scan' + (query.hasConstraints() ? ' (filtered)' : ''));
+
+            var rows = this.getAvailableApps(query.getRequiredValues('application'));
+            appCount = rows.length;
+
+            var matched = query.apply(rows);
+            for (var i = 0; i < matched.length; i++) {
+                v_table.addRow(matched[i]);
+            }
+
+            gs.info('AvailableAppsProcessor: Completed successfully. Apps: ' + appCount + ', Rows: ' + matched.length +
+                ', Time: ' + (new Date().getTime() - startTime) + 'ms');
+
+        } catch (error) {
+            gs.error('AvailableAppsProcessor: Fatal error during execution: ' + error.message);
+            errors.push(error.message);
+        }
+
+        return {
+            success: errors.length === 0,
+            appCount: appCount,
+            errors: errors
+        };
+    },
+
+    /**
+     * Build one row per entitled, not installed application at its latest version
+     * @param {Array} [appSysIds] - Restrict to these sys_remote_app records
+     * @returns {Array} Row objects
+     */
+    getAvailableApps: function(appSysIds) {
+        var apps = this._loadRemoteApps(appSysIds);
+        var installed = this._loadInstalledIds(apps.map(function(app) {
+            return app.sys_id;
+        }));
+
+        apps = apps.filter(function(app) {
+            return !installed[app.sys_id];
+        });
+
+        var versionsByApp = this.storeUpdatesProcessor.loadAvailableVersions(apps.map(function(app) {
+            return app.sys_id;
+        }));
+
+        var rows = [];
+        for (var i = 0; i < apps.length; i++) {
+            var versions = versionsByApp[apps[i].sys_id];
+
+            // Without a sys_app_version record there is nothing an install batch can request
+            if (!versions || versions.length === 0) {
+                continue;
+            }
+
+            rows.push(this._buildRow(apps[i], versions[versions.length - 1]));
+        }
+
+        return rows;
+    },
+
+    /**
+     * Load entitled Store applications from sys_remote_app
+     * sys_remote_app also lists Store applications the instance may not install - only entitled rows are returned,
+     * and none when the entitlement flag is missing from the table
+     * @param {Array} [appSysIds] - Restrict to these records
+     * @returns {Array} Plain app objects
+     */
+    _loadRemoteApps: function(appSysIds) {
+        var apps = [];
+        var remoteAppGR = new GlideRecord('sys_remote_app');
+
+        if (!remoteAppGR.isValidField(this.ENTITLEMENT_FIELD)) {
+            gs.warn('AvailableAppsProcessor: sys_remote_app has no ' + this.ENTITLEMENT_FIELD + ' field - no applications listed');
+            return apps;
+        }
+
+        try {
+            remoteAppGR.addQuery(this.ENTITLEMENT_FIELD, true);
+            if (appSysIds) {
+                remoteAppGR.addQuery('sys_id', 'IN', appSysIds.join(','));
+            }
+            remoteAppGR.query();
+
+            while (remoteAppGR.next()) {
+                apps.push({
+                    'sys_id': remoteAppGR.getUniqueValue(),
+                    'name': remoteAppGR.getValue('name'),
+                    'scope': remoteAppGR.getValue('scope'),
+                    'publisher': remoteAppGR.getDisplayValue('vendor'),
+                    'description': remoteAppGR.getValue('short_description')
+                });
+            }
+
+        } catch (queryError) {
+            gs.error('AvailableAppsProcessor: Error querying remote applications: ' + queryError.message);
+            throw queryError;
+        }
+
+        return apps;
+    },
+
+    /**
+     * Find which of the given applications already have a sys_store_app record
+     * @param {Array} appSysIds - Application sys_ids
+     * @returns {Object} Set of installed sys_ids (id -> true)
+     */
+    _loadInstalledIds: function(appSysIds) {
+        var installed = {};
+
+        for (var start = 0; start < appSysIds.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var storeAppGR = new GlideRecord('sys_store_app');
+            storeAppGR.addQuery('sys_id', 'IN', appSysIds.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            storeAppGR.query();
+
+            while (storeAppGR.next()) {
+                installed[storeAppGR.getUniqueValue()] = true;
+            }
+        }
+
+        return installed;
+    },
+
+    /**
+     * Build the remote table row for an application and its latest version
+     */
+    _buildRow: function(app, latestVersion) {
+        return {
+            'sys_id': latestVersion.sys_id,
+            'application': app.sys_id,
+            'name': app.name,
+            'scope': app.scope,
+            'publisher': app.publisher,
+            'description': app.description,
+            'latest_version': latestVersion.version,
+            'available_version': latestVersion.sys_id,
+            'publish_date': latestVersion.publish_date
+        };
+    },
+
+    type: 'AvailableAppsProcessor'
+};
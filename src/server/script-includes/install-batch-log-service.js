@@ -0,0 +1,317 @@
+// src/server/script-includes/install-batch-log-service.js
+// Install Batch Log Service - log entries of one install batch, read from the platform log tables
+// Entries come from syslog (sources of the batch apps, or messages naming the batch), the upgrade log of the batch
+// apps and the progress records of the batch items, limited to the time window of the batch and returned in time order
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var InstallBatchLogService = Class.create();
+InstallBatchLogService.prototype = {
+
+    /**
+     * Initialize the Install Batch Log Service
+     */
+    initialize: function() {
+        this.BATCH_TABLE = 'x_snc_store_upda_1_install_batch';
+        this.ITEM_TABLE = 'x_snc_store_upda_1_install_batch_item';
+        this.TRACKER_TABLE = 'sys_execution_tracker';
+        this.SYSLOG_TABLE = 'syslog';
+        this.UPGRADE_LOG_TABLE = 'sys_upgrade_history_log';
+        // Scoped scripts log under the scope name - always part of the batch log
+        this.APP_SOURCES = ['x_snc_store_upda_1'];
+        // syslog.level -> entry level
+        this.SYSLOG_LEVELS = {
+            '-1': 'debug',
+            '0': 'info',
+            '1': 'warning',
+            '2': 'error'
+        };
+        // sys_execution_tracker.state -> entry level
+        this.TRACKER_LEVELS = {
+            '3': 'warning', // Cancelled
+            '4': 'error'
+        };
+        // Margin around requested_on / completed_on - installers log a little before and after the tracker changes
+        this.WINDOW_BEFORE_SECONDS = 60;
+        this.WINDOW_AFTER_SECONDS = 120;
+        this.MAX_SYSLOG_ENTRIES = 1500;
+        this.MAX_UPGRADE_LOG_ENTRIES = 1000;
+        // Longer batches show their first hours only - syslog is large and only sys_created_on narrows it well
+        this.MAX_WINDOW_HOURS = 6;
+        this.MAX_SOURCE_COUNT = 50;
+        // sys_upgrade_history_log column naming the plugin / application scope a row belongs to
+        this.UPGRADE_LOG_PACKAGE_FIELD = 'plugin';
+    },
+
+    /**
+     * Log entries of a batch
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} {batch_id, window: {start, end}, entries, truncated}
+     *   entries (oldest first): {id, time (UTC, yyyy-MM-dd HH:mm:ss), level: 'debug'|'info'|'warning'|'error',
+     *   origin: 'syslog'|'upgrade'|'tracker', source, message, created_by}
+     *   truncated is true when a log table had more entries in the window than are returned,
+     *   or the batch ran longer than MAX_WINDOW_HOURS
+     * @throws {Error} With status 404 when the batch does not exist
+     */
+    getLogs: function(batchId) {
+        var batchGR = new GlideRecord(this.BATCH_TABLE);
+        if (!batchId || !batchGR.get(batchId)) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+
+        var timeWindow = this._window(batchGR);
+        var trackers = this._loadTrackers(batchGR.getUniqueValue());
+        var packages = this._loadPackages(batchGR.getUniqueValue());
+
+        var syslog = this._loadSyslog(timeWindow, this._sources(packages), this._ids(batchGR, trackers));
+        var upgradeLog = this._loadUpgradeLog(timeWindow, packages);
+        var entries = syslog.entries
+            .concat(upgradeLog.entries)
+            .concat(this._trackerEntries(trackers.records));
+
+        entries.sort(function(a, b) {
+            return a.time < b.time ? -1 : a.time > b.time ? 1 : 0;
+        });
+
+        return {
+            batch_id: batchGR.getUniqueValue(),
+            window: {
+                start: timeWindow.start.getValue(),
+                end: timeWindow.end.getValue()
+            },
+            entries: entries,
+            truncated: syslog.truncated || upgradeLog.truncated || timeWindow.capped
+        };
+    },
+
+    /**
+     * requested_on to completed_on (now while running), with a margin on both sides - at most MAX_WINDOW_HOURS long
+     */
+    _window: function(batchGR) {
+        var start = new GlideDateTime(batchGR.getValue('requested_on') || batchGR.getValue('sys_created_on'));
+        start.addSeconds(-this.WINDOW_BEFORE_SECONDS);
+
+        var end = batchGR.getValue('completed_on') ? new GlideDateTime(batchGR.getValue('completed_on')) : new GlideDateTime();
+        end.addSeconds(this.WINDOW_AFTER_SECONDS);
+
+        var limit = new GlideDateTime(start);
+        limit.addSeconds(this.MAX_WINDOW_HOURS * 3600);
+        var capped = end.getNumericValue() > limit.getNumericValue();
+
+        return { start: start, end: capped ? limit : end, capped: capped };
+    },
+
+    /**
+     * The progress records of the batch items (one installer run each) and their children, oldest first
+     * @returns {Object} {progress_ids: item progress record sys_ids, records}
+     */
+    _loadTrackers: function(batchId) {
+        var trackers = [];
+        var progressIds = [];
+
+        var itemGR = new GlideRecord(this.ITEM_TABLE);
+        itemGR.addQuery('batch', batchId);
+        itemGR.addNotNullQuery('progress_id');
+        itemGR.query();
+        while (itemGR.next()) {
+            progressIds.push(itemGR.getValue('progress_id'));
+        }
+        if (progressIds.length === 0) {
+            return { progress_ids: progressIds, records: trackers };
+        }
+
+        var trackerGR = new GlideRecord(this.TRACKER_TABLE);
+        var condition = trackerGR.addQuery('sys_id', 'IN', progressIds.join(','));
+        condition.addOrCondition('parent', 'IN', progressIds.join(','));
+        trackerGR.orderBy('sys_created_on');
+        trackerGR.query();
+
+        while (trackerGR.next()) {
+            trackers.push({
+                sys_id: trackerGR.getUniqueValue(),
+                name: trackerGR.getValue('name') || '',
+                state: trackerGR.getValue('state'),
+                message: this._trackerMessage(trackerGR),
+                created_on: trackerGR.getValue('sys_created_on'),
+                updated_on: trackerGR.getValue('sys_updated_on')
+            });
+        }
+
+        return { progress_ids: progressIds, records: trackers };
+    },
+
+    /**
+     * Scopes of the batch applications and ids of its plugins - the names the platform logs them under
+     */
+    _loadPackages: function(batchId) {
+        var applications = [];
+        var packages = [];
+
+        var itemGR = new GlideRecord(this.ITEM_TABLE);
+        itemGR.addQuery('batch', batchId);
+        itemGR.query();
+        while (itemGR.next()) {
+            if (itemGR.getValue('application')) {
+                applications.push(itemGR.getValue('application'));
+            }
+            if (itemGR.getValue('plugin_id')) {
+                packages.push(itemGR.getValue('plugin_id'));
+            }
+        }
+
+        if (applications.length > 0) {
+            var appGR = new GlideRecord('sys_store_app');
+            appGR.addQuery('sys_id', 'IN', applications.join(','));
+            appGR.query();
+            while (appGR.next()) {
+                if (appGR.getValue('scope')) {
+                    packages.push(appGR.getValue('scope'));
+                }
+            }
+        }
+
+        return this._unique(packages);
+    },
+
+    // syslog.source values of the batch - this application and the scopes / plugins it installs
+    _sources: function(packages) {
+        return this._unique(this.APP_SOURCES.concat(packages)).slice(0, this.MAX_SOURCE_COUNT);
+    },
+
+    // Ids that only appear in messages about this batch - the batch and the progress records of all its item runs
+    _ids: function(batchGR, trackers) {
+        return [batchGR.getUniqueValue()].concat(trackers.progress_ids);
+    },
+
+    /**
+     * syslog entries of the window whose source is one of the batch sources, or whose message names the batch
+     * or one of its progress records - source is an exact match, only the ids use CONTAINS
+     */
+    _loadSyslog: function(timeWindow, sources, ids) {
+        var logGR = new GlideRecord(this.SYSLOG_TABLE);
+        logGR.addQuery('sys_created_on', '>=', timeWindow.start);
+        logGR.addQuery('sys_created_on', '<=', timeWindow.end);
+
+        var condition = logGR.addQuery('source', 'IN', sources.join(','));
+        ids.forEach(function(id) {
+            condition.addOrCondition('message', 'CONTAINS', id);
+        });
+
+        logGR.orderBy('sys_created_on');
+        logGR.setLimit(this.MAX_SYSLOG_ENTRIES + 1);
+        logGR.query();
+
+        var entries = [];
+        while (entries.length < this.MAX_SYSLOG_ENTRIES && logGR.next()) {
+            entries.push({
+                id: logGR.getUniqueValue(),
+                time: logGR.getValue('sys_created_on'),
+                level: this.SYSLOG_LEVELS[logGR.getValue('level')] || 'info',
+                origin: 'syslog',
+                source: logGR.getValue('source') || '',
+                message: logGR.getValue('message') || '',
+                created_by: logGR.getValue('sys_created_by') || ''
+            });
+        }
+
+        return { entries: entries, truncated: logGR.hasNext() };
+    },
+
+    /**
+     * Upgrade log rows of the batch scopes / plugins written in the window - routine file dispositions are debug entries
+     */
+    _loadUpgradeLog: function(timeWindow, packages) {
+        var logGR = new GlideRecord(this.UPGRADE_LOG_TABLE);
+        if (packages.length === 0 || !logGR.isValid() || !logGR.isValidField(this.UPGRADE_LOG_PACKAGE_FIELD)) {
+            return { entries: [], truncated: false };
+        }
+
+        logGR.addQuery('sys_created_on', '>=', timeWindow.start);
+        logGR.addQuery('sys_created_on', '<=', timeWindow.end);
+        logGR.addQuery(this.UPGRADE_LOG_PACKAGE_FIELD, 'IN', packages.join(','));
+        logGR.orderBy('sys_created_on');
+        logGR.setLimit(this.MAX_UPGRADE_LOG_ENTRIES + 1);
+        logGR.query();
+
+        var entries = [];
+        while (entries.length < this.MAX_UPGRADE_LOG_ENTRIES && logGR.next()) {
+            var disposition = this._field(logGR, 'disposition');
+            var comments = this._field(logGR, 'comments');
+            var fileName = this._field(logGR, 'file_name');
+
+            entries.push({
+                id: logGR.getUniqueValue(),
+                time: logGR.getValue('sys_created_on'),
+                level: this._upgradeLevel(disposition + ' ' + comments),
+                origin: 'upgrade',
+                source: logGR.getValue(this.UPGRADE_LOG_PACKAGE_FIELD) || 'Upgrade log',
+                message: [fileName, disposition, comments].filter(Boolean).join(' - '),
+                created_by: logGR.getValue('sys_created_by') || ''
+            });
+        }
+
+        return { entries: entries, truncated: logGR.hasNext() };
+    },
+
+    _upgradeLevel: function(text) {
+        var value = text.toLowerCase();
+        if (value.indexOf('error') !== -1 || value.indexOf('fail') !== -1) {
+            return 'error';
+        }
+        if (value.indexOf('skip') !== -1 || value.indexOf('warn') !== -1) {
+            return 'warning';
+        }
+        return 'debug';
+    },
+
+    /**
+     * One entry per tracker with its final (or latest) message
+     */
+    _trackerEntries: function(trackers) {
+        return trackers.filter(function(tracker) {
+            return tracker.message;
+        }).map(function(tracker) {
+            return {
+                id: tracker.sys_id,
+                time: tracker.updated_on || tracker.created_on,
+                level: this.TRACKER_LEVELS[tracker.state] || 'info',
+                origin: 'tracker',
+                source: tracker.name || 'Execution tracker',
+                message: tracker.message,
+                created_by: ''
+            };
+        }, this);
+    },
+
+    _trackerMessage: function(trackerGR) {
+        var fields = ['message', 'result'];
+        for (var i = 0; i < fields.length; i++) {
+            if (trackerGR.isValidField(fields[i]) && trackerGR.getValue(fields[i])) {
+                return trackerGR.getValue(fields[i]);
+            }
+        }
+        return '';
+    },
+
+    _unique: function(values) {
+        var seen = {};
+        return values.filter(function(value) {
+            if (!value || seen[value]) {
+                return false;
+            }
+            seen[value] = true;
+            return true;
+        });
+    },
+
+    _field: function(gr, field) {
+        return gr.isValidField(field) ? gr.getValue(field) || '' : '';
+    },
+
+    _error: function(status, message) {
+        var error = new Error(message);
+        error.status = status;
+        return error;
+    },
+
+    type: 'InstallBatchLogService'
+};
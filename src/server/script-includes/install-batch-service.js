@@ -0,0 +1,957 @@
+// src/server/script-includes/install-batch-service.js
+// Install Batch Service - audit history of install_updates batches (x_snc_store_upda_1_install_batch)
+// OUTCOMES: Each app of a batch has an x_snc_store_upda_1_install_batch_item row, updated from its progress record
+// CANCEL: cancel() stops the queued items of a running batch - the installing item always finishes first
+// SEQUENTIAL: Items run one at a time, each as its own installer run - sync() (the sync job, cancel) closes the
+// installing item from its progress record and queues the next one, so a cancel takes effect between items without
+// touching platform trackers. Item changes are conditional updates, so concurrent runs and syncs never both act.
+// READS: getBatch(), getOutcomes(), getLock() and findByIdempotencyKey() only read - they never advance a batch
+// OPTIONS: continue_on_error keeps a batch going past a failed item
+// RETRY: buildRetry() turns the failed / skipped items of a finished batch into a new request (retry_of links them)
+// COMPATIBILITY: start() rejects app batches with an incompatible target version (400), like the install plan
+// LOCK: One batch runs at a time - start() throws 409 naming the running batch; admins can release a stale lock
+// ASYNC: queue() hands a recorded batch to run() through an event, so install_updates answers 202 right away
+// IDEMPOTENCY: start() stores the X-Idempotency-Key - findByIdempotencyKey() returns the batch a repeated call created
+// ESTIMATES: Succeeded items record duration_ms for InstallDurationEstimator; getOutcomes() reports the time remaining
+// ESTIMATES: Item start / completion times come from the item's progress record, not from when a sync observed the change
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var InstallBatchService = Class.create();
+InstallBatchService.prototype = {
+
+    /**
+     * Initialize the Install Batch Service
+     */
+    initialize: function() {
+        this.TABLE = 'x_snc_store_upda_1_install_batch';
+        this.ITEM_TABLE = 'x_snc_store_upda_1_install_batch_item';
+        this.TRACKER_TABLE = 'sys_execution_tracker';
+        // Final sys_execution_tracker.state of an item's progress record -> item state
+        this.TRACKER_ITEM_STATES = {
+            '2': 'succeeded',
+            '3': 'skipped', // Cancelled on the platform
+            '4': 'failed'
+        };
+        this.ITEM_STATES = ['queued', 'installing', 'succeeded', 'failed', 'skipped'];
+        this.RETRY_STATES = ['failed', 'skipped'];
+        this.MAX_LABEL_LENGTH = 100;
+        this.MAX_ERROR_LENGTH = 4000;
+        // A running batch whose progress record has not changed for this long may have its lock released
+        this.LOCK_STALE_MINUTES = 30;
+        this.RUN_EVENT = 'x_snc_store_upda_1.install_batch.queued';
+        this.INSTALL_SUBFLOW = 'x_snc_store_upda_1.process_plugin_updates';
+    },
+
+    /**
+     * Record a batch that is about to start
+     * @param {String} kind - 'app' or 'plugin'
+     * @param {Object} request - Normalized request (InstallRequestParser) or {items: [{plugin_id}]} for plugins;
+     *   retry_of links a retry to its original batch, continue_on_error is stored for run()
+     * @param {String} [idempotencyKey] - X-Idempotency-Key of the request
+     * @returns {String} Batch sys_id
+     * @throws {Error} With status 400 and errors ([{field, message}]) when a target version is incompatible with
+     *   this instance, 409 and lock (getLock()) when another batch is running
+     */
+    start: function(kind, request, idempotencyKey) {
+        if (kind === 'app') {
+            this._checkCompatibility(request);
+        }
+
+        // A batch whose last item has ended no longer holds the lock - finish it first
+        var current = this._lockHolder();
+        while (current && this.sync(current)) {
+            current = this._lockHolder();
+        }
+        if (current) {
+            throw this._lockError(this._describeLock(current));
+        }
+
+        var items = kind === 'app' ? this._describeAppItems(request.items) : request.items;
+        var batchGR = new GlideRecord(this.TABLE);
+
+        batchGR.initialize();
+        batchGR.setValue('requester', gs.getUserID());
+        batchGR.setValue('requested_on', new GlideDateTime());
+        batchGR.setValue('kind', kind);
+        batchGR.setValue('label', request.label || '');
+        batchGR.setValue('continue_on_error', !!request.continue_on_error);
+        if (request.retry_of && this._get(request.retry_of)) {
+            batchGR.setValue('parent_batch', request.retry_of);
+        }
+        batchGR.setValue('client_request_id', request.client_request_id || '');
+        batchGR.setValue('idempotency_key', idempotencyKey || '');
+        batchGR.setValue('items', JSON.stringify(items));
+        batchGR.setValue('applications', items.map(function(item) {
+            return item.application || item.plugin_id;
+        }).join(','));
+        batchGR.setValue('app_count', items.length);
+        batchGR.setValue('status', 'running');
+        batchGR.setValue('status_message', 'Queued');
+
+        var batchId = batchGR.insert();
+
+        // Two requests can pass the check above together - the earliest running batch keeps the lock
+        var holder = this._lockHolder();
+        if (holder && holder.getUniqueValue() !== batchId) {
+            batchGR.deleteRecord();
+            throw this._lockError(this._describeLock(holder));
+        }
+
+        this._createItems(batchId, items);
+        return batchId;
+    },
+
+    /**
+     * The batch an earlier install_updates call of the current user created with the same idempotency key
+     * @param {String} idempotencyKey - X-Idempotency-Key header value
+     * @returns {Object|null} {batch: _describeBatch(), apps_requested} or null for a new key
+     */
+    findByIdempotencyKey: function(idempotencyKey) {
+        if (!idempotencyKey) {
+            return null;
+        }
+
+        var batchGR = new GlideRecord(this.TABLE);
+        batchGR.addQuery('idempotency_key', idempotencyKey);
+        batchGR.addQuery('requester', gs.getUserID());
+        batchGR.orderBy('requested_on');
+        batchGR.setLimit(1);
+        batchGR.query();
+        if (!batchGR.next()) {
+            return null;
+        }
+
+        return {
+            batch: this._describeBatch(batchGR),
+            apps_requested: this._loadItems(batchGR.getUniqueValue()).map(function(item) {
+                return item.plugin_id || item.target_version;
+            }).join(',')
+        };
+    },
+
+    /**
+     * Queue a recorded batch for run() - the RUN_EVENT script action starts the installer in the background
+     * @param {String} batchId - Batch sys_id
+     */
+    queue: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+
+        gs.eventQueue(this.RUN_EVENT, batchGR, batchId, '');
+    },
+
+    /**
+     * Start the next queued item of a running batch: the process_plugin_updates subflow for an application,
+     * PluginUpdatesProcessor for a plugin. Runs in the event worker, in the background of install_updates.
+     * The item is claimed with a conditional update before the installer is called - a second run (another node,
+     * a repeated event) finds nothing to claim, and a cancel arriving meanwhile waits for the item to finish.
+     * @param {String} batchId - Batch sys_id
+     */
+    run: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR || batchGR.getValue('status') !== 'running' || this._installingItem(batchId)) {
+            return;
+        }
+
+        var itemGR = this._nextItem(batchId);
+        if (this._cancelRequested(batchGR) || !itemGR) {
+            this._advance(batchGR);
+            return;
+        }
+
+        if (!this._transition(itemGR, 'queued', { state: 'installing', started_on: new GlideDateTime() })) {
+            return;
+        }
+        itemGR = this._get(itemGR.getUniqueValue(), this.ITEM_TABLE);
+
+        // A cancel that came in before the claim ends the batch here - the item never reaches the installer
+        batchGR = this._get(batchId);
+        if (batchGR.getValue('status') !== 'running' || this._cancelRequested(batchGR)) {
+            itemGR.setValue('state', 'queued');
+            itemGR.setValue('started_on', '');
+            itemGR.update();
+            if (batchGR.getValue('status') === 'running') {
+                this._complete(batchGR, 'cancelled', this._cancelMessage(batchGR));
+            }
+            return;
+        }
+
+        var label = this._describeItem(itemGR) + ' (' + this._position(itemGR) + ')';
+        batchGR.setValue('status_message', 'Starting ' + label);
+        batchGR.update();
+
+        try {
+            var result = batchGR.getValue('kind') === 'plugin'
+                ? new x_snc_store_upda_1.PluginUpdatesProcessor().install([itemGR.getValue('plugin_id')])
+                : this._runSubflow(itemGR.getValue('target_version'));
+
+            itemGR.setValue('progress_id', result.progress_id || '');
+            itemGR.update();
+
+            gs.info('Install batch ' + batchId + ' started ' + label + '. Progress ID: ' + result.progress_id +
+                ', Status: ' + result.status_message);
+            this.markStarted(batchId, result.progress_id, 'Installing ' + label);
+        } catch (ex) {
+            var errorMessage = ex.getMessage ? ex.getMessage() : ex.toString();
+            gs.error('Install batch ' + batchId + ' failed to start ' + label + ': ' + errorMessage, ex);
+
+            itemGR.setValue('state', 'failed');
+            itemGR.setValue('error', errorMessage.substring(0, this.MAX_ERROR_LENGTH));
+            this._setCompleted(itemGR, 'failed', null);
+            itemGR.update();
+            this._advance(this._get(batchId));
+        }
+    },
+
+    /**
+     * The CI/CD action accepted an item - progress_id is the progress record of that item's run
+     */
+    markStarted: function(batchId, progressId, statusMessage) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            return;
+        }
+
+        batchGR.setValue('progress_id', progressId || '');
+        batchGR.setValue('status_message', statusMessage || '');
+        batchGR.update();
+    },
+
+    /**
+     * The batch ended - duration is measured from requested_on
+     * @param {String} batchId - Batch sys_id
+     * @param {String} status - 'succeeded' or 'failed'
+     * @param {String} [message] - Final status message, also stored as the error of failed batches
+     */
+    complete: function(batchId, status, message) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            return;
+        }
+
+        this._complete(batchGR, status, message);
+    },
+
+    /**
+     * Advance running batches whose installing item has ended
+     * @returns {Number} Number of batches finalized
+     */
+    syncRunning: function() {
+        var finalized = 0;
+        var batchGR = new GlideRecord(this.TABLE);
+        batchGR.addQuery('status', 'running');
+        batchGR.query();
+
+        while (batchGR.next()) {
+            if (this.sync(batchGR)) {
+                finalized++;
+            }
+        }
+
+        return finalized;
+    },
+
+    /**
+     * Close the installing item of a running batch once its progress record has ended, then queue the next item
+     * or end the batch. Without an installing item only a cancel ends the batch - nothing runs on the platform then.
+     * @param {GlideRecord} batchGR - Batch record
+     * @returns {Boolean} True when the batch ended
+     */
+    sync: function(batchGR) {
+        var itemGR = this._installingItem(batchGR.getUniqueValue());
+        if (itemGR) {
+            return this._syncItem(itemGR) ? this._advance(batchGR) : false;
+        }
+
+        if (this._cancelRequested(batchGR)) {
+            this._complete(batchGR, 'cancelled', this._cancelMessage(batchGR));
+            return true;
+        }
+        return false;
+    },
+
+    /**
+     * Cancel a running batch at the next safe point: no further item is started, an item that is installing is
+     * never interrupted - the batch ends as cancelled (queued items skipped) once its progress record has ended
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} getOutcomes() of the batch plus cancelled (true when the batch already ended)
+     * @throws {Error} With status 404 when the batch does not exist, 409 when it is not running
+     */
+    cancel: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+        if (batchGR.getValue('status') !== 'running') {
+            throw this._error(409, 'Install batch is not running (status: ' + batchGR.getValue('status') + ')');
+        }
+
+        if (!this._cancelRequested(batchGR)) {
+            batchGR.setValue('cancel_requested', true);
+            batchGR.setValue('cancelled_by', gs.getUserID());
+            batchGR.setValue('cancel_requested_on', new GlideDateTime());
+            batchGR.setValue('status_message', 'Cancel requested - waiting for the installing item to finish');
+            batchGR.update();
+            gs.info('Install batch ' + batchId + ' cancel requested by ' + gs.getUserName());
+        }
+
+        // Ends the batch right away unless an item is installing
+        this.sync(batchGR);
+
+        var outcomes = this.getOutcomes(batchId);
+        outcomes.cancelled = outcomes.batch.status === 'cancelled';
+        return outcomes;
+    },
+
+    /**
+     * The running batch that holds the install lock - start() finishes a holder whose last item has ended
+     * @returns {Object|null} {batch_id, label, kind, requester, requester_name, owned, requested_on, progress_id,
+     *   last_activity, stale} or null when no batch is running
+     */
+    getLock: function() {
+        var holder = this._lockHolder();
+        return holder ? this._describeLock(holder) : null;
+    },
+
+    /**
+     * Break the lock of a batch that stopped making progress: the batch ends as failed and its
+     * queued items are skipped, so a new batch can start. Live batches must be cancelled instead.
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} getOutcomes() of the released batch
+     * @throws {Error} With status 404 when the batch does not exist, 409 when it is not running or not stale
+     */
+    releaseLock: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+        if (batchGR.getValue('status') !== 'running' || this.sync(batchGR)) {
+            throw this._error(409, 'Install batch is not running (status: ' + batchGR.getValue('status') + ')');
+        }
+
+        var lock = this._describeLock(batchGR);
+        if (!lock.stale) {
+            throw this._error(409, 'Install batch is still making progress (last activity ' + lock.last_activity +
+                ') - cancel it instead');
+        }
+
+        var message = 'Lock released by ' + gs.getUserDisplayName() + ' - no progress since ' + lock.last_activity;
+        gs.warn('Install batch ' + batchId + ': ' + message);
+        this._complete(batchGR, 'failed', message);
+
+        return this.getOutcomes(batchId);
+    },
+
+    /**
+     * Status of a batch as last synced - progress_id stays empty until run() has started the installer
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} _describeBatch() of the batch
+     * @throws {Error} With status 404 when the batch does not exist
+     */
+    getBatch: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+
+        return this._describeBatch(batchGR);
+    },
+
+    /**
+     * Per-app outcomes of a batch as last synced
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} {batch: _describeBatch(), items, summary, failed_item, remaining}
+     *   remaining: InstallDurationEstimator.remaining() while the batch runs, null afterwards
+     * @throws {Error} With status 404 when the batch does not exist
+     */
+    getOutcomes: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+
+        var items = this._loadItems(batchGR.getUniqueValue());
+        var summary = {};
+        for (var i = 0; i < this.ITEM_STATES.length; i++) {
+            summary[this.ITEM_STATES[i]] = 0;
+        }
+        items.forEach(function(item) {
+            summary[item.state] = (summary[item.state] || 0) + 1;
+        });
+
+        return {
+            batch: this._describeBatch(batchGR),
+            items: items,
+            summary: summary,
+            failed_item: items.filter(function(item) {
+                return item.state === 'failed';
+            })[0] || null,
+            remaining: batchGR.getValue('status') === 'running'
+                ? new x_snc_store_upda_1.InstallDurationEstimator().remaining(items)
+                : null
+        };
+    },
+
+    /**
+     * Build the retry of a finished batch from its failed and skipped items.
+     * Items are re-checked first: apps already at (or past) the target version and plugins that
+     * no longer need an activation or upgrade are reported as not applicable instead of retried.
+     * @param {String} batchId - Batch sys_id
+     * @returns {Object} {batch_id, kind, request, retry_items, not_applicable: [{name, version, reason}]}
+     *   request is an install_updates body (schema_version 1 items, or plugins) with retry_of set
+     * @throws {Error} With status 404 when the batch does not exist, 409 when it is running or has nothing to retry
+     */
+    buildRetry: function(batchId) {
+        var batchGR = this._get(batchId);
+        if (!batchGR) {
+            throw this._error(404, 'Install batch not found: ' + batchId);
+        }
+        if (batchGR.getValue('status') === 'running') {
+            throw this._error(409, 'Install batch is still running');
+        }
+
+        var retryStates = this.RETRY_STATES;
+        var candidates = this._loadItems(batchId).filter(function(item) {
+            return retryStates.indexOf(item.state) !== -1;
+        });
+        if (candidates.length === 0) {
+            throw this._error(409, 'Install batch has no failed or skipped items to retry');
+        }
+
+        var kind = batchGR.getValue('kind');
+        var checked = kind === 'plugin' ? this._checkPluginRetry(candidates) : this._checkAppRetry(candidates);
+        var label = ('Retry of ' + (batchGR.getValue('label') || (kind === 'plugin' ? 'plugin batch' : 'application batch')))
+            .substring(0, this.MAX_LABEL_LENGTH);
+
+        var request = kind === 'plugin'
+            ? {
+                plugins: checked.retry.map(function(item) {
+                    return item.plugin_id;
+                }).join(','),
+                retry_of: batchId
+            }
+            : {
+                schema_version: 1,
+                label: label,
+                continue_on_error: this._flag(batchGR, 'continue_on_error'),
+                retry_of: batchId,
+                items: checked.retry.map(function(item, index) {
+                    return { application: item.application, target_version: item.target_version, order: index };
+                })
+            };
+
+        return {
+            batch_id: batchId,
+            kind: kind,
+            request: request,
+            retry_items: checked.retry,
+            not_applicable: checked.notApplicable
+        };
+    },
+
+    _checkAppRetry: function(items) {
+        var comparator = new x_snc_store_upda_1.VersionComparator();
+        var installed = {};
+        var available = {};
+
+        var storeAppGR = new GlideRecord('sys_store_app');
+        storeAppGR.addQuery('sys_id', 'IN', items.map(function(item) {
+            return item.application;
+        }).join(','));
+        storeAppGR.query();
+        while (storeAppGR.next()) {
+            installed[storeAppGR.getUniqueValue()] = storeAppGR.getValue('version');
+        }
+
+        var versionGR = new GlideRecord('sys_app_version');
+        versionGR.addQuery('sys_id', 'IN', items.map(function(item) {
+            return item.target_version;
+        }).join(','));
+        versionGR.query();
+        while (versionGR.next()) {
+            available[versionGR.getUniqueValue()] = true;
+        }
+
+        var result = { retry: [], notApplicable: [] };
+        items.forEach(function(item) {
+            var installedVersion = installed[item.application];
+            var reason = '';
+
+            if (!available[item.target_version]) {
+                reason = 'Version ' + item.version + ' is no longer available';
+            } else if (installedVersion && !comparator.isUpdate(installedVersion, item.version)) {
+                reason = 'Already at version ' + installedVersion;
+            }
+
+            if (reason) {
+                result.notApplicable.push({ name: item.name, version: item.version, reason: reason });
+            } else {
+                item.installed_version = installedVersion || '';
+                result.retry.push(item);
+            }
+        });
+
+        return result;
+    },
+
+    _checkPluginRetry: function(items) {
+        var pending = {};
+        new x_snc_store_upda_1.PluginUpdatesProcessor().getPluginUpdates(items.map(function(item) {
+            return item.plugin_id;
+        })).forEach(function(row) {
+            pending[row.plugin_id] = true;
+        });
+
+        var result = { retry: [], notApplicable: [] };
+        items.forEach(function(item) {
+            if (pending[item.plugin_id]) {
+                result.retry.push(item);
+            } else {
+                result.notApplicable.push({ name: item.name || item.plugin_id, version: '', reason: 'Already active and up to date' });
+            }
+        });
+
+        return result;
+    },
+
+    _complete: function(batchGR, status, message) {
+        var completedOn = new GlideDateTime();
+        var requestedOn = new GlideDateTime(batchGR.getValue('requested_on'));
+
+        var failedItem = this._finalizeItems(batchGR.getUniqueValue(), status, message);
+
+        batchGR.setValue('status', status);
+        batchGR.setValue('completed_on', completedOn);
+        batchGR.setValue('duration_ms', completedOn.getNumericValue() - requestedOn.getNumericValue());
+        if (message) {
+            batchGR.setValue('status_message', message.substring(0, 1000));
+        }
+        if (status === 'failed') {
+            var error = message || 'Batch failed';
+            if (failedItem) {
+                error = 'Failed at ' + this._describeItem(failedItem) + ': ' + (failedItem.getValue('error') || error);
+            }
+            batchGR.setValue('error', error.substring(0, this.MAX_ERROR_LENGTH));
+        }
+        batchGR.update();
+    },
+
+    /**
+     * Incompatible target versions are never installed - AppCompatibilityChecker, as for the install plan
+     */
+    _checkCompatibility: function(request) {
+        var rows = request.items.map(function(item) {
+            return { available_version: item.target_version };
+        });
+        new x_snc_store_upda_1.AppCompatibilityChecker().annotate(rows);
+
+        var prefix = request.schema_version === 0 ? 'apps' : 'items';
+        var errors = [];
+        for (var i = 0; i < rows.length; i++) {
+            if (rows[i].compatibility === 'incompatible') {
+                errors.push({
+                    field: prefix + '[' + request.items[i].request_index + ']' + (prefix === 'items' ? '.target_version' : ''),
+                    message: rows[i].compatibility_reason
+                });
+            }
+        }
+
+        if (errors.length > 0) {
+            var error = this._error(400, 'Incompatible with this instance: ' + errors.map(function(entry) {
+                return entry.message;
+            }).join('; '));
+            error.errors = errors;
+            throw error;
+        }
+    },
+
+    _createItems: function(batchId, items) {
+        for (var i = 0; i < items.length; i++) {
+            var itemGR = new GlideRecord(this.ITEM_TABLE);
+            itemGR.initialize();
+            itemGR.setValue('batch', batchId);
+            itemGR.setValue('order', items[i].order);
+            itemGR.setValue('application', items[i].application || '');
+            itemGR.setValue('plugin_id', items[i].plugin_id || '');
+            itemGR.setValue('name', items[i].name || items[i].plugin_id || '');
+            itemGR.setValue('installed_version', items[i].installed_version || '');
+            itemGR.setValue('target_version', items[i].target_version || '');
+            itemGR.setValue('version', items[i].version || '');
+            itemGR.setValue('state', 'queued');
+            itemGR.insert();
+        }
+    },
+
+    /**
+     * Close the items a finished batch left open.
+     * Succeeded batch: every open item succeeded. Failed batch: an installing item (left by a released lock) broke it
+     * unless another item already failed, queued items never ran and are skipped.
+     * Cancelled batch: every open item is skipped.
+     * @returns {GlideRecord|null} The failed item, if any
+     */
+    _finalizeItems: function(batchId, status, message) {
+        var failedItem = null;
+        var itemGR = this._queryItems(batchId);
+
+        while (itemGR.next()) {
+            var state = itemGR.getValue('state');
+
+            if (state === 'failed') {
+                failedItem = failedItem || this._get(itemGR.getUniqueValue(), this.ITEM_TABLE);
+                continue;
+            }
+            if (state !== 'queued' && state !== 'installing') {
+                continue;
+            }
+
+            if (status === 'succeeded') {
+                itemGR.setValue('state', 'succeeded');
+            } else if (status === 'cancelled') {
+                itemGR.setValue('state', 'skipped');
+                itemGR.setValue('error', message || 'Cancelled');
+            } else if (state === 'installing' && !failedItem) {
+                itemGR.setValue('state', 'failed');
+                itemGR.setValue('error', (message || 'Install failed').substring(0, this.MAX_ERROR_LENGTH));
+            } else {
+                itemGR.setValue('state', 'skipped');
+            }
+            this._setCompleted(itemGR, itemGR.getValue('state'), this._itemTrackerTimes(itemGR));
+            itemGR.update();
+
+            if (itemGR.getValue('state') === 'failed') {
+                failedItem = this._get(itemGR.getUniqueValue(), this.ITEM_TABLE);
+            }
+        }
+
+        return failedItem;
+    },
+
+    /**
+     * Close an installing item whose progress record has ended
+     * @returns {Boolean} True when the item was closed
+     */
+    _syncItem: function(itemGR) {
+        var trackerGR = this._get(itemGR.getValue('progress_id'), this.TRACKER_TABLE);
+        var state = trackerGR ? this.TRACKER_ITEM_STATES[trackerGR.getValue('state')] : null;
+        // A concurrent sync that closed the item first also advances the batch
+        if (!state || !this._transition(itemGR, 'installing', { state: state })) {
+            return false;
+        }
+
+        itemGR = this._get(itemGR.getUniqueValue(), this.ITEM_TABLE);
+        this._setCompleted(itemGR, state, this._trackerTimes(trackerGR));
+        if (state === 'failed') {
+            itemGR.setValue('error', (this._trackerMessage(trackerGR) || 'Install failed').substring(0, this.MAX_ERROR_LENGTH));
+        } else if (state === 'skipped') {
+            itemGR.setValue('error', this._trackerMessage(trackerGR) || 'Cancelled on the platform');
+        }
+        itemGR.update();
+        return true;
+    },
+
+    /**
+     * Move an item out of a state only if it is still in it - the update is conditional on the state and tagged with a
+     * fresh claim token, so of two runs or syncs racing for the item exactly one reads its own token back
+     * @param {Object} values - Field values to set with the new state
+     * @returns {Boolean} True when this call made the change
+     */
+    _transition: function(itemGR, fromState, values) {
+        var token = gs.generateGUID();
+        var updateGR = new GlideRecord(this.ITEM_TABLE);
+        updateGR.addQuery('sys_id', itemGR.getUniqueValue());
+        updateGR.addQuery('state', fromState);
+        updateGR.setValue('claim_token', token);
+        for (var field in values) {
+            updateGR.setValue(field, values[field]);
+        }
+        updateGR.updateMultiple();
+
+        var claimedGR = this._get(itemGR.getUniqueValue(), this.ITEM_TABLE);
+        return !!claimedGR && claimedGR.getValue('claim_token') === token;
+    },
+
+    /**
+     * Nothing is installing: end the batch when a cancel was requested, no item is left or an item failed
+     * (unless the batch continues on error), otherwise queue the next item.
+     * A batch with a failed item ends as failed even when it continued past it.
+     * @returns {Boolean} True when the batch ended
+     */
+    _advance: function(batchGR) {
+        var batchId = batchGR.getUniqueValue();
+        if (this._cancelRequested(batchGR)) {
+            this._complete(batchGR, 'cancelled', this._cancelMessage(batchGR));
+            return true;
+        }
+
+        var failedCount = this._countItems(batchId, 'failed');
+        var nextGR = this._nextItem(batchId);
+
+        if (nextGR && (failedCount === 0 || this._flag(batchGR, 'continue_on_error'))) {
+            batchGR.setValue('status_message', 'Queued ' + this._describeItem(nextGR) + ' (' + this._position(nextGR) + ')');
+            batchGR.update();
+            this.queue(batchId);
+            return false;
+        }
+
+        var installed = 'Installed ' + this._countItems(batchId, 'succeeded') + ' of ' + batchGR.getValue('app_count') + ' items';
+        if (failedCount === 0) {
+            this._complete(batchGR, 'succeeded', installed);
+        } else {
+            this._complete(batchGR, 'failed', nextGR ? 'Install failed' : installed + ' - ' + failedCount + ' failed');
+        }
+        return true;
+    },
+
+    _installingItem: function(batchId) {
+        var itemGR = this._queryItems(batchId, 'installing');
+        return itemGR.next() ? itemGR : null;
+    },
+
+    _nextItem: function(batchId) {
+        var itemGR = this._queryItems(batchId, 'queued');
+        return itemGR.next() ? itemGR : null;
+    },
+
+    _countItems: function(batchId, state) {
+        var count = 0;
+        var itemGR = this._queryItems(batchId, state);
+        while (itemGR.next()) {
+            count++;
+        }
+        return count;
+    },
+
+    // "2 of 5" - install position of an item in its batch
+    _position: function(itemGR) {
+        var batchGR = this._get(itemGR.getValue('batch'));
+        var count = batchGR ? batchGR.getValue('app_count') : '?';
+        return ((parseInt(itemGR.getValue('order'), 10) || 0) + 1) + ' of ' + count;
+    },
+
+    /**
+     * Close an item - a succeeded item that has a start time records how long it took.
+     * Times are those of the item's progress record; without one the item is closed now and records no duration.
+     * @param {Object|null} times - _trackerTimes() of the progress record
+     */
+    _setCompleted: function(itemGR, state, times) {
+        // The progress record started the install - run() only claimed the item a moment before
+        if (times && state !== 'skipped') {
+            itemGR.setValue('started_on', times.started_on);
+        }
+
+        var completedOn = times ? new GlideDateTime(times.completed_on) : new GlideDateTime();
+        itemGR.setValue('completed_on', completedOn);
+
+        var startedOn = itemGR.getValue('started_on');
+        if (state === 'succeeded' && startedOn && times) {
+            itemGR.setValue('duration_ms', Math.max(0, completedOn.getNumericValue() - new GlideDateTime(startedOn).getNumericValue()));
+        }
+    },
+
+    /**
+     * When a tracker started and last changed - its own start / completion fields where the release has them,
+     * otherwise created and updated (a final tracker is not updated after it ends)
+     * @returns {Object} {started_on, completed_on} UTC date-time strings
+     */
+    _trackerTimes: function(trackerGR) {
+        return {
+            started_on: this._trackerField(trackerGR, 'start_time') || trackerGR.getValue('sys_created_on'),
+            completed_on: this._trackerField(trackerGR, 'completion_time') || trackerGR.getValue('sys_updated_on')
+        };
+    },
+
+    // _trackerTimes() of the progress record of an item, null when its installer never started
+    _itemTrackerTimes: function(itemGR) {
+        var trackerGR = this._get(itemGR.getValue('progress_id'), this.TRACKER_TABLE);
+        return trackerGR ? this._trackerTimes(trackerGR) : null;
+    },
+
+    _trackerField: function(trackerGR, field) {
+        return trackerGR.isValidField(field) ? trackerGR.getValue(field) || '' : '';
+    },
+
+    _cancelRequested: function(batchGR) {
+        return this._flag(batchGR, 'cancel_requested');
+    },
+
+    _flag: function(gr, field) {
+        var value = gr.getValue(field);
+        return value === '1' || value === 'true';
+    },
+
+    _cancelMessage: function(batchGR) {
+        var userGR = new GlideRecord('sys_user');
+        var name = userGR.get(batchGR.getValue('cancelled_by')) ? userGR.getDisplayValue() : '';
+        return name ? 'Cancelled by ' + name : 'Cancelled';
+    },
+
+    _queryItems: function(batchId, state) {
+        var itemGR = new GlideRecord(this.ITEM_TABLE);
+        itemGR.addQuery('batch', batchId);
+        if (state) {
+            itemGR.addQuery('state', state);
+        }
+        itemGR.orderBy('order');
+        itemGR.query();
+        return itemGR;
+    },
+
+    _loadItems: function(batchId) {
+        var items = [];
+        var itemGR = this._queryItems(batchId);
+
+        while (itemGR.next()) {
+            items.push({
+                sys_id: itemGR.getUniqueValue(),
+                order: parseInt(itemGR.getValue('order'), 10) || 0,
+                application: itemGR.getValue('application') || '',
+                plugin_id: itemGR.getValue('plugin_id') || '',
+                name: itemGR.getValue('name') || '',
+                installed_version: itemGR.getValue('installed_version') || '',
+                target_version: itemGR.getValue('target_version') || '',
+                version: itemGR.getValue('version') || '',
+                state: itemGR.getValue('state'),
+                error: itemGR.getValue('error') || '',
+                progress_id: itemGR.getValue('progress_id') || '',
+                started_on: itemGR.getValue('started_on') || '',
+                completed_on: itemGR.getValue('completed_on') || '',
+                duration_ms: itemGR.getValue('duration_ms') ? parseInt(itemGR.getValue('duration_ms'), 10) : null
+            });
+        }
+
+        return items;
+    },
+
+    _describeItem: function(itemGR) {
+        var name = itemGR.getValue('name') || itemGR.getValue('plugin_id') || itemGR.getValue('application');
+        return itemGR.getValue('version') ? name + ' ' + itemGR.getValue('version') : name;
+    },
+
+    /**
+     * Requested apps with the version installed at request time, for "from -> to" in the history
+     */
+    _describeAppItems: function(items) {
+        var installed = {};
+        var storeAppGR = new GlideRecord('sys_store_app');
+        storeAppGR.addQuery('sys_id', 'IN', items.map(function(item) {
+            return item.application;
+        }).join(','));
+        storeAppGR.query();
+
+        while (storeAppGR.next()) {
+            installed[storeAppGR.getUniqueValue()] = storeAppGR.getValue('version');
+        }
+
+        return items.map(function(item) {
+            return {
+                order: item.order,
+                application: item.application,
+                name: item.name || '',
+                installed_version: installed[item.application] || '',
+                target_version: item.target_version,
+                version: item.version || ''
+            };
+        });
+    },
+
+    _trackerMessage: function(trackerGR) {
+        var fields = ['message', 'result'];
+        for (var i = 0; i < fields.length; i++) {
+            if (trackerGR.isValidField(fields[i]) && trackerGR.getValue(fields[i])) {
+                return trackerGR.getValue(fields[i]);
+            }
+        }
+        return '';
+    },
+
+    _describeBatch: function(batchGR) {
+        return {
+            sys_id: batchGR.getUniqueValue(),
+            kind: batchGR.getValue('kind'),
+            label: batchGR.getValue('label') || '',
+            status: batchGR.getValue('status'),
+            status_message: batchGR.getValue('status_message') || '',
+            progress_id: batchGR.getValue('progress_id') || '',
+            error: batchGR.getValue('error') || '',
+            app_count: parseInt(batchGR.getValue('app_count'), 10) || 0,
+            requested_on: batchGR.getValue('requested_on') || '',
+            completed_on: batchGR.getValue('completed_on') || '',
+            cancel_requested: this._cancelRequested(batchGR),
+            continue_on_error: this._flag(batchGR, 'continue_on_error'),
+            parent_batch: batchGR.getValue('parent_batch') || ''
+        };
+    },
+
+    _runSubflow: function(appVersion) {
+        var outputs = sn_fd.FlowAPI.getRunner()
+            .subflow(this.INSTALL_SUBFLOW)
+            .inForeground() // Waits for the Batch Install step to hand back its progress record, not for the install
+            .withInputs({ apps: appVersion }) // One sys_app_version id - items run one at a time
+            .run()
+            .getOutputs();
+
+        return {
+            progress_id: outputs['progress_id'],
+            status_message: outputs['status_message']
+        };
+    },
+
+    /**
+     * Earliest running batch (requested_on, then sys_id, so concurrent requests agree on the holder)
+     */
+    _lockHolder: function() {
+        var batchGR = new GlideRecord(this.TABLE);
+        batchGR.addQuery('status', 'running');
+        batchGR.orderBy('requested_on');
+        batchGR.orderBy('sys_id');
+        batchGR.setLimit(1);
+        batchGR.query();
+        return batchGR.next() ? batchGR : null;
+    },
+
+    _describeLock: function(batchGR) {
+        var lastActivity = new GlideDateTime(batchGR.getValue('requested_on'));
+        var trackerGR = new GlideRecord(this.TRACKER_TABLE);
+        if (batchGR.getValue('progress_id') && trackerGR.get(batchGR.getValue('progress_id'))) {
+            lastActivity = new GlideDateTime(trackerGR.getValue('sys_updated_on'));
+        }
+
+        var idleMs = new GlideDateTime().getNumericValue() - lastActivity.getNumericValue();
+
+        return {
+            batch_id: batchGR.getUniqueValue(),
+            label: batchGR.getValue('label') || '',
+            kind: batchGR.getValue('kind'),
+            requester: batchGR.getValue('requester') || '',
+            requester_name: batchGR.getDisplayValue('requester') || '',
+            owned: batchGR.getValue('requester') === gs.getUserID(), // Started by the calling user (another tab or session)
+            requested_on: batchGR.getValue('requested_on'),
+            progress_id: batchGR.getValue('progress_id') || '',
+            last_activity: lastActivity.getValue(),
+            stale: idleMs > this.LOCK_STALE_MINUTES * 60 * 1000
+        };
+    },
+
+    _lockError: function(lock) {
+        var error = this._error(409, 'Another install batch is running: ' +
+            (lock.label || (lock.kind === 'plugin' ? 'plugin batch' : 'application batch')) +
+            ' started by ' + (lock.requester_name || 'unknown user') + ' at ' + lock.requested_on + ' (UTC)');
+        error.lock = lock;
+        return error;
+    },
+
+    _error: function(status, message) {
+        var error = new Error(message);
+        error.status = status;
+        return error;
+    },
+
+    _get: function(sysId, table) {
+        var gr = new GlideRecord(table || this.TABLE);
+        return sysId && gr.get(sysId) ? gr : null;
+    },
+
+    type: 'InstallBatchService'
+};
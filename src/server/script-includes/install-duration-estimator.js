@@ -0,0 +1,252 @@
+// src/server/script-includes/install-duration-estimator.js
+// Install Duration Estimator - how long an app version takes to install, learned from succeeded batch items
+// Samples are the duration_ms of succeeded x_snc_store_upda_1_install_batch_item rows: the same version first,
+// then the same application (or plugin), then a default by version jump. Thin history widens the band.
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var InstallDurationEstimator = Class.create();
+InstallDurationEstimator.prototype = {
+
+    /**
+     * Initialize the Install Duration Estimator
+     */
+    initialize: function() {
+        this.ITEM_TABLE = 'x_snc_store_upda_1_install_batch_item';
+        // Per-item duration by version jump while an app has no install history
+        this.DEFAULT_SECONDS = {
+            fresh: 240,
+            major: 300,
+            minor: 180,
+            patch: 90
+        };
+        this.FALLBACK_SECONDS = 180;
+        // Band around a default estimate, and around history with fewer than MIN_SAMPLES durations
+        this.DEFAULT_BAND = { low: 0.4, high: 2.5 };
+        this.THIN_BAND = { low: 0.6, high: 1.6 };
+        this.MIN_SAMPLES = 3;
+        this.MAX_SAMPLES = 20;
+        this.MAX_HISTORY_ROWS = 1000;
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+    },
+
+    /**
+     * Estimate the install duration of each item
+     * @param {Array} items - {application, target_version, plugin_id, version, installed_version, jump (optional)}
+     * @returns {Array} Same order: {seconds, low_seconds, high_seconds, basis, samples}
+     *   basis is 'version', 'application' or 'default'; samples is the number of durations behind the estimate
+     */
+    estimateItems: function(items) {
+        var history = this._loadHistory(items);
+
+        return items.map(function(item) {
+            var versionSamples = history.byVersion[this._versionKey(item)] || [];
+            var applicationSamples = history.byApplication[this._applicationKey(item)] || [];
+
+            if (versionSamples.length >= this.MIN_SAMPLES) {
+                return this._fromSamples(versionSamples, 'version');
+            }
+            if (applicationSamples.length > versionSamples.length) {
+                return this._fromSamples(applicationSamples, 'application');
+            }
+            if (versionSamples.length > 0) {
+                return this._fromSamples(versionSamples, 'version');
+            }
+            return this._fromDefault(item);
+        }, this);
+    },
+
+    /**
+     * Sum of item estimates with the confidence of the weakest part
+     * @param {Array} estimates - estimateItems() results
+     * @returns {Object} {seconds, low_seconds, high_seconds, confidence: 'high'|'medium'|'low'}
+     */
+    summarize: function(estimates) {
+        var total = { seconds: 0, low_seconds: 0, high_seconds: 0, confidence: 'high' };
+        var defaults = 0;
+        var thin = 0;
+
+        estimates.forEach(function(estimate) {
+            total.seconds += estimate.seconds;
+            total.low_seconds += estimate.low_seconds;
+            total.high_seconds += estimate.high_seconds;
+            if (estimate.basis === 'default') {
+                defaults++;
+            } else if (estimate.samples < this.MIN_SAMPLES) {
+                thin++;
+            }
+        }, this);
+
+        if (estimates.length > 0 && defaults * 2 > estimates.length) {
+            total.confidence = 'low';
+        } else if (defaults > 0 || thin > 0) {
+            total.confidence = 'medium';
+        }
+        return total;
+    },
+
+    /**
+     * Time left in a running batch - queued items count in full, the installing item counts what it has left
+     * @param {Array} items - InstallBatchService._loadItems() rows
+     * @returns {Object|null} {seconds, low_seconds, high_seconds, confidence, remaining_items}, null when nothing is left
+     */
+    remaining: function(items) {
+        var open = items.filter(function(item) {
+            return item.state === 'queued' || item.state === 'installing';
+        });
+        if (open.length === 0) {
+            return null;
+        }
+
+        var now = new GlideDateTime().getNumericValue();
+        var estimates = this.estimateItems(open).map(function(estimate, index) {
+            var item = open[index];
+            if (item.state !== 'installing' || !item.started_on) {
+                return estimate;
+            }
+
+            var elapsed = Math.round((now - new GlideDateTime(item.started_on).getNumericValue()) / 1000);
+            return {
+                seconds: Math.max(estimate.seconds - elapsed, 0),
+                low_seconds: Math.max(estimate.low_seconds - elapsed, 0),
+                high_seconds: Math.max(estimate.high_seconds - elapsed, 0),
+                basis: estimate.basis,
+                samples: estimate.samples
+            };
+        });
+
+        var summary = this.summarize(estimates);
+        summary.remaining_items = open.length;
+        return summary;
+    },
+
+    /**
+     * Recent durations (seconds) of succeeded items for the versions and applications asked about
+     */
+    _loadHistory: function(items) {
+        var history = { byVersion: {}, byApplication: {} };
+        var versions = [];
+        var applications = [];
+        var plugins = [];
+
+        items.forEach(function(item) {
+            if (item.target_version) {
+                versions.push(item.target_version);
+            }
+            if (item.application) {
+                applications.push(item.application);
+            }
+            if (item.plugin_id) {
+                plugins.push(item.plugin_id);
+            }
+        });
+
+        if (versions.length === 0 && applications.length === 0 && plugins.length === 0) {
+            return history;
+        }
+
+        var itemGR = new GlideRecord(this.ITEM_TABLE);
+        itemGR.addQuery('state', 'succeeded');
+        itemGR.addQuery('duration_ms', '>', 0);
+        var condition = null;
+        [['target_version', versions], ['application', applications], ['plugin_id', plugins]].forEach(function(pair) {
+            if (pair[1].length === 0) {
+                return;
+            }
+            if (condition) {
+                condition.addOrCondition(pair[0], 'IN', pair[1].join(','));
+            } else {
+                condition = itemGR.addQuery(pair[0], 'IN', pair[1].join(','));
+            }
+        });
+        itemGR.orderByDesc('completed_on');
+        itemGR.setLimit(this.MAX_HISTORY_ROWS);
+        itemGR.query();
+
+        while (itemGR.next()) {
+            var row = {
+                application: itemGR.getValue('application') || '',
+                target_version: itemGR.getValue('target_version') || '',
+                plugin_id: itemGR.getValue('plugin_id') || '',
+                version: itemGR.getValue('version') || ''
+            };
+            var seconds = Math.round((parseInt(itemGR.getValue('duration_ms'), 10) || 0) / 1000);
+            this._addSample(history.byVersion, this._versionKey(row), seconds);
+            this._addSample(history.byApplication, this._applicationKey(row), seconds);
+        }
+
+        return history;
+    },
+
+    _addSample: function(samples, key, seconds) {
+        if (!key || seconds <= 0) {
+            return;
+        }
+        samples[key] = samples[key] || [];
+        // Rows arrive newest first - keep the most recent durations only
+        if (samples[key].length < this.MAX_SAMPLES) {
+            samples[key].push(seconds);
+        }
+    },
+
+    // Apps: the sys_app_version id; plugins: plugin id and version
+    _versionKey: function(item) {
+        if (item.target_version) {
+            return 'version:' + item.target_version;
+        }
+        return item.plugin_id ? 'plugin:' + item.plugin_id + '@' + (item.version || '') : '';
+    },
+
+    _applicationKey: function(item) {
+        if (item.application) {
+            return 'application:' + item.application;
+        }
+        return item.plugin_id ? 'plugin:' + item.plugin_id : '';
+    },
+
+    /**
+     * Median with a 10th-90th percentile band - widened when there are fewer than MIN_SAMPLES durations
+     */
+    _fromSamples: function(samples, basis) {
+        var sorted = samples.slice().sort(function(a, b) {
+            return a - b;
+        });
+        var count = sorted.length;
+        var middle = Math.floor(count / 2);
+        var median = count % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+
+        if (count < this.MIN_SAMPLES) {
+            return {
+                seconds: median,
+                low_seconds: Math.round(sorted[0] * this.THIN_BAND.low),
+                high_seconds: Math.round(sorted[count - 1] * this.THIN_BAND.high),
+                basis: basis,
+                samples: count
+            };
+        }
+
+        return {
+            seconds: median,
+            low_seconds: Math.min(sorted[Math.floor((count - 1) * 0.1)], median),
+            high_seconds: Math.max(sorted[Math.ceil((count - 1) * 0.9)], median),
+            basis: basis,
+            samples: count
+        };
+    },
+
+    _fromDefault: function(item) {
+        var jump = item.jump || (item.installed_version && item.version
+            ? this.versionComparator.classify(item.installed_version, item.version)
+            : 'fresh');
+        var seconds = this.DEFAULT_SECONDS[jump] || this.FALLBACK_SECONDS;
+
+        return {
+            seconds: seconds,
+            low_seconds: Math.round(seconds * this.DEFAULT_BAND.low),
+            high_seconds: Math.round(seconds * this.DEFAULT_BAND.high),
+            basis: 'default',
+            samples: 0
+        };
+    },
+
+    type: 'InstallDurationEstimator'
+};
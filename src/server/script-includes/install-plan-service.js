@@ -0,0 +1,374 @@
+// src/server/script-includes/install-plan-service.js
+// Install Plan Service - dry run of an install_updates request: what would be installed, in which order, and what blocks it
+// ESTIMATES: Durations come from InstallDurationEstimator (install history, defaults by version jump) with a low-high band
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var InstallPlanService = Class.create();
+InstallPlanService.prototype = {
+
+    /**
+     * Initialize the Install Plan Service
+     */
+    initialize: function() {
+        this.MAX_DEPENDENCY_ROUNDS = 5;
+        this.parser = new x_snc_store_upda_1.InstallRequestParser();
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+        this.dependencyResolver = new x_snc_store_upda_1.AppDependencyResolver();
+        this.compatibilityChecker = new x_snc_store_upda_1.AppCompatibilityChecker();
+        this.durationEstimator = new x_snc_store_upda_1.InstallDurationEstimator();
+    },
+
+    /**
+     * Build the install plan for an install_updates request body without installing anything
+     * @param {Object} data - Same payload as POST install_updates (structured items or legacy apps string)
+     * @returns {Object} {request, items, summary}
+     *   items (install order): {order, application, name, scope, installed_version, target_version, version, jump,
+     *   compatibility, compatibility_reason, dependencies, added_as_dependency, required_by, status, blocked_reasons,
+     *   estimated_seconds, estimate: {seconds, low_seconds, high_seconds, basis, samples}, options}
+     *   summary.estimate: {seconds, low_seconds, high_seconds, confidence} over the installable items
+     * @throws {Error} With status 400 and 'errors' when the request does not validate
+     */
+    plan: function(data) {
+        var request = this.parser.parse(data);
+        var candidates = this._loadSnapshotCandidates();
+        var entries = request.items.map(function(item) {
+            return this._createEntry(item.application, item.target_version, item.options, false);
+        }, this);
+
+        this._addDependencies(entries, candidates);
+        this.compatibilityChecker.annotate(entries);
+        this._describeApplications(entries);
+
+        var ordered = this._orderByDependencies(entries);
+        for (var i = 0; i < ordered.length; i++) {
+            ordered[i].order = i;
+            this._evaluate(ordered[i], ordered);
+        }
+        this._estimate(ordered);
+
+        delete request.apps;
+
+        return {
+            request: request,
+            items: ordered,
+            summary: this._summarize(ordered)
+        };
+    },
+
+    /**
+     * Resolve dependencies of every entry and add the dependency updates the request is missing,
+     * repeating for the dependencies of added updates
+     */
+    _addDependencies: function(entries, candidates) {
+        var pending = entries.slice();
+
+        for (var round = 0; round < this.MAX_DEPENDENCY_ROUNDS && pending.length > 0; round++) {
+            this.dependencyResolver.annotate(pending.concat(candidates));
+
+            var added = [];
+            for (var i = 0; i < pending.length; i++) {
+                var entry = pending[i];
+                entry.dependencies = entry.dependencies ? JSON.parse(entry.dependencies) : [];
+
+                for (var d = 0; d < entry.dependencies.length; d++) {
+                    var dependency = entry.dependencies[d];
+                    if (dependency.status !== 'update') {
+                        continue;
+                    }
+
+                    var existing = this._findByApplication(entries, dependency.application);
+                    if (!existing) {
+                        existing = this._createEntry(dependency.application, dependency.available_version, null, true);
+                        entries.push(existing);
+                        added.push(existing);
+                    }
+                    if (existing.added_as_dependency && existing.required_by.indexOf(entry.application) < 0) {
+                        existing.required_by.push(entry.application);
+                    }
+                }
+            }
+
+            pending = added;
+        }
+
+        // Anything still pending went past the round limit - resolve it without adding further updates
+        for (var p = 0; p < pending.length; p++) {
+            pending[p].dependencies = [];
+        }
+    },
+
+    /**
+     * Stable dependency order - an entry moves behind the entries of this plan it depends on,
+     * otherwise the requested order is kept
+     */
+    _orderByDependencies: function(entries) {
+        var ordered = [];
+        var placed = {};
+        var visiting = {};
+
+        var place = function(entry) {
+            if (placed[entry.application] || visiting[entry.application]) {
+                return;
+            }
+            visiting[entry.application] = true;
+
+            for (var d = 0; d < entry.dependencies.length; d++) {
+                var dependencyEntry = this._findDependencyEntry(entries, entry.dependencies[d]);
+                if (dependencyEntry) {
+                    place.call(this, dependencyEntry);
+                }
+            }
+
+            placed[entry.application] = true;
+            ordered.push(entry);
+        };
+
+        for (var i = 0; i < entries.length; i++) {
+            place.call(this, entries[i]);
+        }
+
+        return ordered;
+    },
+
+    /**
+     * Version jump, blocking reasons and status of one entry
+     */
+    _evaluate: function(entry, entries) {
+        entry.jump = entry.installed_version
+            ? this.versionComparator.classify(entry.installed_version, entry.version)
+            : 'fresh';
+
+        if (entry.jump === 'no') {
+            entry.blocked_reasons.push('Version ' + entry.version + ' is already installed');
+        } else if (entry.jump === 'downgrade') {
+            entry.blocked_reasons.push('Version ' + entry.version + ' is older than the installed ' + entry.installed_version);
+        }
+
+        for (var d = 0; d < entry.dependencies.length; d++) {
+            var reason = this._dependencyBlocker(entry.dependencies[d], entries);
+            if (reason) {
+                entry.blocked_reasons.push(reason);
+            }
+        }
+
+        entry.status = entry.compatibility === 'incompatible' ? 'incompatible'
+            : entry.blocked_reasons.length > 0 ? 'blocked' : 'ready';
+    },
+
+    /**
+     * Estimated duration of the entries that would install - blocked and incompatible entries take no time
+     */
+    _estimate: function(entries) {
+        var installable = entries.filter(function(entry) {
+            return entry.status === 'ready';
+        });
+        var estimates = this.durationEstimator.estimateItems(installable);
+
+        for (var i = 0; i < installable.length; i++) {
+            installable[i].estimate = estimates[i];
+            installable[i].estimated_seconds = estimates[i].seconds;
+        }
+    },
+
+    /**
+     * @returns {String} Why a dependency blocks the entry, or '' when the plan satisfies it
+     */
+    _dependencyBlocker: function(dependency, entries) {
+        var required = dependency.required_version ? ' ' + dependency.required_version + '+' : '';
+        var planned = this._findDependencyEntry(entries, dependency);
+
+        // Entries are evaluated in install order, so a planned dependency already has its status
+        if (planned && dependency.status !== 'satisfied') {
+            if (planned.status === 'incompatible') {
+                return 'Requires ' + dependency.name + required + ' - its planned version ' + planned.version + ' is incompatible';
+            }
+            return dependency.required_version && this.versionComparator.compare(planned.version, dependency.required_version) < 0
+                ? 'Requires ' + dependency.name + required + ' - this plan installs ' + planned.version
+                : '';
+        }
+        if (dependency.status === 'missing') {
+            return 'Requires ' + (dependency.is_plugin ? 'plugin ' : '') + dependency.name + required +
+                (dependency.is_plugin ? ' - not active' : ' - not installed');
+        }
+        if (dependency.status === 'unavailable') {
+            return 'Requires ' + dependency.name + required + ' - installed ' + dependency.installed_version +
+                ', no available update reaches it';
+        }
+
+        return '';
+    },
+
+    _summarize: function(entries) {
+        var summary = {
+            item_count: entries.length,
+            requested_count: 0,
+            dependency_count: 0,
+            blocked_count: 0,
+            incompatible_count: 0,
+            jumps: { fresh: 0, major: 0, minor: 0, patch: 0 },
+            estimated_seconds: 0,
+            estimate: null,
+            installable: true
+        };
+        var estimates = [];
+
+        for (var i = 0; i < entries.length; i++) {
+            var entry = entries[i];
+
+            if (entry.added_as_dependency) {
+                summary.dependency_count++;
+            } else {
+                summary.requested_count++;
+            }
+            if (entry.status === 'blocked') {
+                summary.blocked_count++;
+            } else if (entry.status === 'incompatible') {
+                summary.incompatible_count++;
+            }
+            if (summary.jumps.hasOwnProperty(entry.jump)) {
+                summary.jumps[entry.jump]++;
+            }
+            summary.estimated_seconds += entry.estimated_seconds;
+            if (entry.estimate) {
+                estimates.push(entry.estimate);
+            }
+        }
+
+        summary.estimate = this.durationEstimator.summarize(estimates);
+
+        summary.installable = summary.blocked_count === 0 && summary.incompatible_count === 0;
+        return summary;
+    },
+
+    /**
+     * Plan entry shaped like a store update row, so the resolver and checker can annotate it
+     */
+    _createEntry: function(applicationId, versionId, options, addedAsDependency) {
+        return {
+            order: 0,
+            application: applicationId,
+            name: '',
+            scope: '',
+            installed_version: '',
+            available_version: versionId,
+            target_version: versionId,
+            version: '',
+            jump: '',
+            compatibility: 'unknown',
+            compatibility_reason: '',
+            dependencies: '',
+            added_as_dependency: addedAsDependency,
+            required_by: [],
+            status: 'ready',
+            blocked_reasons: [],
+            estimated_seconds: 0,
+            estimate: null,
+            options: options || { load_demo_data: false, notes: '' }
+        };
+    },
+
+    /**
+     * Names and installed versions from sys_store_app, falling back to sys_remote_app for fresh installs
+     */
+    _describeApplications: function(entries) {
+        var byApplication = {};
+        for (var i = 0; i < entries.length; i++) {
+            byApplication[entries[i].application] = entries[i];
+        }
+
+        var ids = Object.keys(byApplication).join(',');
+        var tables = ['sys_store_app', 'sys_remote_app'];
+
+        for (var t = 0; t < tables.length; t++) {
+            var appGR = new GlideRecord(tables[t]);
+            appGR.addQuery('sys_id', 'IN', ids);
+            appGR.query();
+
+            while (appGR.next()) {
+                var entry = byApplication[appGR.getUniqueValue()];
+                if (entry.name) {
+                    continue;
+                }
+
+                entry.name = appGR.getValue('name');
+                entry.scope = appGR.getValue('scope');
+                if (tables[t] === 'sys_store_app') {
+                    entry.installed_version = appGR.getValue('version');
+                }
+            }
+        }
+
+        var versionGR = new GlideRecord('sys_app_version');
+        versionGR.addQuery('sys_id', 'IN', entries.map(function(entry) {
+            return entry.target_version;
+        }).join(','));
+        versionGR.query();
+
+        while (versionGR.next()) {
+            for (var e = 0; e < entries.length; e++) {
+                if (entries[e].target_version === versionGR.getUniqueValue()) {
+                    entries[e].version = versionGR.getValue('version');
+                    entries[e].name = entries[e].name || versionGR.getValue('name');
+                }
+            }
+        }
+
+        // required_by holds application sys_ids until every name is known
+        for (var r = 0; r < entries.length; r++) {
+            entries[r].required_by = entries[r].required_by.map(function(applicationId) {
+                return byApplication[applicationId] ? byApplication[applicationId].name : applicationId;
+            });
+        }
+    },
+
+    /**
+     * Update rows of the current scan - the versions a missing dependency update can be taken from
+     */
+    _loadSnapshotCandidates: function() {
+        var candidates = [];
+        var snapshot = new x_snc_store_upda_1.StoreUpdatesSnapshot();
+        var snapshotGR = new GlideRecord(snapshot.TABLE);
+        snapshotGR.addQuery('scan_id', snapshot.getCurrentScanId());
+        snapshotGR.query();
+
+        while (snapshotGR.next()) {
+            candidates.push({
+                application: snapshotGR.getValue('application'),
+                available_version: snapshotGR.getValue('available_version')
+            });
+        }
+
+        return candidates;
+    },
+
+    /**
+     * Plan entry that installs a dependency - matched by application, or by scope for fresh installs
+     */
+    _findDependencyEntry: function(entries, dependency) {
+        var entry = this._findByApplication(entries, dependency.application);
+        if (entry || dependency.is_plugin) {
+            return entry;
+        }
+
+        for (var i = 0; i < entries.length; i++) {
+            if (entries[i].scope && entries[i].scope === dependency.scope) {
+                return entries[i];
+            }
+        }
+        return null;
+    },
+
+    _findByApplication: function(entries, applicationId) {
+        if (!applicationId) {
+            return null;
+        }
+        for (var i = 0; i < entries.length; i++) {
+            if (entries[i].application === applicationId) {
+                return entries[i];
+            }
+        }
+        return null;
+    },
+
+    type: 'InstallPlanService'
+};
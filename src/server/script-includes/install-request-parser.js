@@ -0,0 +1,337 @@
+// src/server/script-includes/install-request-parser.js
+// Install Request Parser - validates and normalizes install_updates request bodies
+// Accepts the versioned JSON schema ({schema_version: 1, items: [...]}) and the legacy comma separated 'apps' string
+// OPTIONS: Item options are validated against what the install subflow applies - other values are rejected with 400
+// RETRY: Optional retry_of links the request to the batch whose failed items it retries
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var InstallRequestParser = Class.create();
+InstallRequestParser.prototype = {
+
+    /**
+     * Initialize the Install Request Parser
+     */
+    initialize: function() {
+        this.SCHEMA_VERSION = 1;
+        this.MAX_ITEMS = 200;
+        this.MAX_TEXT_LENGTH = 100;
+        this.ID_QUERY_CHUNK_SIZE = 500;
+        this.SYS_ID_PATTERN = /^[0-9a-f]{32}$/;
+        this.OPTION_TYPES = {
+            load_demo_data: 'boolean',
+            notes: 'string'
+        };
+        // The install subflow installs without demo data and sets each package's notes to the version name itself
+        this.SUPPORTED_OPTION_VALUES = {
+            load_demo_data: false,
+            notes: ''
+        };
+    },
+
+    /**
+     * Parse a request body into a normalized install request
+     * @param {Object} data - Request body
+     * @returns {Object} {schema_version, client_request_id, label, continue_on_error, retry_of, items, apps}
+     *   items are in install order: [{application, name, target_version, version, order, request_index, options}]
+     *   request_index is the item's position in the request body - the index later field errors name
+     *   apps is the comma separated sys_app_version list of the items
+     * @throws {Error} With status 400 and 'errors' ([{field, message}]) when the request is invalid
+     */
+    parse: function(data) {
+        if (!data || typeof data !== 'object') {
+            throw this._invalid([{ field: '', message: 'Request body must be a JSON object' }]);
+        }
+
+        var request = data.items !== undefined || data.schema_version !== undefined
+            ? this._parseStructured(data)
+            : this._parseLegacy(data);
+
+        this._resolveVersions(request);
+
+        request.apps = request.items.map(function(item) {
+            return item.target_version;
+        }).join(',');
+
+        return request;
+    },
+
+    /**
+     * { schema_version: 1, client_request_id, label, continue_on_error, retry_of, items: [{application, target_version, order, options}] }
+     */
+    _parseStructured: function(data) {
+        var errors = [];
+
+        if (data.schema_version !== this.SCHEMA_VERSION) {
+            errors.push({ field: 'schema_version', message: 'Unsupported schema version: ' + data.schema_version + ' (expected ' + this.SCHEMA_VERSION + ')' });
+        }
+
+        var request = {
+            schema_version: this.SCHEMA_VERSION,
+            client_request_id: this._optionalText(data, 'client_request_id', this.MAX_TEXT_LENGTH, errors),
+            label: this._optionalText(data, 'label', this.MAX_TEXT_LENGTH, errors),
+            continue_on_error: this._optionalBoolean(data, 'continue_on_error', errors),
+            retry_of: this._optionalSysId(data, 'retry_of', errors),
+            items: []
+        };
+
+        if (!Array.isArray(data.items) || data.items.length === 0) {
+            errors.push({ field: 'items', message: 'items must be a non-empty array' });
+        } else if (data.items.length > this.MAX_ITEMS) {
+            errors.push({ field: 'items', message: 'At most ' + this.MAX_ITEMS + ' items per batch' });
+        } else {
+            for (var i = 0; i < data.items.length; i++) {
+                var item = this._parseItem(data.items[i], 'items[' + i + ']', i, errors);
+                if (item) {
+                    request.items.push(item);
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            throw this._invalid(errors);
+        }
+
+        // Explicit order first, ties keep the position in the request
+        request.items.sort(function(a, b) {
+            return a.order !== b.order ? a.order - b.order : a.index - b.index;
+        });
+
+        return request;
+    },
+
+    /**
+     * { apps: 'sys_id,sys_id' } - items keep the order of the string, options are defaulted
+     */
+    _parseLegacy: function(data) {
+        if (data.apps === undefined || data.apps === null) {
+            throw this._invalid([{ field: 'apps', message: 'Provide items (schema_version ' + this.SCHEMA_VERSION + ') or comma-separated app sys_ids' }]);
+        }
+
+        var ids = data.apps.toString().split(',').map(function(id) {
+            return id.trim();
+        }).filter(function(id) {
+            return id !== '';
+        });
+
+        if (ids.length === 0) {
+            throw this._invalid([{ field: 'apps', message: 'Apps parameter cannot be empty' }]);
+        }
+
+        var errors = [];
+        var request = {
+            schema_version: 0,
+            client_request_id: '',
+            label: '',
+            continue_on_error: false,
+            retry_of: '',
+            items: []
+        };
+
+        for (var i = 0; i < ids.length; i++) {
+            if (!this.SYS_ID_PATTERN.test(ids[i])) {
+                errors.push({ field: 'apps[' + i + ']', message: 'Not a sys_id: ' + ids[i] });
+                continue;
+            }
+
+            request.items.push({ application: '', target_version: ids[i], order: i, index: i, options: this._defaultOptions() });
+        }
+
+        if (errors.length > 0) {
+            throw this._invalid(errors);
+        }
+
+        return request;
+    },
+
+    _parseItem: function(raw, field, index, errors) {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            errors.push({ field: field, message: 'Item must be an object' });
+            return null;
+        }
+
+        var errorCount = errors.length;
+        var item = {
+            application: '',
+            target_version: '',
+            order: index,
+            index: index,
+            options: this._defaultOptions()
+        };
+
+        if (typeof raw.target_version !== 'string' || !this.SYS_ID_PATTERN.test(raw.target_version)) {
+            errors.push({ field: field + '.target_version', message: 'target_version must be a sys_app_version sys_id' });
+        } else {
+            item.target_version = raw.target_version;
+        }
+
+        if (raw.application !== undefined && raw.application !== '') {
+            if (typeof raw.application !== 'string' || !this.SYS_ID_PATTERN.test(raw.application)) {
+                errors.push({ field: field + '.application', message: 'application must be an application sys_id' });
+            } else {
+                item.application = raw.application;
+            }
+        }
+
+        if (raw.order !== undefined) {
+            if (typeof raw.order !== 'number' || raw.order < 0 || Math.floor(raw.order) !== raw.order) {
+                errors.push({ field: field + '.order', message: 'order must be a non-negative integer' });
+            } else {
+                item.order = raw.order;
+            }
+        }
+
+        if (raw.options !== undefined) {
+            this._parseOptions(raw.options, field + '.options', item.options, errors);
+        }
+
+        return errors.length === errorCount ? item : null;
+    },
+
+    _parseOptions: function(raw, field, options, errors) {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            errors.push({ field: field, message: 'options must be an object' });
+            return;
+        }
+
+        for (var name in raw) {
+            if (!raw.hasOwnProperty(name)) {
+                continue;
+            }
+
+            if (!this.OPTION_TYPES.hasOwnProperty(name)) {
+                errors.push({ field: field + '.' + name, message: 'Unknown option (supported: ' + Object.keys(this.OPTION_TYPES).join(', ') + ')' });
+            } else if (typeof raw[name] !== this.OPTION_TYPES[name]) {
+                errors.push({ field: field + '.' + name, message: name + ' must be a ' + this.OPTION_TYPES[name] });
+            } else if (raw[name] !== this.SUPPORTED_OPTION_VALUES[name]) {
+                errors.push({ field: field + '.' + name, message: name + ' cannot be applied by the install subflow (supported: ' +
+                    JSON.stringify(this.SUPPORTED_OPTION_VALUES[name]) + ')' });
+            } else {
+                options[name] = raw[name];
+            }
+        }
+    },
+
+    /**
+     * Every target must be an existing sys_app_version of the item's application (derived when omitted),
+     * and an application can appear only once per batch
+     */
+    _resolveVersions: function(request) {
+        var versions = this._loadVersions(request.items.map(function(item) {
+            return item.target_version;
+        }));
+        var errors = [];
+        var seenApplications = {};
+        var fieldPrefix = request.schema_version === 0 ? 'apps' : 'items';
+
+        for (var i = 0; i < request.items.length; i++) {
+            var item = request.items[i];
+            var field = fieldPrefix + '[' + item.index + ']';
+            var version = versions[item.target_version];
+
+            if (!version) {
+                errors.push({ field: field + (fieldPrefix === 'items' ? '.target_version' : ''), message: 'Version not found: ' + item.target_version });
+                continue;
+            }
+
+            if (item.application && item.application !== version.application) {
+                errors.push({ field: field + '.application', message: 'Version ' + version.version + ' does not belong to application ' + item.application });
+                continue;
+            }
+
+            item.application = version.application;
+            item.version = version.version;
+            item.name = version.name;
+
+            if (seenApplications[item.application] !== undefined) {
+                errors.push({ field: field, message: 'Application ' + item.application + ' is already targeted by ' + fieldPrefix + '[' + seenApplications[item.application] + ']' });
+                continue;
+            }
+            seenApplications[item.application] = item.index;
+        }
+
+        if (errors.length > 0) {
+            throw this._invalid(errors);
+        }
+
+        for (var j = 0; j < request.items.length; j++) {
+            request.items[j].order = j;
+            request.items[j].request_index = request.items[j].index;
+            delete request.items[j].index;
+        }
+    },
+
+    /**
+     * @returns {Object} {sys_id: {application, version, name}}
+     */
+    _loadVersions: function(versionIds) {
+        var versions = {};
+
+        for (var start = 0; start < versionIds.length; start += this.ID_QUERY_CHUNK_SIZE) {
+            var versionGR = new GlideRecord('sys_app_version');
+            versionGR.addQuery('sys_id', 'IN', versionIds.slice(start, start + this.ID_QUERY_CHUNK_SIZE).join(','));
+            versionGR.query();
+
+            while (versionGR.next()) {
+                versions[versionGR.getUniqueValue()] = {
+                    application: versionGR.getValue('source_app_id'),
+                    version: versionGR.getValue('version'),
+                    name: versionGR.getValue('name')
+                };
+            }
+        }
+
+        return versions;
+    },
+
+    _defaultOptions: function() {
+        return { load_demo_data: false, notes: '' };
+    },
+
+    _optionalText: function(data, field, maxLength, errors) {
+        if (data[field] === undefined || data[field] === null) {
+            return '';
+        }
+        if (typeof data[field] !== 'string') {
+            errors.push({ field: field, message: field + ' must be a string' });
+            return '';
+        }
+        if (data[field].length > maxLength) {
+            errors.push({ field: field, message: field + ' must be at most ' + maxLength + ' characters' });
+            return '';
+        }
+        return data[field];
+    },
+
+    _optionalSysId: function(data, field, errors) {
+        if (data[field] === undefined || data[field] === null || data[field] === '') {
+            return '';
+        }
+        if (typeof data[field] !== 'string' || !this.SYS_ID_PATTERN.test(data[field])) {
+            errors.push({ field: field, message: field + ' must be a sys_id' });
+            return '';
+        }
+        return data[field];
+    },
+
+    _optionalBoolean: function(data, field, errors) {
+        if (data[field] === undefined || data[field] === null) {
+            return false;
+        }
+        if (typeof data[field] !== 'boolean') {
+            errors.push({ field: field, message: field + ' must be true or false' });
+            return false;
+        }
+        return data[field];
+    },
+
+    _invalid: function(errors) {
+        var error = new Error('Invalid install request: ' + errors.map(function(entry) {
+            return (entry.field ? entry.field + ' - ' : '') + entry.message;
+        }).join('; '));
+        error.status = 400;
+        error.errors = errors;
+        return error;
+    },
+
+    type: 'InstallRequestParser'
+};
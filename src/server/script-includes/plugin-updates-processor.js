@@ -0,0 +1,206 @@
+// src/server/script-includes/plugin-updates-processor.js
+// Plugin Updates Processor - platform plugins (sys_plugins) with a newer version or waiting for activation
+// Activations are limited to the plugin ids of x_snc_store_upda_1.plugins.activation_list - most inactive plugins are never meant to run
+// No imports needed - gs, GlideRecord, sn_fd are automatically available in ServiceNow server environment
+
+var PluginUpdatesProcessor = Class.create();
+PluginUpdatesProcessor.prototype = {
+
+    /**
+     * Initialize the Plugin Updates Processor
+     */
+    initialize: function() {
+        this.CREDENTIAL_ALIAS_PROPERTY = 'x_snc_store_upda_1.cicd.credential_alias';
+        this.BATCH_INSTALL_ACTION_PROPERTY = 'x_snc_store_upda_1.cicd.batch_install_action';
+        this.ACTIVATION_LIST_PROPERTY = 'x_snc_store_upda_1.plugins.activation_list';
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+    },
+
+    /**
+     * Main entry point for the plugin updates remote table
+     * Honors the encoded query (conditions, ORDERBY and the sysparm_offset/limit window)
+     * @param {Object} v_table - Virtual table object
+     * @param {Object} v_query - Query parameters
+     * @returns {Object} {success, pluginCount, errors}
+     */
+    executeQuery: function(v_table, v_query) {
+        var startTime = new Date().getTime();
+        var errors = [];
+        var pluginCount = 0;
+
+        try {
+            var query = new x_snc_store_upda_1.RemoteTableQuery(v_query);
+            gs.info('PluginUpdatesProcessor: Starting plugin scan' + (query.hasConstraints() ? ' (filtered)' : ''));
+
+            var rows = this.getPluginUpdates(query.getRequiredValues('plugin_id'));
+            pluginCount = rows.length;
+
+            var matched = query.apply(rows);
+            for (var i = 0; i < matched.length; i++) {
+                v_table.addRow(matched[i]);
+            }
+
+            gs.info('PluginUpdatesProcessor: Completed successfully. Plugins: ' + pluginCount + ', Rows: ' + matched.length +
+                ', Time: ' + (new Date().getTime() - startTime) + 'ms');
+
+        } catch (error) {
+            gs.error('PluginUpdatesProcessor: Fatal error during execution: ' + error.message);
+            errors.push(error.message);
+        }
+
+        return {
+            success: errors.length === 0,
+            pluginCount: pluginCount,
+            errors: errors
+        };
+    },
+
+    /**
+     * Plugins that can be upgraded (newer version available) or activated (inactive and on the activation list)
+     * @param {Array} [pluginIds] - Restrict to these plugin ids (sys_plugins.source)
+     * @returns {Array} Row objects with category 'upgrade' or 'activation'
+     */
+    getPluginUpdates: function(pluginIds) {
+        var rows = [];
+        var activationIds = this._activationIds();
+        var pluginGR = new GlideRecord('sys_plugins');
+
+        if (pluginIds) {
+            pluginGR.addQuery('source', 'IN', pluginIds.join(','));
+        }
+        pluginGR.orderBy('name');
+        pluginGR.query();
+
+        while (pluginGR.next()) {
+            var row = this._buildRow(pluginGR);
+            if (row.category === 'upgrade' || (row.category === 'activation' && activationIds[row.plugin_id])) {
+                rows.push(row);
+            }
+        }
+
+        return rows;
+    },
+
+    /**
+     * Start a CI/CD batch that activates or upgrades the given plugins.
+     * Uses the same Batch Install action as the process_plugin_updates subflow, with the configured credential alias.
+     * @param {Array} pluginIds - Plugin ids (sys_plugins.source)
+     * @returns {Object} {progress_id, status_message, plugin_count}
+     * @throws {Error} When the credential alias property is not set or none of the plugins needs an install
+     */
+    install: function(pluginIds) {
+        var credentialAlias = gs.getProperty(this.CREDENTIAL_ALIAS_PROPERTY, '');
+        if (!credentialAlias) {
+            throw new Error('Set ' + this.CREDENTIAL_ALIAS_PROPERTY + ' to the CI/CD Connection & Credential alias before installing plugins');
+        }
+
+        var rows = this.getPluginUpdates(pluginIds);
+
+        if (rows.length === 0) {
+            throw new Error('None of the requested plugins can be activated or upgraded: ' + pluginIds.join(','));
+        }
+
+        var manifest = this.buildManifest(rows);
+        gs.info('PluginUpdatesProcessor: Starting batch for ' + rows.length + ' plugins: ' + manifest);
+
+        var result = sn_fd.FlowAPI.getRunner()
+            .action(gs.getProperty(this.BATCH_INSTALL_ACTION_PROPERTY, 'sn_cicd_spoke.batch_install'))
+            .inForeground()
+            .withInputs({
+                batch_plan: manifest,
+                credential_alias: credentialAlias,
+                instance_url: gs.getProperty('glide.servlet.uri')
+            })
+            .run();
+
+        var outputs = result.getOutputs();
+
+        return {
+            progress_id: outputs['progress_id'],
+            status_message: outputs['status_message'],
+            plugin_count: rows.length
+        };
+    },
+
+    /**
+     * Build a CI/CD batch install manifest for plugin rows
+     * @param {Array} rows - Rows from getPluginUpdates()
+     * @returns {String} Manifest JSON
+     */
+    buildManifest: function(rows) {
+        var packages = [];
+
+        for (var i = 0; i < rows.length; i++) {
+            var row = rows[i];
+            var pkg = {
+                id: row.plugin_id,
+                type: 'plugin',
+                load_demo_data: false,
+                notes: row.name + (row.category === 'upgrade' ? ' - upgrade to ' + row.available_version : ' - activation')
+            };
+
+            if (row.category === 'upgrade') {
+                pkg.requested_version = row.available_version;
+            }
+
+            packages.push(pkg);
+        }
+
+        return JSON.stringify({
+            name: 'Platform Plugin Batch Installer',
+            notes: 'Activating and upgrading platform plugins',
+            packages: packages
+        });
+    },
+
+    /**
+     * Build the remote table row for a plugin
+     */
+    _buildRow: function(pluginGR) {
+        var installedVersion = pluginGR.getValue('version') || '';
+        var availableVersion = this._fieldValue(pluginGR, 'available_version');
+        var state = pluginGR.getValue('active') === 'active' ? 'active' : 'inactive';
+        var category = null;
+
+        if (state === 'active' && availableVersion && this.versionComparator.isUpdate(installedVersion, availableVersion)) {
+            category = 'upgrade';
+        } else if (state === 'inactive') {
+            category = 'activation';
+        }
+
+        return {
+            'sys_id': pluginGR.getUniqueValue(),
+            'plugin_id': pluginGR.getValue('source'),
+            'name': pluginGR.getValue('name'),
+            'state': state,
+            'category': category,
+            'installed_version': installedVersion,
+            'available_version': availableVersion || installedVersion,
+            'dependencies': this._fieldValue(pluginGR, 'requires'),
+            'description': this._fieldValue(pluginGR, 'description')
+        };
+    },
+
+    /**
+     * Plugin ids of the activation list property
+     * @returns {Object} Set of plugin ids (id -> true)
+     */
+    _activationIds: function() {
+        var ids = {};
+        gs.getProperty(this.ACTIVATION_LIST_PROPERTY, '').split(',').forEach(function(id) {
+            if (id.trim()) {
+                ids[id.trim()] = true;
+            }
+        });
+        return ids;
+    },
+
+    /**
+     * Read an optional column - available_version / requires are not present on every release
+     */
+    _fieldValue: function(gr, field) {
+        return gr.isValidField(field) ? (gr.getValue(field) || '') : '';
+    },
+
+    type: 'PluginUpdatesProcessor'
+};
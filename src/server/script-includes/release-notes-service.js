@@ -0,0 +1,110 @@
+// src/server/script-includes/release-notes-service.js
+// Release Notes Service - every sys_app_version between an app's installed version and a target version
+// No imports needed - gs, GlideRecord are automatically available in ServiceNow server environment
+
+var ReleaseNotesService = Class.create();
+ReleaseNotesService.prototype = {
+
+    /**
+     * Initialize the Release Notes Service
+     */
+    initialize: function() {
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+    },
+
+    /**
+     * Gather publish date, description and release notes of every version after the installed one,
+     * up to and including the target version, in ascending version order
+     * @param {String} applicationId - sys_store_app sys_id
+     * @param {String} targetVersionId - sys_app_version sys_id of the target
+     * @returns {Object} {application, target_version, versions}
+     * @throws {Error} With a 'status' property (404 / 400) when the application or target is not usable
+     */
+    getReleaseNotes: function(applicationId, targetVersionId) {
+        var application = this._loadApplication(applicationId);
+        var target = this._loadTarget(targetVersionId, applicationId);
+
+        var versions = [];
+        var versionGR = new GlideRecord('sys_app_version');
+        versionGR.addQuery('source_app_id', applicationId);
+        versionGR.query();
+
+        while (versionGR.next()) {
+            var version = versionGR.getValue('version');
+
+            if (this.versionComparator.compare(version, application.installed_version) > 0 &&
+                this.versionComparator.compare(version, target.version) <= 0) {
+                versions.push(this._buildEntry(versionGR));
+            }
+        }
+
+        var comparator = this.versionComparator;
+        versions.sort(function(a, b) {
+            return comparator.compare(a.version, b.version);
+        });
+
+        return {
+            application: application,
+            target_version: target.version,
+            versions: versions
+        };
+    },
+
+    /**
+     * Load the installed application
+     */
+    _loadApplication: function(applicationId) {
+        var storeAppGR = new GlideRecord('sys_store_app');
+
+        if (!applicationId || !storeAppGR.get(applicationId)) {
+            throw this._error(404, 'Installed application not found: ' + applicationId);
+        }
+
+        return {
+            sys_id: storeAppGR.getUniqueValue(),
+            name: storeAppGR.getValue('name'),
+            scope: storeAppGR.getValue('scope'),
+            installed_version: storeAppGR.getValue('version')
+        };
+    },
+
+    /**
+     * Load the target version and make sure it belongs to the application
+     */
+    _loadTarget: function(targetVersionId, applicationId) {
+        var versionGR = new GlideRecord('sys_app_version');
+
+        if (!targetVersionId || !versionGR.get(targetVersionId)) {
+            throw this._error(404, 'Target version not found: ' + targetVersionId);
+        }
+        if (versionGR.getValue('source_app_id') !== applicationId) {
+            throw this._error(400, 'Target version ' + versionGR.getValue('version') + ' does not belong to application ' + applicationId);
+        }
+
+        return {
+            sys_id: versionGR.getUniqueValue(),
+            version: versionGR.getValue('version')
+        };
+    },
+
+    /**
+     * One release notes entry - release_notes is not present on every release, so it is read defensively
+     */
+    _buildEntry: function(versionGR) {
+        return {
+            sys_id: versionGR.getUniqueValue(),
+            version: versionGR.getValue('version'),
+            publish_date: versionGR.getValue('publish_date') || '',
+            short_description: versionGR.getValue('short_description') || '',
+            release_notes: versionGR.isValidField('release_notes') ? (versionGR.getValue('release_notes') || '') : ''
+        };
+    },
+
+    _error: function(status, message) {
+        var error = new Error(message);
+        error.status = status;
+        return error;
+    },
+
+    type: 'ReleaseNotesService'
+};
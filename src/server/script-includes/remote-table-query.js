@@ -0,0 +1,319 @@
+// src/server/script-includes/remote-table-query.js
+// Encoded query support for scripted remote tables (sys_script_vtable)
+// No imports needed - gs is automatically available in ServiceNow server environment
+
+var RemoteTableQuery = Class.create();
+RemoteTableQuery.prototype = {
+
+    /**
+     * Initialize from the v_query object passed to a remote table script
+     * @param {Object} v_query - Remote table query object (may be null when called directly)
+     */
+    initialize: function(v_query) {
+        // Longest operators first so that e.g. '!=' is not read as '='
+        this.OPERATORS = [
+            'NSAMEAS', 'SAMEAS', 'ISNOTEMPTY', 'ISEMPTY', 'NOT IN', 'IN',
+            'STARTSWITH', 'ENDSWITH', 'NOT LIKE', 'DOES NOT CONTAIN', 'LIKE',
+            '!=', '>=', '<=', '=', '>', '<'
+        ];
+
+        this.groups = [];
+        this.orderBy = [];
+        this.firstRow = 0;
+        this.lastRow = -1;
+        this.sysId = null;
+
+        if (v_query) {
+            this._readQuery(v_query);
+        }
+    },
+
+    /**
+     * Check whether the query contains conditions, ordering or a row window
+     * @returns {Boolean} True when apply() would change the row set
+     */
+    hasConstraints: function() {
+        return this.groups.length > 0 || this.orderBy.length > 0 || !!this.sysId || this.lastRow >= 0;
+    },
+
+    /**
+     * Values a field must equal for every row, used to push conditions down into GlideRecord queries.
+     * Only plain AND conditions using '=' or 'IN' qualify.
+     * @param {String} field - Field name
+     * @returns {Array|null} Allowed values, or null when the field is unconstrained
+     */
+    getRequiredValues: function(field) {
+        var values = null;
+
+        for (var i = 0; i < this.groups.length; i++) {
+            var group = this.groups[i];
+            if (group.length !== 1 || group[0].field !== field) {
+                continue;
+            }
+
+            var condition = group[0];
+            var conditionValues;
+            if (condition.operator === '=') {
+                conditionValues = [condition.value];
+            } else if (condition.operator === 'IN') {
+                conditionValues = condition.value.split(',');
+            } else {
+                continue;
+            }
+
+            values = values === null ? conditionValues : values.filter(function(value) {
+                return conditionValues.indexOf(value) !== -1;
+            });
+        }
+
+        return values;
+    },
+
+    /**
+     * Filter, sort and window an array of row objects
+     * @param {Array} rows - Row objects keyed by field name
+     * @returns {Array} Rows that match the query, in the requested order and window
+     */
+    apply: function(rows) {
+        var self = this;
+
+        var matched = rows.filter(function(row) {
+            return self.matches(row);
+        });
+
+        if (this.orderBy.length > 0) {
+            matched.sort(function(a, b) {
+                return self._compareRows(a, b);
+            });
+        }
+
+        if (this.lastRow >= 0) {
+            matched = matched.slice(this.firstRow, this.lastRow);
+        } else if (this.firstRow > 0) {
+            matched = matched.slice(this.firstRow);
+        }
+
+        return matched;
+    },
+
+    /**
+     * Check a single row against the query conditions (AND of OR groups)
+     * @param {Object} row - Row object keyed by field name
+     * @returns {Boolean} True when the row matches
+     */
+    matches: function(row) {
+        if (this.sysId && String(row.sys_id) !== this.sysId) {
+            return false;
+        }
+
+        for (var i = 0; i < this.groups.length; i++) {
+            var group = this.groups[i];
+            var groupMatched = false;
+
+            for (var j = 0; j < group.length; j++) {
+                if (this._matchesCondition(row, group[j])) {
+                    groupMatched = true;
+                    break;
+                }
+            }
+
+            if (!groupMatched) {
+                return false;
+            }
+        }
+
+        return true;
+    },
+
+    /**
+     * Parse an encoded query string into condition groups and ordering
+     * @param {String} encodedQuery - Encoded query such as "batch_levelSAMEASlatest_version_level^ORDERBYname"
+     */
+    parseEncodedQuery: function(encodedQuery) {
+        if (!encodedQuery) {
+            return;
+        }
+
+        if (encodedQuery.indexOf('^NQ') !== -1) {
+            gs.warn('RemoteTableQuery: ^NQ (new query) is not supported, only the first query is applied');
+            encodedQuery = encodedQuery.split('^NQ')[0];
+        }
+
+        var terms = encodedQuery.split('^');
+        for (var i = 0; i < terms.length; i++) {
+            var term = terms[i];
+
+            if (!term || term === 'EQ') {
+                continue;
+            }
+
+            if (term.indexOf('ORDERBYDESC') === 0) {
+                this.orderBy.push({ field: term.substring(11), descending: true });
+                continue;
+            }
+
+            if (term.indexOf('ORDERBY') === 0) {
+                this.orderBy.push({ field: term.substring(7), descending: false });
+                continue;
+            }
+
+            var isOr = term.indexOf('OR') === 0 && this.groups.length > 0;
+            var condition = this._parseCondition(isOr ? term.substring(2) : term);
+
+            if (!condition) {
+                gs.warn('RemoteTableQuery: Ignoring unsupported query term: ' + term);
+                continue;
+            }
+
+            if (isOr) {
+                this.groups[this.groups.length - 1].push(condition);
+            } else {
+                this.groups.push([condition]);
+            }
+        }
+    },
+
+    /**
+     * Read conditions, ordering and the requested row window from v_query
+     */
+    _readQuery: function(v_query) {
+        if (typeof v_query.isGet === 'function' && v_query.isGet()) {
+            this.sysId = String(v_query.getSysId());
+        }
+
+        if (typeof v_query.getEncodedQuery === 'function') {
+            this.parseEncodedQuery(String(v_query.getEncodedQuery() || ''));
+        }
+
+        // sysparm_offset / sysparm_limit arrive as the first and last row wanted
+        if (typeof v_query.getFirstRowWanted === 'function') {
+            var firstRow = parseInt(v_query.getFirstRowWanted(), 10);
+            var lastRow = parseInt(v_query.getLastRowWanted(), 10);
+
+            this.firstRow = isNaN(firstRow) || firstRow < 0 ? 0 : firstRow;
+            this.lastRow = isNaN(lastRow) || lastRow <= this.firstRow ? -1 : lastRow;
+        }
+    },
+
+    /**
+     * Split a single term into field, operator and value
+     * @returns {Object|null} {field, operator, value} or null when unparseable
+     */
+    _parseCondition: function(term) {
+        var fieldMatch = /^[a-z0-9_.]+/i.exec(term);
+        if (!fieldMatch) {
+            return null;
+        }
+
+        // Operators are upper case and field names lower case, so the first split point
+        // followed by an operator separates them (this keeps NSAMEAS from reading as SAMEAS)
+        for (var end = 1; end <= fieldMatch[0].length; end++) {
+            var rest = term.substring(end);
+
+            for (var i = 0; i < this.OPERATORS.length; i++) {
+                var operator = this.OPERATORS[i];
+                if (rest.indexOf(operator) === 0) {
+                    return {
+                        field: term.substring(0, end),
+                        operator: operator,
+                        value: rest.substring(operator.length)
+                    };
+                }
+            }
+        }
+
+        return null;
+    },
+
+    /**
+     * Evaluate one condition against a row
+     */
+    _matchesCondition: function(row, condition) {
+        var actual = row[condition.field] === null || row[condition.field] === undefined ? '' : String(row[condition.field]);
+        var expected = condition.value;
+        var actualLower = actual.toLowerCase();
+        var expectedLower = expected.toLowerCase();
+
+        switch (condition.operator) {
+            case '=':
+                return actual === expected;
+            case '!=':
+                return actual !== expected;
+            case 'IN':
+                return expected.split(',').indexOf(actual) !== -1;
+            case 'NOT IN':
+                return expected.split(',').indexOf(actual) === -1;
+            case 'LIKE':
+                return actualLower.indexOf(expectedLower) !== -1;
+            case 'NOT LIKE':
+            case 'DOES NOT CONTAIN':
+                return actualLower.indexOf(expectedLower) === -1;
+            case 'STARTSWITH':
+                return actualLower.indexOf(expectedLower) === 0;
+            case 'ENDSWITH':
+                return actualLower.length >= expectedLower.length &&
+                    actualLower.substring(actualLower.length - expectedLower.length) === expectedLower;
+            case 'ISEMPTY':
+                return actual === '';
+            case 'ISNOTEMPTY':
+                return actual !== '';
+            case 'SAMEAS':
+                return actual === String(row[expected] === null || row[expected] === undefined ? '' : row[expected]);
+            case 'NSAMEAS':
+                return actual !== String(row[expected] === null || row[expected] === undefined ? '' : row[expected]);
+            case '>':
+            case '>=':
+            case '<':
+            case '<=':
+                return this._compareOrdered(actual, expected, condition.operator);
+            default:
+                return false;
+        }
+    },
+
+    /**
+     * Ordered comparison, numeric when both sides are numbers
+     */
+    _compareOrdered: function(actual, expected, operator) {
+        var diff = this._compareValues(actual, expected);
+
+        if (operator === '>') return diff > 0;
+        if (operator === '>=') return diff >= 0;
+        if (operator === '<') return diff < 0;
+        return diff <= 0;
+    },
+
+    /**
+     * Compare two rows using the ORDERBY terms
+     */
+    _compareRows: function(a, b) {
+        for (var i = 0; i < this.orderBy.length; i++) {
+            var order = this.orderBy[i];
+            var diff = this._compareValues(a[order.field], b[order.field]);
+
+            if (diff !== 0) {
+                return order.descending ? -diff : diff;
+            }
+        }
+        return 0;
+    },
+
+    /**
+     * Compare two field values, numerically when both are numbers
+     */
+    _compareValues: function(a, b) {
+        var left = a === null || a === undefined ? '' : String(a);
+        var right = b === null || b === undefined ? '' : String(b);
+
+        if (left !== '' && right !== '' && !isNaN(left) && !isNaN(right)) {
+            return parseFloat(left) - parseFloat(right);
+        }
+
+        left = left.toLowerCase();
+        right = right.toLowerCase();
+        if (left === right) return 0;
+        return left < right ? -1 : 1;
+    },
+
+    type: 'RemoteTableQuery'
+};
@@ -16,10 +16,19 @@ StoreUpdatesProcessor.prototype = {
             'none': 0
         };
         this.VERSION_LEVELS_ASCENDING = Object.keys(this.VERSION_LEVELS).reverse();
+        // Upper bound on ids per 'source_app_id IN' query, keeps the generated SQL a sane size
+        this.VERSION_QUERY_CHUNK_SIZE = 500;
+        this.versionComparator = new x_snc_store_upda_1.VersionComparator();
+        this.dependencyResolver = new x_snc_store_upda_1.AppDependencyResolver();
+        this.compatibilityChecker = new x_snc_store_upda_1.AppCompatibilityChecker();
+        this.downgrades = [];
+        this.timings = {};
+        this.versionQueryCount = 0;
     },
 
     /**
      * Main entry point for virtual table - populates store updates data
+     * Honors the encoded query (conditions, ORDERBY and the sysparm_offset/limit window)
      * @param {Object} v_table - Virtual table object
      * @param {Object} v_query - Query parameters
      */
@@ -27,59 +36,153 @@ StoreUpdatesProcessor.prototype = {
         var startTime = new Date().getTime();
         var errors = [];
         var processedApps = 0;
+        this._resetScanState();
         
         try {
-            gs.info('StoreUpdatesProcessor: Starting store updates scan');
+            var query = new x_snc_store_upda_1.RemoteTableQuery(v_query);
+            gs.info('StoreUpdatesProcessor: Starting store updates scan' + (query.hasConstraints() ? ' (filtered)' : ''));
             
-            var results = this._processStoreApplications();
+            // Push application conditions down into the sys_store_app query
+            var results = this._processStoreApplications(query.getRequiredValues('application'));
             processedApps = Object.keys(results).length;
             
-            // Add rows to virtual table
-            this._addRowsToVirtualTable(v_table, results);
+            // Build rows for every level, then add the matching ones to the virtual table
+            var phaseStart = new Date().getTime();
+            var rows = this._buildRows(results);
+            this._recordPhase('build_rows', phaseStart);
             
-            var endTime = new Date().getTime();
-            var processingTime = endTime - startTime;
+            // Resolve against every candidate row, before the query window drops any of them.
+            // With an application filter, updates of apps outside the filter are not candidates (the snapshot scan sees all)
+            phaseStart = new Date().getTime();
+            this.dependencyResolver.annotate(rows);
+            this._recordPhase('resolve_dependencies', phaseStart);
             
-            gs.info('StoreUpdatesProcessor: Completed successfully. Apps: ' + processedApps + ', Time: ' + processingTime + 'ms');
+            phaseStart = new Date().getTime();
+            this.compatibilityChecker.annotate(rows);
+            this._recordPhase('check_compatibility', phaseStart);
+            
+            this._addRowsToVirtualTable(v_table, query.apply(rows));
+            
+            this.timings.total = new Date().getTime() - startTime;
+            
+            gs.info('StoreUpdatesProcessor: Completed successfully. Apps: ' + processedApps + ', Downgrades skipped: ' + this.downgrades.length + ', Time: ' + this.timings.total + 'ms (' + this._describeTimings() + ')');
             
         } catch (error) {
             gs.error('StoreUpdatesProcessor: Fatal error during execution: ' + error.message);
             gs.error('StoreUpdatesProcessor: Stack trace: ' + error.stack);
             errors.push(error.message);
+            this.timings.total = new Date().getTime() - startTime;
         }
         
         return {
             success: errors.length === 0,
             processedApps: processedApps,
+            downgrades: this.downgrades,
+            versionQueries: this.versionQueryCount,
+            timings: this.timings,
             errors: errors
         };
     },
 
     /**
-     * Process all store applications and build update data
+     * Run a full update scan outside of a remote table query (used by StoreUpdatesSnapshot)
+     * @returns {Object} {rows, processedApps, downgrades, versionQueries, timings}
+     */
+    scan: function() {
+        var startTime = new Date().getTime();
+        this._resetScanState();
+        
+        var results = this._processStoreApplications();
+        
+        var phaseStart = new Date().getTime();
+        var rows = this._buildRows(results);
+        this._recordPhase('build_rows', phaseStart);
+        
+        phaseStart = new Date().getTime();
+        this.dependencyResolver.annotate(rows);
+        this._recordPhase('resolve_dependencies', phaseStart);
+        
+        phaseStart = new Date().getTime();
+        this.compatibilityChecker.annotate(rows);
+        this._recordPhase('check_compatibility', phaseStart);
+        
+        this.timings.total = new Date().getTime() - startTime;
+        
+        return {
+            rows: rows,
+            processedApps: Object.keys(results).length,
+            downgrades: this.downgrades,
+            versionQueries: this.versionQueryCount,
+            timings: this.timings
+        };
+    },
+
+    /**
+     * Process all store applications and build update data.
+     * Runs in phases: load apps, load versions (set-based), classify, finalize.
+     * @param {Array} [appSysIds] - Restrict the scan to these sys_store_app records
      * @returns {Object} Processed application data
      */
-    _processStoreApplications: function() {
+    _processStoreApplications: function(appSysIds) {
         var results = {};
-        var storeAppVer = new GlideRecord('sys_store_app');
         
-        try {
-            storeAppVer.addQuery('active', true);
-            storeAppVer.addQuery('update_available', true);
-            storeAppVer.query();
+        var phaseStart = new Date().getTime();
+        var apps = this._loadStoreApplications(appSysIds);
+        this._recordPhase('load_apps', phaseStart);
+        
+        phaseStart = new Date().getTime();
+        var versionsByApp = this.loadAvailableVersions(apps.map(function(app) {
+            return app.sys_id;
+        }));
+        this._recordPhase('load_versions', phaseStart);
+        
+        phaseStart = new Date().getTime();
+        for (var i = 0; i < apps.length; i++) {
+            var app = apps[i];
             
-            while (storeAppVer.next()) {
-                try {
-                    var appSysId = storeAppVer.getUniqueValue();
-                    var availableVersions = this._getAvailableVersions(appSysId);
-                    
-                    if (availableVersions && availableVersions.length > 0) {
-                        this._processAppVersions(results, storeAppVer, availableVersions);
-                    }
-                    
-                } catch (appError) {
-                    gs.warn('StoreUpdatesProcessor: Error processing app ' + storeAppVer.getDisplayValue() + ': ' + appError.message);
+            try {
+                var availableVersions = versionsByApp[app.sys_id];
+                
+                if (availableVersions && availableVersions.length > 0) {
+                    this._processAppVersions(results, app, availableVersions);
                 }
+                
+            } catch (appError) {
+                gs.warn('StoreUpdatesProcessor: Error processing app ' + app.name + ': ' + appError.message);
+            }
+        }
+        this._recordPhase('classify', phaseStart);
+        
+        phaseStart = new Date().getTime();
+        this._finalizeResults(results);
+        this._recordPhase('finalize', phaseStart);
+        
+        return results;
+    },
+
+    /**
+     * Load active store applications that have an update available
+     * @param {Array} [appSysIds] - Restrict to these sys_store_app records
+     * @returns {Array} Plain app objects {sys_id, name, version}
+     */
+    _loadStoreApplications: function(appSysIds) {
+        var apps = [];
+        var storeAppGR = new GlideRecord('sys_store_app');
+        
+        try {
+            storeAppGR.addQuery('active', true);
+            storeAppGR.addQuery('update_available', true);
+            if (appSysIds) {
+                storeAppGR.addQuery('sys_id', 'IN', appSysIds.join(','));
+            }
+            storeAppGR.query();
+            
+            while (storeAppGR.next()) {
+                apps.push({
+                    'sys_id': storeAppGR.getUniqueValue(),
+                    'name': storeAppGR.getDisplayValue(),
+                    'version': storeAppGR.getValue('version')
+                });
             }
             
         } catch (queryError) {
@@ -87,48 +190,67 @@ StoreUpdatesProcessor.prototype = {
             throw queryError;
         }
         
-        return this._finalizeResults(results);
+        return apps;
     },
 
     /**
-     * Get available versions for a store application
-     * @param {String} appSysId - Application sys_id
-     * @returns {Array} Array of version objects
+     * Load available versions for many store applications with chunked 'source_app_id IN' queries
+     * Also used by AvailableAppsProcessor for applications that are not installed yet
+     * @param {Array} appSysIds - sys_store_app / sys_remote_app sys_ids
+     * @returns {Object} Version arrays keyed by app sys_id, each in ascending version order
      */
-    _getAvailableVersions: function(appSysId) {
-        var versions = [];
+    loadAvailableVersions: function(appSysIds) {
+        var versionsByApp = {};
+        var comparator = this.versionComparator;
         
-        try {
-            var versionGR = new GlideRecord('sys_app_version');
-            versionGR.addQuery('source_app_id', appSysId);
-            versionGR.orderBy('version');
-            versionGR.query();
+        for (var start = 0; start < appSysIds.length; start += this.VERSION_QUERY_CHUNK_SIZE) {
+            var chunk = appSysIds.slice(start, start + this.VERSION_QUERY_CHUNK_SIZE);
             
-            while (versionGR.next()) {
-                versions.push({
-                    'sys_id': versionGR.getUniqueValue(),
-                    'name': versionGR.getDisplayValue(),
-                    'version': versionGR.getValue('version'),
-                    'publish_date': versionGR.getValue('publish_date')
-                });
+            try {
+                var versionGR = new GlideRecord('sys_app_version');
+                versionGR.addQuery('source_app_id', 'IN', chunk.join(','));
+                versionGR.query();
+                this.versionQueryCount++;
+                
+                while (versionGR.next()) {
+                    var appSysId = versionGR.getValue('source_app_id');
+                    
+                    if (!versionsByApp[appSysId]) {
+                        versionsByApp[appSysId] = [];
+                    }
+                    
+                    versionsByApp[appSysId].push({
+                        'sys_id': versionGR.getUniqueValue(),
+                        'name': versionGR.getDisplayValue(),
+                        'version': versionGR.getValue('version'),
+                        'publish_date': versionGR.getValue('publish_date')
+                    });
+                }
+                
+            } catch (error) {
+                gs.warn('StoreUpdatesProcessor: Error getting versions for ' + chunk.length + ' apps: ' + error.message);
             }
-            
-        } catch (error) {
-            gs.warn('StoreUpdatesProcessor: Error getting versions for app ' + appSysId + ': ' + error.message);
         }
         
-        return versions;
+        // Later levels overwrite earlier ones, so each list must be in numeric ascending order
+        for (var appId in versionsByApp) {
+            versionsByApp[appId].sort(function(a, b) {
+                return comparator.compare(a.version, b.version);
+            });
+        }
+        
+        return versionsByApp;
     },
 
     /**
      * Process versions for a specific application
      * @param {Object} results - Results object to populate
-     * @param {GlideRecord} storeAppVer - Store application record
+     * @param {Object} app - Store application {sys_id, name, version}
      * @param {Array} availableVersions - Available versions array
      */
-    _processAppVersions: function(results, storeAppVer, availableVersions) {
-        var appSysId = storeAppVer.getUniqueValue();
-        var installedVersion = storeAppVer.getValue('version');
+    _processAppVersions: function(results, app, availableVersions) {
+        var appSysId = app.sys_id;
+        var installedVersion = app.version;
         
         if (!results[appSysId]) {
             results[appSysId] = this._initializeAppResult();
@@ -138,9 +260,15 @@ StoreUpdatesProcessor.prototype = {
             var version = availableVersions[i];
             var updateType = this._compareVersions(installedVersion, version.version);
             
-            if (updateType !== 'no') {
+            if (updateType === 'downgrade') {
+                this.downgrades.push({
+                    application: appSysId,
+                    installed_version: installedVersion,
+                    listed_version: version.version
+                });
+            } else if (updateType !== 'no') {
                 this._updateResultForLevel(results[appSysId], updateType, {
-                    storeApp: storeAppVer,
+                    storeApp: app,
                     version: version,
                     installedVersion: installedVersion,
                     appSysId: appSysId
@@ -190,7 +318,7 @@ StoreUpdatesProcessor.prototype = {
         level.level = updateType;
         level.available_version = data.version.sys_id;
         level.installed_version = data.installedVersion;
-        level.name = data.storeApp.getDisplayValue() + ' - ' + data.version.version;
+        level.name = data.storeApp.name + ' - ' + data.version.version;
         
         // Set latest version references
         if (updateType === 'patch') {
@@ -219,29 +347,10 @@ StoreUpdatesProcessor.prototype = {
      * Compare two version strings and determine update type
      * @param {String} currentVer - Current installed version
      * @param {String} availableVer - Available version
-     * @returns {String} Update type: 'major', 'minor', 'patch', or 'no'
+     * @returns {String} Update type: 'major', 'minor', 'patch', 'no' (equal) or 'downgrade'
      */
     _compareVersions: function(currentVer, availableVer) {
-        if (!currentVer || !availableVer) {
-            return 'no';
-        }
-        
-        var currentParts = currentVer.split('.');
-        var availableParts = availableVer.split('.');
-        
-        // Ensure we have at least 3 parts for comparison
-        while (currentParts.length < 3) currentParts.push('0');
-        while (availableParts.length < 3) availableParts.push('0');
-        
-        if (currentParts[0] !== availableParts[0]) {
-            return 'major';
-        } else if (currentParts[1] !== availableParts[1]) {
-            return 'minor';
-        } else if (currentParts[2] !== availableParts[2]) {
-            return 'patch';
-        }
-        
-        return 'no';
+        return this.versionComparator.classify(currentVer, availableVer);
     },
 
     /**
@@ -275,23 +384,71 @@ StoreUpdatesProcessor.prototype = {
     },
 
     /**
-     * Add processed results to virtual table
+     * Flatten processed results into one row per application and batch level
+     * @param {Object} results - Finalized results keyed by application
+     * @returns {Array} Row objects
      */
-    _addRowsToVirtualTable: function(v_table, results) {
-        var rowCount = 0;
+    _buildRows: function(results) {
+        var rows = [];
         
         for (var appId in results) {
             var appResult = results[appId];
             
             for (var level in appResult) {
                 if (level !== 'no' && appResult[level].available_version) {
-                    v_table.addRow(appResult[level]);
-                    rowCount++;
+                    rows.push(appResult[level]);
                 }
             }
         }
         
-        gs.info('StoreUpdatesProcessor: Added ' + rowCount + ' rows to virtual table');
+        return rows;
+    },
+
+    /**
+     * Add rows to virtual table
+     */
+    _addRowsToVirtualTable: function(v_table, rows) {
+        for (var i = 0; i < rows.length; i++) {
+            v_table.addRow(rows[i]);
+        }
+        
+        gs.info('StoreUpdatesProcessor: Added ' + rows.length + ' rows to virtual table');
+    },
+
+    /**
+     * Clear per-scan state so one processor instance can run several scans
+     */
+    _resetScanState: function() {
+        this.downgrades = [];
+        this.timings = {};
+        this.versionQueryCount = 0;
+    },
+
+    /**
+     * Record the duration of a scan phase in milliseconds
+     * @param {String} phase - Phase name (load_apps, load_versions, classify, finalize, build_rows, resolve_dependencies, check_compatibility)
+     * @param {Number} phaseStart - Phase start time from Date.getTime()
+     */
+    _recordPhase: function(phase, phaseStart) {
+        this.timings[phase] = new Date().getTime() - phaseStart;
+    },
+
+    /**
+     * Format phase timings for the completion log line
+     * @returns {String} e.g. "load_apps: 12ms, load_versions: 40ms (1 queries), ..."
+     */
+    _describeTimings: function() {
+        var parts = [];
+        
+        for (var phase in this.timings) {
+            if (phase === 'total') {
+                continue;
+            }
+            parts.push(phase + ': ' + this.timings[phase] + 'ms' +
+                (phase === 'load_versions' ? ' (' + this.versionQueryCount + ' queries)' : ''));
+        }
+        
+        return parts.join(', ');
     },
 
     /**
@@ -0,0 +1,273 @@
+// src/server/script-includes/store-updates-snapshot.js
+// Persisted store updates scan - fills x_snc_store_upda_1_update_snapshot using StoreUpdatesProcessor
+// Overlapping scans (schedule + manual) are settled by scan id, which starts with the scan's start time in ms: the
+// x_snc_store_upda_1.snapshot_scan property points at the newest completed scan, older scans are purged, and a scan that
+// finishes after a newer one drops its own rows
+// READERS: Rows of the next scan are written before the old ones are purged - every reader filters on getCurrentScanId()
+// No imports needed - gs, GlideRecord, GlideAggregate are automatically available in ServiceNow server environment
+
+var StoreUpdatesSnapshot = Class.create();
+StoreUpdatesSnapshot.prototype = {
+
+    /**
+     * Initialize the Store Updates Snapshot
+     */
+    initialize: function() {
+        this.TABLE = 'x_snc_store_upda_1_update_snapshot';
+        this.ROW_FIELDS = [
+            'application', 'level', 'available_version', 'installed_version',
+            'latest_major_version', 'latest_minor_version', 'latest_patch_version',
+            'major_count', 'minor_count', 'patch_count',
+            'latest_version_level', 'batch_level', 'name', 'dependencies',
+            'compatibility', 'compatibility_reason'
+        ];
+        // "scan_id@scanned_on" of the newest completed scan
+        this.CURRENT_SCAN_PROPERTY = 'x_snc_store_upda_1.snapshot_scan';
+        // Time-ordered scan ids - older snapshots used plain GUIDs
+        this.SCAN_ID_PATTERN = /^\d{13}/;
+    },
+
+    /**
+     * Run a full scan and replace the snapshot contents.
+     * New rows are written before the previous scan is purged, so readers never see an empty table.
+     * A scan that completes after a newer-started scan has completed is superseded - its rows are dropped.
+     * @param {String} trigger - What started the scan ('scheduled', 'manual', 'sync')
+     * @returns {Object} Scan summary
+     */
+    rescan: function(trigger) {
+        var startTime = new Date().getTime();
+        var scanId = this._newScanId(startTime);
+        var scannedOn = new GlideDateTime();
+
+        gs.info('StoreUpdatesSnapshot: Starting ' + (trigger || 'manual') + ' scan ' + scanId);
+
+        try {
+            var scan = new x_snc_store_upda_1.StoreUpdatesProcessor().scan();
+            var writeStart = new Date().getTime();
+            var rowCount = this._insertRows(scan.rows, scanId, scannedOn);
+            var superseded = !this._makeCurrent(scanId, scannedOn);
+            var purgedCount = superseded ? this._purgeScan(scanId) : this._purgeOlderScans(scanId);
+            scan.timings.write_snapshot = new Date().getTime() - writeStart;
+            var duration = new Date().getTime() - startTime;
+
+            gs.info('StoreUpdatesSnapshot: Scan ' + scanId + (superseded ? ' superseded by a newer scan' : ' completed') +
+                '. Apps: ' + scan.processedApps +
+                ', Rows: ' + rowCount + ', Purged: ' + purgedCount + ', Version queries: ' + scan.versionQueries +
+                ', Time: ' + duration + 'ms (' + JSON.stringify(scan.timings) + ')');
+
+            return {
+                success: true,
+                scan_id: scanId,
+                scanned_on: scannedOn.getValue(),
+                trigger: trigger || 'manual',
+                app_count: scan.processedApps,
+                row_count: rowCount,
+                superseded: superseded,
+                downgrade_count: scan.downgrades.length,
+                version_queries: scan.versionQueries,
+                timings: scan.timings,
+                duration_ms: duration
+            };
+
+        } catch (error) {
+            gs.error('StoreUpdatesSnapshot: Scan ' + scanId + ' failed: ' + error.message);
+            // Drop any partial rows so the previous scan stays authoritative
+            this._purgeScan(scanId);
+            throw error;
+        }
+    },
+
+    /**
+     * Describe the current snapshot
+     * @returns {Object} {scan_id, scanned_on, row_count, app_count}
+     */
+    getStatus: function() {
+        var status = {
+            scan_id: null,
+            scanned_on: null,
+            row_count: 0,
+            app_count: 0
+        };
+
+        var current = this._resolveCurrentScan();
+        if (!current) {
+            return status;
+        }
+        status.scan_id = current.scan_id;
+        status.scanned_on = current.scanned_on;
+
+        var rowAgg = new GlideAggregate(this.TABLE);
+        rowAgg.addQuery('scan_id', status.scan_id);
+        rowAgg.addAggregate('COUNT');
+        rowAgg.query();
+        if (rowAgg.next()) {
+            status.row_count = parseInt(rowAgg.getAggregate('COUNT'), 10) || 0;
+        }
+
+        var appAgg = new GlideAggregate(this.TABLE);
+        appAgg.addQuery('scan_id', status.scan_id);
+        appAgg.addAggregate('COUNT(DISTINCT', 'application');
+        appAgg.setGroup(false);
+        appAgg.query();
+        if (appAgg.next()) {
+            status.app_count = parseInt(appAgg.getAggregate('COUNT(DISTINCT', 'application'), 10) || 0;
+        }
+
+        return status;
+    },
+
+    /**
+     * Scan id of the rows readers should see - the table also holds rows of running and superseded scans
+     * @returns {String} Empty when nothing was scanned yet
+     */
+    getCurrentScanId: function() {
+        var current = this._resolveCurrentScan();
+        return current ? current.scan_id : '';
+    },
+
+    /**
+     * The current scan, falling back to the newest rows of snapshots written before the current scan pointer existed
+     * @returns {Object|null} {scan_id, scanned_on}
+     */
+    _resolveCurrentScan: function() {
+        var current = this._currentScan();
+        if (current) {
+            return current;
+        }
+
+        var latest = new GlideRecord(this.TABLE);
+        latest.orderByDesc('scanned_on');
+        latest.setLimit(1);
+        latest.query();
+
+        if (!latest.next()) {
+            return null;
+        }
+        return { scan_id: latest.getValue('scan_id'), scanned_on: latest.getValue('scanned_on') };
+    },
+
+    /**
+     * Scan id that sorts by start time - the zero-padded start in ms, filled up with a GUID to the column's 32 characters
+     */
+    _newScanId: function(startTime) {
+        var stamp = String(startTime);
+        while (stamp.length < 13) {
+            stamp = '0' + stamp;
+        }
+        return stamp + gs.generateGUID().substring(0, 32 - stamp.length);
+    },
+
+    /**
+     * Whether a scan started after another one - plain GUID ids of older snapshots never count as newer
+     */
+    _isNewerScan: function(scanId, otherScanId) {
+        if (!this.SCAN_ID_PATTERN.test(scanId)) {
+            return false;
+        }
+        return !this.SCAN_ID_PATTERN.test(otherScanId) || scanId > otherScanId;
+    },
+
+    /**
+     * Write scan rows into the snapshot table
+     * @returns {Number} Inserted row count
+     */
+    _insertRows: function(rows, scanId, scannedOn) {
+        var inserted = 0;
+
+        for (var i = 0; i < rows.length; i++) {
+            var row = rows[i];
+            var snapshotGR = new GlideRecord(this.TABLE);
+            snapshotGR.initialize();
+
+            for (var f = 0; f < this.ROW_FIELDS.length; f++) {
+                var field = this.ROW_FIELDS[f];
+                if (row[field] !== null && row[field] !== undefined) {
+                    snapshotGR.setValue(field, row[field]);
+                }
+            }
+
+            snapshotGR.setValue('scan_id', scanId);
+            snapshotGR.setValue('scanned_on', scannedOn);
+
+            if (snapshotGR.insert()) {
+                inserted++;
+            } else {
+                gs.warn('StoreUpdatesSnapshot: Failed to insert row for ' + row.name);
+            }
+        }
+
+        return inserted;
+    },
+
+    /**
+     * The newest completed scan, from the current scan property
+     * @returns {Object|null} {scan_id, scanned_on}
+     */
+    _currentScan: function() {
+        var value = gs.getProperty(this.CURRENT_SCAN_PROPERTY, '');
+        var separator = value.indexOf('@');
+        if (separator <= 0) {
+            return null;
+        }
+        return { scan_id: value.substring(0, separator), scanned_on: value.substring(separator + 1) };
+    },
+
+    /**
+     * Point the current scan property at a completed scan unless a newer-started scan completed first
+     * @returns {Boolean} False when the scan is superseded
+     */
+    _makeCurrent: function(scanId, scannedOn) {
+        var current = this._currentScan();
+        if (current && this._isNewerScan(current.scan_id, scanId)) {
+            return false;
+        }
+
+        gs.setProperty(this.CURRENT_SCAN_PROPERTY, scanId + '@' + scannedOn.getValue());
+        return true;
+    },
+
+    /**
+     * Delete the rows of scans started before the given one - rows of a newer scan that is still running stay
+     * @returns {Number} Deleted row count
+     */
+    _purgeOlderScans: function(scanId) {
+        var count = 0;
+        var scanAgg = new GlideAggregate(this.TABLE);
+        scanAgg.addNotNullQuery('scan_id');
+        scanAgg.addQuery('scan_id', '!=', scanId);
+        scanAgg.groupBy('scan_id');
+        scanAgg.query();
+
+        while (scanAgg.next()) {
+            var otherScanId = scanAgg.getValue('scan_id');
+            if (!this._isNewerScan(otherScanId, scanId)) {
+                count += this._purgeScan(otherScanId);
+            }
+        }
+
+        // Rows written before scans had ids
+        var legacyGR = new GlideRecord(this.TABLE);
+        legacyGR.addNullQuery('scan_id');
+        legacyGR.query();
+        count += legacyGR.getRowCount();
+        legacyGR.deleteMultiple();
+
+        return count;
+    },
+
+    /**
+     * Delete all rows of one scan
+     * @returns {Number} Deleted row count
+     */
+    _purgeScan: function(scanId) {
+        var scanGR = new GlideRecord(this.TABLE);
+        scanGR.addQuery('scan_id', scanId);
+        scanGR.query();
+
+        var count = scanGR.getRowCount();
+        scanGR.deleteMultiple();
+        return count;
+    },
+
+    type: 'StoreUpdatesSnapshot'
+};
@@ -0,0 +1,155 @@
+// src/server/script-includes/version-comparator.js
+// Semver-aware version comparison shared by every script that classifies store updates
+// No imports needed - gs is automatically available in ServiceNow server environment
+
+var VersionComparator = Class.create();
+VersionComparator.prototype = {
+
+    /**
+     * Initialize the Version Comparator
+     */
+    initialize: function() {
+        // Segment index at which a difference is classified as each update level.
+        // Anything past the patch segment (e.g. 4.2.0.1) still counts as a patch.
+        this.SEGMENT_LEVELS = ['major', 'minor', 'patch'];
+    },
+
+    /**
+     * Classify the update from an installed version to an available version
+     * @param {String} installedVer - Currently installed version
+     * @param {String} availableVer - Candidate version
+     * @returns {String} 'major', 'minor', 'patch', 'no' (equal or unparseable) or 'downgrade'
+     */
+    classify: function(installedVer, availableVer) {
+        var installed = this.parse(installedVer);
+        var available = this.parse(availableVer);
+
+        if (!installed || !available) {
+            return 'no';
+        }
+
+        var length = Math.max(installed.segments.length, available.segments.length);
+        for (var i = 0; i < length; i++) {
+            var diff = this._segmentAt(available, i) - this._segmentAt(installed, i);
+            if (diff !== 0) {
+                if (diff < 0) {
+                    return 'downgrade';
+                }
+                return this.SEGMENT_LEVELS[Math.min(i, this.SEGMENT_LEVELS.length - 1)];
+            }
+        }
+
+        // Numeric segments are equal - only the pre-release tag can still differ
+        var preRelease = this._comparePreRelease(installed.preRelease, available.preRelease);
+        if (preRelease > 0) {
+            return 'downgrade';
+        }
+        return preRelease < 0 ? 'patch' : 'no';
+    },
+
+    /**
+     * Compare two version strings
+     * @param {String} a - First version
+     * @param {String} b - Second version
+     * @returns {Number} Negative if a < b, 0 if equal, positive if a > b
+     */
+    compare: function(a, b) {
+        var level = this.classify(a, b);
+
+        if (level === 'no') {
+            return 0;
+        }
+        return level === 'downgrade' ? 1 : -1;
+    },
+
+    /**
+     * Check whether a candidate version is strictly newer than the installed one
+     * @param {String} installedVer - Currently installed version
+     * @param {String} availableVer - Candidate version
+     * @returns {Boolean} True for major, minor and patch updates
+     */
+    isUpdate: function(installedVer, availableVer) {
+        var level = this.classify(installedVer, availableVer);
+        return level !== 'no' && level !== 'downgrade';
+    },
+
+    /**
+     * Parse a version string into numeric segments and an optional pre-release tag.
+     * Build metadata (+build) is ignored for precedence, as in semver.
+     * @param {String} version - Version string such as "4.02.0-beta.1+20240101"
+     * @returns {Object|null} {segments: Number[], preRelease: String[]} or null when unparseable
+     */
+    parse: function(version) {
+        if (!version) {
+            return null;
+        }
+
+        var value = String(version).trim();
+        var buildIndex = value.indexOf('+');
+        if (buildIndex !== -1) {
+            value = value.substring(0, buildIndex);
+        }
+
+        var preRelease = [];
+        var preIndex = value.indexOf('-');
+        if (preIndex !== -1) {
+            preRelease = value.substring(preIndex + 1).split('.');
+            value = value.substring(0, preIndex);
+        }
+
+        var parts = value.split('.');
+        var segments = [];
+        for (var i = 0; i < parts.length; i++) {
+            if (!/^\d+$/.test(parts[i])) {
+                return null;
+            }
+            segments.push(parseInt(parts[i], 10));
+        }
+
+        return {
+            segments: segments,
+            preRelease: preRelease
+        };
+    },
+
+    /**
+     * Read a numeric segment, treating missing trailing segments as zero
+     */
+    _segmentAt: function(parsed, index) {
+        return index < parsed.segments.length ? parsed.segments[index] : 0;
+    },
+
+    /**
+     * Compare pre-release identifiers using semver precedence rules
+     * @returns {Number} Negative if a < b, 0 if equal, positive if a > b
+     */
+    _comparePreRelease: function(a, b) {
+        // A release version has higher precedence than any of its pre-releases
+        if (a.length === 0 && b.length === 0) return 0;
+        if (a.length === 0) return 1;
+        if (b.length === 0) return -1;
+
+        var length = Math.max(a.length, b.length);
+        for (var i = 0; i < length; i++) {
+            if (i >= a.length) return -1;
+            if (i >= b.length) return 1;
+
+            var aNumeric = /^\d+$/.test(a[i]);
+            var bNumeric = /^\d+$/.test(b[i]);
+
+            if (aNumeric && bNumeric) {
+                var diff = parseInt(a[i], 10) - parseInt(b[i], 10);
+                if (diff !== 0) return diff;
+            } else if (aNumeric !== bNumeric) {
+                // Numeric identifiers sort before alphanumeric ones
+                return aNumeric ? -1 : 1;
+            } else if (a[i] !== b[i]) {
+                return a[i] < b[i] ? -1 : 1;
+            }
+        }
+
+        return 0;
+    },
+
+    type: 'VersionComparator'
+};
@@ -0,0 +1,210 @@
+// src/services/pollerService.ts
+// Reusable poller for long-running ServiceNow operations (CI/CD progress, sync_apps status)
+// Following atomic design principle: ServiceNow Services handle logic
+// - Non-overlapping: the next tick is only scheduled once the previous one settled
+// - Adaptive: fast while the operation starts, normal afterwards, slow when a tick reports a long phase
+// - Failure budget: consecutive failures back off, then the poller gives up with outcome 'failed'
+// - Paused while the tab is hidden, with an immediate tick when it becomes visible again
+// - Push-assisted: poke() ticks now (e.g. on a record watcher message), setHeartbeat() slows the schedule meanwhile
+
+import { logger, createLogContext } from '../monitoring/logger';
+
+export interface PollerTickResult {
+  done?: boolean;   // Stop polling - the operation reached an end state
+  slow?: boolean;   // Long phase (e.g. "Executing queued operation") - poll at slowIntervalMs
+}
+
+export type PollerOutcome = 'done' | 'stopped' | 'failed' | 'timeout';
+
+export interface PollerOptions {
+  name: string;
+  task: () => Promise<PollerTickResult | void>;
+  fastIntervalMs?: number;          // Interval during the first fastPhaseMs
+  fastPhaseMs?: number;
+  intervalMs?: number;
+  slowIntervalMs?: number;
+  maxBackoffMs?: number;
+  maxConsecutiveFailures?: number;
+  maxDurationMs?: number;           // Wall-clock limit - outcome 'timeout'
+  pauseWhenHidden?: boolean;
+  onError?: (error: Error, consecutiveFailures: number) => void;
+  onGiveUp?: (outcome: Extract<PollerOutcome, 'failed' | 'timeout'>, lastError: Error | null) => void;
+}
+
+export const DEFAULT_POLLER_OPTIONS = {
+  fastIntervalMs: 2000,
+  fastPhaseMs: 30 * 1000,
+  intervalMs: 5000,
+  slowIntervalMs: 15000,
+  maxBackoffMs: 60 * 1000,
+  maxConsecutiveFailures: 5,
+  pauseWhenHidden: true
+};
+
+const toError = (error: unknown): Error => error instanceof Error ? error : new Error(String(error));
+
+export class Poller {
+  private readonly options: PollerOptions & typeof DEFAULT_POLLER_OPTIONS;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = false;
+  private stopped = false;
+  private paused = false;
+  private startedAt = 0;
+  private consecutiveFailures = 0;
+  private lastError: Error | null = null;
+  private lastResult: PollerTickResult = {};
+  private heartbeatMs: number | null = null;
+  private pokePending = false;
+  private resolveFinished: (outcome: PollerOutcome) => void = () => undefined;
+
+  /** Settles once the poller ends - never rejects */
+  readonly finished: Promise<PollerOutcome>;
+
+  constructor(options: PollerOptions) {
+    this.options = { ...DEFAULT_POLLER_OPTIONS, ...options };
+    this.finished = new Promise(resolve => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  start(): this {
+    this.startedAt = Date.now();
+    if (this.options.pauseWhenHidden && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      this.paused = document.visibilityState === 'hidden';
+    }
+
+    logger.info('Poller started', createLogContext({
+      poller: this.options.name,
+      paused: this.paused
+    }));
+
+    this.schedule(this.options.fastIntervalMs);
+    return this;
+  }
+
+  stop(): void {
+    this.finish('stopped');
+  }
+
+  isRunning(): boolean {
+    return !this.stopped;
+  }
+
+  /** Tick right away - a tick in flight is followed by one more instead of overlapping */
+  poke(): void {
+    if (this.stopped || this.paused) return;
+    if (this.inFlight) {
+      this.pokePending = true;
+      return;
+    }
+    this.schedule(0);
+  }
+
+  /** While pushes arrive, poll only every heartbeatMs as a safety net; null restores the adaptive schedule */
+  setHeartbeat(heartbeatMs: number | null): void {
+    this.heartbeatMs = heartbeatMs;
+    if (!this.stopped && !this.inFlight && this.timer) {
+      this.schedule(this.nextDelay());
+    }
+  }
+
+  private finish(outcome: PollerOutcome): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.clearTimer();
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    logger.info('Poller finished', createLogContext({
+      poller: this.options.name,
+      outcome,
+      consecutiveFailures: this.consecutiveFailures,
+      elapsedMs: Date.now() - this.startedAt
+    }));
+
+    if (outcome === 'failed' || outcome === 'timeout') {
+      this.options.onGiveUp?.(outcome, this.lastError);
+    }
+    this.resolveFinished(outcome);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    if (this.stopped || this.paused) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delayMs);
+  }
+
+  private nextDelay(): number {
+    const { fastIntervalMs, fastPhaseMs, intervalMs, slowIntervalMs, maxBackoffMs } = this.options;
+
+    if (this.consecutiveFailures > 0) {
+      return Math.min(intervalMs * 2 ** (this.consecutiveFailures - 1), maxBackoffMs);
+    }
+    if (this.heartbeatMs !== null) return this.heartbeatMs;
+    if (this.lastResult.slow) return slowIntervalMs;
+    return Date.now() - this.startedAt < fastPhaseMs ? fastIntervalMs : intervalMs;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.stopped || this.paused || this.inFlight) return;
+
+    const { maxDurationMs, maxConsecutiveFailures } = this.options;
+    if (maxDurationMs !== undefined && Date.now() - this.startedAt >= maxDurationMs) {
+      this.finish('timeout');
+      return;
+    }
+
+    this.inFlight = true;
+    try {
+      this.lastResult = (await this.options.task()) || {};
+      this.consecutiveFailures = 0;
+      this.lastError = null;
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.lastError = toError(error);
+      this.options.onError?.(this.lastError, this.consecutiveFailures);
+    } finally {
+      this.inFlight = false;
+    }
+
+    if (this.stopped) return;
+    if (this.lastResult.done) {
+      this.finish('done');
+    } else if (this.consecutiveFailures >= maxConsecutiveFailures) {
+      this.finish('failed');
+    } else {
+      this.schedule(this.pokePending ? 0 : this.nextDelay());
+      this.pokePending = false;
+    }
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (this.stopped) return;
+
+    if (document.visibilityState === 'hidden') {
+      this.paused = true;
+      this.clearTimer();
+      return;
+    }
+
+    // Catch up right away - the operation kept running while the tab was hidden
+    this.paused = false;
+    if (!this.inFlight) {
+      this.schedule(0);
+    }
+  };
+}
+
+export const createPoller = (options: PollerOptions): Poller => new Poller(options).start();
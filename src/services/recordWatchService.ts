@@ -0,0 +1,107 @@
+// src/services/recordWatchService.ts
+// Record watcher (AMB) subscriptions - the platform pushes a message whenever a watched record changes
+// Following atomic design principle: ServiceNow Services handle logic
+// Used as a trigger only: callers refetch through apiService, so pushed and polled updates take the same path
+// Disabled by x_snc_store_upda_1.live_updates=false or when the page has no AMB client - callers keep polling
+
+import { logger, createLogContext } from '../monitoring/logger';
+
+export type LiveConnectionStatus = 'connecting' | 'live' | 'disconnected';
+
+// Minimal surface of the platform's AMB client (window.amb)
+interface AmbChannel {
+  subscribe: (callback: (message: AmbMessage) => void) => unknown;
+  unsubscribe: (listener: unknown) => void;
+}
+
+export interface AmbClient {
+  getChannel: (channelName: string) => AmbChannel;
+  subscribeToEvent?: (event: string, callback: () => void) => unknown;
+  unsubscribeToEvent?: (listener: unknown) => void;
+  getState?: () => string;
+}
+
+interface AmbMessage {
+  data?: {
+    operation?: string;
+    sys_id?: string;
+    changes?: string[];
+  };
+}
+
+export interface WatchRecordOptions {
+  table: string;
+  sysId: string;
+  onChange: (changes: string[]) => void;
+  onStatusChange?: (status: LiveConnectionStatus) => void;
+}
+
+const AMB_EVENTS = {
+  opened: 'connection.opened',
+  broken: 'connection.broken',
+  closed: 'connection.closed'
+};
+
+const getAmbClient = (): AmbClient | null => {
+  try {
+    return window.amb?.getClient?.() ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Live updates need both the property (injected into appContext) and an AMB client on the page
+ */
+export const isLiveUpdatesAvailable = (): boolean =>
+  window.snImmediateData?.appContext?.live_updates !== 'false' && getAmbClient() !== null;
+
+/**
+ * Record watcher channel - base64 of the encoded query with '=' padding replaced by '-'
+ */
+export const recordWatchChannel = (table: string, encodedQuery: string): string =>
+  `/rw/default/${table}/${btoa(encodedQuery).replace(/=/g, '-')}`;
+
+/**
+ * Watch one record. Returns the unsubscribe function, or null when live updates are not available
+ */
+export const watchRecord = ({ table, sysId, onChange, onStatusChange }: WatchRecordOptions): (() => void) | null => {
+  if (!isLiveUpdatesAvailable()) return null;
+
+  const client = getAmbClient();
+  if (!client) return null;
+
+  const channelName = recordWatchChannel(table, `sys_id=${sysId}`);
+  try {
+    const channel = client.getChannel(channelName);
+    const listener = channel.subscribe((message: AmbMessage) => {
+      onChange(message.data?.changes ?? []);
+    });
+
+    const eventListeners = client.subscribeToEvent
+      ? [
+        client.subscribeToEvent(AMB_EVENTS.opened, () => onStatusChange?.('live')),
+        client.subscribeToEvent(AMB_EVENTS.broken, () => onStatusChange?.('disconnected')),
+        client.subscribeToEvent(AMB_EVENTS.closed, () => onStatusChange?.('disconnected'))
+      ]
+      : [];
+
+    const state = client.getState?.();
+    onStatusChange?.(state === undefined || state === 'opened' ? 'live' : 'connecting');
+
+    logger.info('Record watcher subscribed', createLogContext({ table, sysId, channelName }));
+
+    return () => {
+      channel.unsubscribe(listener);
+      eventListeners.forEach(eventListener => client.unsubscribeToEvent?.(eventListener));
+      logger.info('Record watcher unsubscribed', createLogContext({ table, sysId }));
+    };
+  } catch (error) {
+    logger.warn('Record watcher subscription failed - falling back to polling', createLogContext({
+      table,
+      sysId,
+      error: error instanceof Error ? error.message : String(error)
+    }));
+    return null;
+  }
+};
@@ -8,6 +8,7 @@
 // UPDATED: Default page size changed from 25 to 10 rows
 // SIMPLIFIED: Updated filters to only include batch_level and published_date
 // FIXED: Critical count comparison to use actual batch_level values
+// TARGETS: Per-application upgrade target level (patch / minor / major) chosen in the grid
 
 import { create } from 'zustand';
 import { subscribeWithSelector, devtools } from 'zustand/middleware';
@@ -87,6 +88,9 @@ export interface StoreUpdatesState {
   
   // NEW: Track if data-changing actions have been performed
   hasPerformedDataActions: boolean;
+
+  // TARGETS: Chosen upgrade target per application (sys_store_app sys_id); absent = newest version
+  targetLevels: Record<string, 'major' | 'minor' | 'patch'>;
   
   // Actions (Section 5: ServiceNow Integration)
   actions: {
@@ -101,6 +105,9 @@ export interface StoreUpdatesState {
     
     // NEW: Mark that data-changing actions have been performed
     markDataActionsPerformed: () => void;
+
+    // TARGETS: Choose the upgrade target level of one application
+    setTargetLevel: (applicationId: string, level: 'major' | 'minor' | 'patch') => void;
     
     // Client-side filtering (Section 5: Advanced Filtering) - SIMPLIFIED
     setSearch: (search: string) => void;
@@ -225,10 +232,10 @@ const applyFilters = (records: StoreUpdate[], filters: StoreUpdatesFilters): Sto
     );
   }
 
-  // Apply batch level filter
+  // Apply batch level filter - on the highest available update, not the level of the chosen target row
   if (filters.batch_level.length > 0) {
     filtered = filtered.filter(record => 
-      filters.batch_level.includes(record.batch_level)
+      filters.batch_level.includes(record.latest_version_level || record.batch_level)
     );
   }
 
@@ -283,6 +290,7 @@ export const useStoreUpdatesStore = create<StoreUpdatesState>()(
       totalPages: 1,
       statistics: createDefaultStatistics(),
       hasPerformedDataActions: false, // NEW: Track data-changing actions
+      targetLevels: {},
 
       actions: {
         // Pattern 2C: Sync server data from TanStack Query
@@ -429,9 +437,9 @@ export const useStoreUpdatesStore = create<StoreUpdatesState>()(
           const state = get();
           const { immediateStats, calculatedStats } = state.statistics;
 
-          // Calculate critical count using actual batch_level values
+          // Calculate critical count using the highest available update of each application
           const criticalCount = state.filteredRecords.filter(record => 
-            record.batch_level === 'major'
+            (record.latest_version_level || record.batch_level) === 'major'
           ).length;
           
           const currentlyShown = state.paginatedRecords.length;
@@ -593,6 +601,17 @@ export const useStoreUpdatesStore = create<StoreUpdatesState>()(
           get().actions.refreshHybridStats();
         },
 
+        // TARGETS: useStoreUpdatesHybrid re-derives the displayed rows from the new choice
+        setTargetLevel: (applicationId: string, level: 'major' | 'minor' | 'patch') => {
+          logger.info('Upgrade target changed', createLogContext({
+            pattern: 'target-level',
+            applicationId,
+            level
+          }));
+
+          set({ targetLevels: { ...get().targetLevels, [applicationId]: level } });
+        },
+
         // Section 5: Performance Optimization with proper validation
         setPage: (requestedPage: number) => {
           const state = get();
@@ -2,46 +2,114 @@
 // Zustand store for batch operation progress management
 // Following Architecture.md separation of concerns - Global state management
 // Handles progress tracking for installation operations with ServiceNow progress worker integration
+// OUTCOMES: batchId links the operation to its install batch record for the per-app status table
+// CANCEL: 'cancelling' while the installing app finishes, 'cancelled' once the batch ended
+// ASYNC: 'queued' from the 202 until the background installer reports its progress record
+// RESUME: trackedBatchId is persisted - after a reload the dashboard re-attaches to the batch or reports how it ended
+// OPERATIONS: Keyed collection of install / sync / repair / scan operations - the flat single-operation fields
+// mirror the primary (install) operation, so the main progress bar and its selectors work unchanged
+// POLLER: 'unknown' when polling gave up after repeated failures - the server may still be running it
+// LIVE: progressFeed tells the progress panel whether updates are pushed by the record watcher or polled
 
+import { useMemo } from 'react';
 import { create } from 'zustand';
-import { subscribeWithSelector } from 'zustand/middleware';
+import { persist, subscribeWithSelector } from 'zustand/middleware';
 
 // Batch operation types
 export type BatchOperationType = 'install-all' | 'install-critical' | 'install-patches' | string;
 
-export type BatchOperationStatus = 
-  | 'idle' 
-  | 'preparing' 
-  | 'calling-api' 
-  | 'started' 
-  | 'running' 
-  | 'complete' 
-  | 'error';
+export type BatchOperationStatus =
+  | 'idle'
+  | 'preparing'
+  | 'calling-api'
+  | 'queued'
+  | 'started'
+  | 'running'
+  | 'cancelling'
+  | 'complete'
+  | 'cancelled'
+  | 'error'
+  | 'unknown';
+
+export type OperationKind = 'install' | 'sync' | 'repair' | 'scan';
+
+// How the primary operation receives progress - 'connecting' while the record watcher channel opens
+export type ProgressFeed = 'live' | 'connecting' | 'polling';
+
+export type OperationFinalStatus = Extract<BatchOperationStatus, 'complete' | 'cancelled' | 'error' | 'unknown'>;
+
+// One tracked operation - install batches, Sync Applications runs, repairs and snapshot scans
+export interface Operation {
+  id: string;
+  kind: OperationKind;
+  label: string;                 // Drawer title and notification title
+  operationType: BatchOperationType | null;
+  status: BatchOperationStatus;
+  progress: number | null;       // 0-100, null while the operation reports no percentage
+  message: string;
+  progressWorkerId: string | null;
+  batchId: string | null;
+  selectedIds: string[];
+  startTime: number;
+  endTime: number | null;
+  error: string | null;
+  errorDetails: any;
+}
+
+export interface BeginOperationOptions {
+  operationType?: BatchOperationType;
+  selectedIds?: string[];
+  message?: string;
+  progress?: number | null;
+  batchId?: string;
+  startTime?: number;
+}
+
+export type OperationPatch = Partial<Pick<Operation, 'status' | 'progress' | 'message' | 'progressWorkerId' | 'batchId'>>;
 
 // Batch progress state interface
 export interface BatchProgress {
   // Operation identification
   operationId: string | null;
   operationType: BatchOperationType | null;
-  
+
   // Status and progress
   status: BatchOperationStatus;
   progress: number; // 0-100
   message: string;
-  
+
   // ServiceNow integration
   progressWorkerId: string | null; // From subflow response
+  batchId: string | null; // x_snc_store_upda_1_install_batch record - per-app outcomes
+  trackedBatchId: string | null; // Batch whose end this browser has not shown yet (persisted)
+  progressFeed: ProgressFeed | null;
   selectedIds: string[];
-  
+
   // Timestamps
   startTime: number | null;
   endTime: number | null;
-  
+
   // Error handling
   error: string | null;
   errorDetails: any;
 }
 
+// Keyed operations - primaryOperationId is the install operation behind the main progress bar
+export interface OperationsState {
+  operations: Record<string, Operation>;
+  primaryOperationId: string | null;
+}
+
+// Keyed operation actions
+export interface OperationsActions {
+  beginOperation: (kind: OperationKind, label: string, options?: BeginOperationOptions) => string;
+  patchOperation: (id: string, patch: OperationPatch) => void;
+  finishOperation: (id: string, status: OperationFinalStatus, message?: string, details?: any) => void;
+  dismissOperation: (id: string) => void;
+  clearFinishedOperations: () => void;
+  hasActiveOperation: (kind?: OperationKind) => boolean;
+}
+
 // Store actions interface
 export interface BatchProgressActions {
   // Operation lifecycle
@@ -49,14 +117,19 @@ export interface BatchProgressActions {
   updateStatus: (status: BatchOperationStatus, message?: string) => void;
   updateProgress: (progress: number, message?: string) => void;
   setProgressWorkerId: (progressWorkerId: string) => void;
+  setBatchId: (batchId: string | null) => void;
+  setProgressFeed: (progressFeed: ProgressFeed | null) => void;
+  resumeOperation: (batchId: string, selectedIds: string[], startTime: number | null) => void;
   completeOperation: (message?: string) => void;
+  cancelOperation: (message?: string) => void;
   errorOperation: (error: string, details?: any) => void;
+  markOperationUnknown: (message?: string) => void;
   resetOperation: () => void;
-  
+
   // Progress worker polling
   startProgressPolling: (progressWorkerId: string) => void;
   stopProgressPolling: () => void;
-  
+
   // Computed getters
   isActive: () => boolean;
   getDuration: () => number | null;
@@ -64,151 +137,354 @@ export interface BatchProgressActions {
 }
 
 // Combined store interface
-export interface BatchProgressStore extends BatchProgress, BatchProgressActions {}
+export interface BatchProgressStore extends BatchProgress, OperationsState, OperationsActions, BatchProgressActions {}
+
+export const FINAL_OPERATION_STATUSES: BatchOperationStatus[] = ['idle', 'complete', 'cancelled', 'error', 'unknown'];
+
+export const isOperationActive = (operation: Pick<Operation, 'status'>): boolean =>
+  !FINAL_OPERATION_STATUSES.includes(operation.status);
+
+// Finished operations kept for the drawer's "Recent" list
+const MAX_RECENT_OPERATIONS = 20;
+
+const INSTALL_OPERATION_LABELS: Record<string, string> = {
+  'install-all': 'Install updates',
+  'install-critical': 'Install critical updates',
+  'install-patches': 'Install patch updates'
+};
+
+const createOperationId = (): string => `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const IDLE_PROGRESS: Omit<BatchProgress, 'trackedBatchId' | 'progressFeed'> = {
+  operationId: null,
+  operationType: null,
+  status: 'idle',
+  progress: 0,
+  message: '',
+  progressWorkerId: null,
+  batchId: null,
+  selectedIds: [],
+  startTime: null,
+  endTime: null,
+  error: null,
+  errorDetails: null
+};
+
+// Flat single-operation fields of the primary operation
+const toBatchProgress = (operation: Operation | null): Omit<BatchProgress, 'trackedBatchId' | 'progressFeed'> => operation
+  ? {
+    operationId: operation.id,
+    operationType: operation.operationType,
+    status: operation.status,
+    progress: operation.progress ?? 0,
+    message: operation.message,
+    progressWorkerId: operation.progressWorkerId,
+    batchId: operation.batchId,
+    selectedIds: operation.selectedIds,
+    startTime: operation.startTime,
+    endTime: operation.endTime,
+    error: operation.error,
+    errorDetails: operation.errorDetails
+  }
+  : IDLE_PROGRESS;
+
+// Drop the oldest finished operations beyond MAX_RECENT_OPERATIONS
+const pruneOperations = (operations: Record<string, Operation>, keepId: string | null): Record<string, Operation> => {
+  const finished = Object.values(operations)
+    .filter(operation => !isOperationActive(operation) && operation.id !== keepId)
+    .sort((a, b) => (b.endTime ?? b.startTime) - (a.endTime ?? a.startTime));
+
+  if (finished.length <= MAX_RECENT_OPERATIONS) {
+    return operations;
+  }
+
+  const pruned = { ...operations };
+  finished.slice(MAX_RECENT_OPERATIONS).forEach(operation => {
+    delete pruned[operation.id];
+  });
+  return pruned;
+};
 
 // Create the Zustand store with subscribeWithSelector middleware for selective re-renders
 export const useBatchProgressStore = create<BatchProgressStore>()(
-  subscribeWithSelector((set, get) => ({
-    // Initial state
-    operationId: null,
-    operationType: null,
-    status: 'idle',
-    progress: 0,
-    message: '',
-    progressWorkerId: null,
-    selectedIds: [],
-    startTime: null,
-    endTime: null,
-    error: null,
-    errorDetails: null,
-
-    // Actions
-    startOperation: (operationType: BatchOperationType, selectedIds: string[]) => {
-      const operationId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const startTime = Date.now();
-      
-      set({
-        operationId,
-        operationType,
-        selectedIds: [...selectedIds],
-        status: 'preparing',
-        progress: 0,
-        message: 'Initializing batch operation...',
-        progressWorkerId: null,
-        startTime,
-        endTime: null,
-        error: null,
-        errorDetails: null
-      });
-      
-      return operationId;
-    },
-
-    updateStatus: (status: BatchOperationStatus, message?: string) => {
-      set(state => ({
-        status,
-        message: message || state.message
-      }));
-    },
-
-    updateProgress: (progress: number, message?: string) => {
-      set(state => ({
-        progress: Math.min(100, Math.max(0, progress)),
-        message: message || state.message
-      }));
-    },
-
-    setProgressWorkerId: (progressWorkerId: string) => {
-      set({
-        progressWorkerId,
-        status: 'started',
-        message: 'Installation process started - tracking progress...'
-      });
-    },
-
-    completeOperation: (message?: string) => {
-      set({
-        status: 'complete',
-        progress: 100,
-        message: message || 'Operation completed successfully',
-        endTime: Date.now()
-      });
-    },
-
-    errorOperation: (error: string, details?: any) => {
-      set({
-        status: 'error',
-        error,
-        errorDetails: details,
-        message: `Operation failed: ${error}`,
-        endTime: Date.now()
+  subscribeWithSelector(persist((set, get) => {
+    // Write one operation - the flat fields follow when it is the primary operation
+    const writeOperation = (operation: Operation, extra: Partial<BatchProgress & OperationsState> = {}) => {
+      set(state => {
+        const primaryOperationId = extra.primaryOperationId !== undefined ? extra.primaryOperationId : state.primaryOperationId;
+        const operations = pruneOperations({ ...state.operations, [operation.id]: operation }, primaryOperationId);
+        return {
+          ...extra,
+          operations,
+          ...(operation.id === primaryOperationId && toBatchProgress(operation))
+        };
       });
-    },
-
-    resetOperation: () => {
-      // Stop any active polling first
-      get().stopProgressPolling();
-      
-      set({
-        operationId: null,
-        operationType: null,
-        status: 'idle',
-        progress: 0,
-        message: '',
-        progressWorkerId: null,
-        selectedIds: [],
-        startTime: null,
-        endTime: null,
-        error: null,
-        errorDetails: null
-      });
-    },
-
-    // Progress worker polling (will be implemented in custom hook)
-    startProgressPolling: (progressWorkerId: string) => {
-      // Implementation will be in the custom hook that uses this store
-      console.log('Starting progress polling for:', progressWorkerId);
-    },
-
-    stopProgressPolling: () => {
-      // Implementation will be in the custom hook that uses this store
-      console.log('Stopping progress polling');
-    },
-
-    // Computed getters
-    isActive: () => {
-      const state = get();
-      return !['idle', 'complete', 'error'].includes(state.status);
-    },
-
-    getDuration: () => {
-      const state = get();
-      if (!state.startTime) return null;
-      const endTime = state.endTime || Date.now();
-      return endTime - state.startTime;
-    },
-
-    getOperationSummary: () => {
-      const state = get();
-      const duration = state.getDuration();
-      const durationText = duration ? ` (${Math.round(duration / 1000)}s)` : '';
-      
-      return `${state.operationType || 'Operation'}: ${state.selectedIds.length} items${durationText}`;
-    }
+    };
+
+    const getPrimary = (): Operation | null => {
+      const { operations, primaryOperationId } = get();
+      return primaryOperationId ? operations[primaryOperationId] ?? null : null;
+    };
+
+    const patchPrimary = (patch: OperationPatch) => {
+      const primary = getPrimary();
+      if (primary) {
+        get().patchOperation(primary.id, patch);
+      }
+    };
+
+    const finishPrimary = (status: OperationFinalStatus, message?: string, details?: any, trackedBatchId?: string | null) => {
+      const primary = getPrimary();
+      if (primary) {
+        get().finishOperation(primary.id, status, message, details);
+      }
+      if (trackedBatchId !== undefined) {
+        set({ trackedBatchId });
+      }
+    };
+
+    return {
+      // Initial state
+      ...IDLE_PROGRESS,
+      trackedBatchId: null,
+      progressFeed: null,
+      operations: {},
+      primaryOperationId: null,
+
+      // Keyed operations
+      beginOperation: (kind: OperationKind, label: string, options: BeginOperationOptions = {}) => {
+        const id = createOperationId();
+        writeOperation({
+          id,
+          kind,
+          label,
+          operationType: options.operationType ?? null,
+          status: 'preparing',
+          progress: options.progress !== undefined ? options.progress : 0,
+          message: options.message ?? 'Starting...',
+          progressWorkerId: null,
+          batchId: options.batchId ?? null,
+          selectedIds: [...(options.selectedIds ?? [])],
+          startTime: options.startTime ?? Date.now(),
+          endTime: null,
+          error: null,
+          errorDetails: null
+        });
+        return id;
+      },
+
+      patchOperation: (id: string, patch: OperationPatch) => {
+        const operation = get().operations[id];
+        if (!operation) return;
+
+        writeOperation({
+          ...operation,
+          ...patch,
+          ...(patch.progress !== undefined && patch.progress !== null && {
+            progress: Math.min(100, Math.max(0, patch.progress))
+          }),
+          message: patch.message || operation.message
+        });
+      },
+
+      finishOperation: (id: string, status: OperationFinalStatus, message?: string, details?: any) => {
+        const operation = get().operations[id];
+        if (!operation) return;
+
+        const defaultMessages: Record<OperationFinalStatus, string> = {
+          complete: 'Operation completed successfully',
+          cancelled: 'Operation cancelled',
+          error: 'Operation failed',
+          unknown: 'Lost contact with the operation - check its status on the server'
+        };
+
+        writeOperation({
+          ...operation,
+          status,
+          progress: status === 'complete' ? 100 : operation.progress,
+          message: status === 'error'
+            ? `Operation failed: ${message || defaultMessages.error}`
+            : message || defaultMessages[status],
+          error: status === 'error' ? message || defaultMessages.error : operation.error,
+          errorDetails: status === 'error' ? details : operation.errorDetails,
+          endTime: Date.now()
+        });
+      },
+
+      dismissOperation: (id: string) => {
+        set(state => {
+          const { [id]: _dismissed, ...operations } = state.operations;
+          return id === state.primaryOperationId
+            ? { operations, primaryOperationId: null, ...IDLE_PROGRESS }
+            : { operations };
+        });
+      },
+
+      clearFinishedOperations: () => {
+        set(state => ({
+          operations: Object.fromEntries(Object.entries(state.operations)
+            .filter(([id, operation]) => isOperationActive(operation) || id === state.primaryOperationId))
+        }));
+      },
+
+      hasActiveOperation: (kind?: OperationKind) => Object.values(get().operations)
+        .some(operation => isOperationActive(operation) && (!kind || operation.kind === kind)),
+
+      // Single-operation actions - all act on the primary install operation
+      startOperation: (operationType: BatchOperationType, selectedIds: string[]) => {
+        const id = createOperationId();
+        writeOperation({
+          id,
+          kind: 'install',
+          label: INSTALL_OPERATION_LABELS[operationType] ?? 'Install updates',
+          operationType,
+          status: 'preparing',
+          progress: 0,
+          message: 'Initializing batch operation...',
+          progressWorkerId: null,
+          batchId: null,
+          selectedIds: [...selectedIds],
+          startTime: Date.now(),
+          endTime: null,
+          error: null,
+          errorDetails: null
+        }, { primaryOperationId: id, trackedBatchId: null, progressFeed: null });
+
+        return id;
+      },
+
+      updateStatus: (status: BatchOperationStatus, message?: string) => {
+        patchPrimary({ status, ...(message && { message }) });
+      },
+
+      updateProgress: (progress: number, message?: string) => {
+        patchPrimary({ progress, ...(message && { message }) });
+      },
+
+      setProgressWorkerId: (progressWorkerId: string) => {
+        patchPrimary({
+          progressWorkerId,
+          status: 'started',
+          message: 'Installation process started - tracking progress...'
+        });
+      },
+
+      setBatchId: (batchId: string | null) => {
+        patchPrimary({ batchId });
+        set({ trackedBatchId: batchId });
+      },
+
+      setProgressFeed: (progressFeed: ProgressFeed | null) => {
+        set({ progressFeed });
+      },
+
+      // Re-attach to a batch started before this page load - status is set by the caller from the batch state
+      resumeOperation: (batchId: string, selectedIds: string[], startTime: number | null) => {
+        const id = createOperationId();
+        writeOperation({
+          id,
+          kind: 'install',
+          label: 'Install updates',
+          operationType: 'install-all',
+          status: 'preparing',
+          progress: 0,
+          message: 'Reconnecting to the running installation...',
+          progressWorkerId: null,
+          batchId,
+          selectedIds: [...selectedIds],
+          startTime: startTime ?? Date.now(),
+          endTime: null,
+          error: null,
+          errorDetails: null
+        }, { primaryOperationId: id, trackedBatchId: batchId, progressFeed: null });
+      },
+
+      completeOperation: (message?: string) => {
+        finishPrimary('complete', message, undefined, null);
+      },
+
+      cancelOperation: (message?: string) => {
+        finishPrimary('cancelled', message, undefined, null);
+      },
+
+      errorOperation: (error: string, details?: any) => {
+        finishPrimary('error', error, details);
+      },
+
+      // Polling gave up - the batch stays tracked so a reload or "Check again" picks it up
+      markOperationUnknown: (message?: string) => {
+        finishPrimary('unknown', message);
+      },
+
+      resetOperation: () => {
+        // Stop any active polling first
+        get().stopProgressPolling();
+
+        // The finished operation stays in the drawer's recent list - only the main progress bar is cleared
+        const primary = getPrimary();
+        set(state => ({
+          ...IDLE_PROGRESS,
+          primaryOperationId: null,
+          trackedBatchId: null,
+          progressFeed: null,
+          operations: primary && isOperationActive(primary)
+            ? Object.fromEntries(Object.entries(state.operations).filter(([id]) => id !== primary.id))
+            : state.operations
+        }));
+      },
+
+      // Progress worker polling (will be implemented in custom hook)
+      startProgressPolling: (progressWorkerId: string) => {
+        // Implementation will be in the custom hook that uses this store
+        console.log('Starting progress polling for:', progressWorkerId);
+      },
+
+      stopProgressPolling: () => {
+        // Implementation will be in the custom hook that uses this store
+        console.log('Stopping progress polling');
+      },
+
+      // Computed getters
+      isActive: () => {
+        const state = get();
+        return !FINAL_OPERATION_STATUSES.includes(state.status);
+      },
+
+      getDuration: () => {
+        const state = get();
+        if (!state.startTime) return null;
+        const endTime = state.endTime || Date.now();
+        return endTime - state.startTime;
+      },
+
+      getOperationSummary: () => {
+        const state = get();
+        const duration = state.getDuration();
+        const durationText = duration ? ` (${Math.round(duration / 1000)}s)` : '';
+
+        return `${state.operationType || 'Operation'}: ${state.selectedIds.length} items${durationText}`;
+      }
+    };
+  }, {
+    name: 'store-updates-batch-progress',
+    // Only the batch id survives a reload - its state always comes from the server
+    partialize: (state) => ({
+      trackedBatchId: state.trackedBatchId
+    })
   }))
 );
 
 // Selector hooks for performance optimization
-export const useBatchOperationStatus = () => 
+export const useBatchOperationStatus = () =>
   useBatchProgressStore(state => state.status);
 
-export const useBatchOperationProgress = () => 
-  useBatchProgressStore(state => ({ 
-    progress: state.progress, 
-    message: state.message 
+export const useBatchOperationProgress = () =>
+  useBatchProgressStore(state => ({
+    progress: state.progress,
+    message: state.message
   }));
 
-export const useBatchOperationSummary = () => 
+export const useBatchOperationSummary = () =>
   useBatchProgressStore(state => ({
     operationType: state.operationType,
     selectedCount: state.selectedIds.length,
@@ -216,9 +492,18 @@ export const useBatchOperationSummary = () =>
     summary: state.getOperationSummary()
   }));
 
-export const useBatchOperationError = () =>
-  useBatchProgressStore(state => ({
-    error: state.error,
-    errorDetails: state.errorDetails,
-    hasError: state.status === 'error'
-  }));
\ No newline at end of file
+// OPERATIONS: Every tracked operation, newest first
+export const useOperationList = (): Operation[] => {
+  const operations = useBatchProgressStore(state => state.operations);
+  return useMemo(
+    () => Object.values(operations).sort((a, b) => b.startTime - a.startTime),
+    [operations]
+  );
+};
+
+export const useActiveOperationCount = (): number =>
+  useBatchProgressStore(state => Object.values(state.operations).filter(isOperationActive).length);
+
+export const useIsOperationKindActive = (kind: OperationKind): boolean =>
+  useBatchProgressStore(state => Object.values(state.operations)
+    .some(operation => operation.kind === kind && isOperationActive(operation)));
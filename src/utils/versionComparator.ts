@@ -0,0 +1,83 @@
+// src/utils/versionComparator.ts
+// Client counterpart of the VersionComparator script include - same semver-aware precedence rules
+
+interface ParsedVersion {
+  segments: number[];
+  preRelease: string[];
+}
+
+/**
+ * Parse a version string into numeric segments and an optional pre-release tag (build metadata is ignored)
+ */
+const parseVersion = (version: string | null | undefined): ParsedVersion | null => {
+  if (!version) return null;
+
+  let value = String(version).trim();
+  const buildIndex = value.indexOf('+');
+  if (buildIndex !== -1) {
+    value = value.substring(0, buildIndex);
+  }
+
+  let preRelease: string[] = [];
+  const preIndex = value.indexOf('-');
+  if (preIndex !== -1) {
+    preRelease = value.substring(preIndex + 1).split('.');
+    value = value.substring(0, preIndex);
+  }
+
+  const parts = value.split('.');
+  if (!parts.every(part => /^\d+$/.test(part))) return null;
+
+  return { segments: parts.map(part => parseInt(part, 10)), preRelease };
+};
+
+// A release version has higher precedence than any of its pre-releases; numeric identifiers sort first
+const comparePreRelease = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const left = a[i];
+    const right = b[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) {
+      const diff = parseInt(left, 10) - parseInt(right, 10);
+      if (diff !== 0) return diff;
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left !== right) {
+      return left < right ? -1 : 1;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Compare two version strings - negative if a < b, 0 if equal (or unparseable), positive if a > b
+ */
+export const compareVersions = (a: string | null | undefined, b: string | null | undefined): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return 0;
+
+  const length = Math.max(left.segments.length, right.segments.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (left.segments[i] ?? 0) - (right.segments[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  return comparePreRelease(left.preRelease, right.preRelease);
+};
+
+/**
+ * Whether a version meets a minimum requirement - no requirement is always met, an unknown version never is
+ */
+export const satisfiesVersion = (version: string | null | undefined, requiredVersion: string | null | undefined): boolean =>
+  !requiredVersion || (!!version && !!parseVersion(version) && compareVersions(version, requiredVersion) >= 0);